@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "deliveryStatus" TEXT NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "deliveryAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "lastError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Event_deliveryStatus_nextAttemptAt_idx" ON "Event"("deliveryStatus", "nextAttemptAt");
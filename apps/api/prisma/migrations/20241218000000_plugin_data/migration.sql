@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "PluginData" (
+    "id" TEXT NOT NULL,
+    "pluginId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PluginData_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PluginData_pluginId_key_key" ON "PluginData"("pluginId", "key");
+
+-- CreateIndex
+CREATE INDEX "PluginData_expiresAt_idx" ON "PluginData"("expiresAt");
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "WorkflowRun" (
+    "id" TEXT NOT NULL,
+    "pluginId" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "triggerType" TEXT NOT NULL,
+    "input" TEXT,
+    "output" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkflowRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowStepRun" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "output" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WorkflowStepRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowRun_pluginId_workflowId_idx" ON "WorkflowRun"("pluginId", "workflowId");
+
+-- CreateIndex
+CREATE INDEX "WorkflowRun_status_idx" ON "WorkflowRun"("status");
+
+-- CreateIndex
+CREATE INDEX "WorkflowRun_createdAt_idx" ON "WorkflowRun"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStepRun_runId_path_key" ON "WorkflowStepRun"("runId", "path");
+
+-- CreateIndex
+CREATE INDEX "WorkflowStepRun_runId_idx" ON "WorkflowStepRun"("runId");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowStepRun" ADD CONSTRAINT "WorkflowStepRun_runId_fkey" FOREIGN KEY ("runId") REFERENCES "WorkflowRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
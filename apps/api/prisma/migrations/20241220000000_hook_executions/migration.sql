@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "HookExecution" (
+    "id" TEXT NOT NULL,
+    "hookId" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "subject" TEXT,
+    "outcome" TEXT NOT NULL,
+    "error" TEXT,
+    "blockedBy" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "metadata" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HookExecution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HookHandlerExecution" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "pluginId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "order" INTEGER NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "patch" TEXT,
+
+    CONSTRAINT "HookHandlerExecution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HookExecution_hookId_createdAt_idx" ON "HookExecution"("hookId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "HookExecution_subject_idx" ON "HookExecution"("subject");
+
+-- CreateIndex
+CREATE INDEX "HookExecution_createdAt_idx" ON "HookExecution"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "HookHandlerExecution_executionId_idx" ON "HookHandlerExecution"("executionId");
+
+-- CreateIndex
+CREATE INDEX "HookHandlerExecution_pluginId_idx" ON "HookHandlerExecution"("pluginId");
+
+-- AddForeignKey
+ALTER TABLE "HookHandlerExecution" ADD CONSTRAINT "HookHandlerExecution_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "HookExecution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "EventReplay" (
+    "id" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "typePattern" TEXT,
+    "subject" TEXT,
+    "from" TIMESTAMP(3),
+    "to" TIMESTAMP(3),
+    "ratePerSecond" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "lastEventId" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventReplay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventReplay_status_idx" ON "EventReplay"("status");
+
+-- CreateIndex
+CREATE INDEX "EventReplay_createdAt_idx" ON "EventReplay"("createdAt");
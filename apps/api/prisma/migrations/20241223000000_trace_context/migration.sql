@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "traceparent" TEXT,
+ADD COLUMN     "correlationId" TEXT,
+ADD COLUMN     "causationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "HookExecution" ADD COLUMN     "traceparent" TEXT,
+ADD COLUMN     "correlationId" TEXT,
+ADD COLUMN     "causationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Event_correlationId_idx" ON "Event"("correlationId");
+
+-- CreateIndex
+CREATE INDEX "HookExecution_correlationId_idx" ON "HookExecution"("correlationId");
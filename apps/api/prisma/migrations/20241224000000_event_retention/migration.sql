@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "retainUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Event_createdAt_id_idx" ON "Event"("createdAt", "id");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Plugin" ADD COLUMN     "permissions" TEXT,
+ADD COLUMN     "permissionsApprovedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PluginAuditLog" (
+    "id" TEXT NOT NULL,
+    "pluginId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "permission" TEXT,
+    "target" TEXT,
+    "message" TEXT NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PluginAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PluginAuditLog_pluginId_createdAt_idx" ON "PluginAuditLog"("pluginId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PluginAuditLog_action_idx" ON "PluginAuditLog"("action");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PluginUpgrade" (
+    "id" TEXT NOT NULL,
+    "pluginId" TEXT NOT NULL,
+    "fromVersion" TEXT NOT NULL,
+    "toVersion" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "step" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PluginUpgrade_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PluginUpgrade_pluginId_startedAt_idx" ON "PluginUpgrade"("pluginId", "startedAt");
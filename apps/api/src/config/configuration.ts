@@ -3,9 +3,128 @@ export default () => ({
   database: {
     url: process.env.DATABASE_URL,
   },
+  events: {
+    outbox: {
+      pollIntervalMs: parseInt(process.env.EVENT_OUTBOX_POLL_MS || '1000', 10),
+      batchSize: parseInt(process.env.EVENT_OUTBOX_BATCH_SIZE || '50', 10),
+      maxAttempts: parseInt(process.env.EVENT_OUTBOX_MAX_ATTEMPTS || '10', 10),
+      retryBaseMs: parseInt(process.env.EVENT_OUTBOX_RETRY_BASE_MS || '1000', 10),
+      leaseMs: parseInt(process.env.EVENT_OUTBOX_LEASE_MS || '30000', 10),
+    },
+    replay: {
+      defaultRatePerSecond: parseInt(process.env.EVENT_REPLAY_RATE || '50', 10),
+      maxRatePerSecond: parseInt(process.env.EVENT_REPLAY_MAX_RATE || '1000', 10),
+      batchSize: parseInt(process.env.EVENT_REPLAY_BATCH_SIZE || '100', 10),
+    },
+    schemas: {
+      // Base of the `dataschema` URIs stamped on events, served by GET /events/schemas
+      baseUri: process.env.EVENT_SCHEMA_BASE_URI ||
+        `http://localhost:${process.env.PORT || '3000'}/api/events/schemas`,
+      // Reject emits whose data does not match the schema; on in development
+      validate: process.env.EVENT_SCHEMA_VALIDATION
+        ? process.env.EVENT_SCHEMA_VALIDATION === 'true'
+        : process.env.NODE_ENV === 'development',
+    },
+    retention: {
+      // Days to keep events no policy matches; 0 keeps them forever
+      defaultDays: parseInt(process.env.EVENT_RETENTION_DAYS || '0', 10),
+      // Per-type overrides, first match wins, e.g. "com.tms.stage.*=90,com.tms.**=365"
+      policies: (process.env.EVENT_RETENTION_POLICIES || '')
+        .split(',')
+        .filter(entry => entry.includes('='))
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .map(([pattern, days]) => ({ pattern, days: parseInt(days, 10) })),
+      intervalMs: parseInt(process.env.EVENT_RETENTION_INTERVAL_MS || '21600000', 10),
+      batchSize: parseInt(process.env.EVENT_RETENTION_BATCH_SIZE || '500', 10),
+      archiveDirectory: process.env.EVENT_ARCHIVE_DIR || './data/event-archives',
+      // Restored events are kept this long before retention applies again
+      restoreDays: parseInt(process.env.EVENT_RESTORE_DAYS || '7', 10),
+    },
+  },
+  scheduler: {
+    pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_MS || '5000', 10),
+    batchSize: parseInt(process.env.SCHEDULER_BATCH_SIZE || '50', 10),
+    maxAttempts: parseInt(process.env.SCHEDULER_MAX_ATTEMPTS || '5', 10),
+    retryBaseMs: parseInt(process.env.SCHEDULER_RETRY_BASE_MS || '5000', 10),
+    leaseMs: parseInt(process.env.SCHEDULER_LEASE_MS || '60000', 10),
+  },
+  webhooks: {
+    pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_MS || '2000', 10),
+    batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '20', 10),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '5000', 10),
+    maxRetryDelayMs: parseInt(process.env.WEBHOOK_MAX_RETRY_DELAY_MS || '3600000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    leaseMs: parseInt(process.env.WEBHOOK_LEASE_MS || '60000', 10),
+  },
+  hooks: {
+    // Applies to hooks whose HookConfig has no timeout
+    defaultTimeoutMs: parseInt(process.env.HOOK_DEFAULT_TIMEOUT_MS || '30000', 10),
+    // Per-hook overrides, e.g. "stage.before.advance=FAIL_OPEN,order.after.create=FAIL_CLOSED"
+    failurePolicies: Object.fromEntries(
+      (process.env.HOOK_FAILURE_POLICIES || '')
+        .split(',')
+        .filter(entry => entry.includes('='))
+        .map(entry => entry.split('=').map(part => part.trim())),
+    ),
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.HOOK_BREAKER_THRESHOLD || '5', 10),
+      resetMs: parseInt(process.env.HOOK_BREAKER_RESET_MS || '30000', 10),
+    },
+    trace: {
+      enabled: process.env.HOOK_TRACE_ENABLED !== 'false',
+      retentionMs: parseInt(process.env.HOOK_TRACE_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000), 10),
+      purgeIntervalMs: parseInt(process.env.HOOK_TRACE_PURGE_MS || '3600000', 10),
+    },
+  },
   plugins: {
     directory: process.env.PLUGIN_DIR || './plugins',
     autoEnable: process.env.PLUGIN_AUTO_ENABLE === 'true',
+    // Grant requested permissions without admin approval; on in development
+    autoApprovePermissions: process.env.PLUGIN_AUTO_APPROVE_PERMISSIONS
+      ? process.env.PLUGIN_AUTO_APPROVE_PERMISSIONS === 'true'
+      : process.env.NODE_ENV === 'development',
+    // Accept unsigned plugin packages and packages of publishers not in the trust store
+    devMode: process.env.PLUGIN_DEV_MODE
+      ? process.env.PLUGIN_DEV_MODE === 'true'
+      : process.env.NODE_ENV === 'development',
+    // Key secret configuration values are encrypted with; a fixed key in development
+    secretKey: process.env.PLUGIN_SECRET_KEY ||
+      (process.env.NODE_ENV === 'development' ? 'tms-development-plugin-secret-key' : undefined),
+    packages: {
+      // JSON file with the public keys of trusted publishers: { "keys": [{ keyId, publicKey, name }] }
+      trustStore: process.env.PLUGIN_TRUST_STORE || './config/plugin-trust-store.json',
+      maxSizeMb: parseInt(process.env.PLUGIN_PACKAGE_MAX_MB || '50', 10),
+    },
+    dataStore: {
+      purgeIntervalMs: parseInt(process.env.PLUGIN_DATA_PURGE_MS || '60000', 10),
+    },
+    isolation: {
+      // 'none' loads plugins into the API process, 'worker' runs each in a worker thread
+      mode: process.env.PLUGIN_ISOLATION || 'none',
+      memoryLimitMb: parseInt(process.env.PLUGIN_WORKER_MEMORY_MB || '128', 10),
+      callTimeoutMs: parseInt(process.env.PLUGIN_WORKER_CALL_TIMEOUT_MS || '30000', 10),
+      heartbeatIntervalMs: parseInt(process.env.PLUGIN_WORKER_HEARTBEAT_MS || '1000', 10),
+      heartbeatTimeoutMs: parseInt(process.env.PLUGIN_WORKER_HEARTBEAT_TIMEOUT_MS || '5000', 10),
+      maxRestarts: parseInt(process.env.PLUGIN_WORKER_MAX_RESTARTS || '5', 10),
+      restartWindowMs: parseInt(process.env.PLUGIN_WORKER_RESTART_WINDOW_MS || '300000', 10),
+    },
+    upgrade: {
+      // A plugin not answering its health check in time after an upgrade is rolled back
+      healthCheckTimeoutMs: parseInt(process.env.PLUGIN_UPGRADE_HEALTH_TIMEOUT_MS || '10000', 10),
+    },
+    health: {
+      // A plugin failing maxErrorRate of at least minInvocations calls within
+      // windowMs is quarantined: unloaded and set to ERROR until enabled again
+      quarantine: process.env.PLUGIN_QUARANTINE !== 'false',
+      windowMs: parseInt(process.env.PLUGIN_ERROR_WINDOW_MS || '300000', 10),
+      minInvocations: parseInt(process.env.PLUGIN_ERROR_MIN_INVOCATIONS || '20', 10),
+      maxErrorRate: parseFloat(process.env.PLUGIN_ERROR_MAX_RATE || '0.5'),
+      recentErrors: parseInt(process.env.PLUGIN_RECENT_ERRORS || '20', 10),
+      // Defaults for plugins implementing healthCheck; the manifest's health overrides them
+      checkIntervalMs: parseInt(process.env.PLUGIN_HEALTH_CHECK_INTERVAL_MS || '60000', 10),
+      unhealthyThreshold: parseInt(process.env.PLUGIN_HEALTH_UNHEALTHY_THRESHOLD || '3', 10),
+    },
   },
   cors: {
     origin: process.env.CORS_ORIGIN?.split(',') || true,
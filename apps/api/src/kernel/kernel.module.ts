@@ -1,22 +1,70 @@
 import { Module, Global } from '@nestjs/common';
 import { EventBusService } from './services/event-bus.service';
+import { OutboxDispatcherService } from './services/outbox-dispatcher.service';
+import { SchedulerService } from './services/scheduler.service';
 import { ContractService } from './services/contract.service';
 import { HookService } from './services/hook.service';
+import { HookTraceService } from './services/hook-trace.service';
 import { PluginRuntimeService } from './services/plugin-runtime.service';
+import { PluginRouterService } from './services/plugin-router.service';
+import { PluginDataStoreService } from './services/plugin-data-store.service';
+import { WorkflowEngineService } from './services/workflow-engine.service';
+import { WebhookDispatcherService } from './services/webhook-dispatcher.service';
+import { EventStreamService } from './services/event-stream.service';
+import { EventReplayService } from './services/event-replay.service';
+import { EventSchemaService } from './services/event-schema.service';
+import { EventArchiveService } from './services/event-archive.service';
+import { EventRetentionService } from './services/event-retention.service';
+import { PluginPermissionService } from './services/plugin-permission.service';
+import { ServiceRegistryService } from './services/service-registry.service';
+import { PluginHealthService } from './services/plugin-health.service';
+import { PluginSecretsService } from './services/plugin-secrets.service';
 
 @Global()
 @Module({
   providers: [
     EventBusService,
+    OutboxDispatcherService,
+    SchedulerService,
     ContractService,
     HookService,
+    HookTraceService,
     PluginRuntimeService,
+    PluginRouterService,
+    PluginDataStoreService,
+    WorkflowEngineService,
+    WebhookDispatcherService,
+    EventStreamService,
+    EventReplayService,
+    EventSchemaService,
+    EventArchiveService,
+    EventRetentionService,
+    PluginPermissionService,
+    ServiceRegistryService,
+    PluginHealthService,
+    PluginSecretsService,
   ],
   exports: [
     EventBusService,
+    OutboxDispatcherService,
+    SchedulerService,
     ContractService,
     HookService,
+    HookTraceService,
     PluginRuntimeService,
+    PluginRouterService,
+    PluginDataStoreService,
+    WorkflowEngineService,
+    WebhookDispatcherService,
+    EventStreamService,
+    EventReplayService,
+    EventSchemaService,
+    EventArchiveService,
+    EventRetentionService,
+    PluginPermissionService,
+    ServiceRegistryService,
+    PluginHealthService,
+    PluginSecretsService,
   ],
 })
 export class KernelModule {}
@@ -0,0 +1,86 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CloudEvent } from '@tms/contracts';
+
+/**
+ * CloudEvents HTTP protocol binding (v1.0) for outbound webhooks, plus the
+ * HMAC signature receivers use to authenticate deliveries.
+ *
+ * The signature header has the form `t=<unix seconds>,v1=<hex>` where the
+ * digest is HMAC-SHA256 over `${t}.${body}` with the subscription secret.
+ */
+
+export type CloudEventHttpMode = 'STRUCTURED' | 'BINARY';
+
+export const SIGNATURE_HEADER = 'x-tms-signature';
+
+export interface CloudEventHttpRequest {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Encode an event as an HTTP request body and headers
+ */
+export function toHttpRequest(event: CloudEvent, mode: CloudEventHttpMode): CloudEventHttpRequest {
+  if (mode === 'STRUCTURED') {
+    return {
+      headers: { 'content-type': 'application/cloudevents+json; charset=utf-8' },
+      body: JSON.stringify(event),
+    };
+  }
+
+  // Binary mode: attributes travel as ce-* headers, data is the body
+  const headers: Record<string, string> = {
+    'content-type': event.datacontenttype || 'application/json',
+  };
+  for (const [attribute, value] of Object.entries(event)) {
+    if (attribute === 'data' || attribute === 'datacontenttype' || value === undefined) continue;
+    headers[`ce-${attribute}`] = encodeHeaderValue(String(value));
+  }
+
+  return {
+    headers,
+    body: event.data === undefined
+      ? ''
+      : typeof event.data === 'string' ? event.data : JSON.stringify(event.data),
+  };
+}
+
+/**
+ * Percent-encode space, '"', '%' and anything outside printable ASCII, as
+ * the binding requires for ce-* header values
+ */
+function encodeHeaderValue(value: string): string {
+  return Array.from(value)
+    .map(char => (/[\x21-\x7E]/.test(char) && char !== '"' && char !== '%' ? char : encodeURIComponent(char)))
+    .join('');
+}
+
+/**
+ * Signature header value for a request body
+ */
+export function signPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header, rejecting timestamps outside the tolerance
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = 300,
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => part.trim().split('=', 2) as [string, string]),
+  );
+  const timestamp = parseInt(parts.t, 10);
+  if (!parts.v1 || Number.isNaN(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,80 @@
+import { nextCronOccurrence, parseCron } from './cron';
+
+// Times are server-local, so dates are built with the local-time constructor
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, steps and lists', () => {
+    const fields = parseCron('*/15 9-17 1,15 * 1-5');
+
+    expect([...fields.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...fields.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...fields.daysOfMonth]).toEqual([1, 15]);
+    expect(fields.months.size).toBe(12);
+    expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('runs a single value with a step to the end of the range', () => {
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+    expect([...parseCron('0-30/10 * * * *').minutes]).toEqual([0, 10, 20, 30]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('records which day fields are restricted', () => {
+    expect(parseCron('0 0 * * *')).toMatchObject({ dayOfMonthRestricted: false, dayOfWeekRestricted: false });
+    expect(parseCron('0 0 1 * 1')).toMatchObject({ dayOfMonthRestricted: true, dayOfWeekRestricted: true });
+  });
+
+  it('rejects expressions without five fields', () => {
+    expect(() => parseCron('* * * *')).toThrow('Cron expression must have 5 fields');
+    expect(() => parseCron('* * * * * *')).toThrow('Cron expression must have 5 fields');
+  });
+
+  it.each(['a * * * *', '1-* * * * *', '*/ * * * *', '1,,2 * * * *'])('rejects the invalid field in %s', expression => {
+    expect(() => parseCron(expression)).toThrow('Invalid cron field');
+  });
+
+  it.each(['60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '* * * * 8', '5-1 * * * *', '*/0 * * * *'])(
+    'rejects the out-of-range field in %s',
+    expression => {
+      expect(() => parseCron(expression)).toThrow('Cron field out of range');
+    },
+  );
+});
+
+describe('nextCronOccurrence', () => {
+  it('returns the next matching minute strictly after the given time', () => {
+    expect(nextCronOccurrence('*/15 * * * *', at(2024, 3, 10, 8, 7))).toEqual(at(2024, 3, 10, 8, 15));
+    expect(nextCronOccurrence('*/15 * * * *', at(2024, 3, 10, 8, 15))).toEqual(at(2024, 3, 10, 8, 30));
+  });
+
+  it('ignores seconds of the given time', () => {
+    const from = new Date(2024, 2, 10, 8, 14, 59, 999);
+    expect(nextCronOccurrence('* * * * *', from)).toEqual(at(2024, 3, 10, 8, 15));
+  });
+
+  it('rolls over to the next day, month and year', () => {
+    expect(nextCronOccurrence('30 6 * * *', at(2024, 3, 10, 7))).toEqual(at(2024, 3, 11, 6, 30));
+    expect(nextCronOccurrence('0 0 1 * *', at(2024, 1, 31, 12))).toEqual(at(2024, 2, 1));
+    expect(nextCronOccurrence('0 0 1 1 *', at(2024, 6, 1))).toEqual(at(2025, 1, 1));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-03-10 is a Sunday; the 15th or any Monday matches
+    expect(nextCronOccurrence('0 9 15 * 1', at(2024, 3, 10, 12))).toEqual(at(2024, 3, 11, 9));
+    expect(nextCronOccurrence('0 9 15 * 1', at(2024, 3, 11, 12))).toEqual(at(2024, 3, 15, 9));
+  });
+
+  it('matches both day fields when only one is restricted', () => {
+    expect(nextCronOccurrence('0 9 * * 1-5', at(2024, 3, 8, 12))).toEqual(at(2024, 3, 11, 9));
+    expect(nextCronOccurrence('0 9 29 2 *', at(2024, 3, 1))).toEqual(at(2028, 2, 29, 9));
+  });
+
+  it('throws for expressions that never match', () => {
+    expect(() => nextCronOccurrence('0 0 31 2 *', at(2024, 1, 1))).toThrow('Cron expression never matches');
+  });
+});
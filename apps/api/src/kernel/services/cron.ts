@@ -0,0 +1,138 @@
+/**
+ * Minimal five-field cron support (minute hour day-of-month month day-of-week)
+ * for scheduled workflow triggers. Fields accept *, numbers, ranges (1-5),
+ * steps (*\/15, 0-30/10) and comma-separated lists. Times are server-local.
+ */
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week, 0 and 7 are Sunday
+];
+
+// Upper bound for the search; a valid expression matches within a few years
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+/**
+ * Parse a cron expression, throwing on invalid syntax
+ */
+export function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELD_RANGES[i][0], FIELD_RANGES[i][1]),
+  );
+
+  // Sunday may be written as 7
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Next time strictly after `from` that matches the expression
+ */
+export function nextCronOccurrence(expression: string, from: Date = new Date()): Date {
+  const fields = parseCron(expression);
+  const candidate = new Date(from.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!fields.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(fields, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!fields.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!fields.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(date.getDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getDay());
+
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field: ${field}`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(n => parseInt(n, 10));
+      start = from;
+      // A single value with a step runs to the end of the range (5/15)
+      end = to ?? (stepText ? max : from);
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field out of range: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import { CloudEvent, matchesTypePattern } from '@tms/contracts';
+import { PrismaService } from '@/database/prisma.service';
+import { EventDeliveryStatus, toEventRecord } from './event-record';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Manifest entry of one monthly archive file
+ */
+export interface EventArchiveEntry {
+  month: string; // YYYY-MM of the event time
+  file: string;
+  eventCount: number;
+  firstEventTime: string;
+  lastEventTime: string;
+  types: Record<string, number>;
+  sizeBytes: number;
+  sha256: string;
+  updatedAt: string;
+}
+
+export interface EventRestoreOptions {
+  // Type pattern, e.g. `com.tms.shipment.*` (see matchesTypePattern)
+  type?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Rows inserted per statement when restoring
+const RESTORE_BATCH_SIZE = 500;
+
+/**
+ * Compressed monthly archives of expired events on local disk.
+ *
+ * Events are appended to `events-YYYY-MM.jsonl.gz` by the month of their
+ * time, one CloudEvent per line, each append a gzip member of its own. The
+ * manifest lists every archive with counts per type and a checksum.
+ * Archived events can be restored into the Event table for replay.
+ */
+@Injectable()
+export class EventArchiveService {
+  private readonly logger = new Logger(EventArchiveService.name);
+  private readonly directory: string;
+  private readonly restoreDays: number;
+
+  // Archive writes are serialized so the manifest stays consistent
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.directory = path.resolve(
+      this.configService.get<string>('events.retention.archiveDirectory') ?? './data/event-archives',
+    );
+    this.restoreDays = this.configService.get<number>('events.retention.restoreDays') ?? 7;
+  }
+
+  /**
+   * Append events to the archives of their months. Events already archived,
+   * such as restored events that expire again, are skipped.
+   */
+  append(events: CloudEvent[]): Promise<void> {
+    return this.serialize(async () => {
+      const byMonth = new Map<string, CloudEvent[]>();
+      for (const event of events) {
+        const month = event.time.slice(0, 7);
+        byMonth.set(month, [...(byMonth.get(month) || []), event]);
+      }
+
+      await fs.mkdir(this.directory, { recursive: true });
+      const manifest = await this.readManifest();
+
+      for (const [month, batch] of byMonth) {
+        const existing = manifest.find(e => e.month === month);
+        const archived = new Set(existing ? (await this.readEntry(existing)).map(event => event.id) : []);
+        const monthEvents = batch.filter(event => !archived.has(event.id));
+        if (monthEvents.length === 0) continue;
+
+        const file = `events-${month}.jsonl.gz`;
+        const lines = monthEvents.map(event => JSON.stringify(event)).join('\n') + '\n';
+        await fs.appendFile(path.join(this.directory, file), await gzipAsync(lines));
+
+        const entry = existing || this.emptyEntry(month, file);
+        if (!existing) manifest.push(entry);
+
+        for (const event of monthEvents) {
+          entry.eventCount++;
+          entry.types[event.type] = (entry.types[event.type] || 0) + 1;
+          if (!entry.firstEventTime || event.time < entry.firstEventTime) entry.firstEventTime = event.time;
+          if (!entry.lastEventTime || event.time > entry.lastEventTime) entry.lastEventTime = event.time;
+        }
+
+        const content = await fs.readFile(path.join(this.directory, file));
+        entry.sizeBytes = content.length;
+        entry.sha256 = createHash('sha256').update(content).digest('hex');
+        entry.updatedAt = new Date().toISOString();
+      }
+
+      await this.writeManifest(manifest);
+    });
+  }
+
+  /**
+   * All archives, oldest month first
+   */
+  async list(): Promise<EventArchiveEntry[]> {
+    return this.readManifest();
+  }
+
+  /**
+   * Read the events of a month's archive, dropping duplicates left by an
+   * interrupted retention run
+   */
+  async read(month: string): Promise<CloudEvent[]> {
+    const entry = (await this.readManifest()).find(e => e.month === month);
+    if (!entry) {
+      throw new Error(`No archive for ${month}`);
+    }
+    return this.readEntry(entry);
+  }
+
+  /**
+   * Load archived events back into the Event table so they can be replayed.
+   * They are stored as delivered, so subscribers only see them through a
+   * replay, and kept for `restoreDays` before retention applies again.
+   */
+  async restore(month: string, options: EventRestoreOptions = {}): Promise<{ restored: number; skipped: number }> {
+    const events = (await this.read(month)).filter(event =>
+      (!options.type || matchesTypePattern(options.type, event.type)) &&
+      (!options.from || new Date(event.time) >= options.from) &&
+      (!options.to || new Date(event.time) <= options.to),
+    );
+
+    const retainUntil = new Date(Date.now() + this.restoreDays * 24 * 60 * 60 * 1000);
+    let restored = 0;
+
+    for (let i = 0; i < events.length; i += RESTORE_BATCH_SIZE) {
+      const batch = events.slice(i, i + RESTORE_BATCH_SIZE);
+      const existing = await this.prisma.event.findMany({
+        where: { eventId: { in: batch.map(event => event.id) } },
+        select: { eventId: true },
+      });
+      const present = new Set(existing.map(row => row.eventId));
+
+      const missing = batch.filter(event => !present.has(event.id));
+      if (missing.length === 0) continue;
+
+      const result = await this.prisma.event.createMany({
+        data: missing.map(event => ({
+          ...toEventRecord(event),
+          deliveryStatus: EventDeliveryStatus.DELIVERED,
+          deliveredAt: new Date(),
+          retainUntil,
+        })),
+      });
+      restored += result.count;
+    }
+
+    this.logger.log(`Restored ${restored} events from the ${month} archive`);
+    return { restored, skipped: events.length - restored };
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readEntry(entry: EventArchiveEntry): Promise<CloudEvent[]> {
+    const content = await fs.readFile(path.join(this.directory, entry.file));
+    const seen = new Set<string>();
+    const events: CloudEvent[] = [];
+
+    for (const line of (await gunzipAsync(content)).toString('utf8').split('\n')) {
+      if (!line.trim()) continue;
+      const event: CloudEvent = JSON.parse(line);
+      if (seen.has(event.id)) continue;
+      seen.add(event.id);
+      events.push(event);
+    }
+
+    return events;
+  }
+
+  private emptyEntry(month: string, file: string): EventArchiveEntry {
+    return {
+      month,
+      file,
+      eventCount: 0,
+      firstEventTime: '',
+      lastEventTime: '',
+      types: {},
+      sizeBytes: 0,
+      sha256: '',
+      updatedAt: '',
+    };
+  }
+
+  private async readManifest(): Promise<EventArchiveEntry[]> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, MANIFEST_FILE), 'utf8');
+      return JSON.parse(content).archives;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async writeManifest(archives: EventArchiveEntry[]): Promise<void> {
+    archives.sort((a, b) => a.month.localeCompare(b.month));
+
+    // Write and rename so readers never see a partial manifest
+    const target = path.join(this.directory, MANIFEST_FILE);
+    await fs.writeFile(`${target}.tmp`, JSON.stringify({ version: 1, archives }, null, 2));
+    await fs.rename(`${target}.tmp`, target);
+  }
+}
@@ -1,42 +1,113 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { CloudEvent, createCloudEvent } from '@tms/contracts';
+import { Prisma } from '@prisma/client';
+import {
+  CloudEvent,
+  EventFilter,
+  createCloudEvent,
+  matchesEventFilters,
+  matchesTypePattern,
+  validateEventFilter,
+} from '@tms/contracts';
 import { PrismaService } from '@/database/prisma.service';
+import { OutboxDispatcherService } from './outbox-dispatcher.service';
+import { EventSchemaService } from './event-schema.service';
+import { runWithTrace, stampTrace, traceFromEvent } from './trace-context';
+import {
+  EVENT_DELIVERY_CHANNEL,
+  EventDeliveryStatus,
+  toCloudEvent,
+  toEventRecord,
+} from './event-record';
+
+export interface EmitOptions {
+  /**
+   * Transaction to write the event in. The event is only delivered once the
+   * transaction has committed, so it is never lost or published for a
+   * rolled-back change.
+   */
+  tx?: Prisma.TransactionClient;
+}
+
+export interface SubscribeOptions {
+  /**
+   * CloudEvents subscription filters, all of which must match
+   */
+  filters?: EventFilter[];
+}
+
+export interface EventQuery {
+  type?: string;
+  source?: string;
+  subject?: string;
+  correlationId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface EventPage {
+  events: CloudEvent[];
+  nextCursor?: string;
+}
+
+const MAX_PAGE_SIZE = 1000;
+
+type EventHandler = (event: CloudEvent) => void | Promise<void>;
+
+interface Subscriber {
+  pattern: string;
+  handler: EventHandler;
+  filters?: EventFilter[];
+}
 
 @Injectable()
-export class EventBusService {
+export class EventBusService implements OnModuleInit {
   private readonly logger = new Logger(EventBusService.name);
+  private readonly subscribers: Subscriber[] = [];
 
   constructor(
     private readonly eventEmitter: EventEmitter2,
     private readonly prisma: PrismaService,
+    private readonly dispatcher: OutboxDispatcherService,
+    private readonly schemas: EventSchemaService,
   ) {}
 
+  onModuleInit(): void {
+    this.eventEmitter.on(EVENT_DELIVERY_CHANNEL, (event: CloudEvent) => this.deliver(event));
+  }
+
   /**
    * Emit a CloudEvent
+   *
+   * The event is written to the outbox and delivered to subscribers by the
+   * outbox dispatcher. Pass `tx` to write it in the same transaction as the
+   * domain change it describes. Events of registered types get their
+   * `dataschema` set and, in development, their data validated. The trace
+   * context in progress is added as extension attributes.
    */
-  async emit<T = any>(event: CloudEvent<T>): Promise<void> {
+  async emit<T = any>(event: CloudEvent<T>, options: EmitOptions = {}): Promise<void> {
+    const client = options.tx || this.prisma;
+
     try {
-      // Store event in database
-      await this.prisma.event.create({
+      event = stampTrace(this.schemas.prepare(event));
+
+      // Store event in the outbox
+      await client.event.create({
         data: {
-          specVersion: event.specversion,
-          eventId: event.id,
-          source: event.source,
-          type: event.type,
-          dataContentType: event.datacontenttype,
-          dataSchema: event.dataschema,
-          subject: event.subject,
-          time: new Date(event.time),
-          data: event.data as any,
+          ...toEventRecord(event),
+          deliveryStatus: EventDeliveryStatus.PENDING,
+          nextAttemptAt: new Date(),
         },
       });
 
-      // Emit to internal event bus
-      this.eventEmitter.emit(event.type, event);
-      this.eventEmitter.emit('event.*', event); // Wildcard listener
+      // Deliver right away when not bound to a transaction; transactional
+      // events are picked up by the next poll after commit
+      if (!options.tx) {
+        this.dispatcher.schedule();
+      }
 
-      this.logger.debug(`Event emitted: ${event.type}`, {
+      this.logger.debug(`Event queued: ${event.type}`, {
         id: event.id,
         source: event.source,
         subject: event.subject,
@@ -53,7 +124,7 @@ export class EventBusService {
   async emitDomainEvent<T = any>(
     type: string,
     data: T,
-    options: {
+    options: EmitOptions & {
       source?: string;
       subject?: string;
     } = {},
@@ -65,56 +136,111 @@ export class EventBusService {
       options.subject,
     );
 
-    await this.emit(event);
+    await this.emit(event, { tx: options.tx });
   }
 
   /**
    * Subscribe to events
+   *
+   * The pattern is an event type or a glob over its dot-separated segments:
+   * `*` matches one segment and `**` any number, so `**` receives every event.
+   * Filters narrow the subscription further, e.g.
+   * `[{ sql: "data.status = 'DELIVERED'" }]`; invalid filters throw.
    */
-  on(eventPattern: string, handler: (event: CloudEvent) => void | Promise<void>): void {
-    this.eventEmitter.on(eventPattern, handler);
+  on(eventPattern: string, handler: EventHandler, options: SubscribeOptions = {}): void {
+    options.filters?.forEach(validateEventFilter);
+    this.subscribers.push({ pattern: eventPattern, handler, filters: options.filters });
   }
 
   /**
    * Unsubscribe from events
    */
-  off(eventPattern: string, handler: (event: CloudEvent) => void | Promise<void>): void {
-    this.eventEmitter.off(eventPattern, handler);
+  off(eventPattern: string, handler: EventHandler): void {
+    const index = this.subscribers.findIndex(
+      subscriber => subscriber.pattern === eventPattern && subscriber.handler === handler,
+    );
+    if (index >= 0) {
+      this.subscribers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Run the handlers of all matching subscribers, in a trace context caused
+   * by the event; a failing handler fails the delivery so the outbox retries it
+   */
+  private async deliver(event: CloudEvent): Promise<void> {
+    const matching = this.subscribers.filter(subscriber =>
+      matchesTypePattern(subscriber.pattern, event.type) &&
+      matchesEventFilters(subscriber.filters, event),
+    );
+
+    await runWithTrace(traceFromEvent(event), () =>
+      Promise.all(matching.map(subscriber => subscriber.handler(event))),
+    );
+  }
+
+  /**
+   * Get events from database, newest first
+   */
+  async getEvents(filters: EventQuery): Promise<CloudEvent[]> {
+    return (await this.getEventPage(filters)).events;
   }
 
   /**
-   * Get events from database
+   * Get a page of events, newest first in insertion order.
+   *
+   * Pass the `nextCursor` of a page to get the next one. Paging is stable
+   * under concurrent inserts: new events sort before the first page and
+   * never shift later pages.
    */
-  async getEvents(filters: {
-    type?: string;
-    source?: string;
-    subject?: string;
-    from?: Date;
-    to?: Date;
-    limit?: number;
-  }): Promise<CloudEvent[]> {
-    const events = await this.prisma.event.findMany({
+  async getEventPage(filters: EventQuery & { cursor?: string }): Promise<EventPage> {
+    const limit = Math.min(filters.limit || 100, MAX_PAGE_SIZE);
+    const cursor = filters.cursor ? this.decodeCursor(filters.cursor) : undefined;
+
+    const rows = await this.prisma.event.findMany({
       where: {
         ...(filters.type && { type: filters.type }),
         ...(filters.source && { source: filters.source }),
         ...(filters.subject && { subject: filters.subject }),
-        ...(filters.from && { time: { gte: filters.from } }),
-        ...(filters.to && { time: { lte: filters.to } }),
+        ...(filters.correlationId && { correlationId: filters.correlationId }),
+        ...((filters.from || filters.to) && {
+          time: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lte: filters.to }),
+          },
+        }),
+        ...(cursor && {
+          OR: [
+            { createdAt: { lt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+          ],
+        }),
       },
-      orderBy: { time: 'desc' },
-      take: filters.limit || 100,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
     });
 
-    return events.map(e => ({
-      specversion: e.specVersion as '1.0',
-      id: e.eventId,
-      source: e.source,
-      type: e.type,
-      datacontenttype: e.dataContentType || undefined,
-      dataschema: e.dataSchema || undefined,
-      subject: e.subject || undefined,
-      time: e.time.toISOString(),
-      data: e.data,
-    }));
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      events: page.map(toCloudEvent),
+      nextCursor: rows.length > limit ? this.encodeCursor(last.createdAt, last.id) : undefined,
+    };
+  }
+
+  private encodeCursor(createdAt: Date, id: string): string {
+    return Buffer.from(JSON.stringify([createdAt.toISOString(), id])).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): { createdAt: Date; id: string } {
+    try {
+      const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      const date = new Date(createdAt);
+      if (typeof id !== 'string' || Number.isNaN(date.getTime())) throw new Error();
+      return { createdAt: date, id };
+    } catch {
+      throw new Error('Invalid event cursor');
+    }
   }
 }
@@ -0,0 +1,72 @@
+import { CloudEvent } from '@tms/contracts';
+
+/**
+ * Outbox delivery states for persisted events
+ */
+export const EventDeliveryStatus = {
+  PENDING: 'PENDING',
+  DISPATCHING: 'DISPATCHING',
+  DELIVERED: 'DELIVERED',
+  FAILED: 'FAILED',
+} as const;
+
+export type EventDeliveryStatus = typeof EventDeliveryStatus[keyof typeof EventDeliveryStatus];
+
+/**
+ * Internal emitter channel the outbox delivers events on; subscribers are
+ * matched by EventBusService
+ */
+export const EVENT_DELIVERY_CHANNEL = 'tms.outbox.deliver';
+
+/**
+ * Map a CloudEvent to the columns of the Event table
+ */
+export function toEventRecord(event: CloudEvent) {
+  return {
+    specVersion: event.specversion,
+    eventId: event.id,
+    source: event.source,
+    type: event.type,
+    dataContentType: event.datacontenttype,
+    dataSchema: event.dataschema,
+    subject: event.subject,
+    time: new Date(event.time),
+    data: event.data !== undefined ? JSON.stringify(event.data) : null,
+    traceparent: event.traceparent,
+    correlationId: event.correlationid,
+    causationId: event.causationid,
+  };
+}
+
+/**
+ * Map a row of the Event table back to a CloudEvent
+ */
+export function toCloudEvent(record: {
+  specVersion: string;
+  eventId: string;
+  source: string;
+  type: string;
+  dataContentType: string | null;
+  dataSchema: string | null;
+  subject: string | null;
+  time: Date;
+  data: string | null;
+  traceparent?: string | null;
+  correlationId?: string | null;
+  causationId?: string | null;
+}): CloudEvent {
+  return {
+    specversion: record.specVersion as '1.0',
+    id: record.eventId,
+    source: record.source,
+    type: record.type,
+    datacontenttype: record.dataContentType || undefined,
+    dataschema: record.dataSchema || undefined,
+    subject: record.subject || undefined,
+    time: record.time.toISOString(),
+    data: record.data ? JSON.parse(record.data) : undefined,
+    ...(record.traceparent && { traceparent: record.traceparent }),
+    ...(record.correlationId && { correlationid: record.correlationId }),
+    ...(record.causationId && { causationid: record.causationId }),
+  };
+}
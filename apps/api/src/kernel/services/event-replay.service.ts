@@ -0,0 +1,320 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventReplay, Prisma, WebhookSubscription } from '@prisma/client';
+import { CloudEvent, matchesSubject, matchesTypePattern } from '@tms/contracts';
+import { PrismaService } from '@/database/prisma.service';
+import { PluginRuntimeService } from './plugin-runtime.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { toCloudEvent } from './event-record';
+
+/**
+ * Replay states
+ */
+export const EventReplayStatus = {
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type EventReplayStatus = typeof EventReplayStatus[keyof typeof EventReplayStatus];
+
+export type EventReplayTargetType = 'PLUGIN' | 'WEBHOOK';
+
+export interface EventReplaySelection {
+  // Type pattern, e.g. `com.tms.shipment.*` (see matchesTypePattern)
+  type?: string;
+  // Subject glob, e.g. `shipment/*`
+  subject?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface EventReplayRequest extends EventReplaySelection {
+  target: { type: EventReplayTargetType; id: string };
+  ratePerSecond?: number;
+}
+
+// Resolved replay target; `accepts` applies the subscriber's own subscription
+interface ReplayTarget {
+  accepts(event: CloudEvent): boolean;
+  deliver(event: CloudEvent): Promise<void>;
+}
+
+/**
+ * Re-delivers stored events to a single subscriber.
+ *
+ * Events are read from the Event table in time order, narrowed to the ones
+ * the target subscribes to and handed to that target only: a plugin's event
+ * handlers, or a webhook subscription's delivery queue. Delivery is paced to
+ * the requested rate and progress is persisted on the EventReplay row.
+ */
+@Injectable()
+export class EventReplayService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(EventReplayService.name);
+  private readonly cancelled = new Set<string>();
+
+  private readonly defaultRatePerSecond: number;
+  private readonly maxRatePerSecond: number;
+  private readonly batchSize: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly pluginRuntime: PluginRuntimeService,
+    private readonly webhookDispatcher: WebhookDispatcherService,
+  ) {
+    this.defaultRatePerSecond = this.configService.get<number>('events.replay.defaultRatePerSecond') ?? 50;
+    this.maxRatePerSecond = this.configService.get<number>('events.replay.maxRatePerSecond') ?? 1000;
+    this.batchSize = this.configService.get<number>('events.replay.batchSize') ?? 100;
+  }
+
+  /**
+   * Replays run in-process; the ones cut off by a restart are failed
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const result = await this.prisma.eventReplay.updateMany({
+      where: { status: EventReplayStatus.RUNNING },
+      data: {
+        status: EventReplayStatus.FAILED,
+        error: 'Interrupted by restart',
+        completedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.logger.warn(`Marked ${result.count} interrupted event replays as failed`);
+    }
+  }
+
+  /**
+   * Number of events a replay would deliver to its target
+   */
+  async count(request: EventReplayRequest): Promise<number> {
+    const target = await this.resolveTarget(request.target);
+    let count = 0;
+
+    await this.scan(request, async (event) => {
+      if (target.accepts(event)) count++;
+      return true;
+    });
+
+    return count;
+  }
+
+  /**
+   * Start a replay in the background
+   */
+  async start(request: EventReplayRequest): Promise<EventReplay> {
+    const ratePerSecond = request.ratePerSecond ?? this.defaultRatePerSecond;
+    if (ratePerSecond < 1 || ratePerSecond > this.maxRatePerSecond) {
+      throw new Error(`Rate must be between 1 and ${this.maxRatePerSecond} events per second`);
+    }
+
+    const total = await this.count(request);
+
+    const replay = await this.prisma.eventReplay.create({
+      data: {
+        targetType: request.target.type,
+        targetId: request.target.id,
+        typePattern: request.type,
+        subject: request.subject,
+        from: request.from,
+        to: request.to,
+        ratePerSecond,
+        status: EventReplayStatus.RUNNING,
+        total,
+        startedAt: new Date(),
+      },
+    });
+
+    this.run(replay, request).catch(error =>
+      this.logger.error(`Event replay ${replay.id} crashed`, error),
+    );
+
+    return replay;
+  }
+
+  /**
+   * Stop a running replay after the event in flight
+   */
+  async cancel(replayId: string): Promise<void> {
+    const result = await this.prisma.eventReplay.updateMany({
+      where: { id: replayId, status: EventReplayStatus.RUNNING },
+      data: { status: EventReplayStatus.CANCELLED, completedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new Error(`Replay ${replayId} is not running`);
+    }
+    this.cancelled.add(replayId);
+  }
+
+  private async run(replay: EventReplay, request: EventReplayRequest): Promise<void> {
+    const intervalMs = 1000 / replay.ratePerSecond;
+    const startedAt = Date.now();
+    let processed = 0;
+    let failed = 0;
+    let lastEventId: string | undefined;
+    let lastError: string | undefined;
+
+    const saveProgress = () =>
+      this.prisma.eventReplay.update({
+        where: { id: replay.id },
+        data: { processed, failed, lastEventId, error: lastError },
+      });
+
+    try {
+      const target = await this.resolveTarget(request.target);
+
+      await this.scan(request, async (event) => {
+        if (this.cancelled.has(replay.id)) return false;
+        if (!target.accepts(event)) return true;
+
+        // Pace deliveries to the requested rate
+        const due = startedAt + processed * intervalMs;
+        if (due > Date.now()) {
+          await new Promise(resolve => setTimeout(resolve, due - Date.now()));
+        }
+
+        try {
+          await target.deliver(event);
+        } catch (error) {
+          failed++;
+          lastError = `${event.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+        processed++;
+        lastEventId = event.id;
+        return true;
+      }, saveProgress);
+
+      if (this.cancelled.delete(replay.id)) {
+        await saveProgress();
+        this.logger.log(`Event replay ${replay.id} cancelled after ${processed} events`);
+        return;
+      }
+
+      await this.prisma.eventReplay.update({
+        where: { id: replay.id },
+        data: {
+          processed,
+          failed,
+          lastEventId,
+          error: lastError,
+          status: EventReplayStatus.COMPLETED,
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Event replay ${replay.id} to ${replay.targetType} ${replay.targetId} completed: ` +
+          `${processed} events, ${failed} failed`,
+      );
+    } catch (error) {
+      this.cancelled.delete(replay.id);
+      await this.prisma.eventReplay.update({
+        where: { id: replay.id },
+        data: {
+          processed,
+          failed,
+          lastEventId,
+          status: EventReplayStatus.FAILED,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  private async resolveTarget(target: EventReplayRequest['target']): Promise<ReplayTarget> {
+    if (target.type === 'PLUGIN') {
+      if (!this.pluginRuntime.getPlugin(target.id)) {
+        throw new Error(`Plugin ${target.id} is not loaded`);
+      }
+
+      return {
+        accepts: (event) => this.pluginRuntime.subscribesTo(target.id, event),
+        deliver: async (event) => {
+          await this.pluginRuntime.deliverEvent(target.id, event);
+        },
+      };
+    }
+
+    const subscription: WebhookSubscription | null = await this.prisma.webhookSubscription.findUnique({
+      where: { id: target.id },
+    });
+    if (!subscription) {
+      throw new Error(`Webhook subscription ${target.id} not found`);
+    }
+
+    return {
+      accepts: (event) => this.webhookDispatcher.matches(subscription, event),
+      deliver: (event) => this.webhookDispatcher.enqueueFor(subscription, event),
+    };
+  }
+
+  /**
+   * Walk the selected events in time order until the visitor returns false.
+   * The type pattern and subject glob narrow the query by their literal
+   * prefix and are matched exactly in memory.
+   */
+  private async scan(
+    selection: EventReplaySelection,
+    visit: (event: CloudEvent) => Promise<boolean>,
+    afterBatch?: () => Promise<unknown>,
+  ): Promise<void> {
+    const where: Prisma.EventWhereInput = {
+      ...(selection.type && { type: this.literalPrefix(selection.type, '*') }),
+      ...(selection.subject && { subject: this.literalPrefix(selection.subject, '*') }),
+      ...((selection.from || selection.to) && {
+        time: {
+          ...(selection.from && { gte: selection.from }),
+          ...(selection.to && { lte: selection.to }),
+        },
+      }),
+    };
+
+    let cursor: { time: Date; id: string } | undefined;
+    for (;;) {
+      const rows = await this.prisma.event.findMany({
+        where: cursor
+          ? {
+              AND: [
+                where,
+                {
+                  OR: [
+                    { time: { gt: cursor.time } },
+                    { time: cursor.time, id: { gt: cursor.id } },
+                  ],
+                },
+              ],
+            }
+          : where,
+        orderBy: [{ time: 'asc' }, { id: 'asc' }],
+        take: this.batchSize,
+      });
+
+      for (const row of rows) {
+        const event = toCloudEvent(row);
+        if (selection.type && !matchesTypePattern(selection.type, event.type)) continue;
+        if (!matchesSubject(selection.subject, event.subject)) continue;
+        if (!(await visit(event))) {
+          await afterBatch?.();
+          return;
+        }
+      }
+
+      await afterBatch?.();
+
+      if (rows.length < this.batchSize) return;
+      const tail = rows[rows.length - 1];
+      cursor = { time: tail.time, id: tail.id };
+    }
+  }
+
+  private literalPrefix(pattern: string, wildcard: string): { startsWith: string } | string {
+    const index = pattern.indexOf(wildcard);
+    return index < 0 ? pattern : { startsWith: pattern.slice(0, index) };
+  }
+}
@@ -0,0 +1,153 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { matchesTypePattern } from '@tms/contracts';
+import { PrismaService } from '@/database/prisma.service';
+import { EventArchiveService } from './event-archive.service';
+import { EventDeliveryStatus, toCloudEvent } from './event-record';
+import { WebhookDeliveryStatus } from './webhook-dispatcher.service';
+
+export interface EventRetentionPolicy {
+  // Type pattern, e.g. `com.tms.stage.*` (see matchesTypePattern)
+  pattern: string;
+  // Days to keep matching events; 0 keeps them forever
+  days: number;
+}
+
+export interface EventRetentionResult {
+  archived: number;
+  byType: Record<string, number>;
+}
+
+/**
+ * Moves expired events from the Event table to the archive.
+ *
+ * Each type is kept for the days of the first policy matching it, or the
+ * default. Only events the outbox is done with are archived, and events
+ * still waiting for webhook delivery stay until the delivery finishes.
+ * Events are written to the archive before they are deleted.
+ */
+@Injectable()
+export class EventRetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EventRetentionService.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<EventRetentionResult>;
+
+  private readonly policies: EventRetentionPolicy[];
+  private readonly defaultDays: number;
+  private readonly batchSize: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly archive: EventArchiveService,
+  ) {
+    this.policies = this.configService.get<EventRetentionPolicy[]>('events.retention.policies') ?? [];
+    this.defaultDays = this.configService.get<number>('events.retention.defaultDays') ?? 0;
+    this.batchSize = this.configService.get<number>('events.retention.batchSize') ?? 500;
+  }
+
+  onModuleInit(): void {
+    const interval = this.configService.get<number>('events.retention.intervalMs') ?? 21600000;
+    this.timer = setInterval(() => {
+      this.run().catch(error => this.logger.error('Event retention run failed', error));
+    }, interval);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  getPolicies(): { defaultDays: number; policies: EventRetentionPolicy[] } {
+    return { defaultDays: this.defaultDays, policies: this.policies };
+  }
+
+  /**
+   * Days events of a type are kept, 0 for forever
+   */
+  retentionDays(type: string): number {
+    return this.policies.find(policy => matchesTypePattern(policy.pattern, type))?.days ?? this.defaultDays;
+  }
+
+  /**
+   * Archive and delete all expired events; concurrent calls share one run
+   */
+  run(): Promise<EventRetentionResult> {
+    if (!this.running) {
+      this.running = this.archiveExpired().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async archiveExpired(): Promise<EventRetentionResult> {
+    const result: EventRetentionResult = { archived: 0, byType: {} };
+    const types = await this.prisma.event.groupBy({ by: ['type'] });
+
+    for (const { type } of types) {
+      const days = this.retentionDays(type);
+      if (days <= 0) continue;
+
+      const archived = await this.archiveType(type, new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+      if (archived > 0) {
+        result.archived += archived;
+        result.byType[type] = archived;
+      }
+    }
+
+    if (result.archived > 0) {
+      this.logger.log(`Archived ${result.archived} expired events`);
+    }
+    return result;
+  }
+
+  private async archiveType(type: string, cutoff: Date): Promise<number> {
+    const now = new Date();
+    let archived = 0;
+    let cursor: { time: Date; id: string } | undefined;
+
+    for (;;) {
+      const rows = await this.prisma.event.findMany({
+        where: {
+          type,
+          time: { lt: cutoff },
+          deliveryStatus: { in: [EventDeliveryStatus.DELIVERED, EventDeliveryStatus.FAILED] },
+          OR: [{ retainUntil: null }, { retainUntil: { lt: now } }],
+          ...(cursor && {
+            AND: [{
+              OR: [
+                { time: { gt: cursor.time } },
+                { time: cursor.time, id: { gt: cursor.id } },
+              ],
+            }],
+          }),
+        },
+        orderBy: [{ time: 'asc' }, { id: 'asc' }],
+        take: this.batchSize,
+      });
+      if (rows.length === 0) return archived;
+
+      const tail = rows[rows.length - 1];
+      cursor = { time: tail.time, id: tail.id };
+
+      // Webhooks read the event when sending, so unfinished deliveries keep it
+      const busy = await this.prisma.webhookDelivery.findMany({
+        where: {
+          eventId: { in: rows.map(row => row.eventId) },
+          status: { in: [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.SENDING] },
+        },
+        select: { eventId: true },
+      });
+      const busyIds = new Set(busy.map(delivery => delivery.eventId));
+      const expired = rows.filter(row => !busyIds.has(row.eventId));
+
+      if (expired.length > 0) {
+        await this.archive.append(expired.map(toCloudEvent));
+        await this.prisma.event.deleteMany({ where: { id: { in: expired.map(row => row.id) } } });
+        archived += expired.length;
+      }
+
+      if (rows.length < this.batchSize) return archived;
+    }
+  }
+}
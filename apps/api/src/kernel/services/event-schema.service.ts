@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CloudEvent,
+  EventDataSchema,
+  EventSchemaEntry,
+  createEventSchemaRegistry,
+  eventSchemaToJsonSchema,
+  eventSchemaUri,
+  parseEventSchemaUri,
+} from '@tms/contracts';
+
+/**
+ * Schemas of event data, keyed by event type and version.
+ *
+ * Core event types are registered at startup, plugins add schemas for their
+ * own types. Emitted events are stamped with the `dataschema` URI of the
+ * latest version and, when validation is on (in development by default),
+ * rejected if their data does not match.
+ */
+@Injectable()
+export class EventSchemaService {
+  private readonly logger = new Logger(EventSchemaService.name);
+  private readonly registry = createEventSchemaRegistry();
+  private readonly baseUri: string;
+  private readonly validationEnabled: boolean;
+
+  constructor(private readonly configService: ConfigService) {
+    this.baseUri = this.configService.get<string>('events.schemas.baseUri') ??
+      'http://localhost:3000/api/events/schemas';
+    this.validationEnabled = this.configService.get<boolean>('events.schemas.validate') ?? false;
+  }
+
+  /**
+   * Register a schema for a plugin's event type. Types with schemas from
+   * the kernel or another plugin are rejected.
+   */
+  registerPluginSchema(
+    pluginId: string,
+    type: string,
+    schema: EventDataSchema,
+    options: { version?: number; jsonSchema?: Record<string, any> } = {},
+  ): EventSchemaEntry {
+    const foreign = this.registry.list().find(entry => entry.type === type && entry.owner !== pluginId);
+    if (foreign) {
+      throw new Error(
+        `Event type ${type} has schemas from ${foreign.owner ? `plugin ${foreign.owner}` : 'the kernel'}`,
+      );
+    }
+
+    const entry = this.registry.register(type, schema, { ...options, owner: pluginId });
+    this.logger.log(`Registered event schema ${type} v${entry.version} for plugin ${pluginId}`);
+    return entry;
+  }
+
+  unregisterPlugin(pluginId: string): void {
+    this.registry.unregisterOwner(pluginId);
+  }
+
+  list(): EventSchemaEntry[] {
+    return this.registry.list();
+  }
+
+  get(type: string, version?: number): EventSchemaEntry | undefined {
+    return this.registry.get(type, version);
+  }
+
+  uri(entry: EventSchemaEntry): string {
+    return eventSchemaUri(this.baseUri, entry.type, entry.version);
+  }
+
+  toJsonSchema(entry: EventSchemaEntry): Record<string, any> {
+    return eventSchemaToJsonSchema(entry, this.uri(entry));
+  }
+
+  /**
+   * Stamp `dataschema` on an event of a registered type and validate its
+   * data if enabled. Events naming their own `dataschema` are validated
+   * against that version when it is one of ours.
+   */
+  prepare<T>(event: CloudEvent<T>): CloudEvent<T> {
+    let version: number | undefined;
+
+    if (event.dataschema) {
+      const parsed = parseEventSchemaUri(this.baseUri, event.dataschema);
+      if (!parsed || parsed.type !== event.type) return event;
+      version = parsed.version;
+    } else {
+      const latest = this.registry.get(event.type);
+      if (!latest) return event;
+      version = latest.version;
+      event = { ...event, dataschema: eventSchemaUri(this.baseUri, event.type, version) };
+    }
+
+    if (this.validationEnabled) {
+      const result = this.registry.validate(event.type, event.data, version);
+      if (!result.valid) {
+        const details = result.errors?.map(error => `${error.field}: ${error.message}`).join(', ');
+        throw new Error(`Event ${event.type} does not match schema v${version}: ${details}`);
+      }
+    }
+
+    return event;
+  }
+}
@@ -0,0 +1,135 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { CloudEvent, matchesSubject, matchesTypePattern } from '@tms/contracts';
+import { PrismaService } from '@/database/prisma.service';
+import { EventBusService } from './event-bus.service';
+import { EventDeliveryStatus, toCloudEvent } from './event-record';
+
+export interface EventStreamFilter {
+  // Type patterns, e.g. `com.tms.stage.*` (see matchesTypePattern)
+  types?: string[];
+  // Subject glob, e.g. `shipment/*`
+  subject?: string;
+}
+
+// Events replayed per query when a client resumes
+const REPLAY_BATCH_SIZE = 200;
+
+// Outbox states of events that are still to be delivered live
+const QUEUED_STATUSES: string[] = [EventDeliveryStatus.PENDING, EventDeliveryStatus.DISPATCHING];
+
+/**
+ * Live feed of delivered events for SSE and WebSocket clients.
+ *
+ * A single event bus listener feeds all streams. A client that reconnects
+ * with the id of the last event it saw first gets the events persisted after
+ * it, then continues with live events; events arriving during the replay are
+ * buffered and de-duplicated.
+ */
+@Injectable()
+export class EventStreamService implements OnModuleInit {
+  private readonly logger = new Logger(EventStreamService.name);
+  private readonly live = new Subject<CloudEvent>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventBus: EventBusService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.on('**', (event) => this.live.next(event));
+  }
+
+  /**
+   * Stream events matching the filter, starting after `lastEventId` if given
+   */
+  stream(filter: EventStreamFilter, lastEventId?: string): Observable<CloudEvent> {
+    return new Observable<CloudEvent>((subscriber) => {
+      const matches = (event: CloudEvent) => this.matches(filter, event);
+      let replaying = lastEventId !== undefined;
+      let closed = false;
+      // Live events arriving during the replay, by id
+      const buffered = new Map<string, CloudEvent>();
+      // Replayed events the outbox has yet to deliver, which arrive live later
+      const replayed = new Set<string>();
+
+      const subscription = this.live.subscribe((event) => {
+        if (!matches(event)) return;
+        if (replayed.delete(event.id)) return;
+        if (replaying) {
+          buffered.set(event.id, event);
+        } else {
+          subscriber.next(event);
+        }
+      });
+
+      if (lastEventId !== undefined) {
+        this.replay(lastEventId, () => closed, (event, queued) => {
+          if (!matches(event)) return;
+          // Events that left the outbox were buffered or sent before the stream opened
+          if (!buffered.delete(event.id) && queued) replayed.add(event.id);
+          subscriber.next(event);
+        })
+          .then(() => {
+            replaying = false;
+            for (const event of buffered.values()) {
+              subscriber.next(event);
+            }
+            buffered.clear();
+          })
+          .catch((error) => {
+            this.logger.error(`Failed to replay events after ${lastEventId}`, error);
+            subscriber.error(error);
+          });
+      }
+
+      return () => {
+        closed = true;
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  matches(filter: EventStreamFilter, event: CloudEvent): boolean {
+    if (filter.types?.length && !filter.types.some(type => matchesTypePattern(type, event.type))) {
+      return false;
+    }
+    return matchesSubject(filter.subject ?? null, event.subject);
+  }
+
+  /**
+   * Emit the events persisted after the given event, in insertion order.
+   * An unknown id replays nothing, the client then only gets live events.
+   * Stops paging once the stream is closed.
+   */
+  private async replay(
+    lastEventId: string,
+    isClosed: () => boolean,
+    emit: (event: CloudEvent, queued: boolean) => void,
+  ): Promise<void> {
+    const last = await this.prisma.event.findUnique({ where: { eventId: lastEventId } });
+    if (!last) return;
+
+    let cursor = { createdAt: last.createdAt, id: last.id };
+    while (!isClosed()) {
+      const rows = await this.prisma.event.findMany({
+        where: {
+          OR: [
+            { createdAt: { gt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, id: { gt: cursor.id } },
+          ],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: REPLAY_BATCH_SIZE,
+      });
+
+      for (const row of rows) {
+        emit(toCloudEvent(row), QUEUED_STATUSES.includes(row.deliveryStatus));
+      }
+
+      if (rows.length < REPLAY_BATCH_SIZE) return;
+      const tail = rows[rows.length - 1];
+      cursor = { createdAt: tail.createdAt, id: tail.id };
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { ExpressionError, evaluateExpression, validateExpression } from './expression-evaluator';
+
+describe('evaluateExpression', () => {
+  const scope = {
+    shipment: { status: 'DELIVERED', weight: 1200, stops: [{ city: 'Berlin' }, { city: 'Paris' }] },
+    tags: ['hazmat', 'fragile'],
+    carrier: 'ACME',
+  };
+
+  it('evaluates literals, arithmetic and precedence', () => {
+    expect(evaluateExpression('1 + 2 * 3', {})).toBe(7);
+    expect(evaluateExpression('(1 + 2) * 3', {})).toBe(9);
+    expect(evaluateExpression('-4 % 3', {})).toBe(-1);
+    expect(evaluateExpression("'a' + \"b\"", {})).toBe('ab');
+    expect(evaluateExpression('null', {})).toBeNull();
+  });
+
+  it('reads identifiers and members from the scope', () => {
+    expect(evaluateExpression('shipment.status', scope)).toBe('DELIVERED');
+    expect(evaluateExpression('shipment.stops[1].city', scope)).toBe('Paris');
+    expect(evaluateExpression("shipment['weight']", scope)).toBe(1200);
+    expect(evaluateExpression('tags.length', scope)).toBe(2);
+  });
+
+  it('evaluates unknown identifiers and missing members as undefined', () => {
+    expect(evaluateExpression('missing', scope)).toBeUndefined();
+    expect(evaluateExpression('missing.deeper.still', scope)).toBeUndefined();
+    expect(evaluateExpression('shipment.stops[5].city', scope)).toBeUndefined();
+  });
+
+  it('compares and combines conditions', () => {
+    expect(evaluateExpression("shipment.status === 'DELIVERED' && shipment.weight > 1000", scope)).toBe(true);
+    expect(evaluateExpression("carrier == 'OTHER' || !false", scope)).toBe(true);
+    expect(evaluateExpression("shipment.weight >= 2000 ? 'heavy' : 'light'", scope)).toBe('light');
+  });
+
+  it('short-circuits && and ||', () => {
+    expect(evaluateExpression('missing && missing.a.b', scope)).toBeUndefined();
+    expect(evaluateExpression("carrier || missing.a", scope)).toBe('ACME');
+  });
+
+  it('tests membership with in', () => {
+    expect(evaluateExpression("'hazmat' in tags", scope)).toBe(true);
+    expect(evaluateExpression("'food' in tags", scope)).toBe(false);
+    expect(evaluateExpression("'CM' in carrier", scope)).toBe(true);
+    expect(evaluateExpression("carrier in ['ACME', 'OTHER']", scope)).toBe(true);
+    expect(evaluateExpression("'status' in shipment", scope)).toBe(true);
+    expect(evaluateExpression("'x' in missing", scope)).toBe(false);
+  });
+
+  it('does not read inherited properties', () => {
+    expect(evaluateExpression('toString', scope)).toBeUndefined();
+    expect(evaluateExpression('shipment.hasOwnProperty', scope)).toBeUndefined();
+  });
+
+  it.each(['__proto__', 'prototype', 'constructor'])('rejects access to %s', property => {
+    expect(() => evaluateExpression(`shipment.${property}`, scope)).toThrow(
+      `Access to '${property}' is not allowed`,
+    );
+    expect(() => evaluateExpression(`shipment['${property}']`, scope)).toThrow(ExpressionError);
+  });
+
+  it('rejects computed access to forbidden properties', () => {
+    expect(() => evaluateExpression("shipment['__pro' + 'to__']", scope)).toThrow(
+      "Access to '__proto__' is not allowed",
+    );
+  });
+
+  it('rejects function calls', () => {
+    expect(() => evaluateExpression('carrier.toUpperCase()', scope)).toThrow('Function calls are not allowed');
+    expect(() => evaluateExpression("tags['includes']('x')", scope)).toThrow('Function calls are not allowed');
+  });
+});
+
+describe('validateExpression', () => {
+  it('accepts valid expressions without evaluating them', () => {
+    expect(() => validateExpression('a.b.c > 3 && d')).not.toThrow();
+  });
+
+  it.each([
+    ["'open", 'Unterminated string literal'],
+    ['a = 1', "Unexpected character '='"],
+    ['a &', "Unexpected character '&'"],
+    ['1 +', 'Unexpected end of expression'],
+    ['a b', "Unexpected token 'b'"],
+    ["a.'b'", 'Expected property name after "."'],
+    ['[1, 2', "Expected ']'"],
+    ['a ? b', "Expected ':'"],
+  ])('rejects %s', (expression, message) => {
+    expect(() => validateExpression(expression)).toThrow(ExpressionError);
+    expect(() => validateExpression(expression)).toThrow(message);
+  });
+
+  it('rejects expressions longer than 2000 characters', () => {
+    expect(() => validateExpression('1'.repeat(2001))).toThrow('Expression exceeds 2000 characters');
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Safe evaluator for the small expression language used by workflow
+ * conditions. Expressions are parsed, never passed to eval/Function, and can
+ * only read data from the given scope: there are no function calls,
+ * assignments or access to prototypes.
+ *
+ * Supported: literals (numbers, 'strings', "strings", true, false, null),
+ * identifiers with member access (a.b, a[0], a['b']), arrays ([1, 2]),
+ * unary ! and -, arithmetic (+ - * / %), comparison (== != === !== < <= > >=),
+ * `in` for array/string membership, logical && || and the ternary ?:.
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string };
+
+type Node =
+  | { kind: 'literal'; value: any }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: Node; property: Node }
+  | { kind: 'array'; elements: Node[] }
+  | { kind: 'unary'; operator: string; argument: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+const OPERATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']',
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4, 'in': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const MAX_EXPRESSION_LENGTH = 2000;
+
+/**
+ * Evaluate an expression against a scope of variables
+ */
+export function evaluateExpression(expression: string, scope: Record<string, any>): any {
+  return evaluate(parseExpression(expression), scope);
+}
+
+/**
+ * Check an expression for syntax errors without evaluating it
+ */
+export function validateExpression(expression: string): void {
+  parseExpression(expression);
+}
+
+function parseExpression(expression: string): Node {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const parser = new Parser(tokenize(expression));
+  return parser.parse();
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(input[i + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(input.slice(i))!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          i++;
+          value += ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[input[i]] ?? input[i];
+        } else {
+          value += input[i];
+        }
+        i++;
+      }
+      if (i >= input.length) {
+        throw new ExpressionError('Unterminated string literal');
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(input.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => input.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character '${char}' at position ${i}`);
+    }
+    tokens.push({ type: 'operator', value: operator });
+    i += operator.length;
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseConditional();
+    if (this.position < this.tokens.length) {
+      throw new ExpressionError(`Unexpected token '${this.tokens[this.position].value}'`);
+    }
+    return node;
+  }
+
+  private parseConditional(): Node {
+    const test = this.parseBinary(1);
+    if (!this.matchOperator('?')) {
+      return test;
+    }
+
+    const consequent = this.parseConditional();
+    this.expectOperator(':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const operator = token && (token.type === 'operator' || token.value === 'in')
+        ? String(token.value)
+        : undefined;
+      const precedence = operator ? BINARY_PRECEDENCE[operator] : undefined;
+
+      if (!operator || precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+
+      this.position++;
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', operator, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    if (this.matchOperator('!')) {
+      return { kind: 'unary', operator: '!', argument: this.parseUnary() };
+    }
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', operator: '-', argument: this.parseUnary() };
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): Node {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const token = this.next();
+        if (token?.type !== 'identifier') {
+          throw new ExpressionError('Expected property name after "."');
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value } };
+      } else if (this.matchOperator('[')) {
+        const property = this.parseConditional();
+        this.expectOperator(']');
+        node = { kind: 'member', object: node, property };
+      } else if (this.peek()?.value === '(') {
+        throw new ExpressionError('Function calls are not allowed');
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression');
+    }
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier':
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (token.value === 'undefined') return { kind: 'literal', value: undefined };
+        return { kind: 'identifier', name: token.value };
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const elements: Node[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              elements.push(this.parseConditional());
+            } while (this.matchOperator(','));
+            this.expectOperator(']');
+          }
+          return { kind: 'array', elements };
+        }
+        throw new ExpressionError(`Unexpected token '${token.value}'`);
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'operator' && token.value === operator) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      throw new ExpressionError(`Expected '${operator}'`);
+    }
+  }
+}
+
+function evaluate(node: Node, scope: Record<string, any>): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return Object.prototype.hasOwnProperty.call(scope, node.name) ? scope[node.name] : undefined;
+
+    case 'member': {
+      const object = evaluate(node.object, scope);
+      const property = evaluate(node.property, scope);
+      return readProperty(object, property);
+    }
+
+    case 'array':
+      return node.elements.map(element => evaluate(element, scope));
+
+    case 'unary': {
+      const argument = evaluate(node.argument, scope);
+      return node.operator === '!' ? !argument : -argument;
+    }
+
+    case 'conditional':
+      return evaluate(node.test, scope)
+        ? evaluate(node.consequent, scope)
+        : evaluate(node.alternate, scope);
+
+    case 'binary': {
+      // Short-circuit logical operators
+      if (node.operator === '&&') {
+        const left = evaluate(node.left, scope);
+        return left ? evaluate(node.right, scope) : left;
+      }
+      if (node.operator === '||') {
+        const left = evaluate(node.left, scope);
+        return left ? left : evaluate(node.right, scope);
+      }
+
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      return applyBinary(node.operator, left, right);
+    }
+  }
+}
+
+function readProperty(object: any, property: any): any {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+
+  const key = String(property);
+  if (FORBIDDEN_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Access to '${key}' is not allowed`);
+  }
+
+  if (typeof object === 'string' || Array.isArray(object)) {
+    if (key === 'length') return object.length;
+  }
+
+  if (typeof object !== 'object' && typeof object !== 'string') {
+    return undefined;
+  }
+
+  return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+}
+
+function applyBinary(operator: string, left: any, right: any): any {
+  switch (operator) {
+    case '==': return left == right;
+    case '!=': return left != right;
+    case '===': return left === right;
+    case '!==': return left !== right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return left / right;
+    case '%': return left % right;
+    case 'in':
+      if (Array.isArray(right)) return right.includes(left);
+      if (typeof right === 'string') return right.includes(String(left));
+      if (right && typeof right === 'object') {
+        return Object.prototype.hasOwnProperty.call(right, String(left));
+      }
+      return false;
+    default:
+      throw new ExpressionError(`Unknown operator '${operator}'`);
+  }
+}
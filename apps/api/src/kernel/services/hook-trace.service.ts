@@ -0,0 +1,113 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@/database/prisma.service';
+import { JsonPatchOperation } from './json-patch';
+
+export type HookHandlerOutcome = 'CONTINUE' | 'STOP' | 'ERROR' | 'FAILED' | 'TIMEOUT' | 'SKIPPED';
+
+/**
+ * One handler invocation within a hook execution
+ */
+export interface HookHandlerTrace {
+  pluginId: string;
+  order: number;
+  outcome: HookHandlerOutcome;
+  error?: string;
+  durationMs: number;
+  patch?: JsonPatchOperation[];
+}
+
+export interface HookExecutionTrace {
+  hookId: string;
+  mode: string;
+  subject?: string;
+  outcome: 'CONTINUED' | 'BLOCKED';
+  error?: string;
+  blockedBy?: string;
+  durationMs: number;
+  metadata?: Record<string, any>;
+  handlers: HookHandlerTrace[];
+  traceparent?: string;
+  correlationId?: string;
+  causationId?: string;
+}
+
+/**
+ * Persists hook execution traces and purges them after the retention period
+ */
+@Injectable()
+export class HookTraceService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HookTraceService.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const interval = this.configService.get<number>('hooks.trace.purgeIntervalMs') ?? 3600000;
+    this.timer = setInterval(() => {
+      this.purgeExpired().catch(error =>
+        this.logger.error('Failed to purge hook execution traces', error),
+      );
+    }, interval);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  isEnabled(): boolean {
+    return this.configService.get<boolean>('hooks.trace.enabled') ?? true;
+  }
+
+  /**
+   * Record an execution in the background; tracing never fails a hook
+   */
+  record(trace: HookExecutionTrace): void {
+    this.prisma.hookExecution.create({
+      data: {
+        hookId: trace.hookId,
+        mode: trace.mode,
+        subject: trace.subject,
+        outcome: trace.outcome,
+        error: trace.error,
+        blockedBy: trace.blockedBy,
+        durationMs: trace.durationMs,
+        metadata: trace.metadata ? JSON.stringify(trace.metadata) : null,
+        traceparent: trace.traceparent,
+        correlationId: trace.correlationId,
+        causationId: trace.causationId,
+        handlers: {
+          create: trace.handlers.map((handler, position) => ({
+            pluginId: handler.pluginId,
+            position,
+            order: handler.order,
+            outcome: handler.outcome,
+            error: handler.error,
+            durationMs: handler.durationMs,
+            patch: handler.patch ? JSON.stringify(handler.patch) : null,
+          })),
+        },
+      },
+    }).catch(error =>
+      this.logger.error(`Failed to record execution of hook ${trace.hookId}`, error),
+    );
+  }
+
+  /**
+   * Delete traces older than the retention period
+   */
+  async purgeExpired(): Promise<number> {
+    const retentionMs = this.configService.get<number>('hooks.trace.retentionMs') ?? 7 * 24 * 60 * 60 * 1000;
+    const result = await this.prisma.hookExecution.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - retentionMs) } },
+    });
+
+    if (result.count > 0) {
+      this.logger.debug(`Purged ${result.count} hook execution trace(s)`);
+    }
+    return result.count;
+  }
+}
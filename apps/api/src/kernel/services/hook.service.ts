@@ -1,32 +1,140 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { HookContext, HookResult, HookType, HookMode, HookConfigs } from '@tms/plugin-sdk';
+import { ConfigService } from '@nestjs/config';
+import {
+  HookContext,
+  HookResult,
+  HookMode,
+  HookConfig,
+  HookConfigs,
+  HookDefinition,
+  HookFailurePolicy,
+  HookHandlerOutcome,
+  PluginPermissions,
+  defaultFailurePolicy,
+  executeHookHandlers,
+  forbiddenFieldChanges,
+  isBuiltInHook,
+} from '@tms/plugin-sdk';
+import { HookTraceService, HookHandlerTrace } from './hook-trace.service';
+import { createJsonPatch, JsonPatchOperation } from './json-patch';
+import { currentTrace, formatTraceparent } from './trace-context';
+import { PluginPermissionService } from './plugin-permission.service';
+import { PluginHealthService } from './plugin-health.service';
 
 interface HookHandler {
   pluginId: string;
   handler: (context: HookContext) => Promise<HookResult>;
   order: number;
+  // Limits the fields the handler may change in WATERFALL hooks
+  permissions?: PluginPermissions;
 }
 
+/**
+ * Consecutive failures of one plugin's handler for one hook. While open the
+ * handler is skipped; after the reset period a single trial call decides
+ * whether it closes again.
+ */
+interface CircuitBreaker {
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+class HookTimeoutError extends Error {}
+
+class HookPermissionError extends Error {
+  constructor(message: string, public readonly fields: string[]) {
+    super(message);
+  }
+}
+
+// Data keys that identify the entity a hook is about, in order of preference
+const SUBJECT_KEYS = ['id', 'offerId', 'settlementId', 'shipmentId', 'tenderId', 'orderId'];
+
 @Injectable()
 export class HookService {
   private readonly logger = new Logger(HookService.name);
-  private readonly handlers = new Map<HookType, HookHandler[]>();
+  private readonly handlers = new Map<string, HookHandler[]>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  // Hooks declared by plugins, next to the built-in HookConfigs
+  private readonly customHooks = new Map<string, { pluginId: string; definition: HookDefinition }>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly tracer: HookTraceService,
+    private readonly pluginPermissions: PluginPermissionService,
+    private readonly pluginHealth: PluginHealthService,
+  ) {}
 
   /**
-   * Register a hook handler
+   * Register a hook a plugin declares for other plugins. Built-in hooks and
+   * hooks of other plugins cannot be redefined.
+   */
+  registerHook(pluginId: string, definition: HookDefinition): void {
+    if (isBuiltInHook(definition.id)) {
+      throw new Error(`Hook ${definition.id} is a built-in hook`);
+    }
+    const existing = this.customHooks.get(definition.id);
+    if (existing && existing.pluginId !== pluginId) {
+      throw new Error(`Hook ${definition.id} is already declared by plugin ${existing.pluginId}`);
+    }
+    if (!Object.values(HookMode).includes(definition.mode)) {
+      throw new Error(`Hook ${definition.id} has invalid mode ${definition.mode}`);
+    }
+
+    this.customHooks.set(definition.id, { pluginId, definition });
+    this.logger.log(`Registered hook ${definition.id} (${definition.mode}) of plugin ${pluginId}`);
+  }
+
+  /**
+   * Remove the hooks a plugin declared
+   */
+  unregisterHooks(pluginId: string): void {
+    for (const [hookId, hook] of this.customHooks.entries()) {
+      if (hook.pluginId === pluginId) {
+        this.customHooks.delete(hookId);
+        this.logger.debug(`Unregistered hook ${hookId} of plugin ${pluginId}`);
+      }
+    }
+  }
+
+  /**
+   * Configuration of a built-in or plugin-declared hook
+   */
+  getConfig(hookId: string): HookConfig | undefined {
+    return isBuiltInHook(hookId) ? HookConfigs[hookId] : this.customHooks.get(hookId)?.definition;
+  }
+
+  /**
+   * Hooks declared by plugins
+   */
+  getCustomHooks() {
+    return Array.from(this.customHooks.values())
+      .map(({ pluginId, definition }) => ({ ...definition, pluginId }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Register a hook handler. With permissions, a WATERFALL handler that
+   * changes fields they do not allow fails.
    */
   registerHandler(
-    hookId: HookType,
+    hookId: string,
     pluginId: string,
     handler: (context: HookContext) => Promise<HookResult>,
     order: number = 0,
+    permissions?: PluginPermissions,
   ): void {
+    if (!this.getConfig(hookId)) {
+      throw new Error(`Unknown hook ${hookId}; the plugin declaring it must be enabled first`);
+    }
+
     const handlers = this.handlers.get(hookId) || [];
-    handlers.push({ pluginId, handler, order });
-    
+    handlers.push({ pluginId, handler, order, permissions });
+
     // Sort by order
     handlers.sort((a, b) => a.order - b.order);
-    
+
     this.handlers.set(hookId, handlers);
     this.logger.debug(`Registered handler for hook ${hookId} from plugin ${pluginId}`);
   }
@@ -39,156 +147,287 @@ export class HookService {
       const filtered = handlers.filter(h => h.pluginId !== pluginId);
       if (filtered.length !== handlers.length) {
         this.handlers.set(hookId, filtered);
+        this.breakers.delete(this.breakerKey(hookId, pluginId));
         this.logger.debug(`Unregistered handlers for plugin ${pluginId}`);
       }
     }
   }
 
   /**
-   * Execute hook handlers
+   * Registered handlers per hook, with the hook's configuration and the
+   * circuit state of each handler
+   */
+  getHandlers() {
+    return Array.from(this.handlers.entries())
+      .filter(([, handlers]) => handlers.length > 0)
+      .map(([hookId, handlers]) => ({
+        hookId,
+        config: this.getConfig(hookId),
+        handlers: handlers.map(h => {
+          const breaker = this.breakers.get(this.breakerKey(hookId, h.pluginId));
+          return {
+            pluginId: h.pluginId,
+            order: h.order,
+            circuit: breaker?.openedAt ? 'OPEN' : 'CLOSED',
+            consecutiveFailures: breaker?.failures ?? 0,
+          };
+        }),
+      }));
+  }
+
+  /**
+   * Execute hook handlers and record the execution trace.
+   * `metadata.subject` names the entity the hook is about; without it the
+   * subject is taken from the data's id fields.
    */
   async executeHook(
-    hookId: HookType,
+    hookId: string,
     data: any,
     metadata?: Record<string, any>,
   ): Promise<HookResult> {
+    const config = this.getConfig(hookId);
+    if (!config) {
+      throw new Error(`Unknown hook ${hookId}`);
+    }
     const handlers = this.handlers.get(hookId) || [];
     if (handlers.length === 0) {
-      return { continue: true, data };
+      return config.required
+        ? { continue: false, error: `Required hook ${hookId} has no handlers` }
+        : { continue: true, data };
     }
 
-    const config = HookConfigs[hookId];
+    const traceContext = currentTrace();
     const context: Omit<HookContext, 'pluginId'> = {
       hookId,
       data,
       metadata,
+      trace: traceContext && {
+        traceparent: formatTraceparent(traceContext),
+        correlationId: traceContext.correlationId,
+        causationId: traceContext.causationId,
+      },
     };
+    const trace: HookHandlerTrace[] = [];
+    const startedAt = Date.now();
 
-    switch (config.mode) {
-      case HookMode.SEQUENTIAL:
-        return await this.executeSequential(handlers, context);
-      
-      case HookMode.PARALLEL:
-        return await this.executeParallel(handlers, context);
-      
-      case HookMode.WATERFALL:
-        return await this.executeWaterfall(handlers, context);
-      
-      case HookMode.AGGREGATE:
-        return await this.executeAggregate(handlers, context);
-      
-      default:
-        return { continue: true, data };
-    }
-  }
-
-  private async executeSequential(
-    handlers: HookHandler[],
-    context: Omit<HookContext, 'pluginId'>,
-  ): Promise<HookResult> {
-    let result: HookResult = { continue: true, data: context.data };
-    
-    for (const handler of handlers) {
-      try {
-        result = await handler.handler({ ...context, pluginId: handler.pluginId });
-        if (!result.continue || result.error) {
-          break;
-        }
-      } catch (error) {
-        this.logger.error(`Hook handler error in plugin ${handler.pluginId}`, error);
-        return {
-          continue: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        };
-      }
+    const result = await executeHookHandlers(handlers, context, {
+      config,
+      failsClosed: this.failsClosed(config),
+      invoke: (handler, handlerContext) => this.invoke(handler, handlerContext, config, trace),
+    });
+
+    if (this.tracer.isEnabled()) {
+      const blocked = !result.continue || !!result.error;
+      this.tracer.record({
+        hookId,
+        mode: config.mode,
+        subject: this.resolveSubject(data, metadata),
+        outcome: blocked ? 'BLOCKED' : 'CONTINUED',
+        error: result.error,
+        blockedBy: blocked ? this.findBlocker(trace, result)?.pluginId : undefined,
+        durationMs: Date.now() - startedAt,
+        metadata,
+        handlers: trace,
+        ...context.trace,
+      });
     }
-    
+
     return result;
   }
 
-  private async executeParallel(
-    handlers: HookHandler[],
-    context: Omit<HookContext, 'pluginId'>,
-  ): Promise<HookResult> {
-    const promises = handlers.map(handler =>
-      handler.handler({ ...context, pluginId: handler.pluginId })
-        .catch(error => ({
-          continue: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        })),
-    );
-    
-    const results = await Promise.all(promises);
-    
-    // Check if any handler returned an error
-    const errorResult = results.find(r => r.error);
-    if (errorResult) {
-      return errorResult;
-    }
-    
-    // Check if any handler returned continue: false
-    const stopResult = results.find(r => !r.continue);
-    if (stopResult) {
-      return stopResult;
-    }
-    
-    return { continue: true, data: context.data };
-  }
-
-  private async executeWaterfall(
-    handlers: HookHandler[],
-    context: Omit<HookContext, 'pluginId'>,
-  ): Promise<HookResult> {
-    let currentData = context.data;
-    
-    for (const handler of handlers) {
-      try {
-        const result = await handler.handler({
-          ...context,
-          pluginId: handler.pluginId,
-          data: currentData,
-        });
-        
-        if (!result.continue || result.error) {
-          return result;
+  /**
+   * Call a handler within the hook's timeout, guarded by its circuit breaker,
+   * and append the call to the trace.
+   * A timed out handler keeps running in the background; its result is ignored.
+   */
+  private async invoke(
+    handler: HookHandler,
+    context: HookContext,
+    config: HookConfig,
+    trace: HookHandlerTrace[],
+  ): Promise<HookHandlerOutcome> {
+    const key = this.breakerKey(context.hookId, handler.pluginId);
+    if (!this.allowCall(key)) {
+      const error = `Plugin ${handler.pluginId} skipped for hook ${context.hookId}: circuit open`;
+      trace.push({ pluginId: handler.pluginId, order: handler.order, outcome: 'SKIPPED', error, durationMs: 0 });
+      return { ok: false, error };
+    }
+
+    const timeoutMs = config.timeout ?? this.configService.get<number>('hooks.defaultTimeoutMs') ?? 30000;
+    const before = this.snapshot(context.data);
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    // Restricted handlers work on a copy, so changes they may not make never
+    // reach the data passed on
+    const restricted = !!handler.permissions && config.mode === HookMode.WATERFALL;
+    const input = restricted ? { ...context, data: this.copy(context.data) } : context;
+
+    try {
+      let result = await Promise.race([
+        handler.handler(input),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new HookTimeoutError(`Plugin ${handler.pluginId} timed out after ${timeoutMs}ms on hook ${context.hookId}`)),
+            timeoutMs,
+          );
+        }),
+      ]);
+
+      // AGGREGATE results are contributions, not changes to the data
+      const patch = config.mode !== HookMode.AGGREGATE
+        ? this.diff(before, result.data !== undefined ? result.data : input.data)
+        : undefined;
+
+      if (restricted && patch) {
+        const forbidden = forbiddenFieldChanges(handler.permissions!, context.hookId, patch.map(op => op.path));
+        if (forbidden.length > 0) {
+          throw new HookPermissionError(
+            `Plugin ${handler.pluginId} is not permitted to change ${forbidden.join(', ')} on hook ${context.hookId}`,
+            forbidden,
+          );
         }
-        
-        if (result.data !== undefined) {
-          currentData = result.data;
+        // Keep in-place changes made to the copy
+        if (result.data === undefined) {
+          result = { ...result, data: input.data };
         }
-      } catch (error) {
-        this.logger.error(`Hook handler error in plugin ${handler.pluginId}`, error);
-        return {
-          continue: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        };
       }
-    }
-    
-    return { continue: true, data: currentData };
-  }
 
-  private async executeAggregate(
-    handlers: HookHandler[],
-    context: Omit<HookContext, 'pluginId'>,
-  ): Promise<HookResult> {
-    const results: any[] = [];
-    
-    for (const handler of handlers) {
-      try {
-        const result = await handler.handler({
-          ...context,
+      this.recordSuccess(key);
+      this.pluginHealth.record(handler.pluginId, 'hook', context.hookId, Date.now() - startedAt, result.error);
+      trace.push({
+        pluginId: handler.pluginId,
+        order: handler.order,
+        outcome: result.error ? 'ERROR' : result.continue ? 'CONTINUE' : 'STOP',
+        error: result.error,
+        durationMs: Date.now() - startedAt,
+        patch,
+      });
+      return { ok: true, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof HookPermissionError) {
+        this.pluginPermissions.recordViolation({
           pluginId: handler.pluginId,
+          permission: 'field',
+          target: `${context.hookId}:${error.fields.join(',')}`,
+          message,
         });
-        
-        if (result.data !== undefined) {
-          results.push(result.data);
-        }
-      } catch (error) {
+      } else {
         this.logger.error(`Hook handler error in plugin ${handler.pluginId}`, error);
       }
+      this.recordFailure(key);
+      this.pluginHealth.record(handler.pluginId, 'hook', context.hookId, Date.now() - startedAt, message);
+      trace.push({
+        pluginId: handler.pluginId,
+        order: handler.order,
+        outcome: error instanceof HookTimeoutError ? 'TIMEOUT' : 'FAILED',
+        error: message,
+        durationMs: Date.now() - startedAt,
+      });
+      return { ok: false, error: message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private allowCall(key: string): boolean {
+    const breaker = this.breakers.get(key);
+    if (!breaker?.openedAt) {
+      return true;
+    }
+
+    const resetMs = this.configService.get<number>('hooks.circuitBreaker.resetMs') ?? 30000;
+    if (Date.now() - breaker.openedAt < resetMs || breaker.trialInFlight) {
+      return false;
+    }
+
+    // Half-open: let one call through to probe recovery
+    breaker.trialInFlight = true;
+    return true;
+  }
+
+  private recordSuccess(key: string): void {
+    const breaker = this.breakers.get(key);
+    if (breaker?.openedAt) {
+      this.logger.log(`Circuit closed for ${key}`);
+    }
+    this.breakers.delete(key);
+  }
+
+  private recordFailure(key: string): void {
+    const breaker = this.breakers.get(key) || { failures: 0, trialInFlight: false };
+    const threshold = this.configService.get<number>('hooks.circuitBreaker.failureThreshold') ?? 5;
+
+    breaker.failures++;
+    breaker.trialInFlight = false;
+
+    if (breaker.openedAt || breaker.failures >= threshold) {
+      if (!breaker.openedAt) {
+        this.logger.warn(`Circuit opened for ${key} after ${breaker.failures} consecutive failures`);
+      }
+      breaker.openedAt = Date.now();
+    }
+
+    this.breakers.set(key, breaker);
+  }
+
+  private failsClosed(config: HookConfig): boolean {
+    const overrides = this.configService.get<Record<string, string>>('hooks.failurePolicies') || {};
+    const policy = overrides[config.id] ?? defaultFailurePolicy(config);
+
+    return policy === HookFailurePolicy.FAIL_CLOSED;
+  }
+
+  private resolveSubject(data: any, metadata?: Record<string, any>): string | undefined {
+    if (metadata?.subject) {
+      return String(metadata.subject);
+    }
+    if (data && typeof data === 'object') {
+      const key = SUBJECT_KEYS.find(k => typeof data[k] === 'string');
+      return key ? data[key] : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * The handler whose failure or result decided a blocked execution
+   */
+  private findBlocker(trace: HookHandlerTrace[], result: HookResult): HookHandlerTrace | undefined {
+    return trace.find(t =>
+      t.outcome !== 'CONTINUE' && (!result.error || t.error === result.error),
+    );
+  }
+
+  /**
+   * Detached JSON copy of hook data, so in-place mutations show up in the diff
+   */
+  private snapshot(data: any): any {
+    try {
+      return data === undefined ? undefined : JSON.parse(JSON.stringify(data));
+    } catch {
+      return undefined;
     }
-    
-    return { continue: true, data: results };
+  }
+
+  /**
+   * Deep copy of hook data for a handler; data that cannot be cloned is
+   * passed as is
+   */
+  private copy(data: any): any {
+    try {
+      return structuredClone(data);
+    } catch {
+      return data;
+    }
+  }
+
+  private diff(before: any, after: any): JsonPatchOperation[] | undefined {
+    const patch = createJsonPatch(before, this.snapshot(after));
+    return patch.length > 0 ? patch : undefined;
+  }
+
+  private breakerKey(hookId: string, pluginId: string): string {
+    return `${hookId}:${pluginId}`;
   }
 }
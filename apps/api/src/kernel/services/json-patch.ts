@@ -0,0 +1,66 @@
+/**
+ * Minimal JSON Patch (RFC 6902) generator used to describe how hook handlers
+ * changed the data passed through a hook. Only add, remove and replace are
+ * produced; arrays are compared by index.
+ */
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: any;
+}
+
+/**
+ * Operations that turn `before` into `after`
+ */
+export function createJsonPatch(before: any, after: any): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  diff(before, after, '', operations);
+  return operations;
+}
+
+function diff(before: any, after: any, path: string, operations: JsonPatchOperation[]): void {
+  if (before === after) return;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const shared = Math.min(before.length, after.length);
+    for (let i = 0; i < shared; i++) {
+      diff(before[i], after[i], `${path}/${i}`, operations);
+    }
+    for (let i = shared; i < after.length; i++) {
+      operations.push({ op: 'add', path: `${path}/${i}`, value: after[i] });
+    }
+    // Remove from the end so earlier indexes stay valid
+    for (let i = before.length - 1; i >= shared; i--) {
+      operations.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    for (const key of Object.keys(before)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      if (!(key in after)) {
+        operations.push({ op: 'remove', path: childPath });
+      } else {
+        diff(before[key], after[key], childPath, operations);
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        operations.push({ op: 'add', path: `${path}/${escapePointer(key)}`, value: after[key] });
+      }
+    }
+    return;
+  }
+
+  operations.push({ op: 'replace', path, value: after });
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,198 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrismaService } from '@/database/prisma.service';
+import { EVENT_DELIVERY_CHANNEL, EventDeliveryStatus, toCloudEvent } from './event-record';
+
+/**
+ * Delivers events written to the outbox (Event table) to in-process subscribers.
+ *
+ * Events are claimed with a lease so that a crashed dispatcher's work is picked
+ * up again, which makes delivery at-least-once: subscribers must be idempotent.
+ */
+@Injectable()
+export class OutboxDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxDispatcherService.name);
+  private timer?: NodeJS.Timeout;
+  private scheduled?: NodeJS.Timeout;
+  private running = false;
+
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly leaseMs: number;
+
+  constructor(
+    private readonly eventEmitter: EventEmitter2,
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalMs = this.configService.get<number>('events.outbox.pollIntervalMs') ?? 1000;
+    this.batchSize = this.configService.get<number>('events.outbox.batchSize') ?? 50;
+    this.maxAttempts = this.configService.get<number>('events.outbox.maxAttempts') ?? 10;
+    this.retryBaseMs = this.configService.get<number>('events.outbox.retryBaseMs') ?? 1000;
+    this.leaseMs = this.configService.get<number>('events.outbox.leaseMs') ?? 30000;
+  }
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => this.schedule(), this.pollIntervalMs);
+    this.schedule();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+    if (this.scheduled) clearTimeout(this.scheduled);
+  }
+
+  /**
+   * Request a dispatch run as soon as possible
+   */
+  schedule(): void {
+    if (this.scheduled) return;
+
+    this.scheduled = setTimeout(() => {
+      this.scheduled = undefined;
+      this.dispatchPending().catch(error =>
+        this.logger.error('Outbox dispatch run failed', error),
+      );
+    }, 0);
+  }
+
+  /**
+   * Deliver all due events, returns the number of events processed
+   */
+  async dispatchPending(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      let processed = 0;
+      let batch: number;
+
+      do {
+        batch = await this.dispatchBatch();
+        processed += batch;
+      } while (batch === this.batchSize);
+
+      return processed;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Reset a failed event so that it is delivered again
+   */
+  async redeliver(eventId: string): Promise<void> {
+    await this.prisma.event.update({
+      where: { eventId },
+      data: {
+        deliveryStatus: EventDeliveryStatus.PENDING,
+        deliveryAttempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: null,
+      },
+    });
+
+    this.schedule();
+  }
+
+  /**
+   * Count events per delivery status
+   */
+  async getStats(): Promise<Record<string, number>> {
+    const groups = await this.prisma.event.groupBy({
+      by: ['deliveryStatus'],
+      _count: { _all: true },
+    });
+
+    const stats: Record<string, number> = {};
+    for (const status of Object.values(EventDeliveryStatus)) {
+      stats[status] = 0;
+    }
+    for (const group of groups) {
+      stats[group.deliveryStatus] = group._count._all;
+    }
+    return stats;
+  }
+
+  private async dispatchBatch(): Promise<number> {
+    const now = new Date();
+
+    // Pending events plus dispatching events whose lease has expired
+    const due = await this.prisma.event.findMany({
+      where: {
+        deliveryStatus: { in: [EventDeliveryStatus.PENDING, EventDeliveryStatus.DISPATCHING] },
+        nextAttemptAt: { lte: now },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    for (const record of due) {
+      // Claim the event; another dispatcher may have taken it in the meantime
+      const claimed = await this.prisma.event.updateMany({
+        where: {
+          id: record.id,
+          deliveryStatus: record.deliveryStatus,
+          nextAttemptAt: record.nextAttemptAt,
+        },
+        data: {
+          deliveryStatus: EventDeliveryStatus.DISPATCHING,
+          deliveryAttempts: { increment: 1 },
+          nextAttemptAt: new Date(Date.now() + this.leaseMs),
+        },
+      });
+
+      if (claimed.count === 0) continue;
+
+      await this.deliver(record, record.deliveryAttempts + 1);
+    }
+
+    return due.length;
+  }
+
+  private async deliver(
+    record: Parameters<typeof toCloudEvent>[0] & { id: string },
+    attempt: number,
+  ): Promise<void> {
+    const event = toCloudEvent(record);
+
+    try {
+      await this.eventEmitter.emitAsync(EVENT_DELIVERY_CHANNEL, event);
+
+      await this.prisma.event.update({
+        where: { id: record.id },
+        data: {
+          deliveryStatus: EventDeliveryStatus.DELIVERED,
+          deliveredAt: new Date(),
+          lastError: null,
+        },
+      });
+
+      this.logger.debug(`Event delivered: ${event.type}`, {
+        id: event.id,
+        attempt,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const exhausted = attempt >= this.maxAttempts;
+
+      await this.prisma.event.update({
+        where: { id: record.id },
+        data: {
+          deliveryStatus: exhausted ? EventDeliveryStatus.FAILED : EventDeliveryStatus.PENDING,
+          nextAttemptAt: new Date(Date.now() + this.retryBaseMs * 2 ** (attempt - 1)),
+          lastError: message,
+        },
+      });
+
+      this.logger.warn(
+        `Delivery of event ${event.id} (${event.type}) failed on attempt ${attempt}` +
+          (exhausted ? ', giving up' : ', will retry'),
+        message,
+      );
+    }
+  }
+}
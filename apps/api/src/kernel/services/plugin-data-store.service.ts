@@ -0,0 +1,272 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, PluginData } from '@prisma/client';
+import {
+  DataStore,
+  DataStoreSetOptions,
+  DataStoreListOptions,
+  DataStorePage,
+} from '@tms/plugin-sdk';
+import { PrismaService } from '@/database/prisma.service';
+
+/**
+ * Copy of all keys of a plugin, including their versions and expiry
+ */
+export type PluginDataSnapshot = Pick<PluginData, 'key' | 'value' | 'version' | 'expiresAt'>[];
+
+/**
+ * DataStore backed by the PluginData table, scoped to one plugin namespace
+ */
+export class PrismaDataStore implements DataStore {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pluginId: string,
+  ) {}
+
+  async get(key: string): Promise<any> {
+    const row = await this.findLive(key);
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  async set(key: string, value: any, options?: DataStoreSetOptions): Promise<void> {
+    await this.upsert(this.prisma, key, value, options);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.prisma.pluginData.deleteMany({
+      where: { pluginId: this.pluginId, key },
+    });
+  }
+
+  async list(prefix: string = ''): Promise<string[]> {
+    const rows = await this.prisma.pluginData.findMany({
+      where: { pluginId: this.pluginId, ...this.prefixFilter(prefix), ...this.liveFilter() },
+      select: { key: true },
+      orderBy: { key: 'asc' },
+    });
+    return rows.map(r => r.key);
+  }
+
+  async listPage(prefix: string = '', options: DataStoreListOptions = {}): Promise<DataStorePage> {
+    const limit = Math.max(1, Math.min(options.limit ?? 100, 1000));
+    const where: Prisma.PluginDataWhereInput = {
+      pluginId: this.pluginId,
+      ...this.liveFilter(),
+      AND: [
+        this.prefixFilter(prefix),
+        ...(options.cursor !== undefined ? [{ key: { gt: options.cursor } }] : []),
+      ],
+    };
+
+    // Fetch one extra row to know whether another page follows
+    const rows = await this.prisma.pluginData.findMany({
+      where,
+      select: { key: true },
+      orderBy: { key: 'asc' },
+      take: limit + 1,
+    });
+
+    const keys = rows.slice(0, limit).map(r => r.key);
+    return {
+      keys,
+      nextCursor: rows.length > limit ? keys[keys.length - 1] : undefined,
+    };
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: any,
+    value: any,
+    options?: DataStoreSetOptions,
+  ): Promise<boolean> {
+    const row = await this.prisma.pluginData.findUnique({
+      where: { pluginId_key: { pluginId: this.pluginId, key } },
+    });
+    const live = row && !this.isExpired(row) ? row : null;
+
+    if (expected === undefined ? live !== null : live?.value !== JSON.stringify(expected)) {
+      return false;
+    }
+
+    if (!row) {
+      try {
+        await this.prisma.pluginData.create({
+          data: {
+            pluginId: this.pluginId,
+            key,
+            value: JSON.stringify(value),
+            expiresAt: this.expiresAt(options),
+          },
+        });
+        return true;
+      } catch (error) {
+        // Another writer created the key first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return false;
+        }
+        throw error;
+      }
+    }
+
+    // Only write if nobody changed the row since we read it
+    const result = await this.prisma.pluginData.updateMany({
+      where: { id: row.id, version: row.version },
+      data: {
+        value: JSON.stringify(value),
+        version: { increment: 1 },
+        expiresAt: this.expiresAt(options),
+      },
+    });
+    return result.count === 1;
+  }
+
+  async getMany(keys: string[]): Promise<Record<string, any>> {
+    if (keys.length === 0) return {};
+
+    const rows = await this.prisma.pluginData.findMany({
+      where: { pluginId: this.pluginId, key: { in: keys }, ...this.liveFilter() },
+    });
+
+    const result: Record<string, any> = {};
+    for (const row of rows) {
+      result[row.key] = JSON.parse(row.value);
+    }
+    return result;
+  }
+
+  async setMany(entries: Record<string, any>, options?: DataStoreSetOptions): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      for (const [key, value] of Object.entries(entries)) {
+        await this.upsert(tx, key, value, options);
+      }
+    });
+  }
+
+  private async upsert(
+    client: Prisma.TransactionClient,
+    key: string,
+    value: any,
+    options?: DataStoreSetOptions,
+  ): Promise<void> {
+    const expiresAt = this.expiresAt(options);
+
+    await client.pluginData.upsert({
+      where: { pluginId_key: { pluginId: this.pluginId, key } },
+      create: {
+        pluginId: this.pluginId,
+        key,
+        value: JSON.stringify(value),
+        expiresAt,
+      },
+      update: {
+        value: JSON.stringify(value),
+        version: { increment: 1 },
+        expiresAt,
+      },
+    });
+  }
+
+  private async findLive(key: string): Promise<PluginData | null> {
+    const row = await this.prisma.pluginData.findUnique({
+      where: { pluginId_key: { pluginId: this.pluginId, key } },
+    });
+    return row && !this.isExpired(row) ? row : null;
+  }
+
+  /**
+   * Prefix match as a key range, which compares binary and can use the index
+   */
+  private prefixFilter(prefix: string): Prisma.PluginDataWhereInput {
+    return prefix ? { key: { gte: prefix, lt: `${prefix}\uffff` } } : {};
+  }
+
+  private liveFilter(): Prisma.PluginDataWhereInput {
+    return { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] };
+  }
+
+  private isExpired(row: PluginData): boolean {
+    return row.expiresAt !== null && row.expiresAt <= new Date();
+  }
+
+  private expiresAt(options?: DataStoreSetOptions): Date | null {
+    return options?.ttlMs !== undefined ? new Date(Date.now() + options.ttlMs) : null;
+  }
+}
+
+/**
+ * Hands out persistent data stores to plugins and purges expired keys
+ */
+@Injectable()
+export class PluginDataStoreService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PluginDataStoreService.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const interval = this.configService.get<number>('plugins.dataStore.purgeIntervalMs') ?? 60000;
+    this.timer = setInterval(() => {
+      this.purgeExpired().catch(error =>
+        this.logger.error('Failed to purge expired plugin data', error),
+      );
+    }, interval);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /**
+   * Get the data store for a plugin namespace
+   */
+  forPlugin(pluginId: string): DataStore {
+    return new PrismaDataStore(this.prisma, pluginId);
+  }
+
+  /**
+   * Remove all data of a plugin
+   */
+  async clear(pluginId: string): Promise<number> {
+    const result = await this.prisma.pluginData.deleteMany({ where: { pluginId } });
+    return result.count;
+  }
+
+  /**
+   * Copy all data of a plugin, e.g. before a migration
+   */
+  async snapshot(pluginId: string): Promise<PluginDataSnapshot> {
+    return this.prisma.pluginData.findMany({
+      where: { pluginId },
+      select: { key: true, value: true, version: true, expiresAt: true },
+    });
+  }
+
+  /**
+   * Replace all data of a plugin with a snapshot
+   */
+  async restore(pluginId: string, snapshot: PluginDataSnapshot): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      await tx.pluginData.deleteMany({ where: { pluginId } });
+      for (const row of snapshot) {
+        await tx.pluginData.create({ data: { pluginId, ...row } });
+      }
+    });
+  }
+
+  /**
+   * Delete expired keys, returns the number of keys removed
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await this.prisma.pluginData.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+
+    if (result.count > 0) {
+      this.logger.debug(`Purged ${result.count} expired plugin data key(s)`);
+    }
+    return result.count;
+  }
+}
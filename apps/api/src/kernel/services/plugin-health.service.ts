@@ -0,0 +1,313 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PluginHealthCheckResult, PluginHealthOptions } from '@tms/plugin-sdk';
+
+export type PluginInvocationKind = 'event' | 'hook' | 'api' | 'action';
+
+const INVOCATION_KINDS: PluginInvocationKind[] = ['event', 'hook', 'api', 'action'];
+
+// The error budget window is counted in this many buckets
+const WINDOW_BUCKETS = 10;
+
+export interface PluginHealthConfig {
+  quarantine: boolean;
+  windowMs: number;
+  minInvocations: number;
+  maxErrorRate: number;
+  recentErrors: number;
+  checkIntervalMs: number;
+  unhealthyThreshold: number;
+}
+
+export interface PluginInvocationMetrics {
+  invocations: number;
+  errors: number;
+  avgDurationMs: number;
+  maxDurationMs: number;
+}
+
+export interface PluginErrorSample {
+  at: Date;
+  kind: PluginInvocationKind | 'health';
+  // Event type, hook id, route or action
+  target: string;
+  message: string;
+}
+
+export interface PluginHealthReport {
+  pluginId: string;
+  // Since the API process started
+  metrics: Record<PluginInvocationKind, PluginInvocationMetrics>;
+  // Invocations counted against the error budget
+  window: {
+    durationMs: number;
+    invocations: number;
+    errors: number;
+    errorRate: number;
+  };
+  lastCheck?: PluginHealthCheckResult & { at: Date };
+  consecutiveFailedChecks: number;
+  quarantined?: { at: Date; reason: string };
+  // Newest first
+  recentErrors: PluginErrorSample[];
+}
+
+interface PluginHealthState {
+  totals: Record<PluginInvocationKind, { invocations: number; errors: number; totalDurationMs: number; maxDurationMs: number }>;
+  buckets: { start: number; invocations: number; errors: number }[];
+  recentErrors: PluginErrorSample[];
+  lastCheck?: PluginHealthCheckResult & { at: Date };
+  consecutiveFailedChecks: number;
+  quarantined?: { at: Date; reason: string };
+}
+
+type QuarantineListener = (pluginId: string, reason: string) => void | Promise<void>;
+
+/**
+ * Invocation metrics and health of plugins.
+ *
+ * Every call into a plugin is counted with its duration and outcome. A
+ * plugin over its error budget, or failing its health check a number of
+ * times in a row, is quarantined; listeners take it out of service.
+ */
+@Injectable()
+export class PluginHealthService implements OnModuleDestroy {
+  private readonly logger = new Logger(PluginHealthService.name);
+  private readonly states = new Map<string, PluginHealthState>();
+  private readonly checks = new Map<string, { timer: NodeJS.Timeout; running: boolean }>();
+  private readonly listeners: QuarantineListener[] = [];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleDestroy(): void {
+    for (const pluginId of Array.from(this.checks.keys())) {
+      this.unwatch(pluginId);
+    }
+  }
+
+  /**
+   * Call into a plugin and record the call. Errors are rethrown; results
+   * `failed` maps to an error message count as errors too.
+   */
+  async track<T>(
+    pluginId: string,
+    kind: PluginInvocationKind,
+    target: string,
+    fn: () => Promise<T>,
+    failed?: (result: T) => string | undefined,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await fn();
+      this.record(pluginId, kind, target, Date.now() - startedAt, failed?.(result));
+      return result;
+    } catch (error) {
+      this.record(pluginId, kind, target, Date.now() - startedAt, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Record a call into a plugin, failed when an error is given
+   */
+  record(pluginId: string, kind: PluginInvocationKind, target: string, durationMs: number, error?: string): void {
+    const state = this.state(pluginId);
+    const totals = state.totals[kind];
+    totals.invocations++;
+    totals.totalDurationMs += durationMs;
+    totals.maxDurationMs = Math.max(totals.maxDurationMs, durationMs);
+
+    const bucket = this.currentBucket(state);
+    bucket.invocations++;
+
+    if (error === undefined) return;
+
+    totals.errors++;
+    bucket.errors++;
+    this.sample(state, { at: new Date(), kind, target, message: error });
+    this.checkErrorBudget(pluginId, state);
+  }
+
+  /**
+   * Run a plugin's health check periodically while it is enabled
+   */
+  watch(pluginId: string, check: () => Promise<PluginHealthCheckResult>, options: PluginHealthOptions = {}): void {
+    this.unwatch(pluginId);
+
+    const intervalMs = options.intervalMs ?? this.config().checkIntervalMs;
+    if (!intervalMs) return;
+
+    const entry = {
+      running: false,
+      timer: setInterval(async () => {
+        if (entry.running) return;
+        entry.running = true;
+        try {
+          this.recordCheck(pluginId, await check(), options);
+        } finally {
+          entry.running = false;
+        }
+      }, intervalMs),
+    };
+    entry.timer.unref();
+    this.checks.set(pluginId, entry);
+  }
+
+  unwatch(pluginId: string): void {
+    const entry = this.checks.get(pluginId);
+    if (entry) {
+      clearInterval(entry.timer);
+      this.checks.delete(pluginId);
+    }
+  }
+
+  /**
+   * Record the result of a health check
+   */
+  recordCheck(pluginId: string, result: PluginHealthCheckResult, options: PluginHealthOptions = {}): void {
+    const state = this.state(pluginId);
+    state.lastCheck = { ...result, at: new Date() };
+
+    if (result.healthy) {
+      state.consecutiveFailedChecks = 0;
+      return;
+    }
+
+    state.consecutiveFailedChecks++;
+    this.sample(state, { at: new Date(), kind: 'health', target: 'healthCheck', message: result.message || 'Unhealthy' });
+
+    const threshold = options.unhealthyThreshold ?? this.config().unhealthyThreshold;
+    if (state.consecutiveFailedChecks >= threshold) {
+      this.quarantine(pluginId, state, `Health check failed ${state.consecutiveFailedChecks} times in a row: ${result.message || 'unhealthy'}`);
+    }
+  }
+
+  /**
+   * Start counting a loaded plugin against a fresh error budget. Totals and
+   * error samples are kept.
+   */
+  reset(pluginId: string): void {
+    const state = this.states.get(pluginId);
+    if (state) {
+      state.buckets = [];
+      state.consecutiveFailedChecks = 0;
+      state.quarantined = undefined;
+    }
+  }
+
+  /**
+   * Called when a plugin is quarantined
+   */
+  onQuarantine(listener: QuarantineListener): void {
+    this.listeners.push(listener);
+  }
+
+  getReport(pluginId: string): PluginHealthReport {
+    const state = this.state(pluginId);
+    const { windowMs } = this.config();
+    const window = this.windowBuckets(state).reduce(
+      (sum, bucket) => ({ invocations: sum.invocations + bucket.invocations, errors: sum.errors + bucket.errors }),
+      { invocations: 0, errors: 0 },
+    );
+
+    return {
+      pluginId,
+      metrics: Object.fromEntries(
+        INVOCATION_KINDS.map(kind => {
+          const { invocations, errors, totalDurationMs, maxDurationMs } = state.totals[kind];
+          return [kind, {
+            invocations,
+            errors,
+            avgDurationMs: invocations ? Math.round(totalDurationMs / invocations) : 0,
+            maxDurationMs,
+          }];
+        }),
+      ) as Record<PluginInvocationKind, PluginInvocationMetrics>,
+      window: {
+        durationMs: windowMs,
+        ...window,
+        errorRate: window.invocations ? window.errors / window.invocations : 0,
+      },
+      lastCheck: state.lastCheck,
+      consecutiveFailedChecks: state.consecutiveFailedChecks,
+      quarantined: state.quarantined,
+      recentErrors: [...state.recentErrors].reverse(),
+    };
+  }
+
+  private checkErrorBudget(pluginId: string, state: PluginHealthState): void {
+    const { minInvocations, maxErrorRate } = this.config();
+    const buckets = this.windowBuckets(state);
+    const invocations = buckets.reduce((sum, bucket) => sum + bucket.invocations, 0);
+    const errors = buckets.reduce((sum, bucket) => sum + bucket.errors, 0);
+
+    if (invocations >= minInvocations && errors / invocations >= maxErrorRate) {
+      this.quarantine(
+        pluginId,
+        state,
+        `${errors} of ${invocations} calls failed, over the error budget of ${Math.round(maxErrorRate * 100)}%`,
+      );
+    }
+  }
+
+  private quarantine(pluginId: string, state: PluginHealthState, reason: string): void {
+    if (state.quarantined || !this.config().quarantine) return;
+
+    state.quarantined = { at: new Date(), reason };
+    this.unwatch(pluginId);
+    this.logger.warn(`Quarantining plugin ${pluginId}: ${reason}`);
+
+    // Outside the failing call, which may still be running in the plugin
+    setImmediate(() => {
+      for (const listener of this.listeners) {
+        Promise.resolve(listener(pluginId, reason)).catch(error =>
+          this.logger.error(`Failed to quarantine plugin ${pluginId}`, error),
+        );
+      }
+    });
+  }
+
+  private sample(state: PluginHealthState, sample: PluginErrorSample): void {
+    state.recentErrors.push(sample);
+    const overflow = state.recentErrors.length - this.config().recentErrors;
+    if (overflow > 0) {
+      state.recentErrors.splice(0, overflow);
+    }
+  }
+
+  private currentBucket(state: PluginHealthState): PluginHealthState['buckets'][number] {
+    const size = this.config().windowMs / WINDOW_BUCKETS;
+    const start = Math.floor(Date.now() / size) * size;
+    let bucket = state.buckets[state.buckets.length - 1];
+    if (bucket?.start !== start) {
+      bucket = { start, invocations: 0, errors: 0 };
+      state.buckets = [...this.windowBuckets(state), bucket];
+    }
+    return bucket;
+  }
+
+  private windowBuckets(state: PluginHealthState): PluginHealthState['buckets'] {
+    const since = Date.now() - this.config().windowMs;
+    return state.buckets.filter(bucket => bucket.start >= since);
+  }
+
+  private state(pluginId: string): PluginHealthState {
+    let state = this.states.get(pluginId);
+    if (!state) {
+      state = {
+        totals: Object.fromEntries(
+          INVOCATION_KINDS.map(kind => [kind, { invocations: 0, errors: 0, totalDurationMs: 0, maxDurationMs: 0 }]),
+        ) as PluginHealthState['totals'],
+        buckets: [],
+        recentErrors: [],
+        consecutiveFailedChecks: 0,
+      };
+      this.states.set(pluginId, state);
+    }
+    return state;
+  }
+
+  private config(): PluginHealthConfig {
+    return this.configService.get<PluginHealthConfig>('plugins.health')!;
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PermissionViolation, PluginPermissionError, PluginPermissions } from '@tms/plugin-sdk';
+import { PrismaService } from '@/database/prisma.service';
+
+export enum PluginAuditAction {
+  PERMISSIONS_APPROVED = 'PERMISSIONS_APPROVED',
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+}
+
+/**
+ * Audit trail of plugin permissions: approvals by admins and attempts by
+ * plugins to act beyond what was approved
+ */
+@Injectable()
+export class PluginPermissionService {
+  private readonly logger = new Logger(PluginPermissionService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Log and audit a violation in the background; auditing never fails the caller
+   */
+  recordViolation(violation: PermissionViolation): void {
+    this.logger.warn(violation.message);
+
+    this.prisma.pluginAuditLog.create({
+      data: {
+        pluginId: violation.pluginId,
+        action: PluginAuditAction.PERMISSION_DENIED,
+        permission: violation.permission,
+        target: violation.target,
+        message: violation.message,
+      },
+    }).catch(error => this.logger.error('Failed to audit permission violation', error));
+  }
+
+  /**
+   * Record a violation and throw it to the plugin
+   */
+  deny(violation: PermissionViolation): never {
+    this.recordViolation(violation);
+    throw new PluginPermissionError(violation);
+  }
+
+  async recordApproval(pluginId: string, permissions: PluginPermissions): Promise<void> {
+    await this.prisma.pluginAuditLog.create({
+      data: {
+        pluginId,
+        action: PluginAuditAction.PERMISSIONS_APPROVED,
+        message: `Permissions of plugin ${pluginId} approved`,
+        details: JSON.stringify(permissions),
+      },
+    });
+    this.logger.log(`Permissions of plugin ${pluginId} approved`);
+  }
+
+  /**
+   * Audit entries of a plugin, newest first
+   */
+  async getAuditLog(pluginId: string, filters: { action?: string; limit?: number } = {}) {
+    const entries = await this.prisma.pluginAuditLog.findMany({
+      where: {
+        pluginId,
+        ...(filters.action && { action: filters.action }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(filters.limit || 100, 1000),
+    });
+
+    return entries.map(entry => ({
+      ...entry,
+      details: entry.details ? JSON.parse(entry.details) : null,
+    }));
+  }
+}
@@ -0,0 +1,176 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OpenAPIObject } from '@nestjs/swagger';
+import { ApiCapability, PluginApi, PluginRequest, PluginResponse } from '@tms/plugin-sdk';
+import { PluginHealthService } from './plugin-health.service';
+
+interface PluginRoute {
+  pluginId: string;
+  method: ApiCapability['method'];
+  path: string;
+  handler: string;
+  pattern: RegExp;
+  paramNames: string[];
+  plugin: PluginApi;
+}
+
+export interface PluginRouteMatch {
+  route: PluginRoute;
+  params: Record<string, string>;
+}
+
+/**
+ * Routing table for plugin ApiCapability endpoints.
+ *
+ * Routes are mounted under /api/plugins/:pluginId while the plugin is enabled
+ * and removed again when it is disabled or unloaded.
+ */
+@Injectable()
+export class PluginRouterService {
+  private readonly logger = new Logger(PluginRouterService.name);
+  private readonly routes = new Map<string, PluginRoute[]>();
+
+  constructor(private readonly pluginHealth: PluginHealthService) {}
+
+  /**
+   * Register the API routes of a plugin, replacing any previous ones
+   */
+  registerRoutes(pluginId: string, plugin: PluginApi, apis: ApiCapability[]): void {
+    const routes = apis.map(api => {
+      const { pattern, paramNames } = this.compilePath(api.path);
+      return {
+        pluginId,
+        method: api.method,
+        path: this.normalizePath(api.path),
+        handler: api.handler,
+        pattern,
+        paramNames,
+        plugin,
+      };
+    });
+
+    this.routes.set(pluginId, routes);
+    this.logger.debug(`Registered ${routes.length} API route(s) for plugin ${pluginId}`);
+  }
+
+  /**
+   * Remove all routes of a plugin
+   */
+  unregisterRoutes(pluginId: string): void {
+    if (this.routes.delete(pluginId)) {
+      this.logger.debug(`Unregistered API routes for plugin ${pluginId}`);
+    }
+  }
+
+  /**
+   * Find the route for a request path relative to the plugin's mount point.
+   * The path is decoded already, as Express decodes route parameters.
+   */
+  match(pluginId: string, method: string, path: string): PluginRouteMatch | null {
+    const normalized = this.normalizePath(path);
+
+    for (const route of this.routes.get(pluginId) || []) {
+      if (route.method !== method.toUpperCase()) continue;
+
+      const result = route.pattern.exec(normalized);
+      if (!result) continue;
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, i) => {
+        params[name] = result[i + 1];
+      });
+
+      return { route, params };
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a plugin has a route for the path under any method
+   */
+  hasPath(pluginId: string, path: string): boolean {
+    const normalized = this.normalizePath(path);
+    return (this.routes.get(pluginId) || []).some(r => r.pattern.test(normalized));
+  }
+
+  /**
+   * Invoke the handler of a matched route
+   *
+   * The handler named in the manifest is called when the plugin defines it,
+   * otherwise the request goes to the plugin's generic handleRequest.
+   * Server errors count as failed calls of the plugin.
+   */
+  async dispatch(match: PluginRouteMatch, request: PluginRequest): Promise<PluginResponse> {
+    const { route } = match;
+    const handler = (route.plugin as any)[route.handler];
+
+    return this.pluginHealth.track(
+      route.pluginId,
+      'api',
+      `${route.method} ${route.path}`,
+      async () => {
+        if (typeof handler === 'function') {
+          return handler.call(route.plugin, request);
+        }
+        if (route.plugin.handleRequest) {
+          return route.plugin.handleRequest(request);
+        }
+        throw new Error(`Plugin ${route.pluginId} has no handler ${route.handler}`);
+      },
+      response => (response.status >= 500 ? `Responded with ${response.status}` : undefined),
+    );
+  }
+
+  /**
+   * Add the currently mounted plugin routes to an OpenAPI document
+   */
+  extendDocument(document: OpenAPIObject): OpenAPIObject {
+    const paths = { ...document.paths };
+
+    for (const route of Array.from(this.routes.values()).flat()) {
+      const openApiPath = `/api/plugins/${route.pluginId}` +
+        route.path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+
+      paths[openApiPath] = {
+        ...paths[openApiPath],
+        [route.method.toLowerCase()]: {
+          tags: [`plugin:${route.pluginId}`],
+          summary: `${route.pluginId} ${route.handler}`,
+          operationId: `${route.pluginId}_${route.handler}`,
+          parameters: route.paramNames.map(name => ({
+            name,
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          })),
+          responses: {
+            default: { description: 'Plugin response' },
+          },
+        },
+      };
+    }
+
+    return { ...document, paths };
+  }
+
+  private compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+    const paramNames: string[] = [];
+    const source = this.normalizePath(path)
+      .split('/')
+      .map(segment => {
+        if (segment.startsWith(':')) {
+          paramNames.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    return { pattern: new RegExp(`^${source}$`), paramNames };
+  }
+
+  private normalizePath(path: string): string {
+    const trimmed = path.replace(/\/+$/, '');
+    return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Message-based RPC between the API process and plugin worker threads.
+ *
+ * Both ends use an RpcChannel: requests carry an id answered by exactly one
+ * response, notifications expect no answer. A request also carries the
+ * caller's context (the trace context) so the callee runs in the same one.
+ */
+export type RpcMessage =
+  | { type: 'request'; id: number; method: string; args: unknown[]; context?: unknown }
+  | { type: 'response'; id: number; result?: unknown; error?: RpcError }
+  | { type: 'notify'; method: string; args: unknown[]; context?: unknown };
+
+export interface RpcError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export interface RpcPort {
+  postMessage(message: RpcMessage): void;
+}
+
+/**
+ * Context carried along with calls, e.g. AsyncLocalStorage based
+ */
+export interface RpcContext {
+  current(): unknown;
+  run<T>(context: unknown, fn: () => T): T;
+}
+
+type RpcHandler = (...args: any[]) => unknown;
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+export class RpcTimeoutError extends Error {}
+
+export class RpcChannel {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingCall>();
+  private readonly handlers = new Map<string, RpcHandler>();
+
+  constructor(
+    private readonly port: RpcPort,
+    private readonly context?: RpcContext,
+  ) {}
+
+  /**
+   * Handle requests and notifications for a method
+   */
+  handle(method: string, handler: RpcHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  /**
+   * Call a method on the other end; fails after `timeoutMs` when given
+   */
+  request<T = unknown>(method: string, args: unknown[], timeoutMs?: number): Promise<T> {
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const call: PendingCall = { resolve, reject };
+      if (timeoutMs) {
+        call.timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new RpcTimeoutError(`${method} timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+      this.pending.set(id, call);
+
+      try {
+        this.port.postMessage({ type: 'request', id, method, args, context: this.context?.current() });
+      } catch (error) {
+        this.settle(id, undefined, toRpcError(error));
+      }
+    });
+  }
+
+  notify(method: string, args: unknown[]): void {
+    this.port.postMessage({ type: 'notify', method, args, context: this.context?.current() });
+  }
+
+  /**
+   * Dispatch a message received from the other end
+   */
+  receive(message: RpcMessage): void {
+    if (message.type === 'response') {
+      this.settle(message.id, message.result, message.error);
+      return;
+    }
+
+    const handler = this.handlers.get(message.method);
+    const invoke = async () => {
+      if (!handler) {
+        throw new Error(`No handler for ${message.method}`);
+      }
+      return handler(...message.args);
+    };
+    const run = () => (message.context && this.context ? this.context.run(message.context, invoke) : invoke());
+
+    if (message.type === 'notify') {
+      run().catch(() => undefined);
+      return;
+    }
+
+    run().then(
+      result => this.reply({ type: 'response', id: message.id, result }),
+      error => this.reply({ type: 'response', id: message.id, error: toRpcError(error) }),
+    );
+  }
+
+  /**
+   * Fail all calls waiting for an answer, e.g. when the other end died
+   */
+  rejectAll(error: Error): void {
+    for (const [id, call] of this.pending) {
+      clearTimeout(call.timer);
+      this.pending.delete(id);
+      call.reject(error);
+    }
+  }
+
+  private reply(message: RpcMessage): void {
+    try {
+      this.port.postMessage(message);
+    } catch (error) {
+      // Results that cannot be cloned are answered with the clone error
+      if (message.type === 'response' && !message.error) {
+        this.port.postMessage({ type: 'response', id: message.id, error: toRpcError(error) });
+      }
+    }
+  }
+
+  private settle(id: number, result: unknown, error?: RpcError): void {
+    const call = this.pending.get(id);
+    if (!call) return;
+
+    this.pending.delete(id);
+    clearTimeout(call.timer);
+    if (error) {
+      call.reject(fromRpcError(error));
+    } else {
+      call.resolve(result);
+    }
+  }
+}
+
+export function toRpcError(error: unknown): RpcError {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+export function fromRpcError(error: RpcError): Error {
+  const result = new Error(error.message);
+  result.name = error.name;
+  if (error.stack) result.stack = error.stack;
+  return result;
+}
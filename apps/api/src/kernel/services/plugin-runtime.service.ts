@@ -1,74 +1,124 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
 import { 
   PluginInstance, 
   PluginApi, 
   PluginContext,
+  PluginManifest,
   PluginContextFactory,
-  DefaultEventBus,
+  EventCapability,
+  HookCapability,
+  PluginPermissions,
+  PermissionViolation,
+  PluginHealthCheckResult,
+  requestedPermissions,
+  canEmit,
+  canSubscribe,
+  canHandleHook,
 } from '@tms/plugin-sdk';
+import {
+  CloudEvent,
+  EventFilter,
+  eventDataSchemaFromJson,
+  matchesEventFilters,
+  matchesTypePattern,
+} from '@tms/contracts';
 import { EventBusService } from './event-bus.service';
 import { HookService } from './hook.service';
+import { PluginRouterService } from './plugin-router.service';
+import { PluginDataStoreService } from './plugin-data-store.service';
+import { WorkflowEngineService } from './workflow-engine.service';
+import { EventSchemaService } from './event-schema.service';
+import { runWithTrace, traceFromEvent } from './trace-context';
+import { PluginPermissionService } from './plugin-permission.service';
+import { PluginWorkerHost, PluginWorkerOptions, PluginWorkerStats } from './plugin-worker-host';
+import { ServiceRegistryService } from './service-registry.service';
+import { PluginHealthService } from './plugin-health.service';
 
 @Injectable()
-export class PluginRuntimeService {
+export class PluginRuntimeService implements OnModuleDestroy {
   private readonly logger = new Logger(PluginRuntimeService.name);
   private readonly plugins = new Map<string, PluginApi>();
+  private readonly manifests = new Map<string, PluginManifest>();
+  private readonly permissions = new Map<string, PluginPermissions>();
+  private readonly workers = new Map<string, PluginWorkerHost>();
+  private readonly eventHandlers = new Map<string, { eventType: string; handler: (event: CloudEvent) => Promise<void> }[]>();
   private readonly contextFactory: PluginContextFactory;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly eventBus: EventBusService,
     private readonly hookService: HookService,
+    private readonly router: PluginRouterService,
+    private readonly dataStores: PluginDataStoreService,
+    private readonly workflowEngine: WorkflowEngineService,
+    private readonly eventSchemas: EventSchemaService,
+    private readonly pluginPermissions: PluginPermissionService,
+    private readonly serviceRegistry: ServiceRegistryService,
+    private readonly pluginHealth: PluginHealthService,
   ) {
-    // Create plugin context factory with kernel services
+    // Create plugin context factory with kernel services; plugins get
+    // proxies that enforce their permissions
     this.contextFactory = new PluginContextFactory({
-      eventBus: {
+      eventBusFactory: (pluginId) => ({
         emit: async (event) => this.eventBus.emit(event),
-        on: (type, handler) => this.eventBus.on(type, handler),
+        on: (type, handler, filters) => this.eventBus.on(type, handler, { filters }),
         off: (type, handler) => this.eventBus.off(type, handler),
-      },
-      services: new Map([
-        ['eventBus', this.eventBus],
-        ['hookService', this.hookService],
-      ]),
+        registerSchema: (type, schema, options) =>
+          this.eventSchemas.registerPluginSchema(pluginId, type, schema, options),
+      }),
+      servicesFactory: (pluginId, permissions) => this.createServices(pluginId, permissions!),
+      dataStoreFactory: (pluginId) => this.dataStores.forPlugin(pluginId),
+      onViolation: (violation) => this.pluginPermissions.recordViolation(violation),
     });
   }
 
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all(Array.from(this.workers.values()).map(worker => worker.stop()));
+    this.workers.clear();
+  }
+
   /**
-   * Load and initialize a plugin
+   * Load and initialize a plugin, in the API process or, with worker
+   * isolation, in a worker thread of its own
    */
   async loadPlugin(instance: PluginInstance): Promise<void> {
     try {
       const { manifest } = instance;
-      
-      // Dynamic import of plugin
       const pluginPath = `${this.configService.get('plugins.directory')}/${manifest.id}/${manifest.main}`;
-      const PluginClass = await import(pluginPath);
+      this.pluginHealth.reset(manifest.id);
       
-      // Create plugin instance
-      const plugin: PluginApi = new PluginClass.default();
-      
-      // Create plugin context
+      // Create plugin context, limited to the permissions the manifest requests
+      const permissions = requestedPermissions(manifest);
       const context = this.contextFactory.createContext(
         manifest.id,
         manifest.version,
         instance.config,
+        permissions,
       );
       
-      // Initialize plugin
-      if ('initialize' in plugin) {
-        (plugin as any).initialize(context, manifest);
-      }
+      const plugin = this.configService.get<string>('plugins.isolation.mode') === 'worker'
+        ? await this.startWorker(manifest, pluginPath, context, instance.config)
+        : await this.importPlugin(manifest, pluginPath, context);
       
-      // Install plugin
-      await plugin.install(instance.config);
+      // Declare the plugin's hooks and event types, then install it; the
+      // manifest is known from here on for the services it calls
+      this.manifests.set(manifest.id, manifest);
+      try {
+        this.registerExtensionPoints(manifest);
+        await plugin.install(instance.config);
+      } catch (error) {
+        this.manifests.delete(manifest.id);
+        this.hookService.unregisterHooks(manifest.id);
+        this.eventSchemas.unregisterPlugin(manifest.id);
+        await this.stopWorker(manifest.id);
+        throw error;
+      }
       
-      // Register plugin
+      // Register plugin; its capabilities are registered on enable
       this.plugins.set(manifest.id, plugin);
-      
-      // Register capabilities
-      await this.registerCapabilities(manifest.id, plugin, manifest);
+      this.permissions.set(manifest.id, permissions);
       
       this.logger.log(`Plugin ${manifest.id} loaded successfully`);
     } catch (error) {
@@ -86,7 +136,39 @@ export class PluginRuntimeService {
       throw new Error(`Plugin ${pluginId} not loaded`);
     }
     
-    await plugin.enable();
+    // Export the plugin's services to the plugins depending on it
+    const services = this.manifests.get(pluginId)?.provides?.services;
+    if (services?.length) {
+      this.serviceRegistry.registerPluginServices(pluginId, plugin, services);
+    }
+
+    try {
+      await plugin.enable();
+    } catch (error) {
+      this.serviceRegistry.unregisterPluginServices(pluginId);
+      throw error;
+    }
+
+    // Subscribe event handlers and register hook handlers
+    this.registerCapabilities(pluginId, plugin, this.manifests.get(pluginId)!);
+
+    // Mount API routes
+    const apis = this.manifests.get(pluginId)?.capabilities.apis;
+    if (apis?.length) {
+      this.router.registerRoutes(pluginId, plugin, apis);
+    }
+
+    // Arm workflow triggers
+    const workflows = this.manifests.get(pluginId)?.capabilities.workflows;
+    if (workflows?.length) {
+      await this.workflowEngine.registerWorkflows(pluginId, plugin, workflows);
+    }
+
+    // Check the plugin's health periodically when it implements a check
+    if (plugin.healthCheck) {
+      this.pluginHealth.watch(pluginId, () => this.checkHealth(pluginId), this.manifests.get(pluginId)?.health);
+    }
+
     this.logger.log(`Plugin ${pluginId} enabled`);
   }
 
@@ -101,28 +183,105 @@ export class PluginRuntimeService {
     
     await plugin.disable();
     
-    // Unregister hook handlers
+    // Unregister event and hook handlers, services, API routes, workflows and health checks
+    this.unregisterEventHandlers(pluginId);
     this.hookService.unregisterPlugin(pluginId);
+    this.pluginHealth.unwatch(pluginId);
+    this.serviceRegistry.unregisterPluginServices(pluginId);
+    this.router.unregisterRoutes(pluginId);
+    await this.workflowEngine.unregisterWorkflows(pluginId);
     
     this.logger.log(`Plugin ${pluginId} disabled`);
   }
 
   /**
-   * Unload a plugin
+   * Unload a plugin. Without `uninstall` the plugin is only released, e.g.
+   * to load other files of it on upgrade.
    */
-  async unloadPlugin(pluginId: string): Promise<void> {
+  async unloadPlugin(pluginId: string, uninstall = true): Promise<void> {
     const plugin = this.plugins.get(pluginId);
     if (!plugin) {
       return;
     }
     
-    await plugin.uninstall();
+    if (uninstall) {
+      await plugin.uninstall();
+    }
+    await this.stopWorker(pluginId);
+    this.unregisterEventHandlers(pluginId);
     this.plugins.delete(pluginId);
+    this.manifests.delete(pluginId);
+    this.permissions.delete(pluginId);
     this.hookService.unregisterPlugin(pluginId);
+    this.hookService.unregisterHooks(pluginId);
+    this.serviceRegistry.unregisterPluginServices(pluginId);
+    this.router.unregisterRoutes(pluginId);
+    await this.workflowEngine.unregisterWorkflows(pluginId);
+    this.pluginHealth.unwatch(pluginId);
+    this.eventSchemas.unregisterPlugin(pluginId);
+    this.evictModules(pluginId);
     
     this.logger.log(`Plugin ${pluginId} unloaded`);
   }
 
+  /**
+   * Run the migration of a newly loaded plugin version
+   */
+  async upgradePlugin(pluginId: string, fromVersion: string): Promise<void> {
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginId} not loaded`);
+    }
+
+    await plugin.upgrade(fromVersion);
+    this.logger.log(`Plugin ${pluginId} migrated from ${fromVersion}`);
+  }
+
+  /**
+   * Check that a loaded plugin works, using its own health check if it has
+   * one. Never throws; failures are reported as unhealthy.
+   */
+  async checkHealth(pluginId: string): Promise<PluginHealthCheckResult> {
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin) {
+      return { healthy: false, message: `Plugin ${pluginId} not loaded` };
+    }
+
+    const worker = this.workers.get(pluginId)?.getStats();
+    if (worker && worker.state !== 'RUNNING') {
+      return { healthy: false, message: `Worker is ${worker.state.toLowerCase()}`, details: { worker } };
+    }
+
+    if (!plugin.healthCheck) {
+      return { healthy: true };
+    }
+
+    const timeoutMs = this.configService.get<number>('plugins.upgrade.healthCheckTimeoutMs') ?? 10000;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        plugin.healthCheck(),
+        new Promise<PluginHealthCheckResult>(resolve => {
+          timer = setTimeout(
+            () => resolve({ healthy: false, message: `Health check timed out after ${timeoutMs}ms` }),
+            timeoutMs,
+          );
+        }),
+      ]);
+    } catch (error) {
+      return { healthy: false, message: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * State of the worker threads of isolated plugins
+   */
+  getWorkerStats(): PluginWorkerStats[] {
+    return Array.from(this.workers.values()).map(worker => worker.getStats());
+  }
+
   /**
    * Get loaded plugin
    */
@@ -131,44 +290,268 @@ export class PluginRuntimeService {
   }
 
   /**
-   * Register plugin capabilities
+   * Whether any of a loaded plugin's event subscriptions matches the event
+   */
+  subscribesTo(pluginId: string, event: CloudEvent): boolean {
+    return this.matchingEventCapabilities(pluginId, event).length > 0;
+  }
+
+  /**
+   * Deliver an event to one plugin only, once per matching event
+   * subscription as the event bus would. Returns false when none matches.
+   */
+  async deliverEvent(pluginId: string, event: CloudEvent): Promise<boolean> {
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin) {
+      throw new Error(`Plugin ${pluginId} not loaded`);
+    }
+
+    const handlers = this.matchingEventCapabilities(pluginId, event)
+      .map(eventCap => ({ eventCap, handleEvent: this.capabilityHandler(plugin, eventCap.handler, plugin.handleEvent) }))
+      .filter((h): h is { eventCap: EventCapability; handleEvent: (event: CloudEvent) => Promise<void> } => !!h.handleEvent);
+    if (!handlers.length) {
+      return false;
+    }
+
+    await runWithTrace(traceFromEvent(event), async () => {
+      for (const { eventCap, handleEvent } of handlers) {
+        await this.pluginHealth.track(pluginId, 'event', eventCap.eventType, () => handleEvent(event));
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Import a plugin into the API process
    */
-  private async registerCapabilities(
+  private async importPlugin(
+    manifest: PluginManifest,
+    pluginPath: string,
+    context: PluginContext,
+  ): Promise<PluginApi> {
+    const PluginClass = await import(pluginPath);
+    const plugin: PluginApi = new PluginClass.default();
+    
+    if ('initialize' in plugin) {
+      (plugin as any).initialize(context, manifest);
+    }
+    return plugin;
+  }
+
+  /**
+   * Start a plugin in a worker thread; the host stands in for the plugin
+   */
+  private async startWorker(
+    manifest: PluginManifest,
+    pluginPath: string,
+    context: PluginContext,
+    config?: Record<string, any>,
+  ): Promise<PluginApi> {
+    const options = this.configService.get<PluginWorkerOptions>('plugins.isolation')!;
+    const worker = new PluginWorkerHost(manifest, path.resolve(pluginPath), context, options, config);
+    await worker.start();
+    this.workers.set(manifest.id, worker);
+    return worker;
+  }
+
+  private async stopWorker(pluginId: string): Promise<void> {
+    await this.workers.get(pluginId)?.stop();
+    this.workers.delete(pluginId);
+  }
+
+  /**
+   * Drop a plugin's modules from the require cache so that its files are
+   * read again on the next load
+   */
+  private evictModules(pluginId: string): void {
+    const pluginDir = path.resolve(`${this.configService.get('plugins.directory')}/${pluginId}`) + path.sep;
+    for (const file of Object.keys(require.cache)) {
+      if (file.startsWith(pluginDir)) {
+        delete require.cache[file];
+      }
+    }
+  }
+
+  private matchingEventCapabilities(pluginId: string, event: CloudEvent): EventCapability[] {
+    const events = this.manifests.get(pluginId)?.capabilities.events || [];
+    return events.filter(eventCap =>
+      matchesTypePattern(eventCap.eventType, event.type) &&
+      matchesEventFilters(this.eventFilters(eventCap), event),
+    );
+  }
+
+  /**
+   * Subscription filters of an event capability; the legacy `filter` is an
+   * exact match on top-level attributes
+   */
+  private eventFilters(eventCap: EventCapability): EventFilter[] {
+    return [
+      ...(eventCap.filter ? [{ exact: eventCap.filter }] : []),
+      ...(eventCap.filters || []),
+    ];
+  }
+
+  /**
+   * The handler named in a capability when the plugin defines it, otherwise
+   * the plugin's generic handler, as the router does for API routes
+   */
+  private capabilityHandler<T extends (...args: any[]) => Promise<any>>(
+    plugin: PluginApi,
+    name: string,
+    fallback?: T,
+  ): T | undefined {
+    const handler = (plugin as any)[name];
+    if (typeof handler === 'function') {
+      return handler.bind(plugin);
+    }
+    return fallback?.bind(plugin) as T | undefined;
+  }
+
+  /**
+   * Register the hooks and event types a plugin provides for other plugins
+   */
+  private registerExtensionPoints(manifest: PluginManifest): void {
+    for (const hook of manifest.provides?.hooks || []) {
+      this.hookService.registerHook(manifest.id, hook);
+    }
+
+    for (const event of manifest.provides?.events || []) {
+      this.eventSchemas.registerPluginSchema(
+        manifest.id,
+        event.type,
+        eventDataSchemaFromJson(event.schema),
+        { version: event.version, jsonSchema: event.schema },
+      );
+    }
+  }
+
+  /**
+   * Register the event and hook handlers of an enabled plugin, replacing
+   * any left from before
+   */
+  private registerCapabilities(
     pluginId: string,
     plugin: PluginApi,
-    manifest: any,
-  ): Promise<void> {
+    manifest: PluginManifest,
+  ): void {
     const { capabilities } = manifest;
+    this.unregisterEventHandlers(pluginId);
+    this.hookService.unregisterPlugin(pluginId);
     
     // Register event handlers
-    if (capabilities.events && plugin.handleEvent) {
-      for (const eventCap of capabilities.events) {
-        this.eventBus.on(eventCap.eventType, async (event) => {
-          // Check filter if provided
-          if (eventCap.filter) {
-            const matches = Object.entries(eventCap.filter).every(
-              ([key, value]) => (event as any)[key] === value,
-            );
-            if (!matches) return;
-          }
-          
-          await plugin.handleEvent!(event);
-        });
-      }
+    const handlers: { eventType: string; handler: (event: CloudEvent) => Promise<void> }[] = [];
+    for (const eventCap of (capabilities.events || []) as EventCapability[]) {
+      const handleEvent = this.capabilityHandler(plugin, eventCap.handler, plugin.handleEvent);
+      if (!handleEvent) continue;
+
+      // A failing plugin is counted against its error budget but does not
+      // fail the delivery to other subscribers
+      const handler = async (event: CloudEvent) => {
+        try {
+          await this.pluginHealth.track(pluginId, 'event', eventCap.eventType, () => handleEvent(event));
+        } catch (error) {
+          this.logger.error(`Plugin ${pluginId} failed to handle event ${event.type}`, error);
+        }
+      };
+      this.eventBus.on(eventCap.eventType, handler, { filters: this.eventFilters(eventCap) });
+      handlers.push({ eventType: eventCap.eventType, handler });
     }
+    this.eventHandlers.set(pluginId, handlers);
     
     // Register hook handlers
-    if (capabilities.hooks && plugin.handleHook) {
-      for (const hookCap of capabilities.hooks) {
-        this.hookService.registerHandler(
-          hookCap.hookId,
-          pluginId,
-          async (context) => plugin.handleHook!(context),
-          hookCap.order || 0,
-        );
-      }
+    for (const hookCap of (capabilities.hooks || []) as HookCapability[]) {
+      const handleHook = this.capabilityHandler(plugin, hookCap.handler, plugin.handleHook);
+      if (!handleHook) continue;
+
+      this.hookService.registerHandler(
+        hookCap.hookId,
+        pluginId,
+        async (context) => handleHook(context),
+        hookCap.order || 0,
+        this.permissions.get(pluginId),
+      );
     }
     
-    // TODO: Register API endpoints, UI slots, workflows
+    // UI slots are read from the manifests of enabled plugins by
+    // PluginsService.getUiSlots
+  }
+
+  private unregisterEventHandlers(pluginId: string): void {
+    for (const { eventType, handler } of this.eventHandlers.get(pluginId) || []) {
+      this.eventBus.off(eventType, handler);
+    }
+    this.eventHandlers.delete(pluginId);
+  }
+
+  /**
+   * Kernel services as a plugin sees them. Calls beyond the plugin's
+   * permissions are denied, audited and thrown to the plugin. Other
+   * permitted services are domain facades or services of other plugins.
+   */
+  private createServices(pluginId: string, permissions: PluginPermissions): Map<string, any> {
+    const deny = (violation: Omit<PermissionViolation, 'pluginId'>): never =>
+      this.pluginPermissions.deny({ pluginId, ...violation });
+
+    const checkHook = (hookId: string) => {
+      if (!canHandleHook(permissions, hookId)) {
+        deny({ permission: 'hook', target: hookId, message: `Plugin ${pluginId} is not permitted to use hook ${hookId}` });
+      }
+    };
+
+    const services = new Map<string, any>([
+      ['eventBus', {
+        emit: async (event: CloudEvent) => {
+          if (!canEmit(permissions, event.type)) {
+            deny({ permission: 'emit', target: event.type, message: `Plugin ${pluginId} is not permitted to emit ${event.type}` });
+          }
+          return this.eventBus.emit(event);
+        },
+        on: (pattern: string, handler: (event: CloudEvent) => void | Promise<void>, options?: { filters?: EventFilter[] }) => {
+          if (!canSubscribe(permissions, pattern)) {
+            deny({ permission: 'subscribe', target: pattern, message: `Plugin ${pluginId} is not permitted to subscribe to ${pattern}` });
+          }
+          this.eventBus.on(pattern, handler, options);
+        },
+        off: (pattern: string, handler: (event: CloudEvent) => void | Promise<void>) => this.eventBus.off(pattern, handler),
+      }],
+      ['hookService', {
+        // Handlers are always registered for the calling plugin
+        registerHandler: (hookId: string, _pluginId: string, handler: Parameters<HookService['registerHandler']>[2], order?: number) => {
+          checkHook(hookId);
+          this.hookService.registerHandler(hookId, pluginId, handler, order, permissions);
+        },
+        executeHook: (hookId: string, data: any, metadata?: Record<string, any>) => {
+          checkHook(hookId);
+          return this.hookService.executeHook(hookId, data, metadata);
+        },
+        unregisterPlugin: () => this.hookService.unregisterPlugin(pluginId),
+      }],
+    ]);
+
+    for (const name of permissions.services || []) {
+      if (!services.has(name)) {
+        services.set(name, this.serviceClient(pluginId, name));
+      }
+    }
+    return services;
+  }
+
+  /**
+   * A service of the service registry as a plugin sees it
+   */
+  private serviceClient(pluginId: string, name: string): object {
+    return new Proxy({}, {
+      get: (_, method) =>
+        // Not a thenable, so the client can be awaited
+        method === 'then' || typeof method !== 'string'
+          ? undefined
+          : async (...args: unknown[]) => {
+            const consumer = this.manifests.get(pluginId);
+            if (!consumer) {
+              throw new Error(`Plugin ${pluginId} not loaded`);
+            }
+            return this.serviceRegistry.call(name, method, args, consumer);
+          },
+    });
   }
 }
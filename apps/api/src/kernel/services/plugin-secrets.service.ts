@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { PluginConfigSchema, mapSecrets } from '@tms/plugin-sdk';
+
+// Stored secret values: the prefix, then base64 of IV, auth tag and ciphertext
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Encrypts the values plugin configuration schemas mark `secret` before
+ * they are stored, with AES-256-GCM under the kernel's key. Plugins get
+ * their configuration decrypted.
+ */
+@Injectable()
+export class PluginSecretsService {
+  private readonly key?: Buffer;
+
+  constructor(configService: ConfigService) {
+    const secret = configService.get<string>('plugins.secretKey');
+    if (secret) {
+      this.key = scryptSync(secret, 'tms-plugin-config', 32);
+    }
+  }
+
+  /**
+   * Configuration to store, secret values encrypted. A value identical to
+   * the stored ciphertext at its path is kept; any other value is encrypted,
+   * even if it looks encrypted.
+   */
+  encryptConfig(
+    schema: PluginConfigSchema | undefined,
+    config: Record<string, any>,
+    stored: Record<string, any> = {},
+  ): Record<string, any> {
+    if (!schema) return config;
+    return mapSecrets(schema, config, (value, path) => {
+      const current = path.reduce<any>((parent, key) => parent?.[key], stored);
+      return isEncrypted(current) && value === current ? value : this.encrypt(value);
+    });
+  }
+
+  /**
+   * Stored configuration with secret values decrypted. Values stored before
+   * they were marked secret are returned as they are.
+   */
+  decryptConfig(schema: PluginConfigSchema | undefined, config: Record<string, any>): Record<string, any> {
+    if (!schema) return config;
+    return mapSecrets(schema, config, (value, path) => {
+      if (!isEncrypted(value)) return value;
+      try {
+        return this.decrypt(value);
+      } catch {
+        throw new Error(`Cannot decrypt secret ${path.join('.')}; was PLUGIN_SECRET_KEY changed?`);
+      }
+    });
+  }
+
+  private encrypt(value: unknown): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.requireKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private decrypt(value: string): unknown {
+    const raw = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', this.requireKey(), raw.subarray(0, IV_BYTES));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const plaintext = Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error('PLUGIN_SECRET_KEY must be set to store secret plugin configuration');
+    }
+    return this.key;
+  }
+}
+
+function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
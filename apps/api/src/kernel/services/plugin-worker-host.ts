@@ -0,0 +1,358 @@
+import { Logger } from '@nestjs/common';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { AnyEventDataSchema, CloudEvent, EventFilter } from '@tms/contracts';
+import {
+  PluginApi,
+  PluginContext,
+  PluginManifest,
+  PluginRequest,
+  PluginResponse,
+  HookContext,
+  HookResult,
+  DataStore,
+  EventSchemaOptions,
+} from '@tms/plugin-sdk';
+import { RpcChannel, RpcMessage } from './plugin-rpc';
+import { PluginWorkerData } from './plugin-worker';
+import { currentTrace, runWithTrace, TraceContext } from './trace-context';
+
+export interface PluginWorkerOptions {
+  memoryLimitMb: number;
+  callTimeoutMs: number;
+  heartbeatIntervalMs: number;
+  // A worker not answering a heartbeat in time is stuck, e.g. in a loop
+  heartbeatTimeoutMs: number;
+  // Restarts allowed within the window before the worker is given up
+  maxRestarts: number;
+  restartWindowMs: number;
+}
+
+export interface PluginWorkerStats {
+  pluginId: string;
+  state: 'STARTING' | 'RUNNING' | 'RESTARTING' | 'FAILED' | 'STOPPED';
+  threadId?: number;
+  restarts: number;
+  lastCrash?: { at: Date; reason: string };
+}
+
+const DATA_STORE_METHODS = new Set<keyof DataStore>([
+  'get', 'set', 'delete', 'list', 'listPage', 'compareAndSet', 'getMany', 'setMany',
+]);
+
+const LOGGER_LEVELS = new Set(['debug', 'info', 'warn', 'error']);
+
+// Lifecycle methods replayed on a restarted worker
+const LIFECYCLE_METHODS = new Set(['install', 'enable', 'disable', 'uninstall', 'upgrade']);
+
+/**
+ * Runs a plugin in its own worker thread and stands in for it in the API
+ * process.
+ *
+ * Calls to the plugin and to its context services cross the thread boundary
+ * as messages. The worker's heap is limited and a heartbeat detects a
+ * blocked event loop; a crashed or stuck worker is terminated and restarted
+ * with the plugin's lifecycle replayed, up to a number of times per window.
+ */
+export class PluginWorkerHost implements PluginApi {
+  private readonly logger: Logger;
+  private worker?: Worker;
+  private channel?: RpcChannel;
+  private ready: Promise<void> = Promise.resolve();
+  private heartbeat?: NodeJS.Timeout;
+  private heartbeatPending = false;
+  private state: PluginWorkerStats['state'] = 'STARTING';
+  private crashes: number[] = [];
+  private restarts = 0;
+  private lastCrash?: PluginWorkerStats['lastCrash'];
+  private crashReason?: string;
+
+  // Lifecycle state to restore after a restart
+  private installConfig?: Record<string, any>;
+  private installed = false;
+  private enabled = false;
+
+  // Event subscriptions the plugin made through its context
+  private readonly subscriptions = new Map<number, { eventType: string; handler: (event: CloudEvent) => Promise<void> }>();
+
+  // Handlers present on the plugin, known once the worker started
+  handleRequest?: (req: PluginRequest) => Promise<PluginResponse>;
+  handleEvent?: (event: CloudEvent) => Promise<void>;
+  handleHook?: (context: HookContext) => Promise<HookResult>;
+  executeAction?: (actionId: string, context: any) => Promise<any>;
+
+  constructor(
+    private readonly manifest: PluginManifest,
+    private readonly pluginPath: string,
+    private readonly context: PluginContext,
+    private readonly options: PluginWorkerOptions,
+    private readonly config?: Record<string, any>,
+  ) {
+    this.logger = new Logger(`PluginWorker:${manifest.id}`);
+  }
+
+  /**
+   * Start the worker and import the plugin in it
+   */
+  async start(): Promise<void> {
+    this.ready = this.spawn();
+    await this.ready;
+  }
+
+  /**
+   * Terminate the worker for good
+   */
+  async stop(): Promise<void> {
+    this.state = 'STOPPED';
+    this.stopHeartbeat();
+    this.dropSubscriptions();
+    this.channel?.rejectAll(new Error(`Plugin ${this.manifest.id} worker stopped`));
+    await this.worker?.terminate();
+    this.worker = undefined;
+  }
+
+  getStats(): PluginWorkerStats {
+    return {
+      pluginId: this.manifest.id,
+      state: this.state,
+      threadId: this.worker?.threadId,
+      restarts: this.restarts,
+      lastCrash: this.lastCrash,
+    };
+  }
+
+  async install(config?: Record<string, any>): Promise<void> {
+    await this.call('install', [config]);
+    this.installConfig = config;
+    this.installed = true;
+  }
+
+  async enable(): Promise<void> {
+    await this.call('enable', []);
+    this.enabled = true;
+  }
+
+  async disable(): Promise<void> {
+    await this.call('disable', []);
+    this.enabled = false;
+  }
+
+  async uninstall(): Promise<void> {
+    await this.call('uninstall', []);
+    this.installed = false;
+  }
+
+  async upgrade(fromVersion: string): Promise<void> {
+    await this.call('upgrade', [fromVersion]);
+  }
+
+  /**
+   * Call a plugin method in the worker, waiting for a restart in progress
+   */
+  async call<T = any>(method: string, args: unknown[]): Promise<T> {
+    // A failed restart schedules the next one
+    let ready: Promise<void>;
+    do {
+      ready = this.ready;
+      await ready;
+    } while (ready !== this.ready);
+
+    if (this.state !== 'RUNNING' || !this.channel) {
+      throw new Error(`Plugin ${this.manifest.id} worker is ${this.state.toLowerCase()}`);
+    }
+    return this.channel.request<T>('call', [method, args], this.options.callTimeoutMs);
+  }
+
+  private async spawn(): Promise<void> {
+    const workerData: { plugin: PluginWorkerData } = {
+      plugin: { pluginPath: this.pluginPath, manifest: this.manifest, config: this.config },
+    };
+
+    // Under ts-node the worker entry is TypeScript as well
+    const extension = path.extname(__filename);
+    const worker = new Worker(path.join(__dirname, `plugin-worker${extension}`), {
+      workerData,
+      execArgv: extension === '.ts' ? ['--require', 'ts-node/register'] : undefined,
+      resourceLimits: { maxOldGenerationSizeMb: this.options.memoryLimitMb },
+    });
+
+    const channel = new RpcChannel(worker, {
+      current: currentTrace,
+      run: (context, fn) => runWithTrace(context as TraceContext, fn),
+    });
+    this.registerHandlers(channel);
+
+    worker.on('message', (message: RpcMessage) => channel.receive(message));
+    worker.on('error', error => {
+      this.crashReason = error.message;
+      this.logger.error(`Worker error: ${error.message}`);
+    });
+    worker.on('exit', code => this.onExit(worker, code));
+
+    this.worker = worker;
+    this.channel = channel;
+    this.crashReason = undefined;
+
+    try {
+      const methods = await channel.request<string[]>('init', [], this.options.callTimeoutMs);
+      this.exposeMethods(methods);
+    } catch (error) {
+      // A plugin failing to load at first start is not restarted
+      if (this.state === 'STARTING') {
+        this.state = 'FAILED';
+        this.worker = undefined;
+      } else {
+        this.crashReason = `Failed to load: ${error instanceof Error ? error.message : error}`;
+      }
+      await worker.terminate();
+      throw error;
+    }
+
+    this.state = 'RUNNING';
+    this.startHeartbeat(worker, channel);
+    this.logger.log(`Plugin ${this.manifest.id} running in worker thread ${worker.threadId}`);
+  }
+
+  /**
+   * Forward the plugin's handlers, including named API handlers and
+   * workflow actions the kernel looks up by name
+   */
+  private exposeMethods(methods: string[]): void {
+    for (const method of methods) {
+      if (LIFECYCLE_METHODS.has(method) || method in PluginWorkerHost.prototype) {
+        continue;
+      }
+      (this as any)[method] = (...args: unknown[]) => this.call(method, args);
+    }
+  }
+
+  /**
+   * Services of the plugin context, called from the worker
+   */
+  private registerHandlers(channel: RpcChannel): void {
+    const { context } = this;
+
+    channel.handle('eventBus.emit', (event: CloudEvent) => context.eventBus.emit(event));
+
+    channel.handle('eventBus.on', (id: number, eventType: string, filters?: EventFilter[]) => {
+      const handler = async (event: CloudEvent) => {
+        await channel.request('event', [id, event], this.options.callTimeoutMs);
+      };
+      context.eventBus.on(eventType, handler, filters);
+      this.subscriptions.set(id, { eventType, handler });
+    });
+
+    channel.handle('eventBus.off', (id: number) => {
+      const subscription = this.subscriptions.get(id);
+      if (subscription) {
+        context.eventBus.off(subscription.eventType, subscription.handler);
+        this.subscriptions.delete(id);
+      }
+    });
+
+    channel.handle('eventBus.registerSchema', (eventType: string, options: EventSchemaOptions) =>
+      context.eventBus.registerSchema(eventType, AnyEventDataSchema, options),
+    );
+
+    channel.handle('dataStore', (method: keyof DataStore, args: unknown[]) => {
+      if (!DATA_STORE_METHODS.has(method)) {
+        throw new Error(`Unknown data store method ${String(method)}`);
+      }
+      return (context.dataStore[method] as (...args: unknown[]) => unknown)(...args);
+    });
+
+    channel.handle('logger', (level: string, message: string, meta?: unknown) => {
+      if (LOGGER_LEVELS.has(level)) {
+        (context.logger as any)[level](message, meta);
+      }
+    });
+
+    channel.handle('service', (name: string, method: string, args: unknown[]) => {
+      const service = context.getService(name);
+      if (typeof service?.[method] !== 'function') {
+        throw new Error(`Service '${name}' has no method ${method}`);
+      }
+      return service[method](...args);
+    });
+  }
+
+  private startHeartbeat(worker: Worker, channel: RpcChannel): void {
+    this.heartbeat = setInterval(() => {
+      if (this.heartbeatPending) return;
+
+      this.heartbeatPending = true;
+      channel.request('ping', [], this.options.heartbeatTimeoutMs)
+        .catch(() => {
+          if (this.worker !== worker || this.state !== 'RUNNING') return;
+          this.crashReason = `No heartbeat within ${this.options.heartbeatTimeoutMs}ms`;
+          this.logger.error(`Worker unresponsive for ${this.options.heartbeatTimeoutMs}ms, terminating`);
+          worker.terminate();
+        })
+        .finally(() => {
+          this.heartbeatPending = false;
+        });
+    }, this.options.heartbeatIntervalMs);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+    this.heartbeatPending = false;
+  }
+
+  private onExit(worker: Worker, code: number): void {
+    if (this.worker !== worker || this.state === 'STOPPED') return;
+
+    this.stopHeartbeat();
+    this.dropSubscriptions();
+    this.channel?.rejectAll(new Error(`Plugin ${this.manifest.id} worker exited with code ${code}`));
+    this.lastCrash = { at: new Date(), reason: this.crashReason ?? `Exited with code ${code}` };
+
+    const now = Date.now();
+    this.crashes = [...this.crashes.filter(at => now - at < this.options.restartWindowMs), now];
+    if (this.crashes.length > this.options.maxRestarts) {
+      this.state = 'FAILED';
+      this.logger.error(
+        `Worker crashed ${this.crashes.length} times within ${this.options.restartWindowMs}ms, giving up`,
+      );
+      return;
+    }
+
+    // Back off exponentially, calls wait for the restart
+    const delay = Math.min(1000 * 2 ** (this.crashes.length - 1), 30000);
+    this.state = 'RESTARTING';
+    this.logger.warn(`Worker exited with code ${code}, restarting in ${delay}ms`);
+    this.ready = new Promise<void>(resolve => setTimeout(resolve, delay))
+      .then(() => this.restart())
+      .catch(error => {
+        this.logger.error(`Worker restart failed: ${error instanceof Error ? error.message : error}`);
+      });
+  }
+
+  /**
+   * Start a new worker and bring the plugin back to its lifecycle state
+   */
+  private async restart(): Promise<void> {
+    if (this.state === 'STOPPED') return;
+
+    this.restarts++;
+    await this.spawn();
+
+    const channel = this.channel!;
+    if (this.installed) {
+      await channel.request('call', ['install', [this.installConfig]], this.options.callTimeoutMs);
+    }
+    if (this.enabled) {
+      await channel.request('call', ['enable', []], this.options.callTimeoutMs);
+    }
+    this.logger.log(`Worker restarted (${this.restarts} restarts)`);
+  }
+
+  private dropSubscriptions(): void {
+    for (const { eventType, handler } of this.subscriptions.values()) {
+      this.context.eventBus.off(eventType, handler);
+    }
+    this.subscriptions.clear();
+  }
+}
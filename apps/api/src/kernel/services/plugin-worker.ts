@@ -0,0 +1,182 @@
+import { isMainThread, parentPort, workerData } from 'worker_threads';
+import {
+  CloudEvent,
+  EventDataSchema,
+  EventFilter,
+  EventSchemaRegistry,
+  eventSchemaToJsonSchema,
+} from '@tms/contracts';
+import {
+  PluginApi,
+  PluginContext,
+  PluginManifest,
+  EventBus,
+  EventSchemaOptions,
+  DataStore,
+  Logger,
+  InMemoryConfigStore,
+  ServiceToken,
+  serviceName,
+} from '@tms/plugin-sdk';
+import { RpcChannel, RpcMessage } from './plugin-rpc';
+import { currentTrace, runWithTrace, TraceContext } from './trace-context';
+
+/**
+ * Entry point of a plugin worker thread.
+ *
+ * The plugin is imported here and sees a context whose services forward to
+ * the plugin's context in the API process, which enforces its permissions.
+ * Only data crosses the thread boundary: service methods taking callbacks
+ * are not available.
+ */
+export interface PluginWorkerData {
+  pluginPath: string;
+  manifest: PluginManifest;
+  config?: Record<string, any>;
+}
+
+// Methods of a plugin that are not forwarded as handlers
+const INTERNAL_METHODS = new Set(['constructor', 'initialize']);
+
+const DATA_STORE_METHODS: (keyof DataStore)[] = [
+  'get', 'set', 'delete', 'list', 'listPage', 'compareAndSet', 'getMany', 'setMany',
+];
+
+class RemoteEventBus implements EventBus {
+  private nextId = 1;
+  private readonly subscriptions = new Map<number, { eventType: string; handler: (event: CloudEvent) => Promise<void> }>();
+  private readonly schemas = new EventSchemaRegistry();
+
+  constructor(private readonly channel: RpcChannel, private readonly logger: Logger) {
+    channel.handle('event', async (id: number, event: CloudEvent) => {
+      await this.subscriptions.get(id)?.handler(event);
+    });
+  }
+
+  async emit(event: CloudEvent): Promise<void> {
+    // Schemas registered here are only known to the kernel as JSON Schema,
+    // so their data is validated before it leaves the worker
+    const result = this.schemas.validate(event.type, event.data);
+    if (!result.valid) {
+      const details = result.errors?.map(e => `${e.field}: ${e.message}`).join(', ');
+      throw new Error(`Event ${event.type} does not match its schema: ${details}`);
+    }
+    await this.channel.request('eventBus.emit', [event]);
+  }
+
+  on(eventType: string, handler: (event: CloudEvent) => Promise<void>, filters?: EventFilter[]): void {
+    const id = this.nextId++;
+    this.subscriptions.set(id, { eventType, handler });
+    this.channel.request('eventBus.on', [id, eventType, filters]).catch(error => {
+      this.subscriptions.delete(id);
+      this.logger.error(`Subscription to ${eventType} failed: ${error.message}`);
+    });
+  }
+
+  off(eventType: string, handler: (event: CloudEvent) => Promise<void>): void {
+    for (const [id, subscription] of this.subscriptions) {
+      if (subscription.eventType === eventType && subscription.handler === handler) {
+        this.subscriptions.delete(id);
+        this.channel.notify('eventBus.off', [id]);
+      }
+    }
+  }
+
+  registerSchema(eventType: string, schema: EventDataSchema, options: EventSchemaOptions = {}): void {
+    const entry = this.schemas.register(eventType, schema, { version: options.version });
+    this.channel.request('eventBus.registerSchema', [
+      eventType,
+      { version: entry.version, jsonSchema: eventSchemaToJsonSchema(entry) },
+    ]).catch(error => {
+      this.logger.error(`Schema registration for ${eventType} failed: ${error.message}`);
+    });
+  }
+}
+
+function createContext(channel: RpcChannel, data: PluginWorkerData): PluginContext {
+  const log = (level: keyof Logger) => (message: string, meta?: any) => {
+    try {
+      channel.notify('logger', [level, message, meta]);
+    } catch {
+      // Meta that cannot be cloned is dropped
+      channel.notify('logger', [level, message]);
+    }
+  };
+  const logger: Logger = {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+  };
+
+  const dataStore = Object.fromEntries(
+    DATA_STORE_METHODS.map(method => [method, (...args: unknown[]) => channel.request('dataStore', [method, args])]),
+  ) as unknown as DataStore;
+
+  return {
+    pluginId: data.manifest.id,
+    pluginVersion: data.manifest.version,
+    eventBus: new RemoteEventBus(channel, logger),
+    dataStore,
+    configStore: new InMemoryConfigStore(data.config),
+    logger,
+    // Calls are checked against the plugin's permissions in the API process
+    getService: (service: string | ServiceToken<any>) =>
+      new Proxy({}, {
+        get: (_, method) =>
+          // Not a thenable, so the proxy can be awaited
+          method === 'then' || typeof method !== 'string'
+            ? undefined
+            : (...args: unknown[]) => channel.request('service', [serviceName(service), method, args]),
+      }),
+  };
+}
+
+/**
+ * Names of all methods of a plugin instance, including inherited ones
+ */
+function methodNames(plugin: object): string[] {
+  const names = new Set<string>();
+  for (let proto = Object.getPrototypeOf(plugin); proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      if (!INTERNAL_METHODS.has(name) && typeof (plugin as any)[name] === 'function') {
+        names.add(name);
+      }
+    }
+  }
+  return Array.from(names);
+}
+
+function start(port: NonNullable<typeof parentPort>, data: PluginWorkerData): void {
+  const channel = new RpcChannel(port, {
+    current: currentTrace,
+    run: (context, fn) => runWithTrace(context as TraceContext, fn),
+  });
+  port.on('message', (message: RpcMessage) => channel.receive(message));
+
+  let plugin: PluginApi | undefined;
+
+  channel.handle('init', async () => {
+    const PluginClass = await import(data.pluginPath);
+    plugin = new PluginClass.default() as PluginApi;
+
+    if ('initialize' in plugin) {
+      (plugin as any).initialize(createContext(channel, data), data.manifest);
+    }
+    return methodNames(plugin);
+  });
+
+  channel.handle('call', async (method: string, args: unknown[]) => {
+    const fn = (plugin as any)?.[method];
+    if (typeof fn !== 'function') {
+      throw new Error(`Plugin ${data.manifest.id} has no method ${method}`);
+    }
+    return fn.apply(plugin, args);
+  });
+
+  channel.handle('ping', () => 'pong');
+}
+
+if (!isMainThread && parentPort && workerData?.plugin) {
+  start(parentPort, workerData.plugin as PluginWorkerData);
+}
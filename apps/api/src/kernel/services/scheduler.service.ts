@@ -0,0 +1,242 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, ScheduledJob } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+
+/**
+ * Scheduled job states
+ */
+export const ScheduledJobStatus = {
+  PENDING: 'PENDING',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type ScheduledJobStatus = typeof ScheduledJobStatus[keyof typeof ScheduledJobStatus];
+
+export type ScheduledJobHandler<T = any> = (
+  payload: T,
+  job: Pick<ScheduledJob, 'id' | 'type' | 'key' | 'attempts'>,
+) => Promise<void>;
+
+export interface ScheduleJobRequest<T = any> {
+  type: string;
+  /** Unique key; scheduling an existing key reschedules that job */
+  key: string;
+  runAt: Date;
+  payload?: T;
+}
+
+export interface ScheduleOptions {
+  tx?: Prisma.TransactionClient;
+}
+
+/**
+ * Durable timers backed by the ScheduledJob table.
+ *
+ * Jobs survive restarts: anything that came due while the API was down runs
+ * on the first poll after startup. Jobs are claimed with a lease, so a job may
+ * run more than once if a worker dies mid-run; handlers must be idempotent.
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly handlers = new Map<string, ScheduledJobHandler>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly leaseMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalMs = this.configService.get<number>('scheduler.pollIntervalMs') ?? 5000;
+    this.batchSize = this.configService.get<number>('scheduler.batchSize') ?? 50;
+    this.maxAttempts = this.configService.get<number>('scheduler.maxAttempts') ?? 5;
+    this.retryBaseMs = this.configService.get<number>('scheduler.retryBaseMs') ?? 5000;
+    this.leaseMs = this.configService.get<number>('scheduler.leaseMs') ?? 60000;
+  }
+
+  /**
+   * Handlers register during module init, so polling (and with it the
+   * catch-up of missed jobs) starts once the application has bootstrapped
+   */
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.poll();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler<T = any>(type: string, handler: ScheduledJobHandler<T>): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`Handler for job type ${type} already registered`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Schedule a job, or reschedule the job with the same key
+   */
+  async schedule<T = any>(request: ScheduleJobRequest<T>, options: ScheduleOptions = {}): Promise<void> {
+    const client = options.tx || this.prisma;
+    const payload = request.payload !== undefined ? JSON.stringify(request.payload) : null;
+
+    await client.scheduledJob.upsert({
+      where: { key: request.key },
+      create: {
+        type: request.type,
+        key: request.key,
+        runAt: request.runAt,
+        payload,
+      },
+      update: {
+        type: request.type,
+        runAt: request.runAt,
+        payload,
+        status: ScheduledJobStatus.PENDING,
+        attempts: 0,
+        lastError: null,
+        completedAt: null,
+      },
+    });
+
+    this.logger.debug(`Job scheduled: ${request.key} at ${request.runAt.toISOString()}`);
+  }
+
+  /**
+   * Cancel a pending job, returns whether a job was cancelled
+   */
+  async cancel(key: string, options: ScheduleOptions = {}): Promise<boolean> {
+    const client = options.tx || this.prisma;
+
+    const result = await client.scheduledJob.updateMany({
+      where: { key, status: ScheduledJobStatus.PENDING },
+      data: { status: ScheduledJobStatus.CANCELLED },
+    });
+
+    return result.count > 0;
+  }
+
+  async getJob(key: string): Promise<ScheduledJob | null> {
+    return this.prisma.scheduledJob.findUnique({ where: { key } });
+  }
+
+  /**
+   * Run all due jobs, returns the number of jobs processed
+   */
+  async runDue(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      let processed = 0;
+      let batch: number;
+
+      do {
+        batch = await this.runBatch();
+        processed += batch;
+      } while (batch === this.batchSize);
+
+      return processed;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private poll(): void {
+    this.runDue().catch(error =>
+      this.logger.error('Scheduler run failed', error),
+    );
+  }
+
+  private async runBatch(): Promise<number> {
+    if (this.handlers.size === 0) return 0;
+
+    const now = new Date();
+
+    // Pending jobs plus running jobs whose lease has expired
+    const due = await this.prisma.scheduledJob.findMany({
+      where: {
+        type: { in: Array.from(this.handlers.keys()) },
+        status: { in: [ScheduledJobStatus.PENDING, ScheduledJobStatus.RUNNING] },
+        runAt: { lte: now },
+      },
+      orderBy: { runAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    for (const job of due) {
+      // Claim the job; it may have been taken or rescheduled in the meantime
+      const claimed = await this.prisma.scheduledJob.updateMany({
+        where: {
+          id: job.id,
+          status: job.status,
+          runAt: job.runAt,
+        },
+        data: {
+          status: ScheduledJobStatus.RUNNING,
+          attempts: { increment: 1 },
+          runAt: new Date(Date.now() + this.leaseMs),
+        },
+      });
+
+      if (claimed.count === 0) continue;
+
+      await this.execute({ ...job, attempts: job.attempts + 1 });
+    }
+
+    return due.length;
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+    // Only settle the run we claimed; a reschedule resets status and attempts
+    const claimed = { id: job.id, status: ScheduledJobStatus.RUNNING, attempts: job.attempts };
+
+    try {
+      await handler(job.payload ? JSON.parse(job.payload) : undefined, job);
+
+      await this.prisma.scheduledJob.updateMany({
+        where: claimed,
+        data: {
+          status: ScheduledJobStatus.COMPLETED,
+          completedAt: new Date(),
+          lastError: null,
+        },
+      });
+
+      this.logger.debug(`Job completed: ${job.key}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const exhausted = job.attempts >= this.maxAttempts;
+
+      await this.prisma.scheduledJob.updateMany({
+        where: claimed,
+        data: {
+          status: exhausted ? ScheduledJobStatus.FAILED : ScheduledJobStatus.PENDING,
+          runAt: new Date(Date.now() + this.retryBaseMs * 2 ** (job.attempts - 1)),
+          lastError: message,
+        },
+      });
+
+      this.logger.warn(
+        `Job ${job.key} failed on attempt ${job.attempts}` +
+          (exhausted ? ', giving up' : ', will retry'),
+        message,
+      );
+    }
+  }
+}
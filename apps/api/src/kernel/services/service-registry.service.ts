@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  PluginApi,
+  PluginManifest,
+  ServiceDefinition,
+  isKernelService,
+  satisfiesRange,
+} from '@tms/plugin-sdk';
+
+type ServiceMethods = Record<string, (...args: any[]) => Promise<any>>;
+
+/**
+ * A service plugins can get, as listed by GET /plugins/services
+ */
+export interface RegisteredService {
+  name: string;
+  // null for the kernel's facades
+  pluginId: string | null;
+  version: string | null;
+  methods: string[];
+  description?: string;
+}
+
+/**
+ * Services available to plugins besides the kernel's own: read-only facades
+ * of the domain services and the services enabled plugins export. Services
+ * are looked up on every call, so a provider that is upgraded or re-enabled
+ * is picked up without reloading its consumers.
+ */
+@Injectable()
+export class ServiceRegistryService {
+  private readonly logger = new Logger(ServiceRegistryService.name);
+  private readonly facades = new Map<string, ServiceMethods>();
+  private readonly pluginServices = new Map<string, { pluginId: string; definition: ServiceDefinition; plugin: PluginApi }>();
+
+  /**
+   * Register the read-only facade of a domain service
+   */
+  registerFacade(name: string, facade: ServiceMethods): void {
+    if (!isKernelService(name)) {
+      throw new Error(`${name} is not a kernel service`);
+    }
+    this.facades.set(name, facade);
+    this.logger.log(`Registered facade ${name}`);
+  }
+
+  /**
+   * Register the services a plugin exports. Names are unique across the
+   * kernel and all plugins.
+   */
+  registerPluginServices(pluginId: string, plugin: PluginApi, definitions: ServiceDefinition[]): void {
+    for (const definition of definitions) {
+      if (isKernelService(definition.name)) {
+        throw new Error(`Service ${definition.name} is a kernel service`);
+      }
+      const existing = this.pluginServices.get(definition.name);
+      if (existing && existing.pluginId !== pluginId) {
+        throw new Error(`Service ${definition.name} is already provided by plugin ${existing.pluginId}`);
+      }
+      const missing = definition.methods.filter(method => typeof (plugin as any)[method] !== 'function');
+      if (missing.length) {
+        throw new Error(`Plugin ${pluginId} does not implement ${missing.join(', ')} of service ${definition.name}`);
+      }
+    }
+
+    for (const definition of definitions) {
+      this.pluginServices.set(definition.name, { pluginId, definition, plugin });
+      this.logger.log(`Registered service ${definition.name}@${definition.version} of plugin ${pluginId}`);
+    }
+  }
+
+  unregisterPluginServices(pluginId: string): void {
+    for (const [name, service] of this.pluginServices) {
+      if (service.pluginId === pluginId) {
+        this.pluginServices.delete(name);
+      }
+    }
+  }
+
+  getServices(): RegisteredService[] {
+    return [
+      ...Array.from(this.facades.entries()).map(([name, facade]) => ({
+        name,
+        pluginId: null,
+        version: null,
+        methods: Object.keys(facade),
+      })),
+      ...Array.from(this.pluginServices.values()).map(({ pluginId, definition }) => ({
+        name: definition.name,
+        pluginId,
+        version: definition.version,
+        methods: definition.methods,
+        description: definition.description,
+      })),
+    ];
+  }
+
+  /**
+   * Call a service method for a consuming plugin. Fails when the service is
+   * not available, its provider is not a dependency of the consumer or its
+   * version is outside the consumer's range.
+   */
+  async call(name: string, method: string, args: unknown[], consumer: PluginManifest): Promise<any> {
+    const facade = this.facades.get(name);
+    if (facade) {
+      if (!Object.prototype.hasOwnProperty.call(facade, method)) {
+        throw new Error(`Service ${name} has no method ${method}`);
+      }
+      return facade[method](...args);
+    }
+
+    const service = this.pluginServices.get(name);
+    if (!service) {
+      throw new Error(`Service ${name} is not available; the plugin providing it must be enabled`);
+    }
+    const { pluginId, definition, plugin } = service;
+    if (pluginId !== consumer.id && consumer.dependencies?.[pluginId] === undefined) {
+      throw new Error(`Plugin ${consumer.id} must depend on ${pluginId} to use service ${name}`);
+    }
+    const range = consumer.serviceDependencies?.[name];
+    if (range && !satisfiesRange(definition.version, range)) {
+      throw new Error(`Plugin ${consumer.id} needs service ${name} ${range}, but ${pluginId} provides ${definition.version}`);
+    }
+    if (!definition.methods.includes(method)) {
+      throw new Error(`Service ${name} has no method ${method}`);
+    }
+    return (plugin as any)[method](...args);
+  }
+}
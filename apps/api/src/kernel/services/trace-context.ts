@@ -0,0 +1,131 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { CloudEvent } from '@tms/contracts';
+
+/**
+ * Trace context of the unit of work in progress: an HTTP request or the
+ * delivery of an event.
+ *
+ * Trace and span ids follow W3C Trace Context. The correlation id ties
+ * everything caused by one request together; the causation id names the
+ * direct cause, which is the event being handled or, for work done by the
+ * request itself, the correlation id.
+ */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  flags: string;
+  correlationId: string;
+  causationId: string;
+}
+
+export const TRACEPARENT_HEADER = 'traceparent';
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Trace context of the current async call chain, if any
+ */
+export function currentTrace(): TraceContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run a function with a trace context
+ */
+export function runWithTrace<T>(context: TraceContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Parse a `traceparent` header; invalid and all-zero ids are rejected
+ */
+export function parseTraceparent(
+  value: string | undefined,
+): { traceId: string; spanId: string; flags: string } | undefined {
+  const match = value ? TRACEPARENT_PATTERN.exec(value.trim().toLowerCase()) : null;
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return undefined;
+  }
+  return { traceId: match[2], spanId: match[3], flags: match[4] };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.flags}`;
+}
+
+/**
+ * Context for an incoming request, continuing the caller's trace if it sent one
+ */
+export function traceFromRequest(traceparent?: string, correlationId?: string): TraceContext {
+  const parent = parseTraceparent(traceparent);
+  const traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+  const correlation = correlationId?.trim() || traceId;
+
+  return {
+    traceId,
+    spanId: newSpanId(),
+    flags: parent?.flags ?? '01',
+    correlationId: correlation,
+    causationId: correlation,
+  };
+}
+
+/**
+ * Context for handling an event: same trace and correlation, caused by the event
+ */
+export function traceFromEvent(event: CloudEvent): TraceContext {
+  const parent = parseTraceparent(event.traceparent);
+
+  return {
+    traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+    spanId: newSpanId(),
+    flags: parent?.flags ?? '01',
+    correlationId: event.correlationid || event.id,
+    causationId: event.id,
+  };
+}
+
+/**
+ * Add the trace extension attributes of the current context to an event,
+ * keeping any the event already has
+ */
+export function stampTrace<T>(event: CloudEvent<T>): CloudEvent<T> {
+  const context = currentTrace();
+  if (!context) return event;
+
+  return {
+    ...event,
+    traceparent: event.traceparent ?? formatTraceparent(context),
+    correlationid: event.correlationid ?? context.correlationId,
+    causationid: event.causationid ?? context.causationId,
+  };
+}
+
+/**
+ * Express middleware opening a trace context per request and returning it
+ * in the `traceparent` and `x-correlation-id` response headers
+ */
+export function traceMiddleware(
+  req: { headers: Record<string, string | string[] | undefined> },
+  res: { setHeader(name: string, value: string): void },
+  next: () => void,
+): void {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const context = traceFromRequest(header(TRACEPARENT_HEADER), header(CORRELATION_ID_HEADER));
+  res.setHeader(TRACEPARENT_HEADER, formatTraceparent(context));
+  res.setHeader(CORRELATION_ID_HEADER, context.correlationId);
+
+  runWithTrace(context, next);
+}
+
+function newSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
@@ -0,0 +1,303 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebhookSubscription } from '@prisma/client';
+import { CloudEvent } from '@tms/contracts';
+import { PrismaService } from '@/database/prisma.service';
+import { EventBusService } from './event-bus.service';
+import { SIGNATURE_HEADER, toHttpRequest, verifySignature } from './cloudevents-http';
+import { toEventRecord } from './event-record';
+import { WebhookDeliveryStatus, WebhookDispatcherService } from './webhook-dispatcher.service';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local endpoint that records what it receives and answers with `status`
+ */
+class Receiver {
+  readonly requests: ReceivedRequest[] = [];
+  status = 200;
+  private server?: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        this.requests.push({ headers: req.headers, body });
+        res.writeHead(this.status, { 'content-type': 'text/plain' });
+        res.end(this.status < 300 ? 'ok' : 'failed');
+      });
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hooks`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server?.close(resolve));
+  }
+}
+
+/**
+ * In-memory stand-in for the Prisma calls the dispatcher makes
+ */
+function createPrisma(subscriptions: WebhookSubscription[], events: CloudEvent[]) {
+  const deliveries: any[] = [];
+  const attempts: any[] = [];
+  let nextId = 1;
+
+  const prisma = {
+    webhookSubscription: {
+      findMany: async ({ where }: any) => subscriptions.filter(s => s.active === where.active),
+    },
+    webhookDelivery: {
+      create: async ({ data }: any) => {
+        const delivery = {
+          id: `delivery-${nextId++}`,
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastStatusCode: null,
+          lastError: null,
+          deliveredAt: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        deliveries.push(delivery);
+        return delivery;
+      },
+      findMany: async ({ where, take }: any) =>
+        deliveries
+          .filter(d => where.status.in.includes(d.status) && d.nextAttemptAt <= where.nextAttemptAt.lte)
+          .slice(0, take)
+          .map(d => ({ ...d, subscription: subscriptions.find(s => s.id === d.subscriptionId) })),
+      updateMany: async ({ where, data }: any) => {
+        const delivery = deliveries.find(d =>
+          d.id === where.id &&
+          d.status === where.status &&
+          d.nextAttemptAt.getTime() === where.nextAttemptAt.getTime(),
+        );
+        if (!delivery) return { count: 0 };
+        Object.assign(delivery, data, { attempts: delivery.attempts + data.attempts.increment });
+        return { count: 1 };
+      },
+      update: async ({ where, data }: any) => Object.assign(deliveries.find(d => d.id === where.id), data),
+    },
+    webhookDeliveryAttempt: {
+      create: async ({ data }: any) => attempts.push(data),
+    },
+    event: {
+      findUnique: async ({ where }: any) => {
+        const event = events.find(e => e.id === where.eventId);
+        return event ? toEventRecord(event) : null;
+      },
+    },
+    $transaction: async (fn: (tx: any) => Promise<void>) => fn(prisma),
+  };
+
+  return { prisma, deliveries, attempts };
+}
+
+function createSubscription(url: string, overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    id: 'subscription-1',
+    name: 'Test receiver',
+    url,
+    types: JSON.stringify(['com.tms.shipment.*']),
+    subject: null,
+    secret: 'whsec_test',
+    mode: 'STRUCTURED',
+    active: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const event: CloudEvent = {
+  specversion: '1.0',
+  id: 'evt-1',
+  source: '/tms/shipments',
+  type: 'com.tms.shipment.delivered',
+  subject: 'shipment/shp 1',
+  time: '2024-03-10T08:00:00.000Z',
+  datacontenttype: 'application/json',
+  data: { shipmentId: 'shp 1', pallets: 3 },
+};
+
+describe('toHttpRequest', () => {
+  it('encodes the whole event as the body in structured mode', () => {
+    const request = toHttpRequest(event, 'STRUCTURED');
+
+    expect(request.headers).toEqual({ 'content-type': 'application/cloudevents+json; charset=utf-8' });
+    expect(JSON.parse(request.body)).toEqual(event);
+  });
+
+  it('moves attributes to ce-* headers and sends the data as the body in binary mode', () => {
+    const request = toHttpRequest(event, 'BINARY');
+
+    expect(request.headers).toEqual({
+      'content-type': 'application/json',
+      'ce-specversion': '1.0',
+      'ce-id': 'evt-1',
+      'ce-source': '/tms/shipments',
+      'ce-type': 'com.tms.shipment.delivered',
+      'ce-subject': 'shipment/shp%201',
+      'ce-time': '2024-03-10T08:00:00.000Z',
+    });
+    expect(JSON.parse(request.body)).toEqual(event.data);
+  });
+
+  it('sends an empty body for events without data', () => {
+    expect(toHttpRequest({ ...event, data: undefined }, 'BINARY').body).toBe('');
+  });
+});
+
+describe('WebhookDispatcherService', () => {
+  const receiver = new Receiver();
+  let url: string;
+
+  const createDispatcher = (subscription: WebhookSubscription) => {
+    const store = createPrisma([subscription], [event]);
+    const config: Record<string, number> = { 'webhooks.maxAttempts': 3, 'webhooks.retryBaseMs': 1000 };
+    const dispatcher = new WebhookDispatcherService(
+      store.prisma as unknown as PrismaService,
+      {} as EventBusService,
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+    );
+    // Dispatch runs are started by the tests, not in the background
+    jest.spyOn(dispatcher, 'schedule').mockImplementation(() => undefined);
+    return { dispatcher, ...store };
+  };
+
+  // Make a queued retry due now instead of waiting for the backoff
+  const expire = (delivery: { nextAttemptAt: Date }) => {
+    delivery.nextAttemptAt = new Date(Date.now() - 1);
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    url = await receiver.start();
+  });
+
+  afterAll(async () => {
+    await receiver.stop();
+  });
+
+  beforeEach(() => {
+    receiver.requests.length = 0;
+    receiver.status = 200;
+  });
+
+  it('delivers a structured event with a signature the receiver can verify', async () => {
+    const { dispatcher, deliveries, attempts } = createDispatcher(createSubscription(url));
+
+    expect(await dispatcher.enqueue(event)).toBe(1);
+    expect(await dispatcher.dispatchPending()).toBe(1);
+
+    expect(receiver.requests).toHaveLength(1);
+    const [request] = receiver.requests;
+    expect(request.headers['content-type']).toBe('application/cloudevents+json; charset=utf-8');
+    expect(JSON.parse(request.body)).toEqual(event);
+    expect(verifySignature('whsec_test', request.body, request.headers[SIGNATURE_HEADER] as string)).toBe(true);
+    expect(verifySignature('other-secret', request.body, request.headers[SIGNATURE_HEADER] as string)).toBe(false);
+    expect(verifySignature('whsec_test', `${request.body} `, request.headers[SIGNATURE_HEADER] as string)).toBe(false);
+
+    expect(deliveries[0]).toMatchObject({ status: WebhookDeliveryStatus.DELIVERED, attempts: 1, lastStatusCode: 200 });
+    expect(attempts).toEqual([expect.objectContaining({ attempt: 1, statusCode: 200, response: 'ok' })]);
+  });
+
+  it('delivers a binary event with ce-* headers', async () => {
+    const { dispatcher } = createDispatcher(createSubscription(url, { mode: 'BINARY' }));
+
+    await dispatcher.enqueue(event);
+    await dispatcher.dispatchPending();
+
+    const [request] = receiver.requests;
+    expect(request.headers).toMatchObject({
+      'content-type': 'application/json',
+      'ce-id': 'evt-1',
+      'ce-type': 'com.tms.shipment.delivered',
+      'ce-subject': 'shipment/shp%201',
+    });
+    expect(JSON.parse(request.body)).toEqual(event.data);
+    expect(verifySignature('whsec_test', request.body, request.headers[SIGNATURE_HEADER] as string)).toBe(true);
+  });
+
+  it('does not queue events the subscription does not match', async () => {
+    const { dispatcher, deliveries } = createDispatcher(createSubscription(url, { subject: 'order/*' }));
+
+    expect(await dispatcher.enqueue(event)).toBe(0);
+    expect(await dispatcher.enqueue({ ...event, id: 'evt-2', type: 'com.tms.order.created', subject: undefined })).toBe(0);
+    expect(deliveries).toHaveLength(0);
+  });
+
+  it('retries with exponential backoff and moves the delivery to the dead-letter queue', async () => {
+    receiver.status = 500;
+    const { dispatcher, deliveries, attempts } = createDispatcher(createSubscription(url));
+    await dispatcher.enqueue(event);
+    const [delivery] = deliveries;
+
+    for (const [attempt, delay] of [[1, 1000], [2, 2000]]) {
+      const before = Date.now();
+      await dispatcher.dispatchPending();
+
+      expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.PENDING, attempts: attempt, lastError: 'HTTP 500' });
+      expect(delivery.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + delay);
+      expect(delivery.nextAttemptAt.getTime()).toBeLessThan(before + delay + 1000);
+
+      // Not due again before the backoff has passed
+      expect(await dispatcher.dispatchPending()).toBe(0);
+      expire(delivery);
+    }
+
+    await dispatcher.dispatchPending();
+
+    expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.DEAD, attempts: 3, lastStatusCode: 500 });
+    expect(attempts.map(a => a.attempt)).toEqual([1, 2, 3]);
+    expect(receiver.requests).toHaveLength(3);
+
+    // Dead letters stay put
+    expire(delivery);
+    expect(await dispatcher.dispatchPending()).toBe(0);
+  });
+
+  it('records unreachable endpoints as failed attempts', async () => {
+    const { dispatcher, deliveries } = createDispatcher(createSubscription('http://127.0.0.1:1/hooks'));
+
+    await dispatcher.enqueue(event);
+    await dispatcher.dispatchPending();
+
+    expect(deliveries[0]).toMatchObject({ status: WebhookDeliveryStatus.PENDING, attempts: 1, lastStatusCode: null });
+    expect(deliveries[0].lastError).toEqual(expect.any(String));
+  });
+
+  it('redelivers a dead letter', async () => {
+    receiver.status = 503;
+    const { dispatcher, deliveries } = createDispatcher(createSubscription(url));
+    await dispatcher.enqueue(event);
+    const [delivery] = deliveries;
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      expire(delivery);
+      await dispatcher.dispatchPending();
+    }
+    expect(delivery.status).toBe(WebhookDeliveryStatus.DEAD);
+
+    receiver.status = 200;
+    await dispatcher.redeliver(delivery.id);
+
+    expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.PENDING, attempts: 0, lastError: null });
+    expect(dispatcher.schedule).toHaveBeenCalled();
+
+    await dispatcher.dispatchPending();
+
+    expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.DELIVERED, attempts: 1, lastStatusCode: 200 });
+    expect(receiver.requests).toHaveLength(4);
+  });
+});
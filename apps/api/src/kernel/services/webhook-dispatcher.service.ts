@@ -0,0 +1,332 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { CloudEvent, matchesSubject, matchesTypePattern } from '@tms/contracts';
+import { PrismaService } from '@/database/prisma.service';
+import { EventBusService } from './event-bus.service';
+import { toCloudEvent } from './event-record';
+import {
+  CloudEventHttpMode,
+  SIGNATURE_HEADER,
+  signPayload,
+  toHttpRequest,
+} from './cloudevents-http';
+
+/**
+ * Webhook delivery states; DEAD deliveries form the dead-letter queue
+ */
+export const WebhookDeliveryStatus = {
+  PENDING: 'PENDING',
+  SENDING: 'SENDING',
+  DELIVERED: 'DELIVERED',
+  DEAD: 'DEAD',
+} as const;
+
+export type WebhookDeliveryStatus = typeof WebhookDeliveryStatus[keyof typeof WebhookDeliveryStatus];
+
+export interface WebhookSendResult {
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+  response?: string;
+  durationMs: number;
+}
+
+// Length of the response body kept in the delivery log
+const MAX_LOGGED_RESPONSE = 1000;
+
+/**
+ * Pushes domain events to webhook subscriptions over the CloudEvents HTTP binding.
+ *
+ * Every event delivered by the outbox is matched against the active
+ * subscriptions and a delivery is queued per match. Deliveries are sent by a
+ * poller and retried with exponential backoff; once the attempts are used up
+ * they are moved to the dead-letter queue (status DEAD) until redelivered.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private timer?: NodeJS.Timeout;
+  private scheduled?: NodeJS.Timeout;
+  private running = false;
+
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly leaseMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventBus: EventBusService,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalMs = this.configService.get<number>('webhooks.pollIntervalMs') ?? 2000;
+    this.batchSize = this.configService.get<number>('webhooks.batchSize') ?? 20;
+    this.maxAttempts = this.configService.get<number>('webhooks.maxAttempts') ?? 8;
+    this.retryBaseMs = this.configService.get<number>('webhooks.retryBaseMs') ?? 5000;
+    this.maxRetryDelayMs = this.configService.get<number>('webhooks.maxRetryDelayMs') ?? 3600000;
+    this.timeoutMs = this.configService.get<number>('webhooks.timeoutMs') ?? 10000;
+    this.leaseMs = this.configService.get<number>('webhooks.leaseMs') ?? 60000;
+  }
+
+  onModuleInit(): void {
+    this.eventBus.on('**', async (event) => {
+      await this.enqueue(event);
+    });
+    this.timer = setInterval(() => this.schedule(), this.pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) clearInterval(this.timer);
+    if (this.scheduled) clearTimeout(this.scheduled);
+  }
+
+  /**
+   * Queue a delivery of the event for every matching active subscription.
+   * Safe to call again for the same event.
+   */
+  async enqueue(event: CloudEvent): Promise<number> {
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      where: { active: true },
+    });
+
+    let queued = 0;
+    for (const subscription of subscriptions) {
+      if (!this.matches(subscription, event)) continue;
+
+      try {
+        await this.prisma.webhookDelivery.create({
+          data: {
+            subscriptionId: subscription.id,
+            eventId: event.id,
+            eventType: event.type,
+          },
+        });
+        queued++;
+      } catch (error) {
+        // Already queued by an earlier delivery of the same event
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (queued > 0) {
+      this.schedule();
+    }
+    return queued;
+  }
+
+  /**
+   * Queue a delivery of the event to one subscription, also when it was
+   * delivered before. Used to replay past events.
+   */
+  async enqueueFor(subscription: WebhookSubscription, event: CloudEvent): Promise<void> {
+    const pending = {
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+    };
+
+    await this.prisma.webhookDelivery.upsert({
+      where: { subscriptionId_eventId: { subscriptionId: subscription.id, eventId: event.id } },
+      create: { subscriptionId: subscription.id, eventId: event.id, eventType: event.type, ...pending },
+      update: pending,
+    });
+
+    this.schedule();
+  }
+
+  matches(subscription: WebhookSubscription, event: CloudEvent): boolean {
+    const patterns: string[] = JSON.parse(subscription.types);
+    return patterns.some(pattern => matchesTypePattern(pattern, event.type)) &&
+      matchesSubject(subscription.subject, event.subject);
+  }
+
+  /**
+   * Request a dispatch run as soon as possible
+   */
+  schedule(): void {
+    if (this.scheduled) return;
+
+    this.scheduled = setTimeout(() => {
+      this.scheduled = undefined;
+      this.dispatchPending().catch(error =>
+        this.logger.error('Webhook dispatch run failed', error),
+      );
+    }, 0);
+  }
+
+  /**
+   * Send all due deliveries, returns the number of deliveries processed
+   */
+  async dispatchPending(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      let processed = 0;
+      let batch: number;
+
+      do {
+        batch = await this.dispatchBatch();
+        processed += batch;
+      } while (batch === this.batchSize);
+
+      return processed;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Move a delivery, typically a dead letter, back into the queue
+   */
+  async redeliver(deliveryId: string): Promise<void> {
+    await this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: null,
+      },
+    });
+
+    this.schedule();
+  }
+
+  /**
+   * POST an event to a subscription's endpoint without queueing or retrying
+   */
+  async send(subscription: WebhookSubscription, event: CloudEvent): Promise<WebhookSendResult> {
+    const request = toHttpRequest(event, subscription.mode as CloudEventHttpMode);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          ...request.headers,
+          [SIGNATURE_HEADER]: signPayload(subscription.secret, request.body),
+          'user-agent': 'tms-webhooks/1.0',
+        },
+        body: request.body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      const text = (await response.text()).slice(0, MAX_LOGGED_RESPONSE);
+
+      return {
+        ok: response.ok,
+        statusCode: response.status,
+        error: response.ok ? undefined : `HTTP ${response.status}`,
+        response: text || undefined,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startedAt,
+      };
+    }
+  }
+
+  private async dispatchBatch(): Promise<number> {
+    const now = new Date();
+
+    // Pending deliveries plus sending deliveries whose lease has expired
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: { in: [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.SENDING] },
+        nextAttemptAt: { lte: now },
+      },
+      include: { subscription: true },
+      orderBy: { createdAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    for (const delivery of due) {
+      // Claim the delivery; another dispatcher may have taken it in the meantime
+      const claimed = await this.prisma.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: delivery.status,
+          nextAttemptAt: delivery.nextAttemptAt,
+        },
+        data: {
+          status: WebhookDeliveryStatus.SENDING,
+          attempts: { increment: 1 },
+          nextAttemptAt: new Date(Date.now() + this.leaseMs),
+        },
+      });
+
+      if (claimed.count === 0) continue;
+
+      await this.deliver(delivery, delivery.subscription, delivery.attempts + 1);
+    }
+
+    return due.length;
+  }
+
+  private async deliver(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription,
+    attempt: number,
+  ): Promise<void> {
+    const record = await this.prisma.event.findUnique({ where: { eventId: delivery.eventId } });
+    const result: WebhookSendResult = record && subscription.active
+      ? await this.send(subscription, toCloudEvent(record))
+      : {
+          ok: false,
+          error: record ? 'Subscription is inactive' : `Event ${delivery.eventId} no longer exists`,
+          durationMs: 0,
+        };
+
+    const exhausted = !result.ok && attempt >= this.maxAttempts;
+    const delay = Math.min(this.retryBaseMs * 2 ** (attempt - 1), this.maxRetryDelayMs);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.webhookDeliveryAttempt.create({
+        data: {
+          deliveryId: delivery.id,
+          attempt,
+          statusCode: result.statusCode,
+          error: result.error,
+          response: result.response,
+          durationMs: result.durationMs,
+        },
+      });
+
+      await tx.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: result.ok
+          ? {
+              status: WebhookDeliveryStatus.DELIVERED,
+              deliveredAt: new Date(),
+              lastStatusCode: result.statusCode,
+              lastError: null,
+            }
+          : {
+              status: exhausted ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.PENDING,
+              nextAttemptAt: new Date(Date.now() + delay),
+              lastStatusCode: result.statusCode ?? null,
+              lastError: result.error,
+            },
+      });
+    });
+
+    if (!result.ok) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} of ${delivery.eventType} to ${subscription.url} failed on attempt ${attempt}` +
+          (exhausted ? ', moved to dead-letter queue' : ', will retry'),
+        result.error,
+      );
+    }
+  }
+}
@@ -0,0 +1,615 @@
+import { Injectable, Logger, OnModuleInit, OnApplicationBootstrap } from '@nestjs/common';
+import { WorkflowRun } from '@prisma/client';
+import { CloudEvent } from '@tms/contracts';
+import { PluginApi, WorkflowCapability, WorkflowStep } from '@tms/plugin-sdk';
+import { PrismaService } from '@/database/prisma.service';
+import { EventBusService } from './event-bus.service';
+import { SchedulerService, ScheduledJobStatus } from './scheduler.service';
+import { evaluateExpression, validateExpression } from './expression-evaluator';
+import { nextCronOccurrence, parseCron } from './cron';
+import { PluginHealthService } from './plugin-health.service';
+
+/**
+ * Workflow run and step states
+ */
+export const WorkflowRunStatus = {
+  PENDING: 'PENDING',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type WorkflowRunStatus = typeof WorkflowRunStatus[keyof typeof WorkflowRunStatus];
+
+const WORKFLOW_SCHEDULE_JOB = 'workflow.schedule';
+
+interface RegisteredWorkflow {
+  pluginId: string;
+  plugin: PluginApi;
+  workflow: WorkflowCapability;
+  eventHandler?: (event: CloudEvent) => Promise<void>;
+}
+
+interface ScheduleJobPayload {
+  pluginId: string;
+  workflowId: string;
+}
+
+interface RunContext {
+  run: WorkflowRun;
+  registered: RegisteredWorkflow;
+  // Outputs of steps completed by earlier attempts, keyed by step path
+  completed: Map<string, any>;
+}
+
+interface StepScope {
+  input: any;
+  trigger: string;
+  steps: Record<string, any>;
+  item?: any;
+  index?: number;
+}
+
+class WorkflowCancelledError extends Error {
+  constructor(runId: string) {
+    super(`Workflow run ${runId} was cancelled`);
+  }
+}
+
+/**
+ * Runs the workflows plugins declare in their manifest.
+ *
+ * Runs are started by EVENT, SCHEDULE, MANUAL or WEBHOOK triggers and walk the
+ * step tree, calling `PluginApi.executeAction` for ACTION steps. Every step's
+ * state and output is persisted, so a failed run can be retried and resumes
+ * after the last completed step.
+ */
+@Injectable()
+export class WorkflowEngineService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(WorkflowEngineService.name);
+  private readonly workflows = new Map<string, RegisteredWorkflow>();
+  private readonly active = new Set<string>();
+  private readonly cancelled = new Set<string>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventBus: EventBusService,
+    private readonly scheduler: SchedulerService,
+    private readonly pluginHealth: PluginHealthService,
+  ) {}
+
+  onModuleInit(): void {
+    this.scheduler.registerHandler<ScheduleJobPayload>(
+      WORKFLOW_SCHEDULE_JOB,
+      payload => this.handleSchedule(payload),
+    );
+  }
+
+  /**
+   * Runs that were in flight when the process stopped cannot continue where
+   * they were; mark them failed so they can be retried
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const result = await this.prisma.workflowRun.updateMany({
+      where: { status: { in: [WorkflowRunStatus.PENDING, WorkflowRunStatus.RUNNING] } },
+      data: {
+        status: WorkflowRunStatus.FAILED,
+        error: 'Interrupted by restart',
+        completedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.logger.warn(`Marked ${result.count} interrupted workflow run(s) as failed`);
+    }
+  }
+
+  /**
+   * Register the workflows of a plugin and arm their triggers
+   */
+  async registerWorkflows(
+    pluginId: string,
+    plugin: PluginApi,
+    workflows: WorkflowCapability[],
+  ): Promise<void> {
+    for (const workflow of workflows) {
+      this.validateWorkflow(pluginId, workflow);
+    }
+
+    for (const workflow of workflows) {
+      const registered: RegisteredWorkflow = { pluginId, plugin, workflow };
+      this.workflows.set(this.workflowKey(pluginId, workflow.id), registered);
+
+      const { trigger } = workflow;
+      if (trigger.type === 'EVENT' && trigger.event) {
+        registered.eventHandler = async (event: CloudEvent) => {
+          await this.startRun(pluginId, workflow.id, 'EVENT', { event });
+        };
+        this.eventBus.on(trigger.event, registered.eventHandler);
+      }
+
+      if (trigger.type === 'SCHEDULE' && trigger.schedule) {
+        await this.armSchedule(pluginId, workflow);
+      }
+    }
+
+    this.logger.debug(`Registered ${workflows.length} workflow(s) for plugin ${pluginId}`);
+  }
+
+  /**
+   * Remove the workflows of a plugin and disarm their triggers
+   */
+  async unregisterWorkflows(pluginId: string): Promise<void> {
+    for (const [key, registered] of this.workflows.entries()) {
+      if (registered.pluginId !== pluginId) continue;
+
+      const { trigger } = registered.workflow;
+      if (registered.eventHandler && trigger.event) {
+        this.eventBus.off(trigger.event, registered.eventHandler);
+      }
+      if (trigger.type === 'SCHEDULE') {
+        await this.scheduler.cancel(this.scheduleKey(pluginId, registered.workflow.id));
+      }
+
+      this.workflows.delete(key);
+    }
+  }
+
+  getWorkflows(pluginId?: string): Array<WorkflowCapability & { pluginId: string }> {
+    return Array.from(this.workflows.values())
+      .filter(r => !pluginId || r.pluginId === pluginId)
+      .map(r => ({ pluginId: r.pluginId, ...r.workflow }));
+  }
+
+  /**
+   * Find the workflow whose WEBHOOK trigger is mounted at the given path
+   */
+  findWebhookWorkflow(pluginId: string, path: string): WorkflowCapability | undefined {
+    const normalized = `/${path.replace(/^\/+|\/+$/g, '')}`;
+
+    return Array.from(this.workflows.values()).find(r =>
+      r.pluginId === pluginId &&
+      r.workflow.trigger.type === 'WEBHOOK' &&
+      `/${(r.workflow.trigger.webhook || '').replace(/^\/+|\/+$/g, '')}` === normalized,
+    )?.workflow;
+  }
+
+  /**
+   * Create a run and execute it in the background
+   */
+  async startRun(
+    pluginId: string,
+    workflowId: string,
+    triggerType: string,
+    input?: any,
+  ): Promise<WorkflowRun> {
+    if (!this.workflows.has(this.workflowKey(pluginId, workflowId))) {
+      throw new Error(`Workflow ${pluginId}/${workflowId} is not registered`);
+    }
+
+    const run = await this.prisma.workflowRun.create({
+      data: {
+        pluginId,
+        workflowId,
+        status: WorkflowRunStatus.PENDING,
+        triggerType,
+        input: input !== undefined ? JSON.stringify(input) : null,
+      },
+    });
+
+    this.logger.log(`Workflow run ${run.id} started for ${pluginId}/${workflowId} (${triggerType})`);
+    this.executeInBackground(run.id);
+
+    return run;
+  }
+
+  /**
+   * Retry a failed or cancelled run from its first incomplete step
+   */
+  async retryRun(runId: string): Promise<WorkflowRun> {
+    const retried = await this.prisma.workflowRun.updateMany({
+      where: {
+        id: runId,
+        status: { in: [WorkflowRunStatus.FAILED, WorkflowRunStatus.CANCELLED] },
+      },
+      data: {
+        status: WorkflowRunStatus.PENDING,
+        error: null,
+        completedAt: null,
+      },
+    });
+
+    if (retried.count === 0) {
+      throw new Error(`Workflow run ${runId} is not failed or cancelled`);
+    }
+
+    this.cancelled.delete(runId);
+    this.executeInBackground(runId);
+
+    return this.prisma.workflowRun.findUniqueOrThrow({ where: { id: runId } });
+  }
+
+  /**
+   * Cancel a pending or running run; the current step finishes first
+   */
+  async cancelRun(runId: string): Promise<WorkflowRun> {
+    const cancelled = await this.prisma.workflowRun.updateMany({
+      where: {
+        id: runId,
+        status: { in: [WorkflowRunStatus.PENDING, WorkflowRunStatus.RUNNING] },
+      },
+      data: {
+        status: WorkflowRunStatus.CANCELLED,
+        completedAt: new Date(),
+      },
+    });
+
+    if (cancelled.count === 0) {
+      throw new Error(`Workflow run ${runId} is not pending or running`);
+    }
+
+    this.cancelled.add(runId);
+    return this.prisma.workflowRun.findUniqueOrThrow({ where: { id: runId } });
+  }
+
+  private executeInBackground(runId: string): void {
+    this.execute(runId).catch(error =>
+      this.logger.error(`Workflow run ${runId} crashed`, error),
+    );
+  }
+
+  private async execute(runId: string): Promise<void> {
+    if (this.active.has(runId)) return;
+    this.active.add(runId);
+
+    try {
+      const run = await this.prisma.workflowRun.findUniqueOrThrow({
+        where: { id: runId },
+        include: { steps: true },
+      });
+
+      if (run.status !== WorkflowRunStatus.PENDING) return;
+
+      const registered = this.workflows.get(this.workflowKey(run.pluginId, run.workflowId));
+      if (!registered) {
+        await this.finishRun(runId, WorkflowRunStatus.FAILED, {
+          error: `Workflow ${run.pluginId}/${run.workflowId} is not registered`,
+        });
+        return;
+      }
+
+      await this.prisma.workflowRun.update({
+        where: { id: runId },
+        data: {
+          status: WorkflowRunStatus.RUNNING,
+          attempts: { increment: 1 },
+          startedAt: run.startedAt ?? new Date(),
+        },
+      });
+
+      const completed = new Map<string, any>();
+      for (const step of run.steps) {
+        if (step.status === WorkflowRunStatus.COMPLETED) {
+          completed.set(step.path, step.output ? JSON.parse(step.output) : undefined);
+        }
+      }
+
+      const context: RunContext = { run, registered, completed };
+      const scope: StepScope = {
+        input: run.input ? JSON.parse(run.input) : undefined,
+        trigger: run.triggerType,
+        steps: {},
+      };
+
+      try {
+        await this.runSequence(context, registered.workflow.steps, scope, '');
+        await this.finishRun(runId, WorkflowRunStatus.COMPLETED, { output: scope.steps });
+        this.logger.log(`Workflow run ${runId} completed`);
+      } catch (error) {
+        if (error instanceof WorkflowCancelledError) {
+          this.logger.log(`Workflow run ${runId} cancelled`);
+          return;
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await this.finishRun(runId, WorkflowRunStatus.FAILED, { error: message });
+        this.logger.warn(`Workflow run ${runId} failed: ${message}`);
+      }
+    } finally {
+      this.active.delete(runId);
+    }
+  }
+
+  /**
+   * Run steps in order; returns true when a guard condition stopped the sequence
+   */
+  private async runSequence(
+    context: RunContext,
+    steps: WorkflowStep[],
+    scope: StepScope,
+    prefix: string,
+  ): Promise<boolean> {
+    for (const step of steps) {
+      const halted = await this.runStep(context, step, scope, `${prefix}${step.id}`);
+      if (halted) return true;
+    }
+    return false;
+  }
+
+  private async runStep(
+    context: RunContext,
+    step: WorkflowStep,
+    scope: StepScope,
+    path: string,
+  ): Promise<boolean> {
+    const { run } = context;
+
+    if (this.cancelled.has(run.id)) {
+      throw new WorkflowCancelledError(run.id);
+    }
+
+    // Completed by an earlier attempt
+    if (context.completed.has(path)) {
+      const output = context.completed.get(path);
+      scope.steps[step.id] = output;
+      return step.type === 'CONDITION' && output?.halted === true;
+    }
+
+    await this.prisma.workflowStepRun.upsert({
+      where: { runId_path: { runId: run.id, path } },
+      create: {
+        runId: run.id,
+        stepId: step.id,
+        path,
+        type: step.type,
+        status: WorkflowRunStatus.RUNNING,
+        attempts: 1,
+        startedAt: new Date(),
+      },
+      update: {
+        status: WorkflowRunStatus.RUNNING,
+        attempts: { increment: 1 },
+        error: null,
+        startedAt: new Date(),
+        completedAt: null,
+      },
+    });
+
+    try {
+      let output: any;
+      let halted = false;
+
+      switch (step.type) {
+        case 'ACTION':
+          output = await this.runAction(context, step, scope);
+          break;
+
+        case 'CONDITION':
+          ({ output, halted } = await this.runCondition(context, step, scope, path));
+          break;
+
+        case 'PARALLEL': {
+          const children = step.steps || [];
+          await Promise.all(
+            children.map(child => this.runStep(context, child, scope, `${path}/${child.id}`)),
+          );
+          output = Object.fromEntries(children.map(child => [child.id, scope.steps[child.id]]));
+          break;
+        }
+
+        case 'LOOP':
+          output = await this.runLoop(context, step, scope, path);
+          break;
+      }
+
+      await this.prisma.workflowStepRun.update({
+        where: { runId_path: { runId: run.id, path } },
+        data: {
+          status: WorkflowRunStatus.COMPLETED,
+          output: output !== undefined ? JSON.stringify(output) : null,
+          completedAt: new Date(),
+        },
+      });
+
+      scope.steps[step.id] = output;
+      return halted;
+    } catch (error) {
+      const cancelled = error instanceof WorkflowCancelledError;
+
+      await this.prisma.workflowStepRun.update({
+        where: { runId_path: { runId: run.id, path } },
+        data: {
+          status: cancelled ? WorkflowRunStatus.CANCELLED : WorkflowRunStatus.FAILED,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  private async runAction(context: RunContext, step: WorkflowStep, scope: StepScope): Promise<any> {
+    const { plugin, pluginId, workflow } = context.registered;
+
+    if (!plugin.executeAction) {
+      throw new Error(`Plugin ${pluginId} does not implement executeAction`);
+    }
+
+    return this.pluginHealth.track(pluginId, 'action', step.action!, () =>
+      plugin.executeAction!(step.action!, {
+        runId: context.run.id,
+        workflowId: workflow.id,
+        stepId: step.id,
+        input: scope.input,
+        steps: scope.steps,
+        item: scope.item,
+        index: scope.index,
+      }),
+    );
+  }
+
+  /**
+   * Evaluate the condition, then run the first branch whose condition holds.
+   * Without branches the condition is a guard: when it is false the rest of
+   * the enclosing sequence is skipped.
+   */
+  private async runCondition(
+    context: RunContext,
+    step: WorkflowStep,
+    scope: StepScope,
+    path: string,
+  ): Promise<{ output: any; halted: boolean }> {
+    const result = step.condition
+      ? Boolean(evaluateExpression(step.condition.expression, this.expressionScope(scope, step)))
+      : true;
+
+    const branches = step.branches || [];
+    if (branches.length === 0) {
+      return { output: { result, halted: !result }, halted: !result };
+    }
+
+    const branchScope = { ...this.expressionScope(scope, step), result };
+    const branch = branches.findIndex(b => Boolean(evaluateExpression(b.condition, branchScope)));
+
+    let halted = false;
+    if (branch >= 0) {
+      halted = await this.runSequence(context, branches[branch].steps, scope, `${path}/${branch}/`);
+    }
+
+    return { output: { result, branch, halted }, halted };
+  }
+
+  private async runLoop(
+    context: RunContext,
+    step: WorkflowStep,
+    scope: StepScope,
+    path: string,
+  ): Promise<any[]> {
+    const items = evaluateExpression(step.iterator!, this.expressionScope(scope, step));
+    if (!Array.isArray(items)) {
+      throw new Error(`Iterator of loop step ${step.id} did not evaluate to an array`);
+    }
+
+    const outputs: any[] = [];
+    for (let index = 0; index < items.length; index++) {
+      // Each iteration sees the outer step outputs plus its own
+      const iteration: StepScope = { ...scope, item: items[index], index, steps: { ...scope.steps } };
+      await this.runSequence(context, step.steps || [], iteration, `${path}/${index}/`);
+
+      outputs.push(Object.fromEntries(
+        (step.steps || []).map(child => [child.id, iteration.steps[child.id]]),
+      ));
+    }
+
+    return outputs;
+  }
+
+  /**
+   * Variables visible to expressions, limited to `condition.context` when given
+   */
+  private expressionScope(scope: StepScope, step: WorkflowStep): Record<string, any> {
+    const variables: Record<string, any> = { ...scope };
+    const allowed = step.condition?.context;
+
+    if (!allowed?.length) return variables;
+    return Object.fromEntries(allowed.map(name => [name, variables[name]]));
+  }
+
+  private async finishRun(
+    runId: string,
+    status: WorkflowRunStatus,
+    result: { output?: any; error?: string },
+  ): Promise<void> {
+    // A run cancelled meanwhile keeps its status
+    await this.prisma.workflowRun.updateMany({
+      where: { id: runId, status: { not: WorkflowRunStatus.CANCELLED } },
+      data: {
+        status,
+        output: result.output !== undefined ? JSON.stringify(result.output) : undefined,
+        error: result.error ?? null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  private async handleSchedule(payload: ScheduleJobPayload): Promise<void> {
+    const registered = this.workflows.get(this.workflowKey(payload.pluginId, payload.workflowId));
+    if (!registered) return;
+
+    // Arm the next occurrence before running so a slow run cannot skip one
+    await this.scheduler.schedule<ScheduleJobPayload>({
+      type: WORKFLOW_SCHEDULE_JOB,
+      key: this.scheduleKey(payload.pluginId, payload.workflowId),
+      runAt: nextCronOccurrence(registered.workflow.trigger.schedule!),
+      payload,
+    });
+
+    await this.startRun(payload.pluginId, payload.workflowId, 'SCHEDULE');
+  }
+
+  /**
+   * Schedule the next occurrence unless one is already pending, so that an
+   * occurrence missed while the API was down still fires
+   */
+  private async armSchedule(pluginId: string, workflow: WorkflowCapability): Promise<void> {
+    const key = this.scheduleKey(pluginId, workflow.id);
+    const existing = await this.scheduler.getJob(key);
+    if (existing?.status === ScheduledJobStatus.PENDING) return;
+
+    await this.scheduler.schedule<ScheduleJobPayload>({
+      type: WORKFLOW_SCHEDULE_JOB,
+      key,
+      runAt: nextCronOccurrence(workflow.trigger.schedule!),
+      payload: { pluginId, workflowId: workflow.id },
+    });
+  }
+
+  private validateWorkflow(pluginId: string, workflow: WorkflowCapability): void {
+    const { trigger } = workflow;
+    const where = `workflow ${pluginId}/${workflow.id}`;
+
+    if (trigger.type === 'EVENT' && !trigger.event) {
+      throw new Error(`EVENT trigger of ${where} needs an event type`);
+    }
+    if (trigger.type === 'SCHEDULE') {
+      if (!trigger.schedule) {
+        throw new Error(`SCHEDULE trigger of ${where} needs a cron expression`);
+      }
+      parseCron(trigger.schedule);
+    }
+    if (trigger.type === 'WEBHOOK' && !trigger.webhook) {
+      throw new Error(`WEBHOOK trigger of ${where} needs a path`);
+    }
+
+    const visit = (steps: WorkflowStep[]) => {
+      for (const step of steps) {
+        if (step.type === 'ACTION' && !step.action) {
+          throw new Error(`Step ${step.id} of ${where} has no action`);
+        }
+        if (step.type === 'LOOP') {
+          if (!step.iterator) {
+            throw new Error(`Loop step ${step.id} of ${where} has no iterator`);
+          }
+          validateExpression(step.iterator);
+        }
+        if (step.condition) validateExpression(step.condition.expression);
+        for (const branch of step.branches || []) {
+          validateExpression(branch.condition);
+          visit(branch.steps);
+        }
+        visit(step.steps || []);
+      }
+    };
+    visit(workflow.steps);
+  }
+
+  private workflowKey(pluginId: string, workflowId: string): string {
+    return `${pluginId}/${workflowId}`;
+  }
+
+  private scheduleKey(pluginId: string, workflowId: string): string {
+    return `${WORKFLOW_SCHEDULE_JOB}:${pluginId}:${workflowId}`;
+  }
+}
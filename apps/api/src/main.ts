@@ -1,9 +1,12 @@
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { ValidationPipe, INestApplication, Type } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { Logger } from 'nestjs-pino';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
+import { PluginRouterService } from './kernel/services/plugin-router.service';
+import { traceMiddleware } from './kernel/services/trace-context';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
@@ -13,6 +16,9 @@ async function bootstrap() {
   // Logger
   app.useLogger(app.get(Logger));
 
+  // Trace context per request (traceparent / x-correlation-id)
+  app.use(traceMiddleware);
+
   // Security
   app.use(helmet());
 
@@ -37,6 +43,9 @@ async function bootstrap() {
   // API prefix
   app.setGlobalPrefix('api');
 
+  // Plain WebSockets for the live event stream
+  app.useWebSocketAdapter(new WsAdapter(app));
+
   // Swagger documentation
   const config = new DocumentBuilder()
     .setTitle('TMS API')
@@ -45,7 +54,13 @@ async function bootstrap() {
     .addBearerAuth()
     .build();
   const document = SwaggerModule.createDocument(app, config);
-  SwaggerModule.setup('api/docs', app, document);
+
+  // Plugin API routes are mounted at runtime, so they are merged in per request
+  const pluginRouter = resolveOptional(app, PluginRouterService);
+  SwaggerModule.setup('api/docs', app, document, {
+    patchDocumentOnRequest: (_req, _res, doc) =>
+      pluginRouter ? pluginRouter.extendDocument(doc) : doc,
+  });
 
   const port = process.env.PORT || 3000;
   await app.listen(port);
@@ -55,4 +70,12 @@ async function bootstrap() {
   logger.log(`📚 API documentation available at: http://localhost:${port}/api/docs`);
 }
 
+function resolveOptional<T>(app: INestApplication, type: Type<T>): T | undefined {
+  try {
+    return app.get(type, { strict: false });
+  } catch {
+    return undefined;
+  }
+}
+
 bootstrap();
@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReplayTargetDto {
+  @ApiProperty({ enum: ['PLUGIN', 'WEBHOOK'] })
+  @IsEnum(['PLUGIN', 'WEBHOOK'])
+  type!: 'PLUGIN' | 'WEBHOOK';
+
+  @ApiProperty({ description: 'Plugin id or webhook subscription id', example: 'mod-pallet-return' })
+  @IsString()
+  id!: string;
+}
+
+export class ReplayEventsDto {
+  @ApiProperty({ type: ReplayTargetDto })
+  @ValidateNested()
+  @Type(() => ReplayTargetDto)
+  target!: ReplayTargetDto;
+
+  @ApiPropertyOptional({
+    description: 'Event type pattern; `*` matches one segment, `**` any number',
+    example: 'com.tms.shipment.delivered',
+  })
+  @IsString()
+  @IsOptional()
+  type?: string;
+
+  @ApiPropertyOptional({ description: 'Subject glob, `*` matches anything' })
+  @IsString()
+  @IsOptional()
+  subject?: string;
+
+  @ApiPropertyOptional({ description: 'Earliest event time (inclusive)' })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Latest event time (inclusive)' })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Events delivered per second, defaults to EVENT_REPLAY_RATE' })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  ratePerSecond?: number;
+
+  @ApiPropertyOptional({ description: 'Only count the events that would be replayed', default: false })
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
@@ -0,0 +1,22 @@
+import { IsString, IsOptional, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RestoreArchiveDto {
+  @ApiPropertyOptional({
+    description: 'Event type pattern; `*` matches one segment, `**` any number',
+    example: 'com.tms.stage.*',
+  })
+  @IsString()
+  @IsOptional()
+  type?: string;
+
+  @ApiPropertyOptional({ description: 'Earliest event time (inclusive)' })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Latest event time (inclusive)' })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
@@ -1,7 +1,11 @@
-import { Controller, Get, Query, Param } from '@nestjs/common';
+import { Controller, Get, Post, Sse, Query, Param, Body, Headers, MessageEvent } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { Observable, map } from 'rxjs';
 import { EventsService } from './events.service';
+import { ReplayEventsDto } from './dto/replay-events.dto';
+import { RestoreArchiveDto } from './dto/restore-archive.dto';
 import { CloudEvent } from '@tms/contracts';
+import { EventPage } from '@/kernel/services/event-bus.service';
 
 @ApiTags('events')
 @Controller('events')
@@ -9,31 +13,141 @@ export class EventsController {
   constructor(private readonly eventsService: EventsService) {}
 
   @Get()
-  @ApiOperation({ summary: 'Get events with filters' })
+  @ApiOperation({ summary: 'Get events with filters, newest first, one page at a time' })
   @ApiQuery({ name: 'type', required: false })
   @ApiQuery({ name: 'source', required: false })
   @ApiQuery({ name: 'subject', required: false })
+  @ApiQuery({ name: 'correlationId', required: false })
   @ApiQuery({ name: 'from', required: false, type: Date })
   @ApiQuery({ name: 'to', required: false, type: Date })
-  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Page size, at most 1000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'nextCursor of the previous page' })
   async getEvents(
     @Query('type') type?: string,
     @Query('source') source?: string,
     @Query('subject') subject?: string,
+    @Query('correlationId') correlationId?: string,
     @Query('from') from?: string,
     @Query('to') to?: string,
     @Query('limit') limit?: string,
-  ): Promise<CloudEvent[]> {
+    @Query('cursor') cursor?: string,
+  ): Promise<EventPage> {
     return this.eventsService.getEvents({
       type,
       source,
       subject,
+      correlationId,
       from: from ? new Date(from) : undefined,
       to: to ? new Date(to) : undefined,
       limit: limit ? parseInt(limit, 10) : undefined,
+      cursor,
     });
   }
 
+  @Sse('stream')
+  @ApiOperation({ summary: 'Stream live events as Server-Sent Events (WebSocket variant at /api/events/ws)' })
+  @ApiQuery({ name: 'type', required: false, description: 'Comma-separated type patterns, e.g. com.tms.stage.*' })
+  @ApiQuery({ name: 'subject', required: false, description: 'Subject glob, e.g. shipment/*' })
+  @ApiQuery({ name: 'lastEventId', required: false, description: 'Resume after this event; the Last-Event-ID header takes precedence' })
+  stream(
+    @Query('type') type?: string,
+    @Query('subject') subject?: string,
+    @Query('lastEventId') lastEventIdQuery?: string,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Observable<MessageEvent> {
+    return this.eventsService
+      .stream(
+        { types: type?.split(',').filter(Boolean), subject },
+        lastEventId || lastEventIdQuery,
+      )
+      .pipe(map((event) => ({ id: event.id, data: event })));
+  }
+
+  @Get('outbox/stats')
+  @ApiOperation({ summary: 'Get outbox delivery counts per status' })
+  async getOutboxStats(): Promise<Record<string, number>> {
+    return this.eventsService.getOutboxStats();
+  }
+
+  @Get('schemas')
+  @ApiOperation({ summary: 'Get the JSON Schema of every event type and version' })
+  getSchemas() {
+    return this.eventsService.getSchemas();
+  }
+
+  @Get('schemas/:type')
+  @ApiOperation({ summary: 'Get the JSON Schema of the latest version of an event type' })
+  getLatestSchema(@Param('type') type: string) {
+    return this.eventsService.getSchema(type);
+  }
+
+  @Get('schemas/:type/:version')
+  @ApiOperation({ summary: 'Get the JSON Schema of an event type version, e.g. v1 (the dataschema URI)' })
+  getSchema(@Param('type') type: string, @Param('version') version: string) {
+    return this.eventsService.getSchema(type, version);
+  }
+
+  @Post('replay')
+  @ApiOperation({ summary: 'Replay stored events to one plugin or webhook subscription, or count them with dryRun' })
+  async replay(@Body() replayDto: ReplayEventsDto) {
+    return this.eventsService.replay(replayDto);
+  }
+
+  @Get('replays')
+  @ApiOperation({ summary: 'Get recent event replays' })
+  @ApiQuery({ name: 'status', required: false, enum: ['RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'] })
+  async getReplays(@Query('status') status?: string) {
+    return this.eventsService.getReplays(status);
+  }
+
+  @Get('replays/:replayId')
+  @ApiOperation({ summary: 'Get event replay progress' })
+  async getReplay(@Param('replayId') replayId: string) {
+    return this.eventsService.getReplay(replayId);
+  }
+
+  @Post('replays/:replayId/cancel')
+  @ApiOperation({ summary: 'Cancel a running event replay' })
+  async cancelReplay(@Param('replayId') replayId: string) {
+    return this.eventsService.cancelReplay(replayId);
+  }
+
+  @Get('retention')
+  @ApiOperation({ summary: 'Get event retention policies' })
+  getRetention() {
+    return this.eventsService.getRetention();
+  }
+
+  @Post('retention/run')
+  @ApiOperation({ summary: 'Archive expired events now' })
+  async runRetention() {
+    return this.eventsService.runRetention();
+  }
+
+  @Get('archives')
+  @ApiOperation({ summary: 'Get the manifest of monthly event archives' })
+  async getArchives() {
+    return this.eventsService.getArchives();
+  }
+
+  @Post('archives/:month/restore')
+  @ApiOperation({ summary: 'Restore archived events of a month (YYYY-MM) so they can be replayed' })
+  async restoreArchive(@Param('month') month: string, @Body() restoreDto: RestoreArchiveDto) {
+    return this.eventsService.restoreArchive(month, restoreDto);
+  }
+
+  @Get(':id/delivery')
+  @ApiOperation({ summary: 'Get outbox delivery status of an event' })
+  async getDeliveryStatus(@Param('id') id: string) {
+    return this.eventsService.getDeliveryStatus(id);
+  }
+
+  @Post(':id/redeliver')
+  @ApiOperation({ summary: 'Reset an event for redelivery to subscribers' })
+  async redeliver(@Param('id') id: string) {
+    return this.eventsService.redeliver(id);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get event by ID' })
   async getEvent(@Param('id') id: string): Promise<CloudEvent | null> {
@@ -0,0 +1,79 @@
+import { Logger } from '@nestjs/common';
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+} from '@nestjs/websockets';
+import { IncomingMessage } from 'http';
+import { Subscription } from 'rxjs';
+import { EventsService } from './events.service';
+
+// The parts of a `ws` socket the gateway uses
+interface EventSocket {
+  readyState: number;
+  send(data: string): void;
+}
+
+const WS_OPEN = 1;
+
+interface StreamRequest {
+  types?: string[];
+  subject?: string;
+  lastEventId?: string;
+}
+
+/**
+ * WebSocket variant of GET /events/stream at /api/events/ws.
+ *
+ * Filters are read from the connection's query string (`type`, `subject`,
+ * `lastEventId`) and can be replaced by sending
+ * `{"event": "subscribe", "data": {"types": [...], "subject": "...", "lastEventId": "..."}}`.
+ * Events are sent as `{"event": "cloudevent", "data": <CloudEvent>}`.
+ */
+@WebSocketGateway({ path: '/api/events/ws' })
+export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  private readonly logger = new Logger(EventsGateway.name);
+  private readonly subscriptions = new Map<EventSocket, Subscription>();
+
+  constructor(private readonly eventsService: EventsService) {}
+
+  handleConnection(client: EventSocket, request: IncomingMessage): void {
+    const query = new URL(request.url || '/', 'http://localhost').searchParams;
+
+    this.subscribe(client, {
+      types: query.get('type')?.split(',').filter(Boolean),
+      subject: query.get('subject') || undefined,
+      lastEventId: query.get('lastEventId') || undefined,
+    });
+  }
+
+  handleDisconnect(client: EventSocket): void {
+    this.subscriptions.get(client)?.unsubscribe();
+    this.subscriptions.delete(client);
+  }
+
+  @SubscribeMessage('subscribe')
+  onSubscribe(@ConnectedSocket() client: EventSocket, @MessageBody() body: StreamRequest): void {
+    this.subscribe(client, body || {});
+  }
+
+  private subscribe(client: EventSocket, request: StreamRequest): void {
+    this.subscriptions.get(client)?.unsubscribe();
+
+    const subscription = this.eventsService
+      .stream({ types: request.types, subject: request.subject }, request.lastEventId)
+      .subscribe({
+        next: (event) => {
+          if (client.readyState === WS_OPEN) {
+            client.send(JSON.stringify({ event: 'cloudevent', data: event }));
+          }
+        },
+        error: (error) => this.logger.error('Event stream failed', error),
+      });
+
+    this.subscriptions.set(client, subscription);
+  }
+}
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { EventsController } from './events.controller';
 import { EventsService } from './events.service';
+import { EventsGateway } from './events.gateway';
 
 @Module({
   imports: [
@@ -13,7 +14,7 @@ import { EventsService } from './events.service';
     }),
   ],
   controllers: [EventsController],
-  providers: [EventsService],
+  providers: [EventsService, EventsGateway],
   exports: [EventsService],
 })
 export class EventsModule {}
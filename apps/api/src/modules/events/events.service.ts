@@ -1,24 +1,37 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { CloudEvent } from '@tms/contracts';
-import { EventBusService } from '@/kernel/services/event-bus.service';
+import { EventBusService, EventPage, EventQuery } from '@/kernel/services/event-bus.service';
+import { OutboxDispatcherService } from '@/kernel/services/outbox-dispatcher.service';
+import { EventStreamService, EventStreamFilter } from '@/kernel/services/event-stream.service';
+import { toCloudEvent } from '@/kernel/services/event-record';
+import { EventReplayService, EventReplayRequest } from '@/kernel/services/event-replay.service';
+import { EventSchemaService } from '@/kernel/services/event-schema.service';
+import { EventArchiveService } from '@/kernel/services/event-archive.service';
+import { EventRetentionService } from '@/kernel/services/event-retention.service';
 import { PrismaService } from '@/database/prisma.service';
+import { ReplayEventsDto } from './dto/replay-events.dto';
+import { RestoreArchiveDto } from './dto/restore-archive.dto';
 
 @Injectable()
 export class EventsService {
   constructor(
     private readonly eventBus: EventBusService,
+    private readonly dispatcher: OutboxDispatcherService,
     private readonly prisma: PrismaService,
+    private readonly eventStream: EventStreamService,
+    private readonly eventReplay: EventReplayService,
+    private readonly eventSchemas: EventSchemaService,
+    private readonly eventArchive: EventArchiveService,
+    private readonly eventRetention: EventRetentionService,
   ) {}
 
-  async getEvents(filters: {
-    type?: string;
-    source?: string;
-    subject?: string;
-    from?: Date;
-    to?: Date;
-    limit?: number;
-  }): Promise<CloudEvent[]> {
-    return this.eventBus.getEvents(filters);
+  async getEvents(filters: EventQuery & { cursor?: string }): Promise<EventPage> {
+    try {
+      return await this.eventBus.getEventPage(filters);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Invalid query');
+    }
   }
 
   async getEventById(eventId: string): Promise<CloudEvent | null> {
@@ -30,16 +43,155 @@ export class EventsService {
       return null;
     }
 
+    return toCloudEvent(event);
+  }
+
+  async getDeliveryStatus(eventId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { eventId },
+      select: {
+        eventId: true,
+        type: true,
+        deliveryStatus: true,
+        deliveryAttempts: true,
+        nextAttemptAt: true,
+        deliveredAt: true,
+        lastError: true,
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException(`Event ${eventId} not found`);
+    }
+
+    return event;
+  }
+
+  async getOutboxStats(): Promise<Record<string, number>> {
+    return this.dispatcher.getStats();
+  }
+
+  async redeliver(eventId: string) {
+    await this.getDeliveryStatus(eventId);
+    await this.dispatcher.redeliver(eventId);
+    return this.getDeliveryStatus(eventId);
+  }
+
+  stream(filter: EventStreamFilter, lastEventId?: string): Observable<CloudEvent> {
+    return this.eventStream.stream(filter, lastEventId);
+  }
+
+  /**
+   * Start a replay, or only count the events it would deliver
+   */
+  async replay(dto: ReplayEventsDto) {
+    const request: EventReplayRequest = {
+      target: dto.target,
+      type: dto.type,
+      subject: dto.subject,
+      from: dto.from ? new Date(dto.from) : undefined,
+      to: dto.to ? new Date(dto.to) : undefined,
+      ratePerSecond: dto.ratePerSecond,
+    };
+
+    try {
+      if (dto.dryRun) {
+        return { dryRun: true, count: await this.eventReplay.count(request) };
+      }
+      return await this.eventReplay.start(request);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Replay failed');
+    }
+  }
+
+  async getReplays(status?: string) {
+    return this.prisma.eventReplay.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  async getReplay(replayId: string) {
+    const replay = await this.prisma.eventReplay.findUnique({ where: { id: replayId } });
+
+    if (!replay) {
+      throw new NotFoundException(`Replay ${replayId} not found`);
+    }
+
     return {
-      specversion: event.specVersion as '1.0',
-      id: event.eventId,
-      source: event.source,
-      type: event.type,
-      datacontenttype: event.dataContentType || undefined,
-      dataschema: event.dataSchema || undefined,
-      subject: event.subject || undefined,
-      time: event.time.toISOString(),
-      data: event.data,
+      ...replay,
+      progress: replay.total > 0 ? Math.min(replay.processed / replay.total, 1) : 1,
     };
   }
+
+  async cancelReplay(replayId: string) {
+    await this.getReplay(replayId);
+
+    try {
+      await this.eventReplay.cancel(replayId);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Cancel failed');
+    }
+
+    return this.getReplay(replayId);
+  }
+
+  /**
+   * JSON Schema of every registered event schema version
+   */
+  getSchemas() {
+    return this.eventSchemas.list().map(entry => ({
+      type: entry.type,
+      version: entry.version,
+      owner: entry.owner ?? null,
+      uri: this.eventSchemas.uri(entry),
+      schema: this.eventSchemas.toJsonSchema(entry),
+    }));
+  }
+
+  /**
+   * JSON Schema of one version of an event type, the latest when omitted
+   */
+  getSchema(type: string, version?: string) {
+    const number = version !== undefined ? parseInt(version.replace(/^v/, ''), 10) : undefined;
+    if (number !== undefined && Number.isNaN(number)) {
+      throw new BadRequestException(`Invalid schema version ${version}`);
+    }
+
+    const entry = this.eventSchemas.get(type, number);
+    if (!entry) {
+      throw new NotFoundException(`No schema for ${type}${version ? ` ${version}` : ''}`);
+    }
+
+    return this.eventSchemas.toJsonSchema(entry);
+  }
+
+  getRetention() {
+    return this.eventRetention.getPolicies();
+  }
+
+  async runRetention() {
+    return this.eventRetention.run();
+  }
+
+  async getArchives() {
+    return this.eventArchive.list();
+  }
+
+  /**
+   * Load a monthly archive back into the Event table for replay
+   */
+  async restoreArchive(month: string, dto: RestoreArchiveDto = {}) {
+    const archives = await this.eventArchive.list();
+    if (!archives.some(archive => archive.month === month)) {
+      throw new NotFoundException(`No archive for ${month}`);
+    }
+
+    return this.eventArchive.restore(month, {
+      type: dto.type,
+      from: dto.from ? new Date(dto.from) : undefined,
+      to: dto.to ? new Date(dto.to) : undefined,
+    });
+  }
 }
@@ -0,0 +1,53 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { HooksService } from './hooks.service';
+
+@ApiTags('hooks')
+@Controller('hooks')
+export class HooksController {
+  constructor(private readonly hooksService: HooksService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List registered hook handlers per hook' })
+  getHandlers() {
+    return this.hooksService.getHandlers();
+  }
+
+  @Get('definitions')
+  @ApiOperation({ summary: 'List built-in hooks and hooks declared by plugins, with their modes' })
+  getDefinitions() {
+    return this.hooksService.getDefinitions();
+  }
+
+  @Get('executions')
+  @ApiOperation({ summary: 'Get hook execution traces with filters' })
+  @ApiQuery({ name: 'hookId', required: false })
+  @ApiQuery({ name: 'pluginId', required: false })
+  @ApiQuery({ name: 'subject', required: false })
+  @ApiQuery({ name: 'outcome', required: false, enum: ['CONTINUED', 'BLOCKED'] })
+  @ApiQuery({ name: 'correlationId', required: false })
+  @ApiQuery({ name: 'from', required: false, type: Date })
+  @ApiQuery({ name: 'to', required: false, type: Date })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getExecutions(
+    @Query('hookId') hookId?: string,
+    @Query('pluginId') pluginId?: string,
+    @Query('subject') subject?: string,
+    @Query('outcome') outcome?: string,
+    @Query('correlationId') correlationId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.hooksService.getExecutions({
+      hookId,
+      pluginId,
+      subject,
+      outcome,
+      correlationId,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+}
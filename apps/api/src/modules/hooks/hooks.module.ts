@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HooksController } from './hooks.controller';
+import { HooksService } from './hooks.service';
+
+@Module({
+  controllers: [HooksController],
+  providers: [HooksService],
+  exports: [HooksService],
+})
+export class HooksModule {}
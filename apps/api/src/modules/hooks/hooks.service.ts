@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { HookConfigs } from '@tms/plugin-sdk';
+import { PrismaService } from '@/database/prisma.service';
+import { HookService } from '@/kernel/services/hook.service';
+
+@Injectable()
+export class HooksService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly hookService: HookService,
+  ) {}
+
+  getHandlers() {
+    return this.hookService.getHandlers();
+  }
+
+  /**
+   * Built-in hooks and the hooks declared by loaded plugins
+   */
+  getDefinitions() {
+    return [
+      ...Object.values(HookConfigs).map(config => ({ ...config, pluginId: null })),
+      ...this.hookService.getCustomHooks(),
+    ];
+  }
+
+  async getExecutions(filters: {
+    hookId?: string;
+    pluginId?: string;
+    subject?: string;
+    outcome?: string;
+    correlationId?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }) {
+    const where: Prisma.HookExecutionWhereInput = {
+      hookId: filters.hookId,
+      subject: filters.subject,
+      outcome: filters.outcome,
+      correlationId: filters.correlationId,
+      ...(filters.pluginId && { handlers: { some: { pluginId: filters.pluginId } } }),
+    };
+
+    if (filters.from || filters.to) {
+      where.createdAt = {};
+      if (filters.from) where.createdAt.gte = filters.from;
+      if (filters.to) where.createdAt.lte = filters.to;
+    }
+
+    const executions = await this.prisma.hookExecution.findMany({
+      where,
+      include: { handlers: { orderBy: { position: 'asc' } } },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 100,
+    });
+
+    return executions.map(execution => ({
+      ...execution,
+      metadata: execution.metadata ? JSON.parse(execution.metadata) : null,
+      handlers: execution.handlers.map(handler => ({
+        ...handler,
+        patch: handler.patch ? JSON.parse(handler.patch) : [],
+      })),
+    }));
+  }
+}
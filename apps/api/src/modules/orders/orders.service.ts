@@ -49,40 +49,43 @@ export class OrdersService {
     const orderNumber = await this.generateOrderNumber();
 
     // Create order with items
-    const order = await this.prisma.order.create({
-      data: {
-        ...orderData,
-        orderNumber,
-        items: {
-          create: orderData.items.map((item: any) => ({
-            ...item,
-            id: undefined, // Let Prisma generate IDs
-          })),
+    const order = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.order.create({
+        data: {
+          ...orderData,
+          orderNumber,
+          items: {
+            create: orderData.items.map((item: any) => ({
+              ...item,
+              id: undefined, // Let Prisma generate IDs
+            })),
+          },
         },
-      },
-      include: {
-        items: true,
-        shipper: true,
-        consignee: true,
-      },
+        include: {
+          items: true,
+          shipper: true,
+          consignee: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<OrderEventData>(
+        EventTypes.ORDER_CREATED,
+        {
+          orderId: created.id,
+          orderNumber: created.orderNumber,
+          shipperId: created.shipperId,
+          consigneeId: created.consigneeId,
+          status: created.status,
+        },
+        { subject: created.id, tx },
+      );
+
+      return created;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_ORDER_CREATE, order);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<OrderEventData>(
-      EventTypes.ORDER_CREATED,
-      {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        shipperId: order.shipperId,
-        consigneeId: order.consigneeId,
-        status: order.status,
-      },
-      { subject: order.id },
-    );
-
     return this.contracts.transform(OrderSchema, order);
   }
 
@@ -155,58 +158,64 @@ export class OrdersService {
     const updateData = hookResult.data || validated;
 
     // Update order
-    const order = await this.prisma.order.update({
-      where: { id },
-      data: updateData,
-      include: {
-        items: true,
-        shipper: true,
-        consignee: true,
-      },
+    const order = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.order.update({
+        where: { id },
+        data: updateData,
+        include: {
+          items: true,
+          shipper: true,
+          consignee: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<OrderEventData>(
+        EventTypes.ORDER_UPDATED,
+        {
+          orderId: updated.id,
+          orderNumber: updated.orderNumber,
+          shipperId: updated.shipperId,
+          consigneeId: updated.consigneeId,
+          status: updated.status,
+        },
+        { subject: updated.id, tx },
+      );
+
+      return updated;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_ORDER_UPDATE, order);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<OrderEventData>(
-      EventTypes.ORDER_UPDATED,
-      {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        shipperId: order.shipperId,
-        consigneeId: order.consigneeId,
-        status: order.status,
-      },
-      { subject: order.id },
-    );
-
     return this.contracts.transform(OrderSchema, order);
   }
 
   async confirm(id: string): Promise<Order> {
-    const order = await this.prisma.order.update({
-      where: { id },
-      data: { status: 'CONFIRMED' },
-      include: {
-        items: true,
-        shipper: true,
-        consignee: true,
-      },
-    });
+    const order = await this.prisma.$transaction(async (tx) => {
+      const confirmed = await tx.order.update({
+        where: { id },
+        data: { status: 'CONFIRMED' },
+        include: {
+          items: true,
+          shipper: true,
+          consignee: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<OrderEventData>(
+        EventTypes.ORDER_CONFIRMED,
+        {
+          orderId: confirmed.id,
+          orderNumber: confirmed.orderNumber,
+          shipperId: confirmed.shipperId,
+          consigneeId: confirmed.consigneeId,
+          status: confirmed.status,
+        },
+        { subject: confirmed.id, tx },
+      );
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<OrderEventData>(
-      EventTypes.ORDER_CONFIRMED,
-      {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        shipperId: order.shipperId,
-        consigneeId: order.consigneeId,
-        status: order.status,
-      },
-      { subject: order.id },
-    );
+      return confirmed;
+    });
 
     return this.contracts.transform(OrderSchema, order);
   }
@@ -222,32 +231,35 @@ export class OrdersService {
       throw new BadRequestException(hookResult.error || 'Order cancellation blocked by plugin');
     }
 
-    const order = await this.prisma.order.update({
-      where: { id },
-      data: { status: 'CANCELLED' },
-      include: {
-        items: true,
-        shipper: true,
-        consignee: true,
-      },
+    const order = await this.prisma.$transaction(async (tx) => {
+      const cancelled = await tx.order.update({
+        where: { id },
+        data: { status: 'CANCELLED' },
+        include: {
+          items: true,
+          shipper: true,
+          consignee: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<OrderEventData>(
+        EventTypes.ORDER_CANCELLED,
+        {
+          orderId: cancelled.id,
+          orderNumber: cancelled.orderNumber,
+          shipperId: cancelled.shipperId,
+          consigneeId: cancelled.consigneeId,
+          status: cancelled.status,
+        },
+        { subject: cancelled.id, tx },
+      );
+
+      return cancelled;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_ORDER_CANCEL, order);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<OrderEventData>(
-      EventTypes.ORDER_CANCELLED,
-      {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        shipperId: order.shipperId,
-        consigneeId: order.consigneeId,
-        status: order.status,
-      },
-      { subject: order.id },
-    );
-
     return this.contracts.transform(OrderSchema, order);
   }
 
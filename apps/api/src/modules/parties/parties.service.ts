@@ -52,26 +52,29 @@ export class PartiesService {
     }
 
     // Create party
-    const party = await this.prisma.party.create({
-      data: partyData,
+    const party = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.party.create({
+        data: partyData,
+      });
+
+      await this.eventBus.emitDomainEvent<PartyEventData>(
+        EventTypes.PARTY_CREATED,
+        {
+          partyId: created.id,
+          partyType: created.type,
+          name: created.name,
+          code: created.code,
+          active: created.active,
+        },
+        { subject: created.id, tx },
+      );
+
+      return created;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_PARTY_CREATE, party);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<PartyEventData>(
-      EventTypes.PARTY_CREATED,
-      {
-        partyId: party.id,
-        partyType: party.type,
-        name: party.name,
-        code: party.code,
-        active: party.active,
-      },
-      { subject: party.id },
-    );
-
     return this.contracts.transform(PartySchema, party);
   }
 
@@ -143,67 +146,76 @@ export class PartiesService {
     }
 
     // Update party
-    const party = await this.prisma.party.update({
-      where: { id },
-      data: validated,
-    });
+    const party = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.party.update({
+        where: { id },
+        data: validated,
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<PartyEventData>(
-      EventTypes.PARTY_UPDATED,
-      {
-        partyId: party.id,
-        partyType: party.type,
-        name: party.name,
-        code: party.code,
-        active: party.active,
-      },
-      { subject: party.id },
-    );
+      await this.eventBus.emitDomainEvent<PartyEventData>(
+        EventTypes.PARTY_UPDATED,
+        {
+          partyId: updated.id,
+          partyType: updated.type,
+          name: updated.name,
+          code: updated.code,
+          active: updated.active,
+        },
+        { subject: updated.id, tx },
+      );
+
+      return updated;
+    });
 
     return this.contracts.transform(PartySchema, party);
   }
 
   async activate(id: string): Promise<Party> {
-    const party = await this.prisma.party.update({
-      where: { id },
-      data: { active: true },
-    });
+    const party = await this.prisma.$transaction(async (tx) => {
+      const activated = await tx.party.update({
+        where: { id },
+        data: { active: true },
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<PartyEventData>(
-      EventTypes.PARTY_ACTIVATED,
-      {
-        partyId: party.id,
-        partyType: party.type,
-        name: party.name,
-        code: party.code,
-        active: party.active,
-      },
-      { subject: party.id },
-    );
+      await this.eventBus.emitDomainEvent<PartyEventData>(
+        EventTypes.PARTY_ACTIVATED,
+        {
+          partyId: activated.id,
+          partyType: activated.type,
+          name: activated.name,
+          code: activated.code,
+          active: activated.active,
+        },
+        { subject: activated.id, tx },
+      );
+
+      return activated;
+    });
 
     return this.contracts.transform(PartySchema, party);
   }
 
   async deactivate(id: string): Promise<Party> {
-    const party = await this.prisma.party.update({
-      where: { id },
-      data: { active: false },
-    });
+    const party = await this.prisma.$transaction(async (tx) => {
+      const deactivated = await tx.party.update({
+        where: { id },
+        data: { active: false },
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<PartyEventData>(
-      EventTypes.PARTY_DEACTIVATED,
-      {
-        partyId: party.id,
-        partyType: party.type,
-        name: party.name,
-        code: party.code,
-        active: party.active,
-      },
-      { subject: party.id },
-    );
+      await this.eventBus.emitDomainEvent<PartyEventData>(
+        EventTypes.PARTY_DEACTIVATED,
+        {
+          partyId: deactivated.id,
+          partyType: deactivated.type,
+          name: deactivated.name,
+          code: deactivated.code,
+          active: deactivated.active,
+        },
+        { subject: deactivated.id, tx },
+      );
+
+      return deactivated;
+    });
 
     return this.contracts.transform(PartySchema, party);
   }
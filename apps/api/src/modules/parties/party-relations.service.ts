@@ -70,31 +70,34 @@ export class PartyRelationsService {
     }
 
     // Create relation
-    const relation = await this.prisma.partyRelation.create({
-      data: relationData,
-      include: {
-        fromParty: true,
-        toParty: true,
-      },
+    const relation = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.partyRelation.create({
+        data: relationData,
+        include: {
+          fromParty: true,
+          toParty: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<RelationEventData>(
+        EventTypes.RELATION_ESTABLISHED,
+        {
+          relationId: created.id,
+          fromPartyId: created.fromPartyId,
+          toPartyId: created.toPartyId,
+          relationType: created.relationType,
+          status: created.status,
+          tier: created.tier,
+        },
+        { subject: created.id, tx },
+      );
+
+      return created;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_RELATION_CREATE, relation);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<RelationEventData>(
-      EventTypes.RELATION_ESTABLISHED,
-      {
-        relationId: relation.id,
-        fromPartyId: relation.fromPartyId,
-        toPartyId: relation.toPartyId,
-        relationType: relation.relationType,
-        status: relation.status,
-        tier: relation.tier,
-      },
-      { subject: relation.id },
-    );
-
     return this.contracts.transform(PartyRelationSchema, relation);
   }
 
@@ -140,28 +143,31 @@ export class PartyRelationsService {
   }
 
   async updateStatus(id: string, status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED'): Promise<PartyRelation> {
-    const relation = await this.prisma.partyRelation.update({
-      where: { id },
-      data: { status },
-      include: {
-        fromParty: true,
-        toParty: true,
-      },
-    });
+    const relation = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.partyRelation.update({
+        where: { id },
+        data: { status },
+        include: {
+          fromParty: true,
+          toParty: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<RelationEventData>(
+        EventTypes.RELATION_UPDATED,
+        {
+          relationId: updated.id,
+          fromPartyId: updated.fromPartyId,
+          toPartyId: updated.toPartyId,
+          relationType: updated.relationType,
+          status: updated.status,
+          tier: updated.tier,
+        },
+        { subject: updated.id, tx },
+      );
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<RelationEventData>(
-      EventTypes.RELATION_UPDATED,
-      {
-        relationId: relation.id,
-        fromPartyId: relation.fromPartyId,
-        toPartyId: relation.toPartyId,
-        relationType: relation.relationType,
-        status: relation.status,
-        tier: relation.tier,
-      },
-      { subject: relation.id },
-    );
+      return updated;
+    });
 
     return this.contracts.transform(PartyRelationSchema, relation);
   }
@@ -169,27 +175,28 @@ export class PartyRelationsService {
   async terminate(id: string): Promise<void> {
     const relation = await this.findOne(id);
 
-    await this.prisma.partyRelation.update({
-      where: { id },
-      data: { 
-        status: 'INACTIVE',
-        validTo: new Date(),
-      },
+    await this.prisma.$transaction(async (tx) => {
+      await tx.partyRelation.update({
+        where: { id },
+        data: { 
+          status: 'INACTIVE',
+          validTo: new Date(),
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<RelationEventData>(
+        EventTypes.RELATION_TERMINATED,
+        {
+          relationId: relation.id,
+          fromPartyId: relation.fromPartyId,
+          toPartyId: relation.toPartyId,
+          relationType: relation.relationType,
+          status: 'INACTIVE',
+          tier: relation.tier,
+        },
+        { subject: relation.id, tx },
+      );
     });
-
-    // Emit event
-    await this.eventBus.emitDomainEvent<RelationEventData>(
-      EventTypes.RELATION_TERMINATED,
-      {
-        relationId: relation.id,
-        fromPartyId: relation.fromPartyId,
-        toPartyId: relation.toPartyId,
-        relationType: relation.relationType,
-        status: 'INACTIVE',
-        tier: relation.tier,
-      },
-      { subject: relation.id },
-    );
   }
 
   private validateRelationType(
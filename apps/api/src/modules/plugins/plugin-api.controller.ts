@@ -0,0 +1,89 @@
+import {
+  Controller,
+  All,
+  Param,
+  Req,
+  Res,
+  Logger,
+  NotFoundException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { PluginRequest } from '@tms/plugin-sdk';
+import { PluginRouterService } from '@/kernel/services/plugin-router.service';
+
+/**
+ * Forwards /api/plugins/:pluginId/* to the plugin's ApiCapability handlers.
+ *
+ * Registered after PluginsController so that the plugin admin routes take
+ * precedence. Plugin routes are documented per request by the router.
+ */
+@ApiExcludeController()
+@Controller('plugins')
+export class PluginApiController {
+  private readonly logger = new Logger(PluginApiController.name);
+
+  constructor(private readonly router: PluginRouterService) {}
+
+  @All(':pluginId/*')
+  async handle(
+    @Param('pluginId') pluginId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    const path = `/${req.params[0] || ''}`;
+    const match = this.router.match(pluginId, req.method, path);
+
+    if (!match) {
+      if (this.router.hasPath(pluginId, path)) {
+        throw new HttpException(
+          `Method ${req.method} not allowed for ${path}`,
+          HttpStatus.METHOD_NOT_ALLOWED,
+        );
+      }
+      throw new NotFoundException(`Plugin ${pluginId} has no route ${req.method} ${path}`);
+    }
+
+    const request: PluginRequest = {
+      method: req.method,
+      path,
+      params: match.params,
+      query: req.query as Record<string, any>,
+      body: req.body,
+      headers: this.flattenHeaders(req.headers),
+      user: (req as any).user,
+    };
+
+    let response;
+    try {
+      response = await this.router.dispatch(match, request);
+    } catch (error) {
+      this.logger.error(`Plugin ${pluginId} failed to handle ${req.method} ${path}`, error);
+      throw new HttpException('Plugin request failed', HttpStatus.BAD_GATEWAY);
+    }
+
+    if (response.headers) {
+      res.set(response.headers);
+    }
+
+    res.status(response.status);
+    if (response.body === undefined) {
+      res.end();
+    } else if (typeof response.body === 'string' || Buffer.isBuffer(response.body)) {
+      res.send(response.body);
+    } else {
+      res.json(response.body);
+    }
+  }
+
+  private flattenHeaders(headers: Request['headers']): Record<string, string> {
+    const flattened: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined) continue;
+      flattened[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return flattened;
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ServiceRegistryService } from '@/kernel/services/service-registry.service';
+import { OrdersService } from '../orders/orders.service';
+import { ShipmentsService } from '../shipments/shipments.service';
+import { TendersService } from '../tenders/tenders.service';
+import { PartiesService } from '../parties/parties.service';
+import { SettlementsService } from '../settlements/settlements.service';
+
+/**
+ * Exposes the domain services to plugins as read-only facades, e.g.
+ * `context.getService('shipmentService').findOne(id)`. Only lookups are
+ * exposed; plugins change domain data through hooks and the API.
+ */
+@Injectable()
+export class PluginFacadesService implements OnModuleInit {
+  constructor(
+    private readonly serviceRegistry: ServiceRegistryService,
+    private readonly ordersService: OrdersService,
+    private readonly shipmentsService: ShipmentsService,
+    private readonly tendersService: TendersService,
+    private readonly partiesService: PartiesService,
+    private readonly settlementsService: SettlementsService,
+  ) {}
+
+  onModuleInit() {
+    this.serviceRegistry.registerFacade('orderService', {
+      findOne: (id: string) => this.ordersService.findOne(id),
+      findAll: (filters?: Parameters<OrdersService['findAll']>[0]) => this.ordersService.findAll(filters),
+    });
+    this.serviceRegistry.registerFacade('shipmentService', {
+      findOne: (id: string) => this.shipmentsService.findOne(id),
+      findAll: (filters?: Parameters<ShipmentsService['findAll']>[0]) => this.shipmentsService.findAll(filters),
+    });
+    this.serviceRegistry.registerFacade('tenderService', {
+      findOne: (id: string) => this.tendersService.findOne(id),
+      findAll: (filters?: Parameters<TendersService['findAll']>[0]) => this.tendersService.findAll(filters),
+    });
+    this.serviceRegistry.registerFacade('partyService', {
+      findOne: (id: string) => this.partiesService.findOne(id),
+      findByCode: (code: string) => this.partiesService.findByCode(code),
+      findAll: (filters?: Parameters<PartiesService['findAll']>[0]) => this.partiesService.findAll(filters),
+    });
+    this.serviceRegistry.registerFacade('settlementService', {
+      findOne: (id: string) => this.settlementsService.findOne(id),
+      findAll: (filters?: Parameters<SettlementsService['findAll']>[0]) => this.settlementsService.findAll(filters),
+    });
+  }
+}
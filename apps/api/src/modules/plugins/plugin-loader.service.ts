@@ -1,9 +1,29 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { PluginManifest } from '@tms/plugin-sdk';
+import {
+  PluginManifest,
+  HookMode,
+  HookFailurePolicy,
+  isBuiltInHook,
+  isKernelService,
+  isValidRange,
+} from '@tms/plugin-sdk';
+import { eventDataSchemaFromJson, validateWithDefaults } from '@tms/contracts';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+// Dot-separated segments, e.g. pallet.before.return
+const HOOK_ID_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+// camelCase, e.g. carrierCompliance
+const SERVICE_NAME_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+
+// Plugin methods the kernel calls, which other plugins must not
+const RESERVED_METHODS = new Set([
+  'initialize', 'install', 'enable', 'disable', 'uninstall', 'upgrade', 'healthCheck',
+  'handleRequest', 'handleEvent', 'handleHook', 'getComponent', 'executeAction',
+]);
+
 @Injectable()
 export class PluginLoaderService {
   constructor(private readonly configService: ConfigService) {}
@@ -62,21 +82,158 @@ export class PluginLoaderService {
     if (typeof manifest.capabilities !== 'object') {
       throw new BadRequestException('Plugin capabilities must be an object');
     }
+
+    // Validate dependencies (plugin ID to semver range)
+    if (manifest.dependencies !== undefined) {
+      if (typeof manifest.dependencies !== 'object' || Array.isArray(manifest.dependencies)) {
+        throw new BadRequestException('Plugin dependencies must map plugin IDs to version ranges');
+      }
+      for (const [id, range] of Object.entries(manifest.dependencies)) {
+        if (id === manifest.id) {
+          throw new BadRequestException('Plugin cannot depend on itself');
+        }
+        if (typeof range !== 'string' || !isValidRange(range)) {
+          throw new BadRequestException(`Invalid version range for dependency ${id}: ${range}`);
+        }
+      }
+    }
+
+    // Validate service dependencies (service name to interface version range)
+    if (manifest.serviceDependencies !== undefined) {
+      if (typeof manifest.serviceDependencies !== 'object' || Array.isArray(manifest.serviceDependencies)) {
+        throw new BadRequestException('Plugin serviceDependencies must map service names to version ranges');
+      }
+      for (const [name, range] of Object.entries(manifest.serviceDependencies)) {
+        if (typeof range !== 'string' || !isValidRange(range)) {
+          throw new BadRequestException(`Invalid version range for service ${name}: ${range}`);
+        }
+      }
+    }
+
+    // Validate the configuration schema (JSON Schema of an object)
+    if (manifest.configuration !== undefined) {
+      const { configuration } = manifest;
+      if (typeof configuration?.properties !== 'object' || Array.isArray(configuration.properties)) {
+        throw new BadRequestException('Plugin configuration must be a JSON Schema with properties');
+      }
+      try {
+        validateWithDefaults(configuration, {});
+      } catch (error) {
+        throw new BadRequestException(
+          `Invalid configuration schema: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    // Validate provided hooks, event types and services
+    if (manifest.provides !== undefined) {
+      this.validateProvides(manifest.provides);
+    }
+
+    // Validate permissions (lists of service names, event type patterns, hook IDs and fields)
+    if (manifest.permissions !== undefined) {
+      const { services, events, hooks, fields } = manifest.permissions;
+      const lists: [string, unknown][] = [
+        ['services', services],
+        ['events.emit', events?.emit],
+        ['events.subscribe', events?.subscribe],
+        ['hooks', hooks],
+        ...Object.entries(fields || {}).map(([hookId, list]): [string, unknown] => [`fields.${hookId}`, list]),
+      ];
+      for (const [name, list] of lists) {
+        if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+          throw new BadRequestException(`Plugin permissions.${name} must be a list of strings`);
+        }
+      }
+    }
   }
 
   /**
-   * Copy plugin files to plugins directory
+   * Validate the hooks, event types and services a plugin declares for
+   * other plugins
    */
-  async updatePluginFiles(pluginId: string, sourcePath: string): Promise<void> {
-    const pluginDir = this.configService.get<string>('plugins.directory');
-    if (!pluginDir) {
-      throw new BadRequestException('Plugin directory not configured');
+  private validateProvides(provides: any): void {
+    if (typeof provides !== 'object' || Array.isArray(provides)) {
+      throw new BadRequestException('Plugin provides must be an object');
+    }
+
+    const ids = new Set<string>();
+    for (const hook of provides.hooks || []) {
+      if (typeof hook?.id !== 'string' || !HOOK_ID_PATTERN.test(hook.id)) {
+        throw new BadRequestException(`Invalid hook id ${hook?.id}, expected e.g. pallet.before.return`);
+      }
+      if (isBuiltInHook(hook.id)) {
+        throw new BadRequestException(`Hook ${hook.id} is a built-in hook`);
+      }
+      if (!Object.values(HookMode).includes(hook.mode)) {
+        throw new BadRequestException(
+          `Hook ${hook.id} needs a mode of ${Object.values(HookMode).join(', ')}`
+        );
+      }
+      if (hook.failurePolicy !== undefined && !Object.values(HookFailurePolicy).includes(hook.failurePolicy)) {
+        throw new BadRequestException(`Hook ${hook.id} has invalid failure policy ${hook.failurePolicy}`);
+      }
+      if (ids.has(hook.id)) {
+        throw new BadRequestException(`Hook ${hook.id} is declared twice`);
+      }
+      ids.add(hook.id);
+    }
+
+    for (const event of provides.events || []) {
+      if (typeof event?.type !== 'string' || event.type.includes('*')) {
+        throw new BadRequestException(`Invalid event type ${event?.type}`);
+      }
+      if (typeof event.schema !== 'object' || event.schema === null) {
+        throw new BadRequestException(`Event type ${event.type} needs a JSON Schema`);
+      }
+      try {
+        eventDataSchemaFromJson(event.schema);
+      } catch (error) {
+        throw new BadRequestException(
+          `Invalid schema for event type ${event.type}: ${error instanceof Error ? error.message : error}`
+        );
+      }
     }
 
-    const targetPath = path.join(pluginDir, pluginId);
+    const names = new Set<string>();
+    for (const service of provides.services || []) {
+      if (typeof service?.name !== 'string' || !SERVICE_NAME_PATTERN.test(service.name)) {
+        throw new BadRequestException(`Invalid service name ${service?.name}, expected e.g. carrierCompliance`);
+      }
+      if (isKernelService(service.name)) {
+        throw new BadRequestException(`Service ${service.name} is a kernel service`);
+      }
+      if (typeof service.version !== 'string' || !/^\d+\.\d+\.\d+/.test(service.version)) {
+        throw new BadRequestException(`Service ${service.name} needs a semantic version, e.g. 1.0.0`);
+      }
+      if (
+        !Array.isArray(service.methods) ||
+        service.methods.length === 0 ||
+        service.methods.some((method: unknown) => typeof method !== 'string')
+      ) {
+        throw new BadRequestException(`Service ${service.name} needs a list of methods`);
+      }
+      const reserved = service.methods.filter((method: string) => RESERVED_METHODS.has(method));
+      if (reserved.length) {
+        throw new BadRequestException(`Service ${service.name} cannot export plugin methods ${reserved.join(', ')}`);
+      }
+      if (names.has(service.name)) {
+        throw new BadRequestException(`Service ${service.name} is declared twice`);
+      }
+      names.add(service.name);
+    }
+  }
 
-    // Create backup of existing plugin
+  /**
+   * Copy plugin files to plugins directory. The previous files are kept as
+   * a backup until restorePluginFiles or discardBackup is called.
+   */
+  async updatePluginFiles(pluginId: string, sourcePath: string): Promise<void> {
+    const targetPath = this.pluginPath(pluginId);
     const backupPath = `${targetPath}.backup`;
+
+    // Create backup of existing plugin, replacing a stale one
+    await fs.rm(backupPath, { recursive: true, force: true });
     try {
       await fs.rename(targetPath, backupPath);
     } catch (error) {
@@ -86,18 +243,10 @@ export class PluginLoaderService {
     try {
       // Copy new plugin files
       await this.copyDirectory(sourcePath, targetPath);
-      
-      // Remove backup
-      try {
-        await fs.rm(backupPath, { recursive: true, force: true });
-      } catch {
-        // Ignore backup removal errors
-      }
     } catch (error) {
       // Restore backup on error
       try {
-        await fs.rm(targetPath, { recursive: true, force: true });
-        await fs.rename(backupPath, targetPath);
+        await this.restorePluginFiles(pluginId);
       } catch {
         // Best effort restore
       }
@@ -108,6 +257,55 @@ export class PluginLoaderService {
     }
   }
 
+  /**
+   * Put the files backed up by updatePluginFiles back in place
+   */
+  async restorePluginFiles(pluginId: string): Promise<void> {
+    const targetPath = this.pluginPath(pluginId);
+    const backupPath = `${targetPath}.backup`;
+
+    await fs.access(backupPath);
+    await fs.rm(targetPath, { recursive: true, force: true });
+    await fs.rename(backupPath, targetPath);
+  }
+
+  /**
+   * Remove the files backed up by updatePluginFiles
+   */
+  async discardBackup(pluginId: string): Promise<void> {
+    try {
+      await fs.rm(`${this.pluginPath(pluginId)}.backup`, { recursive: true, force: true });
+    } catch {
+      // Ignore backup removal errors
+    }
+  }
+
+  /**
+   * Read a file of an installed plugin; paths leaving the plugin directory
+   * are rejected
+   */
+  async readPluginFile(pluginId: string, relativePath: string): Promise<Buffer> {
+    const root = path.resolve(this.pluginPath(pluginId));
+    const filePath = path.resolve(root, relativePath);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new BadRequestException(`Invalid plugin file path: ${relativePath}`);
+    }
+
+    try {
+      return await fs.readFile(filePath);
+    } catch {
+      throw new NotFoundException(`Plugin ${pluginId} has no file ${relativePath}`);
+    }
+  }
+
+  private pluginPath(pluginId: string): string {
+    const pluginDir = this.configService.get<string>('plugins.directory');
+    if (!pluginDir) {
+      throw new BadRequestException('Plugin directory not configured');
+    }
+    return path.join(pluginDir, pluginId);
+  }
+
   /**
    * Copy directory recursively
    */
@@ -0,0 +1,101 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PluginPackageError,
+  PluginPackageVerification,
+  TrustedKey,
+  extractPluginPackage,
+  readPluginPackage,
+  verifyPluginPackage,
+} from '@tms/plugin-sdk/packaging';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface UnpackedPluginPackage {
+  // Directory holding the plugin files
+  path: string;
+  verification: PluginPackageVerification;
+  // Removes the unpacked files
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Verifies `.tmsplugin` packages against the trust store and unpacks them.
+ * Tampered packages are always rejected; unsigned packages and packages of
+ * unknown publishers only in dev mode.
+ */
+@Injectable()
+export class PluginPackageService {
+  private readonly logger = new Logger(PluginPackageService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Verify a package and unpack it into a temporary directory
+   */
+  async unpack(archive: Buffer): Promise<UnpackedPluginPackage> {
+    const maxSizeMb = this.configService.get<number>('plugins.packages.maxSizeMb') ?? 50;
+    if (archive.length > maxSizeMb * 1024 * 1024) {
+      throw new BadRequestException(`Plugin package exceeds ${maxSizeMb} MB`);
+    }
+
+    let files: Map<string, Buffer>;
+    let verification: PluginPackageVerification;
+    try {
+      files = readPluginPackage(archive, { maxUnpackedBytes: maxSizeMb * 4 * 1024 * 1024 });
+      verification = verifyPluginPackage(files, await this.loadTrustStore());
+    } catch (error) {
+      if (error instanceof PluginPackageError) {
+        throw new BadRequestException(`Rejected plugin package: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const { manifest } = verification;
+    if (!verification.trusted) {
+      const reason = verification.signed
+        ? `is signed by unknown key ${verification.keyId}`
+        : 'is not signed';
+      if (!this.configService.get<boolean>('plugins.devMode')) {
+        throw new BadRequestException(`Rejected plugin package: ${manifest.id} ${reason}`);
+      }
+      this.logger.warn(`Accepting package of ${manifest.id} that ${reason} (dev mode)`);
+    } else {
+      this.logger.log(`Package of ${manifest.id}@${manifest.version} signed by trusted key ${verification.keyId}`);
+    }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tmsplugin-'));
+    const cleanup = () => fs.rm(tempDir, { recursive: true, force: true });
+    const pluginPath = path.join(tempDir, 'plugin');
+    try {
+      await extractPluginPackage(files, pluginPath);
+    } catch (error) {
+      await cleanup();
+      throw error instanceof PluginPackageError
+        ? new BadRequestException(`Rejected plugin package: ${error.message}`)
+        : error;
+    }
+
+    return { path: pluginPath, verification, cleanup };
+  }
+
+  /**
+   * Public keys of trusted publishers; no file means no trusted keys
+   */
+  private async loadTrustStore(): Promise<TrustedKey[]> {
+    const file = this.configService.get<string>('plugins.packages.trustStore');
+    if (!file) return [];
+
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      this.logger.warn(`Plugin trust store ${file} not found, no publishers are trusted`);
+      return [];
+    }
+
+    const store = JSON.parse(content) as { keys?: TrustedKey[] };
+    return (store.keys || []).filter(key => key.keyId && key.publicKey);
+  }
+}
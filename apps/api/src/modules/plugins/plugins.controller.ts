@@ -10,11 +10,15 @@ import {
   Query,
   UseInterceptors,
   UploadedFile,
+  BadRequestException,
+  Header,
+  StreamableFile,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiConsumes, ApiBody, ApiQuery } from '@nestjs/swagger';
 import { PluginInstance } from '@tms/plugin-sdk';
-import { PluginsService } from './plugins.service';
+import { RegisteredService } from '@/kernel/services/service-registry.service';
+import { PluginsService, UiSlotContribution } from './plugins.service';
 
 @ApiTags('plugins')
 @Controller('plugins')
@@ -27,6 +31,31 @@ export class PluginsController {
     return this.pluginsService.getAllPlugins();
   }
 
+  @Get('graph')
+  @ApiOperation({ summary: 'Get the plugin dependency graph and enable order' })
+  async getDependencyGraph() {
+    return this.pluginsService.getDependencyGraph();
+  }
+
+  @Get('workers')
+  @ApiOperation({ summary: 'Get the worker threads of plugins running isolated (PLUGIN_ISOLATION=worker)' })
+  getWorkers() {
+    return this.pluginsService.getWorkers();
+  }
+
+  @Get('services')
+  @ApiOperation({ summary: 'Get the domain service facades and the services enabled plugins export' })
+  getServices(): RegisteredService[] {
+    return this.pluginsService.getServices();
+  }
+
+  @Get('ui-slots')
+  @ApiOperation({ summary: 'Get the UI slot contributions of enabled plugins, sorted by order' })
+  @ApiQuery({ name: 'slotId', required: false, description: 'Only contributions to this slot, e.g. shipment.tabs' })
+  async getUiSlots(@Query('slotId') slotId?: string): Promise<UiSlotContribution[]> {
+    return this.pluginsService.getUiSlots(slotId);
+  }
+
   @Get(':pluginId')
   @ApiOperation({ summary: 'Get plugin by ID' })
   async getPlugin(@Param('pluginId') pluginId: string): Promise<PluginInstance> {
@@ -40,7 +69,7 @@ export class PluginsController {
   }
 
   @Post('upload')
-  @ApiOperation({ summary: 'Upload and register a plugin' })
+  @ApiOperation({ summary: 'Upload a signed .tmsplugin package to install or upgrade a plugin' })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
     schema: {
@@ -53,53 +82,110 @@ export class PluginsController {
       },
     },
   })
+  @ApiQuery({ name: 'approvePermissions', required: false, type: Boolean, description: 'Approve new permissions on upgrade' })
   @UseInterceptors(FileInterceptor('file'))
-  async uploadPlugin(@UploadedFile() file: Express.Multer.File) {
-    // In a real implementation, this would:
-    // 1. Save the uploaded file (zip/tar)
-    // 2. Extract it to a temporary directory
-    // 3. Validate the plugin structure
-    // 4. Move to plugins directory
-    // 5. Register the plugin
-    
-    return {
-      message: 'Plugin upload endpoint - implementation pending',
-      filename: file?.filename,
-    };
+  async uploadPlugin(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('approvePermissions') approvePermissions?: string,
+  ): Promise<PluginInstance> {
+    if (!file?.buffer) {
+      throw new BadRequestException('Plugin package file is required');
+    }
+    return this.pluginsService.installPackage(file.buffer, approvePermissions === 'true');
   }
 
   @Patch(':pluginId/enable')
   @ApiOperation({ summary: 'Enable a plugin' })
+  @ApiQuery({ name: 'approvePermissions', required: false, type: Boolean, description: 'Approve the permissions the plugin requests' })
   async enable(
     @Param('pluginId') pluginId: string,
     @Body() config?: Record<string, any>,
+    @Query('approvePermissions') approvePermissions?: string,
   ): Promise<PluginInstance> {
-    return this.pluginsService.enable(pluginId, config);
+    return this.pluginsService.enable(pluginId, config, approvePermissions === 'true');
+  }
+
+  @Get(':pluginId/health')
+  @ApiOperation({ summary: 'Get invocation metrics, recent errors and health check results of a plugin' })
+  @ApiQuery({ name: 'check', required: false, type: Boolean, description: 'Run the plugin health check first' })
+  async getHealth(@Param('pluginId') pluginId: string, @Query('check') check?: string) {
+    return this.pluginsService.getHealth(pluginId, check === 'true');
+  }
+
+  @Get(':pluginId/permissions')
+  @ApiOperation({ summary: 'Get requested, approved and pending permissions of a plugin' })
+  async getPermissions(@Param('pluginId') pluginId: string) {
+    return this.pluginsService.getPermissions(pluginId);
+  }
+
+  @Get(':pluginId/audit')
+  @ApiOperation({ summary: 'Get permission approvals and violations of a plugin' })
+  @ApiQuery({ name: 'action', required: false, enum: ['PERMISSIONS_APPROVED', 'PERMISSION_DENIED'] })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getAuditLog(
+    @Param('pluginId') pluginId: string,
+    @Query('action') action?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.pluginsService.getAuditLog(pluginId, {
+      action,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get(':pluginId/ui-bundle')
+  @ApiOperation({ summary: 'Get a UI component bundle (ES module) of an enabled plugin' })
+  @ApiQuery({ name: 'path', required: true, description: 'Bundle path as declared in the UI slot' })
+  @Header('Content-Type', 'text/javascript; charset=utf-8')
+  @Header('Cache-Control', 'no-cache')
+  async getUiBundle(
+    @Param('pluginId') pluginId: string,
+    @Query('path') bundle?: string,
+  ): Promise<StreamableFile> {
+    if (!bundle) {
+      throw new BadRequestException('Bundle path is required');
+    }
+    return new StreamableFile(await this.pluginsService.getUiBundle(pluginId, bundle));
+  }
+
+  @Get(':pluginId/upgrades')
+  @ApiOperation({ summary: 'Get the upgrade history of a plugin' })
+  async getUpgradeHistory(@Param('pluginId') pluginId: string) {
+    return this.pluginsService.getUpgradeHistory(pluginId);
   }
 
   @Patch(':pluginId/disable')
   @ApiOperation({ summary: 'Disable a plugin' })
-  async disable(@Param('pluginId') pluginId: string): Promise<PluginInstance> {
-    return this.pluginsService.disable(pluginId);
+  @ApiQuery({ name: 'cascade', required: false, type: Boolean, description: 'Also disable enabled plugins that depend on it' })
+  async disable(
+    @Param('pluginId') pluginId: string,
+    @Query('cascade') cascade?: string,
+  ): Promise<PluginInstance> {
+    return this.pluginsService.disable(pluginId, cascade === 'true');
   }
 
   @Delete(':pluginId')
   @ApiOperation({ summary: 'Unregister a plugin' })
-  async unregister(@Param('pluginId') pluginId: string): Promise<void> {
-    return this.pluginsService.unregister(pluginId);
+  @ApiQuery({ name: 'cascade', required: false, type: Boolean, description: 'Disable enabled plugins that depend on it first' })
+  async unregister(
+    @Param('pluginId') pluginId: string,
+    @Query('cascade') cascade?: string,
+  ): Promise<void> {
+    return this.pluginsService.unregister(pluginId, cascade === 'true');
   }
 
   @Put(':pluginId/upgrade')
-  @ApiOperation({ summary: 'Upgrade a plugin' })
+  @ApiOperation({ summary: 'Upgrade a plugin, rolling back to the current version on failure' })
   async upgrade(
     @Param('pluginId') pluginId: string,
     @Body('pluginPath') pluginPath: string,
+    @Body('approvePermissions') approvePermissions?: boolean,
   ): Promise<PluginInstance> {
-    return this.pluginsService.upgrade(pluginId, pluginPath);
+    return this.pluginsService.upgrade(pluginId, pluginPath, approvePermissions === true);
   }
 
   @Put(':pluginId/config')
-  @ApiOperation({ summary: 'Update plugin configuration' })
+  @ApiOperation({ summary: 'Replace plugin configuration; redacted secret values are kept' })
   async updateConfig(
     @Param('pluginId') pluginId: string,
     @Body() config: Record<string, any>,
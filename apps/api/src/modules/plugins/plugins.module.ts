@@ -1,12 +1,22 @@
 import { Module, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PluginsController } from './plugins.controller';
+import { PluginApiController } from './plugin-api.controller';
 import { PluginsService } from './plugins.service';
 import { PluginLoaderService } from './plugin-loader.service';
+import { PluginPackageService } from './plugin-package.service';
+import { PluginFacadesService } from './plugin-facades.service';
+import { OrdersModule } from '../orders/orders.module';
+import { ShipmentsModule } from '../shipments/shipments.module';
+import { TendersModule } from '../tenders/tenders.module';
+import { PartiesModule } from '../parties/parties.module';
+import { SettlementsModule } from '../settlements/settlements.module';
 
 @Module({
-  controllers: [PluginsController],
-  providers: [PluginsService, PluginLoaderService],
+  // Domain modules, for the facades plugins get of their services
+  imports: [OrdersModule, ShipmentsModule, TendersModule, PartiesModule, SettlementsModule],
+  controllers: [PluginsController, PluginApiController],
+  providers: [PluginsService, PluginLoaderService, PluginPackageService, PluginFacadesService],
   exports: [PluginsService],
 })
 export class PluginsModule implements OnModuleInit {
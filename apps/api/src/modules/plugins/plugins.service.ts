@@ -1,17 +1,66 @@
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  InternalServerErrorException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Plugin } from '@prisma/client';
 import { PrismaService } from '@/database/prisma.service';
 import { PluginRuntimeService } from '@/kernel/services/plugin-runtime.service';
+import { PluginDataStoreService, PluginDataSnapshot } from '@/kernel/services/plugin-data-store.service';
+import { PluginPermissionService } from '@/kernel/services/plugin-permission.service';
+import { RegisteredService, ServiceRegistryService } from '@/kernel/services/service-registry.service';
+import { PluginHealthService } from '@/kernel/services/plugin-health.service';
+import { PluginSecretsService } from '@/kernel/services/plugin-secrets.service';
 import { 
   PluginRegistry,
   PluginInstance,
   PluginManifest,
   PluginStatus,
+  checkDependencies,
+  findDependents,
+  findUnresolvedHooks,
+  findUnresolvedServices,
+  sortByDependencies,
+  satisfiesRange,
+  PluginPermissions,
+  requestedPermissions,
+  missingPermissions,
+  PluginConfigError,
+  PluginConfigSchema,
+  redactSecrets,
+  restoreSecrets,
 } from '@tms/plugin-sdk';
 import { PluginLoaderService } from './plugin-loader.service';
+import { PluginPackageService } from './plugin-package.service';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+export enum PluginUpgradeStatus {
+  IN_PROGRESS = 'IN_PROGRESS',
+  SUCCEEDED = 'SUCCEEDED',
+  ROLLED_BACK = 'ROLLED_BACK',
+  FAILED = 'FAILED',
+}
+
+type UpgradeStep = 'snapshot' | 'disable' | 'files' | 'migration' | 'health' | 'enable';
+
+// Component bundle of UI slots that do not name one
+const DEFAULT_UI_BUNDLE = 'dist/ui.mjs';
+
+export interface UiSlotContribution {
+  pluginId: string;
+  pluginVersion: string;
+  slotId: string;
+  // Export of the bundle that renders the contribution
+  component: string;
+  props: Record<string, any>;
+  order: number;
+  bundleUrl: string;
+}
+
 @Injectable()
 export class PluginsService {
   private readonly logger = new Logger(PluginsService.name);
@@ -22,9 +71,16 @@ export class PluginsService {
     private readonly configService: ConfigService,
     private readonly runtime: PluginRuntimeService,
     private readonly loader: PluginLoaderService,
+    private readonly dataStores: PluginDataStoreService,
+    private readonly pluginPermissions: PluginPermissionService,
+    private readonly packages: PluginPackageService,
+    private readonly serviceRegistry: ServiceRegistryService,
+    private readonly pluginHealth: PluginHealthService,
+    private readonly secrets: PluginSecretsService,
   ) {
     // Set up registry event listeners
     this.setupRegistryListeners();
+    this.pluginHealth.onQuarantine((pluginId, reason) => this.quarantine(pluginId, reason));
   }
 
   /**
@@ -50,7 +106,7 @@ export class PluginsService {
         name: manifest.name,
         version: manifest.version,
         status: PluginStatus.INSTALLED,
-        manifest: manifest as any,
+        manifest: JSON.stringify(manifest),
       },
     });
 
@@ -64,9 +120,40 @@ export class PluginsService {
   }
 
   /**
-   * Enable a plugin
+   * Install a verified `.tmsplugin` package: registered as a new plugin, or
+   * upgraded when the plugin is already registered
+   */
+  async installPackage(archive: Buffer, approvePermissions = false): Promise<PluginInstance> {
+    const unpacked = await this.packages.unpack(archive);
+
+    try {
+      const manifest = await this.loader.loadManifest(unpacked.path);
+      await this.loader.verifyPluginStructure(unpacked.path);
+
+      const existing = await this.prisma.plugin.findUnique({
+        where: { pluginId: manifest.id },
+      });
+      if (existing) {
+        return await this.upgrade(manifest.id, unpacked.path, approvePermissions);
+      }
+
+      await this.loader.updatePluginFiles(manifest.id, unpacked.path);
+      await this.loader.discardBackup(manifest.id);
+      return await this.register(path.join(this.configService.get<string>('plugins.directory')!, manifest.id));
+    } finally {
+      await unpacked.cleanup();
+    }
+  }
+
+  /**
+   * Enable a plugin. Permissions the plugin requests that were not approved
+   * before must be approved with `approvePermissions`.
    */
-  async enable(pluginId: string, config?: Record<string, any>): Promise<PluginInstance> {
+  async enable(
+    pluginId: string,
+    config?: Record<string, any>,
+    approvePermissions = false,
+  ): Promise<PluginInstance> {
     // Get plugin from database
     const plugin = await this.prisma.plugin.findUnique({
       where: { pluginId },
@@ -76,12 +163,25 @@ export class PluginsService {
       throw new NotFoundException(`Plugin ${pluginId} not found`);
     }
 
+    await this.assertDependenciesEnabled(parseManifest(plugin.manifest));
+    await this.assertHooksProvided(parseManifest(plugin.manifest));
+    await this.assertServicesProvided(parseManifest(plugin.manifest));
+    await this.approvePermissions(plugin, parseManifest(plugin.manifest), approvePermissions);
+
+    // Secrets sent back redacted keep their stored values
+    const schema = parseManifest(plugin.manifest).configuration;
+    if (config && schema) {
+      config = restoreSecrets(schema, config, this.readConfig(plugin));
+    }
+
     // Enable in registry
-    await this.registry.enable(pluginId, config);
+    await this.withConfigErrors(() => this.registry.enable(pluginId, config));
 
-    // Load into runtime
+    // Load into runtime, unless still loaded from before
     const instance = this.registry.getPlugin(pluginId);
-    await this.runtime.loadPlugin(instance);
+    if (!this.runtime.getPlugin(pluginId)) {
+      await this.runtime.loadPlugin(instance);
+    }
     await this.runtime.enablePlugin(pluginId);
 
     // Update database
@@ -89,19 +189,23 @@ export class PluginsService {
       where: { pluginId },
       data: {
         status: PluginStatus.ENABLED,
-        config: config as any,
+        config: config ? this.writeConfig(schema, config, plugin) : null,
         enabledAt: new Date(),
+        error: null,
       },
     });
 
     this.logger.log(`Plugin ${pluginId} enabled`);
-    return instance;
+    return this.redact(instance);
   }
 
   /**
-   * Disable a plugin
+   * Disable a plugin. Enabled plugins depending on it are disabled first
+   * with `cascade`, otherwise the plugin is not disabled.
    */
-  async disable(pluginId: string): Promise<PluginInstance> {
+  async disable(pluginId: string, cascade = false): Promise<PluginInstance> {
+    await this.disableDependents(pluginId, cascade);
+
     // Disable in runtime
     await this.runtime.disablePlugin(pluginId);
 
@@ -120,31 +224,42 @@ export class PluginsService {
     const instance = this.registry.getPlugin(pluginId);
     this.logger.log(`Plugin ${pluginId} disabled`);
     
-    return instance;
+    return this.redact(instance);
   }
 
   /**
-   * Unregister a plugin
+   * Unregister a plugin. Enabled plugins depending on it are disabled first
+   * with `cascade`, otherwise the plugin is not unregistered.
    */
-  async unregister(pluginId: string): Promise<void> {
+  async unregister(pluginId: string, cascade = false): Promise<void> {
+    await this.disableDependents(pluginId, cascade);
+
     // Unload from runtime
     await this.runtime.unloadPlugin(pluginId);
 
     // Unregister from registry
     await this.registry.unregister(pluginId);
 
-    // Delete from database
+    // Delete from database, including the plugin's stored data
     await this.prisma.plugin.delete({
       where: { pluginId },
     });
+    await this.dataStores.clear(pluginId);
 
     this.logger.log(`Plugin ${pluginId} unregistered`);
   }
 
   /**
-   * Upgrade a plugin
+   * Upgrade a plugin. The plugin's data and config are snapshotted, the new
+   * version's `upgrade` migration runs and the plugin is health-checked; on
+   * any failure the previous files, data and config are restored. Every
+   * attempt is recorded in the plugin's upgrade history.
    */
-  async upgrade(pluginId: string, newPluginPath: string): Promise<PluginInstance> {
+  async upgrade(
+    pluginId: string,
+    newPluginPath: string,
+    approvePermissions = false,
+  ): Promise<PluginInstance> {
     // Load new manifest
     const newManifest = await this.loader.loadManifest(newPluginPath);
 
@@ -171,33 +286,139 @@ export class PluginsService {
       );
     }
 
-    // Disable if enabled
-    const wasEnabled = currentPlugin.status === PluginStatus.ENABLED;
-    if (wasEnabled) {
-      await this.disable(pluginId);
+    // Permissions added by the new version need approval before anything changes
+    const newPermissions = missingPermissions(
+      requestedPermissions(newManifest),
+      parsePermissions(currentPlugin.permissions),
+    );
+    if (newPermissions && !approvePermissions && !this.autoApprovePermissions()) {
+      throw new BadRequestException(
+        `Version ${newVersion} of ${pluginId} requests new permissions ${JSON.stringify(newPermissions)}; ` +
+        'pass approvePermissions to approve them'
+      );
     }
 
-    // Update plugin files
-    await this.loader.updatePluginFiles(pluginId, newPluginPath);
+    // Plugins depending on this one must accept the new version
+    const installed = await this.getInstalledManifests();
+    const incompatible = installed.filter(manifest => {
+      const range = manifest.dependencies?.[pluginId];
+      return range !== undefined && !satisfiesRange(newVersion, range);
+    });
+    if (incompatible.length > 0) {
+      throw new BadRequestException(
+        `Version ${newVersion} of ${pluginId} does not satisfy ` +
+        incompatible.map(m => `${m.id} (${m.dependencies![pluginId]})`).join(', ')
+      );
+    }
 
-    // Update database
-    await this.prisma.plugin.update({
-      where: { pluginId },
+    const upgrade = await this.prisma.pluginUpgrade.create({
       data: {
-        version: newVersion,
-        manifest: newManifest as any,
+        pluginId,
+        fromVersion: currentVersion,
+        toVersion: newVersion,
+        status: PluginUpgradeStatus.IN_PROGRESS,
       },
     });
 
-    // Re-enable if was enabled
-    if (wasEnabled) {
-      await this.enable(pluginId, currentPlugin.config as any);
+    const wasEnabled = currentPlugin.status === PluginStatus.ENABLED;
+    let dependents: { pluginId: string; config?: Record<string, any> }[] = [];
+    let data: PluginDataSnapshot | undefined;
+    let filesReplaced = false;
+    let step: UpgradeStep = 'snapshot';
+
+    try {
+      data = await this.dataStores.snapshot(pluginId);
+
+      // Disable if enabled, along with its enabled dependents, and release the old code
+      step = 'disable';
+      if (wasEnabled) {
+        dependents = await this.getEnabledDependents(pluginId);
+        await this.disable(pluginId, true);
+      }
+      await this.runtime.unloadPlugin(pluginId, false);
+
+      // Update plugin files, keeping the old ones as a backup
+      step = 'files';
+      await this.loader.updatePluginFiles(pluginId, newPluginPath);
+      filesReplaced = true;
+
+      await this.prisma.plugin.update({
+        where: { pluginId },
+        data: {
+          version: newVersion,
+          manifest: JSON.stringify(newManifest),
+        },
+      });
+      this.registry.updateManifest(newManifest);
+      await this.approvePermissions(currentPlugin, newManifest, approvePermissions);
+
+      // Load the new version and migrate the plugin's data
+      step = 'migration';
+      await this.runtime.loadPlugin(this.registry.getPlugin(pluginId));
+      await this.runtime.upgradePlugin(pluginId, currentVersion);
+
+      step = 'health';
+      const health = await this.runtime.checkHealth(pluginId);
+      if (!health.healthy) {
+        throw new Error(`Health check failed: ${health.message || 'plugin is unhealthy'}`);
+      }
+
+      // Re-enable if was enabled, then the dependents that were disabled;
+      // otherwise release the new version, which was only loaded to migrate
+      step = 'enable';
+      if (wasEnabled) {
+        await this.enable(pluginId, this.readConfig(currentPlugin));
+        for (const dependent of [...dependents].reverse()) {
+          await this.enable(dependent.pluginId, dependent.config);
+        }
+      } else {
+        await this.runtime.unloadPlugin(pluginId, false);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Upgrade of ${pluginId} to ${newVersion} failed at ${step}: ${message}`);
+
+      try {
+        await this.rollbackUpgrade(currentPlugin, data, filesReplaced, wasEnabled ? dependents : undefined);
+      } catch (rollbackError) {
+        const rollbackMessage = rollbackError instanceof Error ? rollbackError.message : String(rollbackError);
+        this.logger.error(`Rollback of ${pluginId} to ${currentVersion} failed: ${rollbackMessage}`);
+
+        await this.finishUpgrade(upgrade.id, PluginUpgradeStatus.FAILED, step, `${message}; rollback failed: ${rollbackMessage}`);
+        await this.prisma.plugin.update({
+          where: { pluginId },
+          data: { status: PluginStatus.ERROR, error: `Upgrade to ${newVersion} failed and could not be rolled back` },
+        });
+        throw new InternalServerErrorException(
+          `Upgrade of ${pluginId} to ${newVersion} failed at ${step} (${message}) and could not be rolled back: ` +
+          `${rollbackMessage}. Previous files are kept in the .backup directory`
+        );
+      }
+
+      await this.finishUpgrade(upgrade.id, PluginUpgradeStatus.ROLLED_BACK, step, message);
+      throw new BadRequestException(
+        `Upgrade of ${pluginId} to ${newVersion} failed at ${step} and was rolled back to ${currentVersion}: ${message}`
+      );
     }
 
+    await this.loader.discardBackup(pluginId);
+    await this.finishUpgrade(upgrade.id, PluginUpgradeStatus.SUCCEEDED);
+
     const instance = this.registry.getPlugin(pluginId);
     this.logger.log(`Plugin ${pluginId} upgraded from ${currentVersion} to ${newVersion}`);
     
-    return instance;
+    return this.redact(instance);
+  }
+
+  /**
+   * Upgrade attempts of a plugin, newest first
+   */
+  async getUpgradeHistory(pluginId: string) {
+    await this.getPermissions(pluginId);
+    return this.prisma.pluginUpgrade.findMany({
+      where: { pluginId },
+      orderBy: { startedAt: 'desc' },
+    });
   }
 
   /**
@@ -211,15 +432,15 @@ export class PluginsService {
     // Sync with registry
     for (const plugin of plugins) {
       if (!this.registry.hasPlugin(plugin.pluginId)) {
-        await this.registry.register(plugin.manifest as PluginManifest);
+        await this.registry.register(parseManifest(plugin.manifest));
         
         if (plugin.status === PluginStatus.ENABLED) {
-          await this.registry.enable(plugin.pluginId, plugin.config as any);
+          await this.registry.enable(plugin.pluginId, this.readConfig(plugin));
         }
       }
     }
 
-    return this.registry.getAllPlugins();
+    return this.registry.getAllPlugins().map(instance => this.redact(instance));
   }
 
   /**
@@ -235,26 +456,182 @@ export class PluginsService {
     }
 
     if (!this.registry.hasPlugin(pluginId)) {
-      await this.registry.register(plugin.manifest as PluginManifest);
+      await this.registry.register(parseManifest(plugin.manifest));
     }
 
-    return this.registry.getPlugin(pluginId);
+    return this.redact(this.registry.getPlugin(pluginId));
   }
 
   /**
-   * Update plugin configuration
+   * Dependency graph of the installed plugins, with the order they are
+   * enabled in
+   */
+  async getDependencyGraph() {
+    const plugins = await this.prisma.plugin.findMany({ orderBy: { pluginId: 'asc' } });
+    const manifests = plugins.map(plugin => parseManifest(plugin.manifest));
+    const { order, cyclic } = sortByDependencies(manifests);
+
+    return {
+      nodes: plugins.map(plugin => {
+        const manifest = parseManifest(plugin.manifest);
+        return {
+          id: plugin.pluginId,
+          name: plugin.name,
+          version: plugin.version,
+          status: plugin.status,
+          dependencies: checkDependencies(manifest, manifests),
+          dependents: manifests
+            .filter(m => m.dependencies?.[plugin.pluginId] !== undefined)
+            .map(m => m.id),
+        };
+      }),
+      order,
+      cyclic,
+    };
+  }
+
+  getWorkers() {
+    return this.runtime.getWorkerStats();
+  }
+
+  /**
+   * Domain facades and the services enabled plugins export
+   */
+  getServices(): RegisteredService[] {
+    return this.serviceRegistry.getServices();
+  }
+
+  /**
+   * UI slot contributions of enabled plugins, sorted by order, with the URL
+   * the web app loads the component bundle from
+   */
+  async getUiSlots(slotId?: string): Promise<UiSlotContribution[]> {
+    const plugins = await this.prisma.plugin.findMany({
+      where: { status: PluginStatus.ENABLED },
+    });
+
+    const contributions = plugins.flatMap(plugin => {
+      const manifest = parseManifest(plugin.manifest);
+      return (manifest.capabilities.uiSlots || [])
+        .filter(slot => !slotId || slot.slotId === slotId)
+        .map(slot => {
+          const bundle = slot.bundle || DEFAULT_UI_BUNDLE;
+          const query = new URLSearchParams({ path: bundle, v: manifest.version });
+          return {
+            pluginId: manifest.id,
+            pluginVersion: manifest.version,
+            slotId: slot.slotId,
+            component: slot.component,
+            props: slot.props || {},
+            order: slot.order ?? 0,
+            bundleUrl: `/api/plugins/${encodeURIComponent(manifest.id)}/ui-bundle?${query}`,
+          };
+        });
+    });
+
+    return contributions.sort((a, b) => a.order - b.order || a.pluginId.localeCompare(b.pluginId));
+  }
+
+  /**
+   * A UI component bundle an enabled plugin declares in its UI slots
+   */
+  async getUiBundle(pluginId: string, bundle: string): Promise<Buffer> {
+    const plugin = await this.prisma.plugin.findUnique({ where: { pluginId } });
+    if (!plugin || plugin.status !== PluginStatus.ENABLED) {
+      throw new NotFoundException(`Plugin ${pluginId} is not enabled`);
+    }
+
+    const declared = (parseManifest(plugin.manifest).capabilities.uiSlots || [])
+      .some(slot => (slot.bundle || DEFAULT_UI_BUNDLE) === bundle);
+    if (!declared) {
+      throw new NotFoundException(`Plugin ${pluginId} has no UI bundle ${bundle}`);
+    }
+
+    return this.loader.readPluginFile(pluginId, bundle);
+  }
+
+  /**
+   * Permissions a plugin requests and those approved for it
+   */
+  async getPermissions(pluginId: string) {
+    const plugin = await this.prisma.plugin.findUnique({ where: { pluginId } });
+
+    if (!plugin) {
+      throw new NotFoundException(`Plugin ${pluginId} not found`);
+    }
+
+    const requested = requestedPermissions(parseManifest(plugin.manifest));
+    const granted = parsePermissions(plugin.permissions);
+
+    return {
+      pluginId,
+      requested,
+      granted: granted ?? null,
+      approvedAt: plugin.permissionsApprovedAt,
+      pending: missingPermissions(requested, granted) ?? null,
+    };
+  }
+
+  /**
+   * Invocation metrics, recent errors and health check results of a plugin.
+   * With `check`, a loaded plugin's health check runs first.
+   */
+  async getHealth(pluginId: string, check = false) {
+    const plugin = await this.prisma.plugin.findUnique({ where: { pluginId } });
+
+    if (!plugin) {
+      throw new NotFoundException(`Plugin ${pluginId} not found`);
+    }
+
+    if (check && this.runtime.getPlugin(pluginId)) {
+      this.pluginHealth.recordCheck(
+        pluginId,
+        await this.runtime.checkHealth(pluginId),
+        parseManifest(plugin.manifest).health,
+      );
+    }
+
+    return {
+      status: plugin.status,
+      error: plugin.error,
+      ...this.pluginHealth.getReport(pluginId),
+    };
+  }
+
+  /**
+   * Permission approvals and violations of a plugin
+   */
+  async getAuditLog(pluginId: string, filters: { action?: string; limit?: number }) {
+    await this.getPermissions(pluginId);
+    return this.pluginPermissions.getAuditLog(pluginId, filters);
+  }
+
+  /**
+   * Update plugin configuration. The given configuration replaces the stored
+   * one; secrets sent back redacted keep their stored values.
    */
   async updateConfig(
     pluginId: string,
     config: Record<string, any>,
   ): Promise<PluginInstance> {
+    const plugin = await this.prisma.plugin.findUnique({
+      where: { pluginId },
+    });
+
+    if (!plugin) {
+      throw new NotFoundException(`Plugin ${pluginId} not found`);
+    }
+
+    const schema = parseManifest(plugin.manifest).configuration;
+    const updated = schema ? restoreSecrets(schema, config, this.readConfig(plugin)) : config;
+
     // Update in registry
-    await this.registry.updateConfig(pluginId, config);
+    await this.withConfigErrors(() => this.registry.updateConfig(pluginId, updated));
 
     // Update in database
     await this.prisma.plugin.update({
       where: { pluginId },
-      data: { config: config as any },
+      data: { config: this.writeConfig(schema, updated, plugin) },
     });
 
     // Reload plugin if enabled
@@ -263,16 +640,19 @@ export class PluginsService {
       await this.runtime.enablePlugin(pluginId);
     }
 
-    return this.registry.getPlugin(pluginId);
+    return this.redact(this.registry.getPlugin(pluginId));
   }
 
   /**
-   * Auto-load plugins from directory
+   * Auto-load plugins from directory. New plugins are registered first, then
+   * plugins are enabled in dependency order.
    */
   async autoLoadPlugins(): Promise<void> {
     const pluginDir = this.configService.get<string>('plugins.directory');
     if (!pluginDir) return;
 
+    const toEnable = new Set<string>();
+
     try {
       const entries = await fs.readdir(pluginDir, { withFileTypes: true });
       
@@ -298,12 +678,11 @@ export class PluginsService {
               
               // Auto-enable if configured
               if (this.configService.get<boolean>('plugins.autoEnable')) {
-                await this.enable(manifest.id);
-                this.logger.log(`Auto-enabled plugin: ${manifest.id}`);
+                toEnable.add(manifest.id);
               }
             } else if (existing.status === PluginStatus.ENABLED) {
               // Re-enable already enabled plugins
-              await this.enable(existing.pluginId, existing.config as any);
+              toEnable.add(existing.pluginId);
             }
           } catch (error) {
             this.logger.warn(`Failed to load plugin from ${pluginPath}:`, error);
@@ -312,7 +691,273 @@ export class PluginsService {
       }
     } catch (error) {
       this.logger.error('Failed to auto-load plugins:', error);
+      return;
+    }
+
+    const plugins = await this.prisma.plugin.findMany();
+    const { order, cyclic } = sortByDependencies(plugins.map(p => parseManifest(p.manifest)));
+
+    for (const pluginId of cyclic.filter(id => toEnable.has(id))) {
+      this.logger.warn(`Not enabling plugin ${pluginId}: its dependencies form a cycle`);
+    }
+
+    for (const pluginId of order.filter(id => toEnable.has(id))) {
+      const plugin = plugins.find(p => p.pluginId === pluginId)!;
+      try {
+        await this.enable(pluginId, this.readConfig(plugin));
+        this.logger.log(`Auto-enabled plugin: ${pluginId}`);
+      } catch (error) {
+        this.logger.warn(`Failed to enable plugin ${pluginId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Refuse to enable a plugin unless every dependency is installed in a
+   * matching version and enabled
+   */
+  private async assertDependenciesEnabled(manifest: PluginManifest): Promise<void> {
+    const problems = checkDependencies(manifest, await this.getInstalledManifests())
+      .map(dependency => {
+        if (dependency.installedVersion === null) {
+          return `${dependency.id} ${dependency.range} is not installed`;
+        }
+        if (!dependency.satisfied) {
+          return `${dependency.id} ${dependency.range} is installed in version ${dependency.installedVersion}`;
+        }
+        if (!this.registry.isEnabled(dependency.id)) {
+          return `${dependency.id} is not enabled`;
+        }
+        return undefined;
+      })
+      .filter((problem): problem is string => problem !== undefined);
+
+    if (problems.length > 0) {
+      throw new BadRequestException(
+        `Cannot enable ${manifest.id}: ${problems.join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Make sure the custom hooks a plugin uses are declared by plugins it
+   * depends on, so that they are enabled before it
+   */
+  private async assertHooksProvided(manifest: PluginManifest): Promise<void> {
+    const unresolved = findUnresolvedHooks(manifest, await this.getInstalledManifests());
+    if (unresolved.length === 0) return;
+
+    const problems = unresolved.map(({ hookId, providers }) =>
+      providers.length > 0
+        ? `hook ${hookId} is provided by ${providers.join(', ')}, which must be a dependency`
+        : `hook ${hookId} is not provided by any installed plugin`,
+    );
+    throw new BadRequestException(`Cannot enable ${manifest.id}: ${problems.join('; ')}`);
+  }
+
+  /**
+   * Make sure the plugin services a plugin uses are exported in a matching
+   * version by plugins it depends on
+   */
+  private async assertServicesProvided(manifest: PluginManifest): Promise<void> {
+    const unresolved = findUnresolvedServices(manifest, await this.getInstalledManifests());
+    if (unresolved.length === 0) return;
+
+    const problems = unresolved.map(({ name, range, providers }) =>
+      providers.length > 0
+        ? `service ${name} ${range} is provided by ${providers.join(', ')}, which must be a dependency`
+        : `service ${name} ${range} is not provided by any installed plugin`,
+    );
+    throw new BadRequestException(`Cannot enable ${manifest.id}: ${problems.join('; ')}`);
+  }
+
+  /**
+   * Take a plugin over its error budget or failing its health check out of
+   * service: it is unloaded, without uninstalling, and stays in ERROR until
+   * enabled again. Enabled plugins depending on it are disabled first.
+   */
+  private async quarantine(pluginId: string, reason: string): Promise<void> {
+    if (!this.registry.isEnabled(pluginId)) return;
+
+    await this.disableDependents(pluginId, true);
+    await this.runtime.unloadPlugin(pluginId, false);
+    this.registry.fail(pluginId, reason);
+    await this.prisma.plugin.update({
+      where: { pluginId },
+      data: {
+        status: PluginStatus.ERROR,
+        error: reason,
+        disabledAt: new Date(),
+      },
+    });
+
+    this.logger.warn(`Plugin ${pluginId} quarantined: ${reason}`);
+  }
+
+  /**
+   * Make sure the permissions a plugin requests are approved, approving them
+   * when asked to or when approval is automatic
+   */
+  private async approvePermissions(
+    plugin: { pluginId: string; permissions: string | null },
+    manifest: PluginManifest,
+    approve: boolean,
+  ): Promise<void> {
+    const requested = requestedPermissions(manifest);
+    const pending = missingPermissions(requested, parsePermissions(plugin.permissions));
+    if (!pending) return;
+
+    if (!approve && !this.autoApprovePermissions()) {
+      throw new BadRequestException(
+        `Plugin ${plugin.pluginId} requests permissions that are not approved: ${JSON.stringify(pending)}. ` +
+        'Review them and enable with approvePermissions=true'
+      );
+    }
+
+    await this.prisma.plugin.update({
+      where: { pluginId: plugin.pluginId },
+      data: {
+        permissions: JSON.stringify(requested),
+        permissionsApprovedAt: new Date(),
+      },
+    });
+    await this.pluginPermissions.recordApproval(plugin.pluginId, requested);
+  }
+
+  /**
+   * Bring a plugin back to the version, files, data and config it had
+   * before a failed upgrade. `dependents` are the plugins to re-enable
+   * along with it when it was enabled.
+   */
+  private async rollbackUpgrade(
+    previous: Plugin,
+    data: PluginDataSnapshot | undefined,
+    filesReplaced: boolean,
+    dependents?: { pluginId: string; config?: Record<string, any> }[],
+  ): Promise<void> {
+    const { pluginId } = previous;
+
+    // Release the new version, however far it got
+    if (this.registry.isEnabled(pluginId)) {
+      await this.disable(pluginId, true);
     }
+    await this.runtime.unloadPlugin(pluginId, false);
+
+    if (filesReplaced) {
+      await this.loader.restorePluginFiles(pluginId);
+    }
+    if (data) {
+      await this.dataStores.restore(pluginId, data);
+    }
+
+    await this.prisma.plugin.update({
+      where: { pluginId },
+      data: {
+        version: previous.version,
+        manifest: previous.manifest,
+        config: previous.config,
+        permissions: previous.permissions,
+        permissionsApprovedAt: previous.permissionsApprovedAt,
+      },
+    });
+    this.registry.updateManifest(parseManifest(previous.manifest));
+
+    if (dependents) {
+      await this.enable(pluginId, this.readConfig(previous));
+      for (const dependent of [...dependents].reverse()) {
+        await this.enable(dependent.pluginId, dependent.config);
+      }
+    }
+
+    this.logger.log(`Plugin ${pluginId} rolled back to ${previous.version}`);
+  }
+
+  private async finishUpgrade(
+    id: string,
+    status: PluginUpgradeStatus,
+    step?: UpgradeStep,
+    error?: string,
+  ): Promise<void> {
+    await this.prisma.pluginUpgrade.update({
+      where: { id },
+      data: { status, step, error, completedAt: new Date() },
+    });
+  }
+
+  private autoApprovePermissions(): boolean {
+    return this.configService.get<boolean>('plugins.autoApprovePermissions') ?? false;
+  }
+
+  /**
+   * Disable the enabled plugins depending on a plugin, or refuse if there
+   * are any and `cascade` is not set
+   */
+  private async disableDependents(pluginId: string, cascade: boolean): Promise<void> {
+    const dependents = await this.getEnabledDependents(pluginId);
+    if (dependents.length === 0) return;
+
+    if (!cascade) {
+      throw new BadRequestException(
+        `Plugin ${pluginId} is required by enabled plugins: ` +
+        `${dependents.map(d => d.pluginId).join(', ')}. Disable them first or pass cascade=true`
+      );
+    }
+
+    for (const dependent of dependents) {
+      await this.disable(dependent.pluginId);
+      this.logger.log(`Plugin ${dependent.pluginId} disabled, it depends on ${pluginId}`);
+    }
+  }
+
+  /**
+   * Enabled plugins depending on a plugin, dependents first
+   */
+  private async getEnabledDependents(pluginId: string): Promise<{ pluginId: string; config?: Record<string, any> }[]> {
+    const plugins = await this.prisma.plugin.findMany();
+    const dependents = findDependents(pluginId, plugins.map(p => parseManifest(p.manifest)));
+
+    return dependents
+      .map(id => plugins.find(p => p.pluginId === id)!)
+      .filter(plugin => plugin.status === PluginStatus.ENABLED)
+      .map(plugin => ({ pluginId: plugin.pluginId, config: this.readConfig(plugin) }));
+  }
+
+  /**
+   * Stored configuration of a plugin, secrets decrypted
+   */
+  private readConfig(plugin: Plugin): Record<string, any> | undefined {
+    const config = parseConfig(plugin.config);
+    return config && this.secrets.decryptConfig(parseManifest(plugin.manifest).configuration, config);
+  }
+
+  /**
+   * Configuration to store for a plugin, secrets encrypted
+   */
+  private writeConfig(schema: PluginConfigSchema | undefined, config: Record<string, any>, plugin: Plugin): string {
+    return JSON.stringify(this.secrets.encryptConfig(schema, config, parseConfig(plugin.config)));
+  }
+
+  /**
+   * Plugin as returned by the API, secrets redacted
+   */
+  private redact(instance: PluginInstance): PluginInstance {
+    const schema = instance.manifest.configuration;
+    return schema && instance.config
+      ? { ...instance, config: redactSecrets(schema, instance.config) }
+      : instance;
+  }
+
+  private async withConfigErrors(fn: () => Promise<void>): Promise<void> {
+    try {
+      await fn();
+    } catch (error) {
+      throw error instanceof PluginConfigError ? new BadRequestException(error.message) : error;
+    }
+  }
+
+  private async getInstalledManifests(): Promise<PluginManifest[]> {
+    const plugins = await this.prisma.plugin.findMany({ select: { manifest: true } });
+    return plugins.map(plugin => parseManifest(plugin.manifest));
   }
 
   /**
@@ -331,6 +976,10 @@ export class PluginsService {
       this.logger.debug(`Plugin disabled: ${instance.manifest.id}`);
     });
 
+    this.registry.on('plugin:failed', (instance: PluginInstance) => {
+      this.logger.debug(`Plugin failed: ${instance.manifest.id}`);
+    });
+
     this.registry.on('plugin:unregistered', (instance: PluginInstance) => {
       this.logger.debug(`Plugin unregistered: ${instance.manifest.id}`);
     });
@@ -355,3 +1004,15 @@ export class PluginsService {
     return false;
   }
 }
+
+function parseManifest(manifest: string): PluginManifest {
+  return JSON.parse(manifest);
+}
+
+function parseConfig(config: string | null): Record<string, any> | undefined {
+  return config ? JSON.parse(config) : undefined;
+}
+
+function parsePermissions(permissions: string | null): PluginPermissions | undefined {
+  return permissions ? JSON.parse(permissions) : undefined;
+}
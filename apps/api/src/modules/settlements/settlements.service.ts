@@ -71,36 +71,39 @@ export class SettlementsService {
     const settlementNumber = await this.generateSettlementNumber();
 
     // Create settlement
-    const settlement = await this.prisma.settlement.create({
-      data: {
-        ...settlementData,
-        settlementNumber,
-        totalAmount: 0, // Will be calculated after links are added
-        totalCurrency: 'USD',
-      },
+    const settlement = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.settlement.create({
+        data: {
+          ...settlementData,
+          settlementNumber,
+          totalAmount: 0, // Will be calculated after links are added
+          totalCurrency: 'USD',
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<SettlementEventData>(
+        EventTypes.SETTLEMENT_INITIATED,
+        {
+          settlementId: created.id,
+          settlementNumber: created.settlementNumber,
+          chainId: created.chainId,
+          shipmentId: created.shipmentId,
+          status: created.status,
+          totalAmount: {
+            amount: created.totalAmount,
+            currency: created.totalCurrency,
+          },
+          linkCount: 0,
+        },
+        { subject: created.id, tx },
+      );
+
+      return created;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_SETTLEMENT_CREATE, settlement);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<SettlementEventData>(
-      EventTypes.SETTLEMENT_INITIATED,
-      {
-        settlementId: settlement.id,
-        settlementNumber: settlement.settlementNumber,
-        chainId: settlement.chainId,
-        shipmentId: settlement.shipmentId,
-        status: settlement.status,
-        totalAmount: {
-          amount: settlement.totalAmount,
-          currency: settlement.totalCurrency,
-        },
-        linkCount: 0,
-      },
-      { subject: settlement.id },
-    );
-
     return this.contracts.transform(SettlementSchema, {
       ...settlement,
       links: [],
@@ -239,32 +242,35 @@ export class SettlementsService {
     }
 
     // Update status
-    const updated = await this.prisma.settlement.update({
-      where: { id },
-      data: { status: 'PROCESSING' },
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const processing = await tx.settlement.update({
+        where: { id },
+        data: { status: 'PROCESSING' },
+      });
+
+      await this.eventBus.emitDomainEvent<SettlementEventData>(
+        EventTypes.SETTLEMENT_PROCESSING,
+        {
+          settlementId: processing.id,
+          settlementNumber: processing.settlementNumber,
+          chainId: processing.chainId,
+          shipmentId: processing.shipmentId,
+          status: processing.status,
+          totalAmount: {
+            amount: processing.totalAmount,
+            currency: processing.totalCurrency,
+          },
+          linkCount: settlement.links.length,
+        },
+        { subject: processing.id, tx },
+      );
+
+      return processing;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_SETTLEMENT_PROCESS, updated);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<SettlementEventData>(
-      EventTypes.SETTLEMENT_PROCESSING,
-      {
-        settlementId: updated.id,
-        settlementNumber: updated.settlementNumber,
-        chainId: updated.chainId,
-        shipmentId: updated.shipmentId,
-        status: updated.status,
-        totalAmount: {
-          amount: updated.totalAmount,
-          currency: updated.totalCurrency,
-        },
-        linkCount: settlement.links.length,
-      },
-      { subject: updated.id },
-    );
-
     // Process each link (in real implementation, this would trigger payment processing)
     await this.processLinks(id);
 
@@ -285,28 +291,29 @@ export class SettlementsService {
     }
 
     // Update status
-    const updated = await this.prisma.settlement.update({
-      where: { id },
-      data: { status: 'COMPLETED' },
-    });
+    await this.prisma.$transaction(async (tx) => {
+      const completed = await tx.settlement.update({
+        where: { id },
+        data: { status: 'COMPLETED' },
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<SettlementEventData>(
-      EventTypes.SETTLEMENT_COMPLETED,
-      {
-        settlementId: updated.id,
-        settlementNumber: updated.settlementNumber,
-        chainId: updated.chainId,
-        shipmentId: updated.shipmentId,
-        status: updated.status,
-        totalAmount: {
-          amount: updated.totalAmount,
-          currency: updated.totalCurrency,
+      await this.eventBus.emitDomainEvent<SettlementEventData>(
+        EventTypes.SETTLEMENT_COMPLETED,
+        {
+          settlementId: completed.id,
+          settlementNumber: completed.settlementNumber,
+          chainId: completed.chainId,
+          shipmentId: completed.shipmentId,
+          status: completed.status,
+          totalAmount: {
+            amount: completed.totalAmount,
+            currency: completed.totalCurrency,
+          },
+          linkCount: settlement.links.length,
         },
-        linkCount: settlement.links.length,
-      },
-      { subject: updated.id },
-    );
+        { subject: completed.id, tx },
+      );
+    });
 
     return this.findOne(id);
   }
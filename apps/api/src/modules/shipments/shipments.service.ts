@@ -62,15 +62,32 @@ export class ShipmentsService {
     const shipmentNumber = await this.generateShipmentNumber();
 
     // Create shipment with default stages
-    const shipment = await this.prisma.shipment.create({
-      data: {
-        ...shipmentData,
-        shipmentNumber,
-      },
-    });
+    const shipment = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.shipment.create({
+        data: {
+          ...shipmentData,
+          shipmentNumber,
+        },
+      });
+
+      // Create default stages based on order
+      await this.stagesService.createDefaultStages(created.id, order, tx);
+
+      await this.eventBus.emitDomainEvent<ShipmentEventData>(
+        EventTypes.SHIPMENT_CREATED,
+        {
+          shipmentId: created.id,
+          shipmentNumber: created.shipmentNumber,
+          orderId: created.orderId,
+          status: created.status,
+          carrierId: created.assignedCarrierId,
+          driverId: created.assignedDriverId,
+        },
+        { subject: created.id, tx },
+      );
 
-    // Create default stages based on order
-    await this.stagesService.createDefaultStages(shipment.id, order);
+      return created;
+    });
 
     // Fetch complete shipment
     const completeShipment = await this.findOne(shipment.id);
@@ -78,20 +95,6 @@ export class ShipmentsService {
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_SHIPMENT_CREATE, completeShipment);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<ShipmentEventData>(
-      EventTypes.SHIPMENT_CREATED,
-      {
-        shipmentId: shipment.id,
-        shipmentNumber: shipment.shipmentNumber,
-        orderId: shipment.orderId,
-        status: shipment.status,
-        carrierId: shipment.assignedCarrierId,
-        driverId: shipment.assignedDriverId,
-      },
-      { subject: shipment.id },
-    );
-
     return completeShipment;
   }
 
@@ -182,27 +185,28 @@ export class ShipmentsService {
     );
 
     // Update shipment
-    const shipment = await this.prisma.shipment.update({
-      where: { id },
-      data: validated,
+    await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.shipment.update({
+        where: { id },
+        data: validated,
+      });
+
+      await this.eventBus.emitDomainEvent<ShipmentEventData>(
+        EventTypes.SHIPMENT_UPDATED,
+        {
+          shipmentId: updated.id,
+          shipmentNumber: updated.shipmentNumber,
+          orderId: updated.orderId,
+          status: updated.status,
+          carrierId: updated.assignedCarrierId,
+          driverId: updated.assignedDriverId,
+        },
+        { subject: updated.id, tx },
+      );
     });
 
     const completeShipment = await this.findOne(id);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<ShipmentEventData>(
-      EventTypes.SHIPMENT_UPDATED,
-      {
-        shipmentId: shipment.id,
-        shipmentNumber: shipment.shipmentNumber,
-        orderId: shipment.orderId,
-        status: shipment.status,
-        carrierId: shipment.assignedCarrierId,
-        driverId: shipment.assignedDriverId,
-      },
-      { subject: shipment.id },
-    );
-
     return completeShipment;
   }
 
@@ -228,9 +232,24 @@ export class ShipmentsService {
     }
 
     // Update status
-    const updated = await this.prisma.shipment.update({
-      where: { id },
-      data: { status: 'DISPATCHED' },
+    await this.prisma.$transaction(async (tx) => {
+      const dispatched = await tx.shipment.update({
+        where: { id },
+        data: { status: 'DISPATCHED' },
+      });
+
+      await this.eventBus.emitDomainEvent<ShipmentEventData>(
+        EventTypes.SHIPMENT_DISPATCHED,
+        {
+          shipmentId: dispatched.id,
+          shipmentNumber: dispatched.shipmentNumber,
+          orderId: dispatched.orderId,
+          status: dispatched.status,
+          carrierId: dispatched.assignedCarrierId,
+          driverId: dispatched.assignedDriverId,
+        },
+        { subject: dispatched.id, tx },
+      );
     });
 
     const completeShipment = await this.findOne(id);
@@ -238,20 +257,6 @@ export class ShipmentsService {
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_SHIPMENT_DISPATCH, completeShipment);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<ShipmentEventData>(
-      EventTypes.SHIPMENT_DISPATCHED,
-      {
-        shipmentId: updated.id,
-        shipmentNumber: updated.shipmentNumber,
-        orderId: updated.orderId,
-        status: updated.status,
-        carrierId: updated.assignedCarrierId,
-        driverId: updated.assignedDriverId,
-      },
-      { subject: updated.id },
-    );
-
     return completeShipment;
   }
 
@@ -280,12 +285,27 @@ export class ShipmentsService {
     }
 
     // Update status
-    const updated = await this.prisma.shipment.update({
-      where: { id },
-      data: { 
-        status: 'DELIVERED',
-        actualDeliveryDate: new Date(),
-      },
+    await this.prisma.$transaction(async (tx) => {
+      const delivered = await tx.shipment.update({
+        where: { id },
+        data: { 
+          status: 'DELIVERED',
+          actualDeliveryDate: new Date(),
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<ShipmentEventData>(
+        EventTypes.SHIPMENT_DELIVERED,
+        {
+          shipmentId: delivered.id,
+          shipmentNumber: delivered.shipmentNumber,
+          orderId: delivered.orderId,
+          status: delivered.status,
+          carrierId: delivered.assignedCarrierId,
+          driverId: delivered.assignedDriverId,
+        },
+        { subject: delivered.id, tx },
+      );
     });
 
     const completeShipment = await this.findOne(id);
@@ -293,45 +313,32 @@ export class ShipmentsService {
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_SHIPMENT_DELIVER, completeShipment);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<ShipmentEventData>(
-      EventTypes.SHIPMENT_DELIVERED,
-      {
-        shipmentId: updated.id,
-        shipmentNumber: updated.shipmentNumber,
-        orderId: updated.orderId,
-        status: updated.status,
-        carrierId: updated.assignedCarrierId,
-        driverId: updated.assignedDriverId,
-      },
-      { subject: updated.id },
-    );
-
     return completeShipment;
   }
 
   async cancel(id: string): Promise<Shipment> {
-    const updated = await this.prisma.shipment.update({
-      where: { id },
-      data: { status: 'CANCELLED' },
+    await this.prisma.$transaction(async (tx) => {
+      const cancelled = await tx.shipment.update({
+        where: { id },
+        data: { status: 'CANCELLED' },
+      });
+
+      await this.eventBus.emitDomainEvent<ShipmentEventData>(
+        EventTypes.SHIPMENT_CANCELLED,
+        {
+          shipmentId: cancelled.id,
+          shipmentNumber: cancelled.shipmentNumber,
+          orderId: cancelled.orderId,
+          status: cancelled.status,
+          carrierId: cancelled.assignedCarrierId,
+          driverId: cancelled.assignedDriverId,
+        },
+        { subject: cancelled.id, tx },
+      );
     });
 
     const completeShipment = await this.findOne(id);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<ShipmentEventData>(
-      EventTypes.SHIPMENT_CANCELLED,
-      {
-        shipmentId: updated.id,
-        shipmentNumber: updated.shipmentNumber,
-        orderId: updated.orderId,
-        status: updated.status,
-        carrierId: updated.assignedCarrierId,
-        driverId: updated.assignedDriverId,
-      },
-      { subject: updated.id },
-    );
-
     return completeShipment;
   }
 
@@ -1,4 +1,5 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '@/database/prisma.service';
 import { EventBusService } from '@/kernel/services/event-bus.service';
 import { ContractService } from '@/kernel/services/contract.service';
@@ -27,7 +28,11 @@ export class StagesService {
   /**
    * Create default stages for a shipment based on order details
    */
-  async createDefaultStages(shipmentId: string, order: any): Promise<void> {
+  async createDefaultStages(
+    shipmentId: string,
+    order: any,
+    tx: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
     const stages = [
       {
         shipmentId,
@@ -52,18 +57,18 @@ export class StagesService {
     ];
 
     // Create stages
-    const createdStages = await this.prisma.shipmentStage.createMany({
+    const createdStages = await tx.shipmentStage.createMany({
       data: stages,
     });
 
     // Create dependencies (Transit depends on Pickup, Delivery depends on Transit)
-    const stageRecords = await this.prisma.shipmentStage.findMany({
+    const stageRecords = await tx.shipmentStage.findMany({
       where: { shipmentId },
       orderBy: { sequence: 'asc' },
     });
 
     if (stageRecords.length >= 3) {
-      await this.prisma.stageDependency.createMany({
+      await tx.stageDependency.createMany({
         data: [
           {
             dependentStageId: stageRecords[1].id, // Transit
@@ -143,41 +148,45 @@ export class StagesService {
       throw new BadRequestException(`Cannot advance stage from status ${stage.status}`);
     }
 
-    // Update stage
-    const updated = await this.prisma.shipmentStage.update({
-      where: { id: stage.id },
-      data: {
-        status: nextStatus,
-        ...(nextStatus === 'IN_PROGRESS' && { actualStartTime: new Date() }),
-        ...(nextStatus === 'COMPLETED' && { actualEndTime: new Date() }),
-      },
+    // Update stage, emit the matching event and move the shipment's current stage together
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const advanced = await tx.shipmentStage.update({
+        where: { id: stage.id },
+        data: {
+          status: nextStatus,
+          ...(nextStatus === 'IN_PROGRESS' && { actualStartTime: new Date() }),
+          ...(nextStatus === 'COMPLETED' && { actualEndTime: new Date() }),
+        },
+      });
+
+      // Emit appropriate event
+      const eventType = this.getEventTypeForStatus(nextStatus);
+      await this.eventBus.emitDomainEvent<StageEventData>(
+        eventType,
+        {
+          stageId: advanced.id,
+          shipmentId: advanced.shipmentId,
+          stageType: advanced.stageType,
+          sequence: advanced.sequence,
+          status: advanced.status,
+        },
+        { subject: `${shipmentId}.${advanced.id}`, tx },
+      );
+
+      // Update shipment current stage if needed
+      if (nextStatus === 'IN_PROGRESS') {
+        await tx.shipment.update({
+          where: { id: shipmentId },
+          data: { currentStageId: advanced.id },
+        });
+      }
+
+      return advanced;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_STAGE_ADVANCE, updated);
 
-    // Emit appropriate event
-    const eventType = this.getEventTypeForStatus(nextStatus);
-    await this.eventBus.emitDomainEvent<StageEventData>(
-      eventType,
-      {
-        stageId: updated.id,
-        shipmentId: updated.shipmentId,
-        stageType: updated.stageType,
-        sequence: updated.sequence,
-        status: updated.status,
-      },
-      { subject: `${shipmentId}.${updated.id}` },
-    );
-
-    // Update shipment current stage if needed
-    if (nextStatus === 'IN_PROGRESS') {
-      await this.prisma.shipment.update({
-        where: { id: shipmentId },
-        data: { currentStageId: updated.id },
-      });
-    }
-
     return {
       success: true,
       stage: this.contracts.transform(ShipmentStageSchema, {
@@ -216,30 +225,33 @@ export class StagesService {
       throw new BadRequestException(hookResult.error || 'Stage completion blocked by plugin');
     }
 
-    const updated = await this.prisma.shipmentStage.update({
-      where: { id: stageId },
-      data: {
-        status: 'COMPLETED',
-        actualEndTime: new Date(),
-      },
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const changed = await tx.shipmentStage.update({
+        where: { id: stageId },
+        data: {
+          status: 'COMPLETED',
+          actualEndTime: new Date(),
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<StageEventData>(
+        EventTypes.STAGE_COMPLETED,
+        {
+          stageId: changed.id,
+          shipmentId: changed.shipmentId,
+          stageType: changed.stageType,
+          sequence: changed.sequence,
+          status: changed.status,
+        },
+        { subject: `${shipmentId}.${changed.id}`, tx },
+      );
+
+      return changed;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_STAGE_COMPLETE, updated);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<StageEventData>(
-      EventTypes.STAGE_COMPLETED,
-      {
-        stageId: updated.id,
-        shipmentId: updated.shipmentId,
-        stageType: updated.stageType,
-        sequence: updated.sequence,
-        status: updated.status,
-      },
-      { subject: `${shipmentId}.${updated.id}` },
-    );
-
     return this.contracts.transform(ShipmentStageSchema, {
       ...updated,
       dependencies: await this.getStageDependencies(updated.id),
@@ -269,29 +281,32 @@ export class StagesService {
       throw new BadRequestException('Only PENDING stages can be skipped');
     }
 
-    const updated = await this.prisma.shipmentStage.update({
-      where: { id: stageId },
-      data: {
-        status: 'SKIPPED',
-        metadata: {
-          ...stage.metadata,
-          skipReason: reason,
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const changed = await tx.shipmentStage.update({
+        where: { id: stageId },
+        data: {
+          status: 'SKIPPED',
+          metadata: {
+            ...stage.metadata,
+            skipReason: reason,
+          },
         },
-      },
-    });
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<StageEventData>(
-      EventTypes.STAGE_SKIPPED,
-      {
-        stageId: updated.id,
-        shipmentId: updated.shipmentId,
-        stageType: updated.stageType,
-        sequence: updated.sequence,
-        status: updated.status,
-      },
-      { subject: `${shipmentId}.${updated.id}` },
-    );
+      await this.eventBus.emitDomainEvent<StageEventData>(
+        EventTypes.STAGE_SKIPPED,
+        {
+          stageId: changed.id,
+          shipmentId: changed.shipmentId,
+          stageType: changed.stageType,
+          sequence: changed.sequence,
+          status: changed.status,
+        },
+        { subject: `${shipmentId}.${changed.id}`, tx },
+      );
+
+      return changed;
+    });
 
     return this.contracts.transform(ShipmentStageSchema, {
       ...updated,
@@ -181,9 +181,6 @@ export class CascadeTenderService {
       }
     }
 
-    // Set up cascade triggers
-    await this.setupSequentialCascadeTriggers(createdTenders);
-
     return {
       rootTenderId: createdTenders[0].id,
       createdTenders,
@@ -270,32 +267,43 @@ export class CascadeTenderService {
   }
 
   /**
-   * Set up triggers for sequential cascade
+   * Open the next tier of a sequential cascade after a tier has closed
+   * without an acceptable offer. Safe to call more than once per tier.
    */
-  private async setupSequentialCascadeTriggers(tenders: Tender[]): Promise<void> {
-    // Subscribe to tender close events to trigger next tier
-    for (let i = 0; i < tenders.length - 1; i++) {
-      const currentTender = tenders[i];
-      const nextTender = tenders[i + 1];
-
-      // Set up event listener for current tender closure
-      this.eventBus.on(EventTypes.TENDER_CLOSED, async (event) => {
-        if (event.data?.tenderId === currentTender.id) {
-          // Check if any offers were accepted
-          const tender = await this.prisma.tender.findUnique({
-            where: { id: currentTender.id },
-            include: { offers: true },
-          });
-
-          const hasAcceptedOffer = tender?.offers.some(o => o.status === 'ACCEPTED');
-
-          if (!hasAcceptedOffer && tender?.status === 'CLOSED') {
-            // No offers accepted, open next tier
-            await this.openNextTier(nextTender.id);
-          }
-        }
-      });
+  async advanceSequentialCascade(tenderId: string): Promise<void> {
+    const tender = await this.prisma.tender.findUnique({
+      where: { id: tenderId },
+      include: { offers: true },
+    });
+
+    if (!tender || tender.mode !== 'SEQUENTIAL' || tender.status !== 'CLOSED') {
+      return;
+    }
+
+    // Submitted offers can still be awarded by the broker
+    const hasAcceptableOffer = tender.offers.some(
+      o => o.status === 'SUBMITTED' || o.status === 'ACCEPTED',
+    );
+    if (hasAcceptableOffer) {
+      return;
     }
+
+    const nextTier = await this.prisma.tender.findFirst({
+      where: {
+        parentTenderId: tender.parentTenderId ?? tender.id,
+        mode: 'SEQUENTIAL',
+        status: 'DRAFT',
+        tier: { gt: tender.tier },
+      },
+      orderBy: { tier: 'asc' },
+    });
+
+    if (!nextTier) {
+      this.logger.log(`Cascade of tender ${tenderId} exhausted without an acceptable offer`);
+      return;
+    }
+
+    await this.openNextTier(nextTier.id);
   }
 
   /**
@@ -304,26 +312,41 @@ export class CascadeTenderService {
   private async openNextTier(tenderId: string): Promise<void> {
     this.logger.log(`Opening next tier tender: ${tenderId}`);
 
-    const tender = await this.prisma.tender.update({
-      where: { id: tenderId },
-      data: { status: 'OPEN' },
-    });
+    await this.prisma.$transaction(async (tx) => {
+      const draft = await tx.tender.findUniqueOrThrow({
+        where: { id: tenderId },
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<TenderEventData>(
-      EventTypes.TENDER_OPENED,
-      {
-        tenderId: tender.id,
-        tenderNumber: tender.tenderNumber,
-        orderId: tender.orderId,
-        shipmentId: tender.shipmentId,
-        status: tender.status,
-        mode: tender.mode,
-        tier: tender.tier,
-        parentTenderId: tender.parentTenderId,
-      },
-      { subject: tender.id },
-    );
+      // The tier gets its full offer window from the moment it opens
+      const offerDeadline = new Date(
+        Date.now() + (draft.offerDeadline.getTime() - draft.createdAt.getTime()),
+      );
+
+      const tender = await tx.tender.update({
+        where: { id: tenderId },
+        data: { status: 'OPEN', offerDeadline },
+      });
+
+      await tx.tenderOffer.updateMany({
+        where: { tenderId, status: 'PENDING' },
+        data: { validUntil: offerDeadline },
+      });
+
+      await this.eventBus.emitDomainEvent<TenderEventData>(
+        EventTypes.TENDER_OPENED,
+        {
+          tenderId: tender.id,
+          tenderNumber: tender.tenderNumber,
+          orderId: tender.orderId,
+          shipmentId: tender.shipmentId,
+          status: tender.status,
+          mode: tender.mode,
+          tier: tender.tier,
+          parentTenderId: tender.parentTenderId,
+        },
+        { subject: tender.id, tx },
+      );
+    });
   }
 
   /**
@@ -0,0 +1,151 @@
+import { Injectable, Logger, OnModuleInit, OnApplicationBootstrap } from '@nestjs/common';
+import { PrismaService } from '@/database/prisma.service';
+import { EventBusService } from '@/kernel/services/event-bus.service';
+import { SchedulerService, ScheduledJobStatus } from '@/kernel/services/scheduler.service';
+import { CloudEvent, EventTypes, TenderEventData } from '@tms/contracts';
+import { TendersService } from './tenders.service';
+import { CascadeTenderService } from './cascade-tender.service';
+
+const TENDER_DEADLINE_JOB = 'tender.deadline';
+
+interface TenderDeadlinePayload {
+  tenderId: string;
+}
+
+/**
+ * Closes tenders when their offer deadline passes and moves sequential
+ * cascades on to the next tier.
+ *
+ * Deadlines are kept as durable scheduler jobs that follow the tender's
+ * lifecycle events, and tender events themselves are delivered through the
+ * outbox, so nothing here depends on in-memory state surviving a restart.
+ */
+@Injectable()
+export class TenderDeadlineService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(TenderDeadlineService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventBus: EventBusService,
+    private readonly scheduler: SchedulerService,
+    private readonly tenders: TendersService,
+    private readonly cascade: CascadeTenderService,
+  ) {}
+
+  onModuleInit(): void {
+    this.scheduler.registerHandler<TenderDeadlinePayload>(
+      TENDER_DEADLINE_JOB,
+      payload => this.handleDeadline(payload.tenderId),
+    );
+
+    const sync = (event: CloudEvent<TenderEventData>) => this.syncDeadline(event.data!.tenderId);
+    this.eventBus.on(EventTypes.TENDER_CREATED, sync);
+    this.eventBus.on(EventTypes.TENDER_UPDATED, sync);
+    this.eventBus.on(EventTypes.TENDER_OPENED, sync);
+    this.eventBus.on(EventTypes.TENDER_AWARDED, sync);
+    this.eventBus.on(EventTypes.TENDER_CANCELLED, sync);
+
+    this.eventBus.on(EventTypes.TENDER_CLOSED, async (event: CloudEvent<TenderEventData>) => {
+      await this.syncDeadline(event.data!.tenderId);
+      await this.cascade.advanceSequentialCascade(event.data!.tenderId);
+    });
+
+    // Cascade tiers are created without individual events
+    this.eventBus.on(EventTypes.TENDER_CASCADED, async (event: CloudEvent<TenderEventData>) => {
+      const tiers = await this.prisma.tender.findMany({
+        where: {
+          OR: [
+            { id: event.data!.tenderId },
+            { parentTenderId: event.data!.tenderId },
+          ],
+        },
+        select: { id: true },
+      });
+
+      for (const tier of tiers) {
+        await this.syncDeadline(tier.id);
+      }
+    });
+  }
+
+  /**
+   * Schedule deadlines for open tenders that have no pending job, e.g. tenders
+   * created before the scheduler existed. Past deadlines fire right away.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const open = await this.prisma.tender.findMany({
+      where: { status: 'OPEN' },
+      select: { id: true, offerDeadline: true },
+    });
+
+    const scheduled = await this.prisma.scheduledJob.findMany({
+      where: {
+        type: TENDER_DEADLINE_JOB,
+        status: { in: [ScheduledJobStatus.PENDING, ScheduledJobStatus.RUNNING] },
+      },
+      select: { key: true },
+    });
+    const scheduledKeys = new Set(scheduled.map(j => j.key));
+
+    let recovered = 0;
+    for (const tender of open) {
+      if (scheduledKeys.has(this.jobKey(tender.id))) continue;
+
+      await this.scheduleDeadline(tender.id, tender.offerDeadline);
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      this.logger.log(`Scheduled ${recovered} missing tender deadline(s)`);
+    }
+  }
+
+  /**
+   * Bring the deadline job in line with the tender's current state
+   */
+  async syncDeadline(tenderId: string): Promise<void> {
+    const tender = await this.prisma.tender.findUnique({
+      where: { id: tenderId },
+      select: { id: true, status: true, offerDeadline: true },
+    });
+
+    if (tender?.status === 'OPEN') {
+      await this.scheduleDeadline(tender.id, tender.offerDeadline);
+    } else {
+      await this.scheduler.cancel(this.jobKey(tenderId));
+    }
+  }
+
+  private async handleDeadline(tenderId: string): Promise<void> {
+    const tender = await this.prisma.tender.findUnique({
+      where: { id: tenderId },
+      select: { id: true, status: true, offerDeadline: true },
+    });
+
+    if (!tender || tender.status !== 'OPEN') {
+      return;
+    }
+
+    // The deadline may have been extended after this run was scheduled
+    if (tender.offerDeadline.getTime() > Date.now()) {
+      await this.scheduleDeadline(tender.id, tender.offerDeadline);
+      return;
+    }
+
+    this.logger.log(`Offer deadline passed, closing tender ${tenderId}`);
+    await this.tenders.close(tenderId);
+  }
+
+  private async scheduleDeadline(tenderId: string, offerDeadline: Date): Promise<void> {
+    await this.scheduler.schedule<TenderDeadlinePayload>({
+      type: TENDER_DEADLINE_JOB,
+      key: this.jobKey(tenderId),
+      runAt: offerDeadline,
+      payload: { tenderId },
+    });
+  }
+
+  private jobKey(tenderId: string): string {
+    return `${TENDER_DEADLINE_JOB}:${tenderId}`;
+  }
+}
@@ -80,42 +80,45 @@ export class TenderOffersService {
     const validatedData = hookResult.data || offerData;
 
     // Update offer
-    const offer = await this.prisma.tenderOffer.update({
-      where: { id: existingOffer.id },
-      data: {
-        status: 'SUBMITTED',
-        priceAmount: validatedData.priceAmount,
-        priceCurrency: validatedData.priceCurrency,
-        validUntil: validatedData.validUntil,
-        conditions: validatedData.conditions || [],
-        submittedAt: new Date(),
-        metadata: validatedData.metadata,
-      },
-      include: {
-        tender: true,
-        carrier: true,
-      },
+    const offer = await this.prisma.$transaction(async (tx) => {
+      const submitted = await tx.tenderOffer.update({
+        where: { id: existingOffer.id },
+        data: {
+          status: 'SUBMITTED',
+          priceAmount: validatedData.priceAmount,
+          priceCurrency: validatedData.priceCurrency,
+          validUntil: validatedData.validUntil,
+          conditions: validatedData.conditions || [],
+          submittedAt: new Date(),
+          metadata: validatedData.metadata,
+        },
+        include: {
+          tender: true,
+          carrier: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<OfferEventData>(
+        EventTypes.OFFER_SUBMITTED,
+        {
+          offerId: submitted.id,
+          tenderId: submitted.tenderId,
+          carrierId: submitted.carrierId,
+          price: {
+            amount: submitted.priceAmount,
+            currency: submitted.priceCurrency,
+          },
+          status: submitted.status,
+        },
+        { subject: `${tenderId}.${submitted.id}`, tx },
+      );
+
+      return submitted;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_OFFER_SUBMIT, offer);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<OfferEventData>(
-      EventTypes.OFFER_SUBMITTED,
-      {
-        offerId: offer.id,
-        tenderId: offer.tenderId,
-        carrierId: offer.carrierId,
-        price: {
-          amount: offer.priceAmount,
-          currency: offer.priceCurrency,
-        },
-        status: offer.status,
-      },
-      { subject: `${tenderId}.${offer.id}` },
-    );
-
     return this.contracts.transform(TenderOfferSchema, offer);
   }
 
@@ -135,30 +138,33 @@ export class TenderOffersService {
       throw new NotFoundException('No submitted offer found');
     }
 
-    const updated = await this.prisma.tenderOffer.update({
-      where: { id: offer.id },
-      data: { status: 'WITHDRAWN' },
-      include: {
-        tender: true,
-        carrier: true,
-      },
-    });
-
-    // Emit event
-    await this.eventBus.emitDomainEvent<OfferEventData>(
-      EventTypes.OFFER_WITHDRAWN,
-      {
-        offerId: updated.id,
-        tenderId: updated.tenderId,
-        carrierId: updated.carrierId,
-        price: {
-          amount: updated.priceAmount,
-          currency: updated.priceCurrency,
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const withdrawn = await tx.tenderOffer.update({
+        where: { id: offer.id },
+        data: { status: 'WITHDRAWN' },
+        include: {
+          tender: true,
+          carrier: true,
         },
-        status: updated.status,
-      },
-      { subject: `${tenderId}.${updated.id}` },
-    );
+      });
+
+      await this.eventBus.emitDomainEvent<OfferEventData>(
+        EventTypes.OFFER_WITHDRAWN,
+        {
+          offerId: withdrawn.id,
+          tenderId: withdrawn.tenderId,
+          carrierId: withdrawn.carrierId,
+          price: {
+            amount: withdrawn.priceAmount,
+            currency: withdrawn.priceCurrency,
+          },
+          status: withdrawn.status,
+        },
+        { subject: `${tenderId}.${withdrawn.id}`, tx },
+      );
+
+      return withdrawn;
+    });
 
     return this.contracts.transform(TenderOfferSchema, updated);
   }
@@ -225,34 +231,37 @@ export class TenderOffersService {
       throw new BadRequestException(hookResult.error || 'Offer acceptance blocked by plugin');
     }
 
-    const updated = await this.prisma.tenderOffer.update({
-      where: { id: offerId },
-      data: { status: 'ACCEPTED' },
-      include: {
-        tender: true,
-        carrier: true,
-      },
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const accepted = await tx.tenderOffer.update({
+        where: { id: offerId },
+        data: { status: 'ACCEPTED' },
+        include: {
+          tender: true,
+          carrier: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<OfferEventData>(
+        EventTypes.OFFER_ACCEPTED,
+        {
+          offerId: accepted.id,
+          tenderId: accepted.tenderId,
+          carrierId: accepted.carrierId,
+          price: {
+            amount: accepted.priceAmount,
+            currency: accepted.priceCurrency,
+          },
+          status: accepted.status,
+        },
+        { subject: `${accepted.tenderId}.${accepted.id}`, tx },
+      );
+
+      return accepted;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_OFFER_ACCEPT, updated);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<OfferEventData>(
-      EventTypes.OFFER_ACCEPTED,
-      {
-        offerId: updated.id,
-        tenderId: updated.tenderId,
-        carrierId: updated.carrierId,
-        price: {
-          amount: updated.priceAmount,
-          currency: updated.priceCurrency,
-        },
-        status: updated.status,
-      },
-      { subject: `${updated.tenderId}.${updated.id}` },
-    );
-
     return this.contracts.transform(TenderOfferSchema, updated);
   }
 
@@ -269,30 +278,33 @@ export class TenderOffersService {
       throw new BadRequestException('Only submitted offers can be rejected');
     }
 
-    const updated = await this.prisma.tenderOffer.update({
-      where: { id: offerId },
-      data: { status: 'REJECTED' },
-      include: {
-        tender: true,
-        carrier: true,
-      },
-    });
-
-    // Emit event
-    await this.eventBus.emitDomainEvent<OfferEventData>(
-      EventTypes.OFFER_REJECTED,
-      {
-        offerId: updated.id,
-        tenderId: updated.tenderId,
-        carrierId: updated.carrierId,
-        price: {
-          amount: updated.priceAmount,
-          currency: updated.priceCurrency,
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const rejected = await tx.tenderOffer.update({
+        where: { id: offerId },
+        data: { status: 'REJECTED' },
+        include: {
+          tender: true,
+          carrier: true,
         },
-        status: updated.status,
-      },
-      { subject: `${updated.tenderId}.${updated.id}` },
-    );
+      });
+
+      await this.eventBus.emitDomainEvent<OfferEventData>(
+        EventTypes.OFFER_REJECTED,
+        {
+          offerId: rejected.id,
+          tenderId: rejected.tenderId,
+          carrierId: rejected.carrierId,
+          price: {
+            amount: rejected.priceAmount,
+            currency: rejected.priceCurrency,
+          },
+          status: rejected.status,
+        },
+        { subject: `${rejected.tenderId}.${rejected.id}`, tx },
+      );
+
+      return rejected;
+    });
 
     return this.contracts.transform(TenderOfferSchema, updated);
   }
@@ -3,12 +3,13 @@ import { TendersController } from './tenders.controller';
 import { TendersService } from './tenders.service';
 import { TenderOffersService } from './tender-offers.service';
 import { CascadeTenderService } from './cascade-tender.service';
+import { TenderDeadlineService } from './tender-deadline.service';
 import { PartiesModule } from '../parties/parties.module';
 
 @Module({
   imports: [PartiesModule],
   controllers: [TendersController],
-  providers: [TendersService, TenderOffersService, CascadeTenderService],
+  providers: [TendersService, TenderOffersService, CascadeTenderService, TenderDeadlineService],
   exports: [TendersService, TenderOffersService, CascadeTenderService],
 })
 export class TendersModule {}
@@ -59,38 +59,32 @@ export class TendersService {
     // Generate tender number
     const tenderNumber = await this.generateTenderNumber();
 
-    // Create tender
-    const tender = await this.prisma.tender.create({
-      data: {
-        ...tenderData,
-        tenderNumber,
-      },
-      include: {
-        offers: true,
-        parentTender: true,
-        childTenders: true,
-      },
+    // Create tender and its event in one transaction
+    const tender = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.tender.create({
+        data: {
+          ...tenderData,
+          tenderNumber,
+        },
+        include: {
+          offers: true,
+          parentTender: true,
+          childTenders: true,
+        },
+      });
+
+      await this.eventBus.emitDomainEvent<TenderEventData>(
+        EventTypes.TENDER_CREATED,
+        this.toEventData(created),
+        { subject: created.id, tx },
+      );
+
+      return created;
     });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_TENDER_CREATE, tender);
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<TenderEventData>(
-      EventTypes.TENDER_CREATED,
-      {
-        tenderId: tender.id,
-        tenderNumber: tender.tenderNumber,
-        orderId: tender.orderId,
-        shipmentId: tender.shipmentId,
-        status: tender.status,
-        mode: tender.mode,
-        tier: tender.tier,
-        parentTenderId: tender.parentTenderId,
-      },
-      { subject: tender.id },
-    );
-
     return this.contracts.transform(TenderSchema, tender);
   }
 
@@ -165,31 +159,25 @@ export class TendersService {
     );
 
     // Update tender
-    const tender = await this.prisma.tender.update({
-      where: { id },
-      data: validated,
-      include: {
-        offers: {
-          include: { carrier: true },
+    const tender = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.tender.update({
+        where: { id },
+        data: validated,
+        include: {
+          offers: {
+            include: { carrier: true },
+          },
         },
-      },
-    });
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<TenderEventData>(
-      EventTypes.TENDER_UPDATED,
-      {
-        tenderId: tender.id,
-        tenderNumber: tender.tenderNumber,
-        orderId: tender.orderId,
-        shipmentId: tender.shipmentId,
-        status: tender.status,
-        mode: tender.mode,
-        tier: tender.tier,
-        parentTenderId: tender.parentTenderId,
-      },
-      { subject: tender.id },
-    );
+      await this.eventBus.emitDomainEvent<TenderEventData>(
+        EventTypes.TENDER_UPDATED,
+        this.toEventData(updated),
+        { subject: updated.id, tx },
+      );
+
+      return updated;
+    });
 
     return this.contracts.transform(TenderSchema, tender);
   }
@@ -201,31 +189,25 @@ export class TendersService {
       throw new BadRequestException('Only DRAFT tenders can be opened');
     }
 
-    const updated = await this.prisma.tender.update({
-      where: { id },
-      data: { status: 'OPEN' },
-      include: {
-        offers: {
-          include: { carrier: true },
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const tender = await tx.tender.update({
+        where: { id },
+        data: { status: 'OPEN' },
+        include: {
+          offers: {
+            include: { carrier: true },
+          },
         },
-      },
-    });
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<TenderEventData>(
-      EventTypes.TENDER_OPENED,
-      {
-        tenderId: updated.id,
-        tenderNumber: updated.tenderNumber,
-        orderId: updated.orderId,
-        shipmentId: updated.shipmentId,
-        status: updated.status,
-        mode: updated.mode,
-        tier: updated.tier,
-        parentTenderId: updated.parentTenderId,
-      },
-      { subject: updated.id },
-    );
+      await this.eventBus.emitDomainEvent<TenderEventData>(
+        EventTypes.TENDER_OPENED,
+        this.toEventData(tender),
+        { subject: tender.id, tx },
+      );
+
+      return tender;
+    });
 
     return this.contracts.transform(TenderSchema, updated);
   }
@@ -237,31 +219,25 @@ export class TendersService {
       throw new BadRequestException('Only OPEN tenders can be closed');
     }
 
-    const updated = await this.prisma.tender.update({
-      where: { id },
-      data: { status: 'CLOSED' },
-      include: {
-        offers: {
-          include: { carrier: true },
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const tender = await tx.tender.update({
+        where: { id },
+        data: { status: 'CLOSED' },
+        include: {
+          offers: {
+            include: { carrier: true },
+          },
         },
-      },
-    });
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<TenderEventData>(
-      EventTypes.TENDER_CLOSED,
-      {
-        tenderId: updated.id,
-        tenderNumber: updated.tenderNumber,
-        orderId: updated.orderId,
-        shipmentId: updated.shipmentId,
-        status: updated.status,
-        mode: updated.mode,
-        tier: updated.tier,
-        parentTenderId: updated.parentTenderId,
-      },
-      { subject: updated.id },
-    );
+      await this.eventBus.emitDomainEvent<TenderEventData>(
+        EventTypes.TENDER_CLOSED,
+        this.toEventData(tender),
+        { subject: tender.id, tx },
+      );
+
+      return tender;
+    });
 
     return this.contracts.transform(TenderSchema, updated);
   }
@@ -293,9 +269,9 @@ export class TendersService {
       throw new BadRequestException(hookResult.error || 'Tender award blocked by plugin');
     }
 
-    // Update tender and offer in transaction
-    const [updatedTender] = await this.prisma.$transaction([
-      this.prisma.tender.update({
+    // Update tender and offers, assign the carrier and record the event in one transaction
+    const updatedTender = await this.prisma.$transaction(async (tx) => {
+      const awarded = await tx.tender.update({
         where: { id },
         data: { status: 'AWARDED' },
         include: {
@@ -303,29 +279,39 @@ export class TendersService {
             include: { carrier: true },
           },
         },
-      }),
-      this.prisma.tenderOffer.update({
+      });
+
+      await tx.tenderOffer.update({
         where: { id: offerId },
         data: { status: 'ACCEPTED' },
-      }),
+      });
+
       // Reject other offers
-      this.prisma.tenderOffer.updateMany({
+      await tx.tenderOffer.updateMany({
         where: {
           tenderId: id,
           id: { not: offerId },
           status: 'SUBMITTED',
         },
         data: { status: 'REJECTED' },
-      }),
-    ]);
-
-    // If tender has a shipment, assign the carrier
-    if (tender.shipmentId) {
-      await this.prisma.shipment.update({
-        where: { id: tender.shipmentId },
-        data: { assignedCarrierId: offer.carrierId },
       });
-    }
+
+      // If tender has a shipment, assign the carrier
+      if (tender.shipmentId) {
+        await tx.shipment.update({
+          where: { id: tender.shipmentId },
+          data: { assignedCarrierId: offer.carrierId },
+        });
+      }
+
+      await this.eventBus.emitDomainEvent<TenderEventData>(
+        EventTypes.TENDER_AWARDED,
+        this.toEventData(awarded),
+        { subject: awarded.id, tx },
+      );
+
+      return awarded;
+    });
 
     // Execute after hook
     await this.hooks.executeHook(Hooks.AFTER_TENDER_AWARD, {
@@ -333,55 +319,55 @@ export class TendersService {
       acceptedOffer: offer,
     });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<TenderEventData>(
-      EventTypes.TENDER_AWARDED,
-      {
-        tenderId: updatedTender.id,
-        tenderNumber: updatedTender.tenderNumber,
-        orderId: updatedTender.orderId,
-        shipmentId: updatedTender.shipmentId,
-        status: updatedTender.status,
-        mode: updatedTender.mode,
-        tier: updatedTender.tier,
-        parentTenderId: updatedTender.parentTenderId,
-      },
-      { subject: updatedTender.id },
-    );
-
     return this.contracts.transform(TenderSchema, updatedTender);
   }
 
   async cancel(id: string): Promise<Tender> {
-    const updated = await this.prisma.tender.update({
-      where: { id },
-      data: { status: 'CANCELLED' },
-      include: {
-        offers: {
-          include: { carrier: true },
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const tender = await tx.tender.update({
+        where: { id },
+        data: { status: 'CANCELLED' },
+        include: {
+          offers: {
+            include: { carrier: true },
+          },
         },
-      },
-    });
+      });
 
-    // Emit event
-    await this.eventBus.emitDomainEvent<TenderEventData>(
-      EventTypes.TENDER_CANCELLED,
-      {
-        tenderId: updated.id,
-        tenderNumber: updated.tenderNumber,
-        orderId: updated.orderId,
-        shipmentId: updated.shipmentId,
-        status: updated.status,
-        mode: updated.mode,
-        tier: updated.tier,
-        parentTenderId: updated.parentTenderId,
-      },
-      { subject: updated.id },
-    );
+      await this.eventBus.emitDomainEvent<TenderEventData>(
+        EventTypes.TENDER_CANCELLED,
+        this.toEventData(tender),
+        { subject: tender.id, tx },
+      );
+
+      return tender;
+    });
 
     return this.contracts.transform(TenderSchema, updated);
   }
 
+  private toEventData(tender: {
+    id: string;
+    tenderNumber: string;
+    orderId: string;
+    shipmentId: string | null;
+    status: string;
+    mode: string;
+    tier: number;
+    parentTenderId: string | null;
+  }): TenderEventData {
+    return {
+      tenderId: tender.id,
+      tenderNumber: tender.tenderNumber,
+      orderId: tender.orderId,
+      shipmentId: tender.shipmentId ?? undefined,
+      status: tender.status,
+      mode: tender.mode,
+      tier: tender.tier,
+      parentTenderId: tender.parentTenderId ?? undefined,
+    };
+  }
+
   private async generateTenderNumber(): Promise<string> {
     const date = new Date();
     const year = date.getFullYear();
@@ -0,0 +1,22 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { TracesService } from './traces.service';
+
+@ApiTags('traces')
+@Controller('traces')
+export class TracesController {
+  constructor(private readonly tracesService: TracesService) {}
+
+  @Get(':correlationId')
+  @ApiOperation({
+    summary: 'Get every event and hook execution caused by a request',
+    description: 'The correlation id is returned in the x-correlation-id header of every response',
+  })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getTrace(
+    @Param('correlationId') correlationId: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.tracesService.getTrace(correlationId, limit ? parseInt(limit, 10) : undefined);
+  }
+}
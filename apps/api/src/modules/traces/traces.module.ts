@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HooksModule } from '../hooks/hooks.module';
+import { TracesController } from './traces.controller';
+import { TracesService } from './traces.service';
+
+@Module({
+  imports: [HooksModule],
+  controllers: [TracesController],
+  providers: [TracesService],
+  exports: [TracesService],
+})
+export class TracesModule {}
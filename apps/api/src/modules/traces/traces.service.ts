@@ -0,0 +1,36 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { EventBusService } from '@/kernel/services/event-bus.service';
+import { HooksService } from '../hooks/hooks.service';
+
+// Entries returned per kind when no limit is given
+const DEFAULT_LIMIT = 1000;
+
+@Injectable()
+export class TracesService {
+  constructor(
+    private readonly eventBus: EventBusService,
+    private readonly hooksService: HooksService,
+  ) {}
+
+  /**
+   * Events and hook executions sharing a correlation id, oldest first.
+   * Each entry's causation id names the event (or, for the request itself,
+   * the correlation id) that caused it, so the causal tree can be rebuilt.
+   */
+  async getTrace(correlationId: string, limit: number = DEFAULT_LIMIT) {
+    const [events, hookExecutions] = await Promise.all([
+      this.eventBus.getEvents({ correlationId, limit }),
+      this.hooksService.getExecutions({ correlationId, limit }),
+    ]);
+
+    if (events.length === 0 && hookExecutions.length === 0) {
+      throw new NotFoundException(`No events or hook executions for correlation id ${correlationId}`);
+    }
+
+    return {
+      correlationId,
+      events: events.reverse(),
+      hookExecutions: hookExecutions.reverse(),
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsUrl,
+  ArrayNotEmpty,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty()
+  @IsString()
+  name!: string;
+
+  @ApiProperty({ example: 'https://partner.example.com/tms/events' })
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url!: string;
+
+  @ApiProperty({
+    description: 'Event type patterns; `*` matches one segment, `**` any number',
+    example: ['com.tms.tender.awarded', 'com.tms.shipment.*'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  types!: string[];
+
+  @ApiPropertyOptional({ description: 'Subject glob, `*` matches anything' })
+  @IsString()
+  @IsOptional()
+  subject?: string;
+
+  @ApiPropertyOptional({ description: 'HMAC secret, generated when omitted' })
+  @IsString()
+  @MinLength(16)
+  @IsOptional()
+  secret?: string;
+
+  @ApiPropertyOptional({ enum: ['STRUCTURED', 'BINARY'], default: 'STRUCTURED' })
+  @IsEnum(['STRUCTURED', 'BINARY'])
+  @IsOptional()
+  mode?: 'STRUCTURED' | 'BINARY';
+
+  @ApiPropertyOptional({ default: true })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+
+@ApiTags('webhooks')
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post('subscriptions')
+  @ApiOperation({ summary: 'Create a webhook subscription' })
+  async create(@Body() createDto: CreateWebhookSubscriptionDto) {
+    return this.webhooksService.create(createDto);
+  }
+
+  @Get('subscriptions')
+  @ApiOperation({ summary: 'Get all webhook subscriptions' })
+  async findAll() {
+    return this.webhooksService.findAll();
+  }
+
+  @Get('subscriptions/:id')
+  @ApiOperation({ summary: 'Get webhook subscription by ID' })
+  async findOne(@Param('id') id: string) {
+    return this.webhooksService.findOne(id);
+  }
+
+  @Put('subscriptions/:id')
+  @ApiOperation({ summary: 'Update webhook subscription' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateWebhookSubscriptionDto,
+  ) {
+    return this.webhooksService.update(id, updateDto);
+  }
+
+  @Delete('subscriptions/:id')
+  @ApiOperation({ summary: 'Delete webhook subscription and its delivery log' })
+  async remove(@Param('id') id: string) {
+    return this.webhooksService.remove(id);
+  }
+
+  @Post('subscriptions/:id/test')
+  @ApiOperation({ summary: 'Send a ping event to the subscription endpoint' })
+  async test(@Param('id') id: string) {
+    return this.webhooksService.test(id);
+  }
+
+  @Get('subscriptions/:id/deliveries')
+  @ApiOperation({ summary: 'Get the delivery log of a subscription' })
+  @ApiQuery({ name: 'status', required: false, enum: ['PENDING', 'SENDING', 'DELIVERED', 'DEAD'] })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getDeliveries(
+    @Param('id') id: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.webhooksService.getDeliveries(id, {
+      status,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get('dead-letters')
+  @ApiOperation({ summary: 'Get deliveries that exhausted their retries' })
+  @ApiQuery({ name: 'subscriptionId', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getDeadLetters(
+    @Query('subscriptionId') subscriptionId?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.webhooksService.getDeadLetters({
+      subscriptionId,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get('deliveries/:deliveryId')
+  @ApiOperation({ summary: 'Get a delivery with its attempts' })
+  async getDelivery(@Param('deliveryId') deliveryId: string) {
+    return this.webhooksService.getDelivery(deliveryId);
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  @ApiOperation({ summary: 'Queue a delivery again, e.g. from the dead-letter queue' })
+  async redeliver(@Param('deliveryId') deliveryId: string) {
+    return this.webhooksService.redeliver(deliveryId);
+  }
+}
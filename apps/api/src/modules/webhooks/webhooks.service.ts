@@ -0,0 +1,138 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { WebhookSubscription } from '@prisma/client';
+import { createCloudEvent } from '@tms/contracts';
+import { PrismaService } from '@/database/prisma.service';
+import {
+  WebhookDispatcherService,
+  WebhookDeliveryStatus,
+} from '@/kernel/services/webhook-dispatcher.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+
+@Injectable()
+export class WebhooksService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {}
+
+  async create(createDto: CreateWebhookSubscriptionDto) {
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: {
+        name: createDto.name,
+        url: createDto.url,
+        types: JSON.stringify(createDto.types),
+        subject: createDto.subject,
+        secret: createDto.secret || randomBytes(32).toString('hex'),
+        mode: createDto.mode,
+        active: createDto.active,
+      },
+    });
+
+    // The secret is only shown once
+    return { ...this.toResponse(subscription), secret: subscription.secret };
+  }
+
+  async findAll() {
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    return subscriptions.map(s => this.toResponse(s));
+  }
+
+  async findOne(id: string) {
+    return this.toResponse(await this.getSubscription(id));
+  }
+
+  async update(id: string, updateDto: UpdateWebhookSubscriptionDto) {
+    await this.getSubscription(id);
+
+    const subscription = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        types: updateDto.types ? JSON.stringify(updateDto.types) : undefined,
+      },
+    });
+
+    return this.toResponse(subscription);
+  }
+
+  async remove(id: string) {
+    await this.getSubscription(id);
+    await this.prisma.webhookSubscription.delete({ where: { id } });
+    return { success: true };
+  }
+
+  /**
+   * Send a ping event straight to the endpoint, bypassing the queue
+   */
+  async test(id: string) {
+    const subscription = await this.getSubscription(id);
+    const event = createCloudEvent(
+      'com.tms.webhook.ping',
+      'tms.webhooks',
+      { subscriptionId: subscription.id },
+      `webhook/${subscription.id}`,
+    );
+
+    return {
+      event,
+      result: await this.dispatcher.send(subscription, event),
+    };
+  }
+
+  async getDeliveries(id: string, filters: { status?: string; limit?: number }) {
+    await this.getSubscription(id);
+
+    return this.prisma.webhookDelivery.findMany({
+      where: { subscriptionId: id, status: filters.status },
+      include: { log: { orderBy: { attempt: 'asc' } } },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 100,
+    });
+  }
+
+  async getDeadLetters(filters: { subscriptionId?: string; limit?: number }) {
+    return this.prisma.webhookDelivery.findMany({
+      where: { status: WebhookDeliveryStatus.DEAD, subscriptionId: filters.subscriptionId },
+      orderBy: { updatedAt: 'desc' },
+      take: filters.limit || 100,
+    });
+  }
+
+  async getDelivery(deliveryId: string) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { log: { orderBy: { attempt: 'asc' } } },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${deliveryId} not found`);
+    }
+    return delivery;
+  }
+
+  async redeliver(deliveryId: string) {
+    await this.getDelivery(deliveryId);
+    await this.dispatcher.redeliver(deliveryId);
+    return this.getDelivery(deliveryId);
+  }
+
+  private async getSubscription(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.prisma.webhookSubscription.findUnique({ where: { id } });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook subscription ${id} not found`);
+    }
+    return subscription;
+  }
+
+  private toResponse(subscription: WebhookSubscription) {
+    const { secret: _secret, ...rest } = subscription;
+    return {
+      ...rest,
+      types: JSON.parse(subscription.types) as string[],
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { Controller, Get, Post, Body, Param, Query, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { Request } from 'express';
+import { WorkflowsService } from './workflows.service';
+
+@ApiTags('workflows')
+@Controller('workflows')
+export class WorkflowsController {
+  constructor(private readonly workflowsService: WorkflowsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List registered plugin workflows' })
+  @ApiQuery({ name: 'pluginId', required: false })
+  getWorkflows(@Query('pluginId') pluginId?: string) {
+    return this.workflowsService.getWorkflows(pluginId);
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'List workflow runs' })
+  @ApiQuery({ name: 'pluginId', required: false })
+  @ApiQuery({ name: 'workflowId', required: false })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  async getRuns(
+    @Query('pluginId') pluginId?: string,
+    @Query('workflowId') workflowId?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.workflowsService.getRuns({
+      pluginId,
+      workflowId,
+      status,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get('runs/:runId')
+  @ApiOperation({ summary: 'Get a workflow run with its step history' })
+  async getRun(@Param('runId') runId: string) {
+    return this.workflowsService.getRun(runId);
+  }
+
+  @Post('runs/:runId/retry')
+  @ApiOperation({ summary: 'Retry a failed run from its first incomplete step' })
+  async retryRun(@Param('runId') runId: string) {
+    return this.workflowsService.retryRun(runId);
+  }
+
+  @Post('runs/:runId/cancel')
+  @ApiOperation({ summary: 'Cancel a pending or running workflow run' })
+  async cancelRun(@Param('runId') runId: string) {
+    return this.workflowsService.cancelRun(runId);
+  }
+
+  @Post('webhooks/:pluginId/*')
+  @ApiOperation({ summary: 'Trigger a workflow with a WEBHOOK trigger' })
+  async triggerWebhook(@Param('pluginId') pluginId: string, @Req() req: Request) {
+    return this.workflowsService.triggerWebhook(pluginId, req.params[0] || '', {
+      body: req.body,
+      query: req.query as Record<string, any>,
+      headers: req.headers,
+    });
+  }
+
+  @Post(':pluginId/:workflowId/runs')
+  @ApiOperation({ summary: 'Start a workflow run manually' })
+  async startRun(
+    @Param('pluginId') pluginId: string,
+    @Param('workflowId') workflowId: string,
+    @Body() input?: any,
+  ) {
+    return this.workflowsService.startRun(pluginId, workflowId, input);
+  }
+}
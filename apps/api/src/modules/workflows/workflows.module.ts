@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WorkflowsController } from './workflows.controller';
+import { WorkflowsService } from './workflows.service';
+
+@Module({
+  controllers: [WorkflowsController],
+  providers: [WorkflowsService],
+  exports: [WorkflowsService],
+})
+export class WorkflowsModule {}
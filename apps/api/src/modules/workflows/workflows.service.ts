@@ -0,0 +1,109 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { WorkflowRun, WorkflowStepRun } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import {
+  WorkflowEngineService,
+  WorkflowRunStatus,
+} from '@/kernel/services/workflow-engine.service';
+
+@Injectable()
+export class WorkflowsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly engine: WorkflowEngineService,
+  ) {}
+
+  getWorkflows(pluginId?: string) {
+    return this.engine.getWorkflows(pluginId);
+  }
+
+  async startRun(pluginId: string, workflowId: string, input?: any) {
+    const workflow = this.engine.getWorkflows(pluginId).find(w => w.id === workflowId);
+    if (!workflow) {
+      throw new NotFoundException(`Workflow ${pluginId}/${workflowId} not found`);
+    }
+
+    return this.toRunResponse(await this.engine.startRun(pluginId, workflowId, 'MANUAL', input));
+  }
+
+  async triggerWebhook(
+    pluginId: string,
+    path: string,
+    request: { body: any; query: Record<string, any>; headers: Record<string, any> },
+  ) {
+    const workflow = this.engine.findWebhookWorkflow(pluginId, path);
+    if (!workflow) {
+      throw new NotFoundException(`Plugin ${pluginId} has no workflow webhook /${path}`);
+    }
+
+    return this.toRunResponse(await this.engine.startRun(pluginId, workflow.id, 'WEBHOOK', request));
+  }
+
+  async getRuns(filters: {
+    pluginId?: string;
+    workflowId?: string;
+    status?: string;
+    limit?: number;
+  }) {
+    const runs = await this.prisma.workflowRun.findMany({
+      where: {
+        pluginId: filters.pluginId,
+        workflowId: filters.workflowId,
+        status: filters.status,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 100,
+    });
+
+    return runs.map(run => this.toRunResponse(run));
+  }
+
+  async getRun(runId: string) {
+    const run = await this.prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: { steps: { orderBy: { startedAt: 'asc' } } },
+    });
+
+    if (!run) {
+      throw new NotFoundException(`Workflow run ${runId} not found`);
+    }
+
+    return {
+      ...this.toRunResponse(run),
+      steps: run.steps.map(step => this.toStepResponse(step)),
+    };
+  }
+
+  async retryRun(runId: string) {
+    const run = await this.getRun(runId);
+    if (run.status !== WorkflowRunStatus.FAILED && run.status !== WorkflowRunStatus.CANCELLED) {
+      throw new BadRequestException(`Only failed or cancelled runs can be retried`);
+    }
+
+    return this.toRunResponse(await this.engine.retryRun(runId));
+  }
+
+  async cancelRun(runId: string) {
+    const run = await this.getRun(runId);
+    if (run.status !== WorkflowRunStatus.PENDING && run.status !== WorkflowRunStatus.RUNNING) {
+      throw new BadRequestException(`Only pending or running runs can be cancelled`);
+    }
+
+    return this.toRunResponse(await this.engine.cancelRun(runId));
+  }
+
+  private toRunResponse(run: WorkflowRun) {
+    return {
+      ...run,
+      input: run.input ? JSON.parse(run.input) : null,
+      output: run.output ? JSON.parse(run.output) : null,
+    };
+  }
+
+  private toStepResponse(step: WorkflowStepRun) {
+    return {
+      ...step,
+      output: step.output ? JSON.parse(step.output) : null,
+    };
+  }
+}
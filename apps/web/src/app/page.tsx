@@ -25,6 +25,9 @@ export default function HomePage() {
             <Link href="/settlements" className="text-sm font-medium hover:text-blue-600">
               Settlements
             </Link>
+            <Link href="/plugins" className="text-sm font-medium hover:text-blue-600">
+              Plugins
+            </Link>
           </nav>
         </div>
       </header>
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { PluginInstance } from "@tms/plugin-sdk";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PluginConfigForm } from "@/components/plugins/plugin-config-form";
+import { fetchPlugins, savePluginConfig } from "@/lib/plugins";
+import { Puzzle, Settings } from "lucide-react";
+
+export default function PluginsPage() {
+  const queryClient = useQueryClient();
+  const [configuring, setConfiguring] = useState<string>();
+  const { data: plugins = [], isLoading, error } = useQuery({
+    queryKey: ["plugins"],
+    queryFn: fetchPlugins,
+  });
+
+  const saveConfig = async (plugin: PluginInstance, config: Record<string, any>) => {
+    await savePluginConfig(plugin, config);
+    setConfiguring(undefined);
+    await queryClient.invalidateQueries({ queryKey: ["plugins"] });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "ENABLED": return "bg-green-100 text-green-800";
+      case "DISABLED": return "bg-gray-100 text-gray-800";
+      case "ERROR": return "bg-red-100 text-red-800";
+      default: return "bg-blue-100 text-blue-800";
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <div className="text-center">Loading plugins...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      {/* Header */}
+      <div className="flex items-center space-x-4 mb-8">
+        <Puzzle className="h-8 w-8 text-blue-600" />
+        <h1 className="text-3xl font-bold">Plugins</h1>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          {(error as Error).message}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {plugins.map((plugin) => (
+          <Card key={plugin.manifest.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg">{plugin.manifest.name}</CardTitle>
+                  <p className="text-sm text-gray-600">
+                    {plugin.manifest.id} v{plugin.manifest.version}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(plugin.status)}`}>
+                    {plugin.status}
+                  </span>
+                  {plugin.manifest.configuration && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex items-center space-x-1"
+                      onClick={() => setConfiguring(configuring === plugin.manifest.id ? undefined : plugin.manifest.id)}
+                    >
+                      <Settings className="h-4 w-4" />
+                      <span>Configure</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {plugin.manifest.description && (
+                <p className="text-sm text-gray-600">{plugin.manifest.description}</p>
+              )}
+              {plugin.error && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">{plugin.error}</div>
+              )}
+              {configuring === plugin.manifest.id && plugin.manifest.configuration && (
+                <PluginConfigForm
+                  schema={plugin.manifest.configuration}
+                  value={plugin.config}
+                  submitLabel={plugin.status === "ENABLED" ? "Save configuration" : "Enable with configuration"}
+                  onSubmit={(config) => saveConfig(plugin, config)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        ))}
+
+        {plugins.length === 0 && !error && (
+          <div className="text-center text-gray-500">No plugins installed</div>
+        )}
+      </div>
+    </div>
+  );
+}
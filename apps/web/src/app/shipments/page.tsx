@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PluginSlot } from "@/components/plugins/plugin-slot";
+import { UiSlotContribution } from "@/lib/plugins";
 import { Truck, Plus, Eye, PlayCircle, CheckCircle, Clock } from "lucide-react";
 
 interface Stage {
@@ -236,6 +239,26 @@ export default function ShipmentsPage() {
                     </div>
                   </div>
 
+                  {/* Plugin tabs */}
+                  <PluginSlot id="shipment.tabs" context={{ shipmentId: shipment.id, shipment }}>
+                    {(tabs) => tabs.length > 0 && (
+                      <Tabs defaultValue={tabKey(tabs[0].contribution)} className="mt-4">
+                        <TabsList>
+                          {tabs.map(({ contribution }) => (
+                            <TabsTrigger key={tabKey(contribution)} value={tabKey(contribution)}>
+                              {contribution.props.title || contribution.component}
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
+                        {tabs.map(({ contribution, element }) => (
+                          <TabsContent key={tabKey(contribution)} value={tabKey(contribution)}>
+                            {element}
+                          </TabsContent>
+                        ))}
+                      </Tabs>
+                    )}
+                  </PluginSlot>
+
                   {/* Progress Summary */}
                   <div className="mt-4 text-sm text-gray-600">
                     Progress: {shipment.stages.filter(s => s.status === 'COMPLETED').length}/{shipment.stages.length} stages completed
@@ -250,3 +273,5 @@ export default function ShipmentsPage() {
     </div>
   );
 }
+
+const tabKey = (contribution: UiSlotContribution) => `${contribution.pluginId}:${contribution.component}`;
@@ -0,0 +1,246 @@
+"use client";
+
+import * as React from "react";
+import type { ConfigProperty, PluginConfigSchema } from "@tms/plugin-sdk";
+import { Button } from "@/components/ui/button";
+import { REDACTED_SECRET } from "@/lib/plugins";
+import { Plus, Trash2 } from "lucide-react";
+
+interface PluginConfigFormProps {
+  schema: PluginConfigSchema;
+  // Current configuration, secrets redacted
+  value?: Record<string, any>;
+  submitLabel?: string;
+  onSubmit: (config: Record<string, any>) => Promise<void>;
+}
+
+const inputClassName = "w-full rounded-md border px-3 py-2 text-sm";
+
+/**
+ * Form generated from a plugin's configuration schema. The API validates
+ * the configuration and fills in defaults, so fields left empty get the
+ * defaults they show.
+ */
+export function PluginConfigForm({ schema, value, submitLabel = "Save", onSubmit }: PluginConfigFormProps) {
+  const [config, setConfig] = React.useState<Record<string, any>>(value || {});
+  const [error, setError] = React.useState<string>();
+  const [saving, setSaving] = React.useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(undefined);
+    try {
+      await onSubmit(config);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} noValidate className="space-y-4">
+      <ObjectFields properties={schema.properties} required={schema.required} value={config} onChange={setConfig} />
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">{error}</div>
+      )}
+      <Button type="submit" disabled={saving}>
+        {saving ? "Saving..." : submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+interface FieldProps<T = any> {
+  property: ConfigProperty;
+  label: string;
+  required?: boolean;
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function ObjectFields({
+  properties,
+  required = [],
+  value,
+  onChange,
+}: {
+  properties: Record<string, ConfigProperty>;
+  required?: string[];
+  value: Record<string, any>;
+  onChange: (value: Record<string, any>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      {Object.entries(properties).map(([key, property]) => (
+        <Field
+          key={key}
+          property={property}
+          label={property.title || key}
+          required={required.includes(key)}
+          value={value[key]}
+          onChange={(fieldValue) => onChange({ ...value, [key]: fieldValue })}
+        />
+      ))}
+    </div>
+  );
+}
+
+function Field(props: FieldProps) {
+  const { property, label, required, value, onChange } = props;
+
+  if (property.type === "object") {
+    return (
+      <fieldset className="space-y-3 rounded-md border p-4">
+        <legend className="px-1 text-sm font-medium">{label}</legend>
+        {property.description && <p className="text-xs text-gray-500">{property.description}</p>}
+        <ObjectFields
+          properties={property.properties || {}}
+          required={property.required}
+          value={value || {}}
+          onChange={onChange}
+        />
+      </fieldset>
+    );
+  }
+
+  if (property.type === "array") {
+    return <ArrayField {...props} />;
+  }
+
+  if (property.type === "boolean") {
+    return (
+      <label className="flex items-start space-x-2">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={value ?? property.default ?? false}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        <span>
+          <span className="text-sm font-medium">{label}</span>
+          {property.description && <span className="block text-xs text-gray-500">{property.description}</span>}
+        </span>
+      </label>
+    );
+  }
+
+  return (
+    <label className="block space-y-1">
+      <FieldLabel label={label} required={required} />
+      <ScalarInput property={property} value={value} onChange={onChange} />
+      {property.description && <span className="block text-xs text-gray-500">{property.description}</span>}
+    </label>
+  );
+}
+
+function ArrayField({ property, label, required, value, onChange }: FieldProps<any[] | undefined>) {
+  const items: any[] = value ?? property.default ?? [];
+  const itemProperty = property.items || { type: "string" };
+
+  return (
+    <div className="space-y-2">
+      <FieldLabel label={label} required={required} />
+      {property.description && <p className="text-xs text-gray-500">{property.description}</p>}
+      {items.map((item, index) => (
+        <div key={index} className="flex items-start space-x-2">
+          <div className="flex-1">
+            <Field
+              property={itemProperty}
+              label={`${itemProperty.title || label} ${index + 1}`}
+              value={item}
+              onChange={(itemValue) => onChange(items.map((other, i) => (i === index ? itemValue : other)))}
+            />
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="flex items-center space-x-1"
+        onClick={() => onChange([...items, itemProperty.default ?? (itemProperty.type === "object" ? {} : undefined)])}
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add</span>
+      </Button>
+    </div>
+  );
+}
+
+function ScalarInput({ property, value, onChange }: Omit<FieldProps, "label">) {
+  // Empty inputs leave the value unset
+  const text = (input: string) => onChange(input === "" ? undefined : input);
+
+  if (property.enum) {
+    const options = property.enum;
+    const selected = options.indexOf(value ?? property.default);
+    return (
+      <select
+        className={inputClassName}
+        value={selected === -1 ? "" : selected}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : options[Number(e.target.value)])}
+      >
+        <option value="">Select...</option>
+        {options.map((option, index) => (
+          <option key={index} value={index}>
+            {String(option)}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (property.type === "number" || property.type === "integer") {
+    return (
+      <input
+        type="number"
+        className={inputClassName}
+        step={property.type === "integer" ? 1 : "any"}
+        min={property.minimum}
+        max={property.maximum}
+        value={value ?? ""}
+        placeholder={property.default !== undefined ? String(property.default) : undefined}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+      />
+    );
+  }
+
+  if (property.secret) {
+    // Stored secrets are never sent to the browser; leaving the field alone keeps them
+    const stored = value === REDACTED_SECRET;
+    return (
+      <input
+        type="password"
+        autoComplete="new-password"
+        className={inputClassName}
+        value={stored ? "" : value ?? ""}
+        placeholder={stored ? "Unchanged" : undefined}
+        onChange={(e) => text(e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <input
+      type={property.format === "email" ? "email" : property.format === "uri" ? "url" : "text"}
+      className={inputClassName}
+      value={value ?? ""}
+      placeholder={property.default !== undefined ? String(property.default) : undefined}
+      onChange={(e) => text(e.target.value)}
+    />
+  );
+}
+
+function FieldLabel({ label, required }: { label: string; required?: boolean }) {
+  return (
+    <span className="text-sm font-medium">
+      {label}
+      {required && <span className="text-red-600"> *</span>}
+    </span>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import * as React from "react";
+import { AlertTriangle } from "lucide-react";
+
+interface PluginErrorBoundaryProps {
+  pluginId: string;
+  // Changing it clears a caught error, e.g. after a plugin upgrade
+  resetKey?: string;
+  children: React.ReactNode;
+}
+
+interface PluginErrorBoundaryState {
+  error?: Error;
+}
+
+/**
+ * Keeps a failing plugin component from taking the page down with it
+ */
+export class PluginErrorBoundary extends React.Component<PluginErrorBoundaryProps, PluginErrorBoundaryState> {
+  state: PluginErrorBoundaryState = {};
+
+  static getDerivedStateFromError(error: Error): PluginErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    console.error(`Plugin ${this.props.pluginId} failed to render:`, error, info.componentStack);
+  }
+
+  componentDidUpdate(prevProps: PluginErrorBoundaryProps) {
+    if (this.state.error && prevProps.resetKey !== this.props.resetKey) {
+      this.setState({ error: undefined });
+    }
+  }
+
+  render() {
+    if (this.state.error) {
+      return <PluginError pluginId={this.props.pluginId} error={this.state.error} />;
+    }
+    return this.props.children;
+  }
+}
+
+export function PluginError({ pluginId, error }: { pluginId: string; error: Error }) {
+  return (
+    <div className="flex items-center space-x-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+      <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+      <span>
+        Plugin <span className="font-medium">{pluginId}</span> is unavailable: {error.message}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { UiSlotContribution, fetchUiSlot, loadPluginComponent } from "@/lib/plugins";
+import { PluginError, PluginErrorBoundary } from "./plugin-error-boundary";
+
+export interface PluginSlotItem {
+  contribution: UiSlotContribution;
+  element: React.ReactNode;
+}
+
+interface PluginSlotProps {
+  id: string;
+  // Props every component of the slot gets, e.g. the shipment it is shown for
+  context?: Record<string, any>;
+  // Lays out the contributions; they are stacked by default
+  children?: (items: PluginSlotItem[]) => React.ReactNode;
+}
+
+/**
+ * Renders the components enabled plugins contribute to a UI slot, each
+ * isolated so that a failing plugin only replaces its own output
+ */
+export function PluginSlot({ id, context, children }: PluginSlotProps) {
+  // Without the list of contributions the slot stays empty
+  const { data: contributions = [] } = useQuery({
+    queryKey: ["plugin-ui-slots", id],
+    queryFn: () => fetchUiSlot(id),
+  });
+
+  const items = contributions.map((contribution) => ({
+    contribution,
+    element: (
+      <PluginErrorBoundary
+        key={`${contribution.pluginId}:${contribution.component}`}
+        pluginId={contribution.pluginId}
+        resetKey={contribution.pluginVersion}
+      >
+        <PluginComponent contribution={contribution} context={context} />
+      </PluginErrorBoundary>
+    ),
+  }));
+
+  if (children) {
+    return <>{children(items)}</>;
+  }
+  if (items.length === 0) {
+    return null;
+  }
+  return <div className="space-y-4">{items.map((item) => item.element)}</div>;
+}
+
+function PluginComponent({
+  contribution,
+  context,
+}: {
+  contribution: UiSlotContribution;
+  context?: Record<string, any>;
+}) {
+  const [state, setState] = React.useState<{ component?: React.ComponentType<any>; error?: Error }>({});
+
+  React.useEffect(() => {
+    let active = true;
+    setState({});
+    loadPluginComponent(contribution)
+      .then((component) => active && setState({ component }))
+      .catch((error) => active && setState({ error }));
+    return () => {
+      active = false;
+    };
+  }, [contribution]);
+
+  if (state.error) {
+    return <PluginError pluginId={contribution.pluginId} error={state.error} />;
+  }
+  if (!state.component) {
+    return <div className="text-sm text-gray-500">Loading {contribution.pluginId}...</div>;
+  }
+
+  const Component = state.component;
+  return <Component {...contribution.props} {...context} />;
+}
@@ -0,0 +1,104 @@
+import * as React from "react";
+import type { PluginInstance } from "@tms/plugin-sdk";
+
+// A plugin's contribution to a UI slot, as listed by GET /api/plugins/ui-slots
+export interface UiSlotContribution {
+  pluginId: string;
+  pluginVersion: string;
+  slotId: string;
+  component: string;
+  props: Record<string, any>;
+  order: number;
+  bundleUrl: string;
+}
+
+/**
+ * What the web app hands to plugin bundles. Bundles must not ship their own
+ * React; they render with the host's.
+ */
+export interface PluginUiHost {
+  React: typeof React;
+  pluginId: string;
+  // fetch against the plugin's API routes, e.g. api("/pallets")
+  api: (path: string, init?: RequestInit) => Promise<Response>;
+}
+
+/**
+ * Plugin component bundles are ES modules whose export named like the
+ * contribution's `component` is a factory returning the React component
+ */
+export type PluginComponentFactory = (host: PluginUiHost) => React.ComponentType<any>;
+
+const components = new Map<string, Promise<React.ComponentType<any>>>();
+
+export async function fetchUiSlot(slotId: string): Promise<UiSlotContribution[]> {
+  const response = await fetch(`/api/plugins/ui-slots?slotId=${encodeURIComponent(slotId)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load UI slot ${slotId}: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Load the component of a contribution. Bundles are imported once per
+ * version and components created once per bundle export.
+ */
+export function loadPluginComponent(contribution: UiSlotContribution): Promise<React.ComponentType<any>> {
+  const key = `${contribution.bundleUrl}#${contribution.component}`;
+  let component = components.get(key);
+
+  if (!component) {
+    component = import(/* webpackIgnore: true */ contribution.bundleUrl).then((module) => {
+      const factory = module[contribution.component] as PluginComponentFactory | undefined;
+      if (typeof factory !== "function") {
+        throw new Error(`Plugin ${contribution.pluginId} does not export ${contribution.component}`);
+      }
+      return factory(createHost(contribution.pluginId));
+    });
+    // Let a failed load be retried on the next render
+    component.catch(() => components.delete(key));
+    components.set(key, component);
+  }
+
+  return component;
+}
+
+function createHost(pluginId: string): PluginUiHost {
+  const base = `/api/plugins/${encodeURIComponent(pluginId)}`;
+  return {
+    React,
+    pluginId,
+    api: (path, init) => fetch(`${base}${path.startsWith("/") ? path : `/${path}`}`, init),
+  };
+}
+
+// Value the API returns in place of secret configuration values. Sent back
+// unchanged, it keeps the stored secret.
+export const REDACTED_SECRET = "********";
+
+export async function fetchPlugins(): Promise<PluginInstance[]> {
+  const response = await fetch("/api/plugins");
+  if (!response.ok) {
+    throw new Error(`Failed to load plugins: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Save the configuration of an enabled plugin, or enable a plugin with it
+ */
+export async function savePluginConfig(plugin: PluginInstance, config: Record<string, any>): Promise<PluginInstance> {
+  const base = `/api/plugins/${encodeURIComponent(plugin.manifest.id)}`;
+  const [url, method] = plugin.status === "ENABLED" ? [`${base}/config`, "PUT"] : [`${base}/enable`, "PATCH"];
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(config),
+  });
+
+  const body = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    throw new Error(body?.message || `Failed to save configuration: ${response.status}`);
+  }
+  return body;
+}
@@ -0,0 +1,85 @@
+// Zod schemas for the data of TMS domain events
+import { z } from 'zod';
+
+// Amounts in events may be zero, e.g. a settlement without links yet
+const EventMoneySchema = z.object({
+  amount: z.number(),
+  currency: z.string().length(3)
+});
+
+// Accepts any data, for schemas only known as JSON Schema and validated
+// where they are defined
+export const AnyEventDataSchema = z.unknown();
+
+// Optional references are null when read from an unset database column
+export const OrderEventDataSchema = z.object({
+  orderId: z.string(),
+  orderNumber: z.string(),
+  shipperId: z.string(),
+  consigneeId: z.string(),
+  status: z.string()
+});
+
+export const ShipmentEventDataSchema = z.object({
+  shipmentId: z.string(),
+  shipmentNumber: z.string(),
+  orderId: z.string(),
+  status: z.string(),
+  carrierId: z.string().nullish(),
+  driverId: z.string().nullish()
+});
+
+export const StageEventDataSchema = z.object({
+  stageId: z.string(),
+  shipmentId: z.string(),
+  stageType: z.string(),
+  sequence: z.number().int(),
+  status: z.string(),
+  blockedBy: z.array(z.string()).optional()
+});
+
+export const TenderEventDataSchema = z.object({
+  tenderId: z.string(),
+  tenderNumber: z.string(),
+  orderId: z.string(),
+  shipmentId: z.string().nullish(),
+  status: z.string(),
+  mode: z.string(),
+  tier: z.number().int().min(0),
+  parentTenderId: z.string().nullish()
+});
+
+export const OfferEventDataSchema = z.object({
+  offerId: z.string(),
+  tenderId: z.string(),
+  carrierId: z.string(),
+  price: EventMoneySchema,
+  status: z.string()
+});
+
+export const SettlementEventDataSchema = z.object({
+  settlementId: z.string(),
+  settlementNumber: z.string(),
+  chainId: z.string(),
+  shipmentId: z.string(),
+  status: z.string(),
+  totalAmount: EventMoneySchema,
+  linkCount: z.number().int().min(0)
+});
+
+export const PartyEventDataSchema = z.object({
+  partyId: z.string(),
+  partyType: z.string(),
+  name: z.string(),
+  code: z.string(),
+  active: z.boolean()
+});
+
+export const RelationEventDataSchema = z.object({
+  relationId: z.string(),
+  fromPartyId: z.string(),
+  toPartyId: z.string(),
+  relationType: z.string(),
+  status: z.string(),
+  tier: z.number().int().min(0)
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { CloudEvent } from '../types';
+import {
+  EventFilter,
+  matchesEventFilter,
+  matchesEventFilters,
+  matchesSubject,
+  matchesTypePattern,
+  validateEventFilter,
+} from './filters';
+
+const event: CloudEvent = {
+  specversion: '1.0',
+  id: 'evt-1',
+  source: 'tms.kernel',
+  type: 'com.tms.shipment.delivered',
+  subject: 'shipment/shp-1',
+  time: '2024-03-10T08:00:00.000Z',
+  data: { status: 'DELIVERED', pallets: 12, carrier: { id: 'car-7' } },
+};
+
+describe('matchesTypePattern', () => {
+  it('matches exact types', () => {
+    expect(matchesTypePattern('com.tms.shipment.delivered', 'com.tms.shipment.delivered')).toBe(true);
+    expect(matchesTypePattern('com.tms.shipment.delivered', 'com.tms.shipment.created')).toBe(false);
+  });
+
+  it('matches one segment with *', () => {
+    expect(matchesTypePattern('com.tms.shipment.*', 'com.tms.shipment.delivered')).toBe(true);
+    expect(matchesTypePattern('com.tms.*.delivered', 'com.tms.shipment.delivered')).toBe(true);
+    expect(matchesTypePattern('com.tms.*', 'com.tms.shipment.delivered')).toBe(false);
+    expect(matchesTypePattern('com.tms.shipment.*', 'com.tms.shipment')).toBe(false);
+  });
+
+  it('matches any number of segments with **', () => {
+    expect(matchesTypePattern('com.tms.**', 'com.tms.shipment.delivered')).toBe(true);
+    expect(matchesTypePattern('com.tms.**', 'com.tms')).toBe(true);
+    expect(matchesTypePattern('**', 'com.tms.shipment.delivered')).toBe(true);
+    expect(matchesTypePattern('com.**.delivered', 'com.tms.shipment.delivered')).toBe(true);
+    expect(matchesTypePattern('com.**.delivered', 'com.delivered')).toBe(true);
+    expect(matchesTypePattern('com.**.delivered', 'com.tms.shipment.created')).toBe(false);
+    expect(matchesTypePattern('org.**', 'com.tms.shipment.delivered')).toBe(false);
+  });
+
+  it('only matches whole segments', () => {
+    expect(matchesTypePattern('com.tms.ship*', 'com.tms.shipment')).toBe(false);
+    expect(matchesTypePattern('com.tms', 'com.tms.shipment')).toBe(false);
+  });
+});
+
+describe('matchesSubject', () => {
+  it('matches everything without a pattern', () => {
+    expect(matchesSubject(null, undefined)).toBe(true);
+    expect(matchesSubject(undefined, 'shipment/shp-1')).toBe(true);
+  });
+
+  it('matches globs where * matches anything', () => {
+    expect(matchesSubject('shipment/*', 'shipment/shp-1')).toBe(true);
+    expect(matchesSubject('shipment/*', 'shipment/shp-1/stops/2')).toBe(true);
+    expect(matchesSubject('*/shp-1', 'shipment/shp-1')).toBe(true);
+    expect(matchesSubject('order/*', 'shipment/shp-1')).toBe(false);
+  });
+
+  it('treats other characters literally', () => {
+    expect(matchesSubject('shipment.shp-1', 'shipment/shp-1')).toBe(false);
+    expect(matchesSubject('shipment/(shp)+', 'shipment/(shp)+')).toBe(true);
+  });
+
+  it('does not match events without a subject', () => {
+    expect(matchesSubject('*', undefined)).toBe(false);
+  });
+});
+
+describe('matchesEventFilter', () => {
+  it('matches exact, prefix and suffix attributes', () => {
+    expect(matchesEventFilter({ exact: { type: 'com.tms.shipment.delivered', 'data.status': 'DELIVERED' } }, event)).toBe(true);
+    expect(matchesEventFilter({ exact: { type: 'com.tms.shipment.delivered', 'data.status': 'CREATED' } }, event)).toBe(false);
+    expect(matchesEventFilter({ exact: { 'data.pallets': '12' } }, event)).toBe(true);
+    expect(matchesEventFilter({ prefix: { type: 'com.tms.shipment.' } }, event)).toBe(true);
+    expect(matchesEventFilter({ suffix: { subject: '/shp-1' } }, event)).toBe(true);
+    expect(matchesEventFilter({ suffix: { subject: '/shp-2' } }, event)).toBe(false);
+  });
+
+  it('does not match missing attributes', () => {
+    expect(matchesEventFilter({ prefix: { dataschema: '' } }, event)).toBe(false);
+    expect(matchesEventFilter({ exact: { 'data.carrier.name': 'ACME' } }, event)).toBe(false);
+    expect(matchesEventFilter({ prefix: { 'data.__proto__': '' } }, event)).toBe(false);
+  });
+
+  it('combines filters with all, any and not', () => {
+    const delivered: EventFilter = { exact: { 'data.status': 'DELIVERED' } };
+    const order: EventFilter = { prefix: { type: 'com.tms.order.' } };
+
+    expect(matchesEventFilter({ all: [delivered, { not: order }] }, event)).toBe(true);
+    expect(matchesEventFilter({ all: [delivered, order] }, event)).toBe(false);
+    expect(matchesEventFilter({ any: [order, delivered] }, event)).toBe(true);
+    expect(matchesEventFilter({ not: delivered }, event)).toBe(false);
+  });
+
+  it('evaluates SQL filters', () => {
+    expect(matchesEventFilter({ sql: "type LIKE 'com.tms.shipment.%' AND data.pallets >= 12" }, event)).toBe(true);
+    expect(matchesEventFilter({ sql: 'data.pallets > 12' }, event)).toBe(false);
+  });
+
+  it('requires every filter of a list to match', () => {
+    expect(matchesEventFilters(undefined, event)).toBe(true);
+    expect(matchesEventFilters([{ prefix: { type: 'com.tms.' } }, { sql: 'EXISTS subject' }], event)).toBe(true);
+    expect(matchesEventFilters([{ prefix: { type: 'com.tms.' } }, { sql: 'EXISTS dataschema' }], event)).toBe(false);
+  });
+});
+
+describe('validateEventFilter', () => {
+  it('accepts nested filters', () => {
+    expect(() =>
+      validateEventFilter({ all: [{ exact: { type: 'a' } }, { not: { any: [{ sql: 'EXISTS subject' }] } }] }),
+    ).not.toThrow();
+  });
+
+  it.each([
+    [{}, 'Event filter must have exactly one of'],
+    [{ exact: { type: 'a' }, prefix: { type: 'b' } }, 'Event filter must have exactly one of'],
+    [{ regex: 'a.*' }, 'Event filter must have exactly one of'],
+    [{ exact: {} }, "Event filter 'exact' needs at least one attribute"],
+    [{ any: [] }, "Event filter 'any' needs at least one nested filter"],
+    [{ not: { all: [{ suffix: {} }] } }, "Event filter 'suffix' needs at least one attribute"],
+    [{ sql: 'type =' }, 'Unexpected end of SQL filter'],
+  ])('rejects %j', (filter, message) => {
+    expect(() => validateEventFilter(filter as EventFilter)).toThrow(message);
+  });
+});
@@ -0,0 +1,133 @@
+// Subscription filters for CloudEvents
+import { CloudEvent } from '../types';
+import { compileSqlFilter, readEventValue, EventPredicate } from './sql-filter';
+
+/**
+ * Filter dialects of the CloudEvents Subscriptions API.
+ *
+ * exact/prefix/suffix map attribute names to the value to compare with; a
+ * name starting with `data.` reads from the event payload. All listed
+ * attributes have to match.
+ */
+export type EventFilter =
+  | { exact: Record<string, string> }
+  | { prefix: Record<string, string> }
+  | { suffix: Record<string, string> }
+  | { all: EventFilter[] }
+  | { any: EventFilter[] }
+  | { not: EventFilter }
+  | { sql: string };
+
+const DIALECTS = ['exact', 'prefix', 'suffix', 'all', 'any', 'not', 'sql'];
+
+// Compiled SQL expressions, filters are registered once and evaluated often
+const sqlCache = new Map<string, EventPredicate>();
+
+/**
+ * Whether an event type matches a pattern. Patterns are exact types or
+ * dot-separated globs where `*` matches one segment and `**` any number of
+ * segments, e.g. `com.tms.tender.*` or `com.tms.**`.
+ */
+export function matchesTypePattern(pattern: string, type: string): boolean {
+  const match = (p: string[], t: string[]): boolean => {
+    if (p.length === 0) return t.length === 0;
+    if (p[0] === '**') {
+      return match(p.slice(1), t) || (t.length > 0 && match(p, t.slice(1)));
+    }
+    return t.length > 0 && (p[0] === '*' || p[0] === t[0]) && match(p.slice(1), t.slice(1));
+  };
+
+  return match(pattern.split('.'), type.split('.'));
+}
+
+/**
+ * Whether an event subject matches a subject glob (`*` matches anything)
+ */
+export function matchesSubject(pattern: string | null | undefined, subject?: string): boolean {
+  if (!pattern) return true;
+  if (subject === undefined) return false;
+
+  const regex = new RegExp(
+    `^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`,
+  );
+  return regex.test(subject);
+}
+
+/**
+ * Check a filter's structure and SQL syntax, throwing on the first problem
+ */
+export function validateEventFilter(filter: EventFilter): void {
+  const keys = filter && typeof filter === 'object' ? Object.keys(filter) : [];
+  if (keys.length !== 1 || !DIALECTS.includes(keys[0])) {
+    throw new Error(`Event filter must have exactly one of: ${DIALECTS.join(', ')}`);
+  }
+
+  if ('exact' in filter || 'prefix' in filter || 'suffix' in filter) {
+    const values = Object.values(filter)[0];
+    if (!values || typeof values !== 'object' || Object.keys(values).length === 0) {
+      throw new Error(`Event filter '${keys[0]}' needs at least one attribute`);
+    }
+  } else if ('all' in filter || 'any' in filter) {
+    const filters = 'all' in filter ? filter.all : filter.any;
+    if (!Array.isArray(filters) || filters.length === 0) {
+      throw new Error(`Event filter '${keys[0]}' needs at least one nested filter`);
+    }
+    filters.forEach(validateEventFilter);
+  } else if ('not' in filter) {
+    validateEventFilter(filter.not);
+  } else {
+    compileSql(filter.sql);
+  }
+}
+
+/**
+ * Evaluate a filter against an event
+ */
+export function matchesEventFilter(filter: EventFilter, event: CloudEvent): boolean {
+  if ('exact' in filter) {
+    return matchAttributes(filter.exact, event, (value, expected) => value === expected);
+  }
+  if ('prefix' in filter) {
+    return matchAttributes(filter.prefix, event, (value, expected) => value.startsWith(expected));
+  }
+  if ('suffix' in filter) {
+    return matchAttributes(filter.suffix, event, (value, expected) => value.endsWith(expected));
+  }
+  if ('all' in filter) {
+    return filter.all.every(f => matchesEventFilter(f, event));
+  }
+  if ('any' in filter) {
+    return filter.any.some(f => matchesEventFilter(f, event));
+  }
+  if ('not' in filter) {
+    return !matchesEventFilter(filter.not, event);
+  }
+  return compileSql(filter.sql)(event);
+}
+
+/**
+ * A list of filters matches when every filter does, as in a subscription
+ */
+export function matchesEventFilters(filters: EventFilter[] | undefined, event: CloudEvent): boolean {
+  return !filters || filters.every(filter => matchesEventFilter(filter, event));
+}
+
+function matchAttributes(
+  attributes: Record<string, any>,
+  event: CloudEvent,
+  test: (value: string, expected: string) => boolean,
+): boolean {
+  return Object.entries(attributes).every(([name, expected]) => {
+    const value = readEventValue(event, name);
+    return value !== undefined && value !== null && test(String(value), String(expected));
+  });
+}
+
+function compileSql(expression: string): EventPredicate {
+  let predicate = sqlCache.get(expression);
+  if (!predicate) {
+    predicate = compileSqlFilter(expression);
+    sqlCache.set(expression, predicate);
+  }
+  return predicate;
+}
@@ -1,5 +1,23 @@
 // CloudEvents definitions for TMS domain events
+import { z } from 'zod';
 import { CloudEvent } from '../types';
+import {
+  OrderEventDataSchema,
+  ShipmentEventDataSchema,
+  StageEventDataSchema,
+  TenderEventDataSchema,
+  OfferEventDataSchema,
+  SettlementEventDataSchema,
+  PartyEventDataSchema,
+  RelationEventDataSchema,
+} from './data-schemas';
+import { EventDataSchema, EventSchemaRegistry } from './schema-registry';
+
+export * from './data-schemas';
+export * from './schema-registry';
+export * from './filters';
+export { compileSqlFilter, readEventValue } from './sql-filter';
+export type { EventPredicate } from './sql-filter';
 
 // Event type constants
 export const EventTypes = {
@@ -54,83 +72,72 @@ export const EventTypes = {
   RELATION_TERMINATED: 'com.tms.relation.terminated'
 } as const;
 
-// Event data types
-export interface OrderEventData {
-  orderId: string;
-  orderNumber: string;
-  shipperId: string;
-  consigneeId: string;
-  status: string;
-}
+export type EventType = typeof EventTypes[keyof typeof EventTypes];
 
-export interface ShipmentEventData {
-  shipmentId: string;
-  shipmentNumber: string;
-  orderId: string;
-  status: string;
-  carrierId?: string;
-  driverId?: string;
-}
+// Event data types, derived from the schemas in ./data-schemas
+export type OrderEventData = z.infer<typeof OrderEventDataSchema>;
+export type ShipmentEventData = z.infer<typeof ShipmentEventDataSchema>;
+export type StageEventData = z.infer<typeof StageEventDataSchema>;
+export type TenderEventData = z.infer<typeof TenderEventDataSchema>;
+export type OfferEventData = z.infer<typeof OfferEventDataSchema>;
+export type SettlementEventData = z.infer<typeof SettlementEventDataSchema>;
+export type PartyEventData = z.infer<typeof PartyEventDataSchema>;
+export type RelationEventData = z.infer<typeof RelationEventDataSchema>;
 
-export interface StageEventData {
-  stageId: string;
-  shipmentId: string;
-  stageType: string;
-  sequence: number;
-  status: string;
-  blockedBy?: string[];
-}
+// Data schema of every core event type
+export const CoreEventSchemas: Record<EventType, EventDataSchema> = {
+  [EventTypes.ORDER_CREATED]: OrderEventDataSchema,
+  [EventTypes.ORDER_UPDATED]: OrderEventDataSchema,
+  [EventTypes.ORDER_CONFIRMED]: OrderEventDataSchema,
+  [EventTypes.ORDER_CANCELLED]: OrderEventDataSchema,
 
-export interface TenderEventData {
-  tenderId: string;
-  tenderNumber: string;
-  orderId: string;
-  shipmentId?: string;
-  status: string;
-  mode: string;
-  tier: number;
-  parentTenderId?: string;
-}
+  [EventTypes.SHIPMENT_CREATED]: ShipmentEventDataSchema,
+  [EventTypes.SHIPMENT_DISPATCHED]: ShipmentEventDataSchema,
+  [EventTypes.SHIPMENT_DELIVERED]: ShipmentEventDataSchema,
+  [EventTypes.SHIPMENT_CANCELLED]: ShipmentEventDataSchema,
 
-export interface OfferEventData {
-  offerId: string;
-  tenderId: string;
-  carrierId: string;
-  price: {
-    amount: number;
-    currency: string;
-  };
-  status: string;
-}
+  [EventTypes.STAGE_STARTED]: StageEventDataSchema,
+  [EventTypes.STAGE_COMPLETED]: StageEventDataSchema,
+  [EventTypes.STAGE_FAILED]: StageEventDataSchema,
+  [EventTypes.STAGE_SKIPPED]: StageEventDataSchema,
 
-export interface SettlementEventData {
-  settlementId: string;
-  settlementNumber: string;
-  chainId: string;
-  shipmentId: string;
-  status: string;
-  totalAmount: {
-    amount: number;
-    currency: string;
-  };
-  linkCount: number;
-}
+  [EventTypes.TENDER_CREATED]: TenderEventDataSchema,
+  [EventTypes.TENDER_UPDATED]: TenderEventDataSchema,
+  [EventTypes.TENDER_OPENED]: TenderEventDataSchema,
+  [EventTypes.TENDER_CLOSED]: TenderEventDataSchema,
+  [EventTypes.TENDER_AWARDED]: TenderEventDataSchema,
+  [EventTypes.TENDER_CANCELLED]: TenderEventDataSchema,
+  [EventTypes.TENDER_CASCADED]: TenderEventDataSchema,
 
-export interface PartyEventData {
-  partyId: string;
-  partyType: string;
-  name: string;
-  code: string;
-  active: boolean;
-}
+  [EventTypes.OFFER_SUBMITTED]: OfferEventDataSchema,
+  [EventTypes.OFFER_ACCEPTED]: OfferEventDataSchema,
+  [EventTypes.OFFER_REJECTED]: OfferEventDataSchema,
+  [EventTypes.OFFER_WITHDRAWN]: OfferEventDataSchema,
+
+  [EventTypes.SETTLEMENT_INITIATED]: SettlementEventDataSchema,
+  [EventTypes.SETTLEMENT_PROCESSING]: SettlementEventDataSchema,
+  [EventTypes.SETTLEMENT_COMPLETED]: SettlementEventDataSchema,
+  [EventTypes.SETTLEMENT_FAILED]: SettlementEventDataSchema,
+
+  [EventTypes.PARTY_CREATED]: PartyEventDataSchema,
+  [EventTypes.PARTY_UPDATED]: PartyEventDataSchema,
+  [EventTypes.PARTY_ACTIVATED]: PartyEventDataSchema,
+  [EventTypes.PARTY_DEACTIVATED]: PartyEventDataSchema,
+
+  [EventTypes.RELATION_ESTABLISHED]: RelationEventDataSchema,
+  [EventTypes.RELATION_UPDATED]: RelationEventDataSchema,
+  [EventTypes.RELATION_TERMINATED]: RelationEventDataSchema
+};
 
-export interface RelationEventData {
-  relationId: string;
-  fromPartyId: string;
-  toPartyId: string;
-  relationType: string;
-  status: string;
-  tier: number;
+/**
+ * Registry preloaded with version 1 of every core event schema
+ */
+export function createEventSchemaRegistry(): EventSchemaRegistry {
+  const registry = new EventSchemaRegistry();
+  for (const [type, schema] of Object.entries(CoreEventSchemas)) {
+    registry.register(type, schema);
+  }
+  return registry;
 }
 
 // Helper function to create CloudEvents
@@ -0,0 +1,159 @@
+// Versioned registry of event data schemas
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ValidationResult, validateWithZod } from '../validation';
+
+export type EventDataSchema = z.ZodTypeAny;
+
+// Validates without changing event data, unlike the shared instance
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+
+/**
+ * Event data schema from a JSON Schema, e.g. one declared in a plugin
+ * manifest. Throws if the JSON Schema is invalid.
+ */
+export function eventDataSchemaFromJson(jsonSchema: Record<string, any>): EventDataSchema {
+  const { $schema, $id, ...schema } = jsonSchema;
+  const validate = ajv.compile(schema);
+
+  return z.unknown().superRefine((data, ctx) => {
+    if (validate(data)) return;
+    for (const error of validate.errors || []) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: error.instancePath.split('/').slice(1),
+        message: error.message || 'Validation failed'
+      });
+    }
+  });
+}
+
+export interface EventSchemaEntry {
+  type: string;
+  version: number;
+  schema: EventDataSchema;
+  // Plugin id for schemas registered by plugins
+  owner?: string;
+  // JSON Schema of a schema defined elsewhere, e.g. in a plugin worker thread
+  jsonSchema?: Record<string, any>;
+}
+
+export interface RegisterEventSchemaOptions {
+  version?: number;
+  owner?: string;
+  jsonSchema?: Record<string, any>;
+}
+
+/**
+ * Maps event types to versioned data schemas.
+ *
+ * A type can have several versions; the highest one is used for new events
+ * unless an event names a version through its `dataschema`.
+ */
+export class EventSchemaRegistry {
+  private readonly schemas = new Map<string, Map<number, EventSchemaEntry>>();
+
+  /**
+   * Register a schema, version 1 unless given. A registered version can only
+   * be replaced by its owner.
+   */
+  register(type: string, schema: EventDataSchema, options: RegisterEventSchemaOptions = {}): EventSchemaEntry {
+    const version = options.version ?? 1;
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Schema version for ${type} must be a positive integer`);
+    }
+
+    const versions = this.schemas.get(type) || new Map<number, EventSchemaEntry>();
+    const existing = versions.get(version);
+    if (existing && existing.owner !== options.owner) {
+      throw new Error(
+        `Schema ${type} v${version} is already registered${existing.owner ? ` by ${existing.owner}` : ''}`
+      );
+    }
+
+    const entry: EventSchemaEntry = { type, version, schema, owner: options.owner, jsonSchema: options.jsonSchema };
+    versions.set(version, entry);
+    this.schemas.set(type, versions);
+    return entry;
+  }
+
+  /**
+   * Remove all schemas registered by an owner
+   */
+  unregisterOwner(owner: string): void {
+    for (const [type, versions] of this.schemas) {
+      for (const [version, entry] of versions) {
+        if (entry.owner === owner) versions.delete(version);
+      }
+      if (versions.size === 0) this.schemas.delete(type);
+    }
+  }
+
+  /**
+   * Get a schema version, or the latest version when omitted
+   */
+  get(type: string, version?: number): EventSchemaEntry | undefined {
+    const versions = this.schemas.get(type);
+    if (!versions) return undefined;
+    if (version !== undefined) return versions.get(version);
+    return versions.get(Math.max(...versions.keys()));
+  }
+
+  list(): EventSchemaEntry[] {
+    return Array.from(this.schemas.values())
+      .flatMap(versions => Array.from(versions.values()))
+      .sort((a, b) => a.type.localeCompare(b.type) || a.version - b.version);
+  }
+
+  /**
+   * Validate event data; types without a schema are always valid
+   */
+  validate(type: string, data: unknown, version?: number): ValidationResult {
+    const entry = this.get(type, version);
+    if (!entry) {
+      return version === undefined
+        ? { valid: true }
+        : { valid: false, errors: [{ field: 'dataschema', message: `Unknown schema ${type} v${version}` }] };
+    }
+    return validateWithZod(entry.schema, data);
+  }
+}
+
+/**
+ * URI of a schema version, as used for the CloudEvents `dataschema` attribute
+ */
+export function eventSchemaUri(baseUri: string, type: string, version: number): string {
+  return `${baseUri.replace(/\/+$/, '')}/${type}/v${version}`;
+}
+
+/**
+ * Parse a `dataschema` URI issued under the base URI
+ */
+export function parseEventSchemaUri(
+  baseUri: string,
+  uri: string
+): { type: string; version: number } | undefined {
+  const prefix = `${baseUri.replace(/\/+$/, '')}/`;
+  if (!uri.startsWith(prefix)) return undefined;
+
+  const match = /^([^/]+)\/v(\d+)$/.exec(uri.slice(prefix.length));
+  return match ? { type: match[1], version: parseInt(match[2], 10) } : undefined;
+}
+
+/**
+ * JSON Schema (draft 7) for an event data schema
+ */
+export function eventSchemaToJsonSchema(entry: EventSchemaEntry, id?: string): Record<string, any> {
+  // Loosely typed call, the generic signature overwhelms the type checker
+  const convert = zodToJsonSchema as (schema: unknown, options: object) => Record<string, any>;
+  const { $schema, $id, title, ...schema } = entry.jsonSchema ?? convert(entry.schema, { target: 'jsonSchema7' });
+  return {
+    $schema: $schema || 'http://json-schema.org/draft-07/schema#',
+    ...(id && { $id: id }),
+    title: `${entry.type} v${entry.version}`,
+    ...schema
+  };
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { CloudEvent } from '../types';
+import { compileSqlFilter, readEventValue } from './sql-filter';
+
+const event: CloudEvent = {
+  specversion: '1.0',
+  id: 'evt-1',
+  source: 'tms.kernel',
+  type: 'com.tms.shipment.delivered',
+  subject: 'shipment/shp-1',
+  time: '2024-03-10T08:00:00.000Z',
+  data: {
+    shipmentId: 'shp-1',
+    status: 'DELIVERED',
+    pallets: 12,
+    weight: '900',
+    reference: '100%_done',
+    hazmat: false,
+    carrier: { id: 'car-7', tier: 1 },
+    note: null,
+  },
+};
+
+const matches = (expression: string, target: CloudEvent = event) => compileSqlFilter(expression)(target);
+
+describe('compileSqlFilter', () => {
+  it('compares attributes and data paths', () => {
+    expect(matches("type = 'com.tms.shipment.delivered'")).toBe(true);
+    expect(matches("data.status = 'DELIVERED' AND data.carrier.id = 'car-7'")).toBe(true);
+    expect(matches("source <> 'tms.kernel'")).toBe(false);
+    expect(matches("source != 'tms.plugins'")).toBe(true);
+  });
+
+  it('treats keywords case-insensitively and accepts doubled quotes in strings', () => {
+    expect(matches("type like 'com.tms.%' and not exists data.missing")).toBe(true);
+    expect(matches("'it''s' = \"it's\"")).toBe(true);
+  });
+
+  describe('precedence', () => {
+    it('binds NOT tighter than AND', () => {
+      // (NOT false) AND false
+      expect(matches('NOT FALSE AND FALSE')).toBe(false);
+      expect(matches('NOT (FALSE AND FALSE)')).toBe(true);
+    });
+
+    it('binds AND tighter than XOR', () => {
+      // TRUE XOR (TRUE AND FALSE)
+      expect(matches('TRUE XOR TRUE AND FALSE')).toBe(true);
+      expect(matches('(TRUE XOR TRUE) AND FALSE')).toBe(false);
+    });
+
+    it('binds XOR tighter than OR', () => {
+      // TRUE OR (TRUE XOR TRUE)
+      expect(matches('TRUE OR TRUE XOR TRUE')).toBe(true);
+      expect(matches('(TRUE OR TRUE) XOR TRUE')).toBe(false);
+    });
+
+    it('binds AND tighter than OR', () => {
+      expect(matches('TRUE OR FALSE AND FALSE')).toBe(true);
+      expect(matches('(TRUE OR FALSE) AND FALSE')).toBe(false);
+    });
+
+    it('evaluates XOR', () => {
+      expect(matches('TRUE XOR FALSE')).toBe(true);
+      expect(matches('FALSE XOR FALSE')).toBe(false);
+    });
+  });
+
+  describe('LIKE', () => {
+    it('matches % and _ wildcards against the whole value', () => {
+      expect(matches("type LIKE 'com.tms.%'")).toBe(true);
+      expect(matches("type LIKE 'com.tms.shipment.deliver_d'")).toBe(true);
+      expect(matches("type LIKE 'com.tms.shipment'")).toBe(false);
+      expect(matches("type NOT LIKE 'com.tms.order.%'")).toBe(true);
+    });
+
+    it('treats escaped wildcards literally', () => {
+      expect(matches("data.reference LIKE '100\\%\\_done'")).toBe(true);
+      expect(matches("data.reference LIKE '100\\%\\_%'")).toBe(true);
+      expect(matches("'100x_done' LIKE '100\\%_done'")).toBe(false);
+      expect(matches("'100%xdone' LIKE '100%\\_done'")).toBe(false);
+    });
+
+    it('treats regular expression characters literally', () => {
+      expect(matches("type LIKE 'com.tms.shipment.delivere.'")).toBe(false);
+      expect(matches("'a+b' LIKE 'a+b'")).toBe(true);
+      expect(matches("'aab' LIKE 'a+b'")).toBe(false);
+    });
+  });
+
+  describe('comparison', () => {
+    it('compares numerically when either side is a number', () => {
+      expect(matches('data.pallets > 9')).toBe(true);
+      expect(matches('data.weight > 100')).toBe(true);
+      expect(matches('data.weight = 900.0')).toBe(true);
+      expect(matches("data.pallets = '12'")).toBe(true);
+    });
+
+    it('compares as strings otherwise', () => {
+      expect(matches("data.weight > '100'")).toBe(true);
+      expect(matches("data.weight < '1000'")).toBe(false);
+      expect(matches("'b' > 'a'")).toBe(true);
+    });
+
+    it('is false for values that are not numbers', () => {
+      expect(matches('data.status > 1')).toBe(false);
+      expect(matches('data.status <> 1')).toBe(false);
+    });
+
+    it('compares booleans', () => {
+      expect(matches('data.hazmat = FALSE')).toBe(true);
+      expect(matches("data.hazmat = 'false'")).toBe(true);
+    });
+
+    it('matches IN lists with the same rules', () => {
+      expect(matches("source IN ('tms.kernel', 'tms.plugins')")).toBe(true);
+      expect(matches('data.pallets IN (10, 11, 12)')).toBe(true);
+      expect(matches("data.status NOT IN ('CANCELLED', 'DELIVERED')")).toBe(false);
+    });
+  });
+
+  describe('missing attributes', () => {
+    it('makes comparisons, LIKE and IN false', () => {
+      expect(matches("data.missing = 'x'")).toBe(false);
+      expect(matches("data.missing <> 'x'")).toBe(false);
+      expect(matches("data.missing NOT LIKE 'x%'")).toBe(false);
+      expect(matches("data.missing NOT IN ('x')")).toBe(false);
+      expect(matches("data.note = 'x'")).toBe(false);
+      expect(matches("dataschema = 'x'")).toBe(false);
+    });
+
+    it('makes NOT of such a comparison true', () => {
+      expect(matches("NOT data.missing = 'x'")).toBe(true);
+    });
+
+    it('is reported by EXISTS', () => {
+      expect(matches('EXISTS subject')).toBe(true);
+      expect(matches('EXISTS dataschema')).toBe(false);
+      expect(matches('EXISTS data.carrier.tier')).toBe(true);
+      expect(matches('EXISTS data.carrier.tier.value')).toBe(false);
+      expect(matches('EXISTS subject', { ...event, subject: undefined })).toBe(false);
+    });
+
+    it('does not read inherited properties', () => {
+      expect(matches('EXISTS toString')).toBe(false);
+      expect(matches('EXISTS data.hasOwnProperty')).toBe(false);
+    });
+  });
+
+  it.each(['__proto__', 'prototype', 'constructor'])('does not read %s paths', segment => {
+    expect(readEventValue(event, `data.${segment}`)).toBeUndefined();
+    expect(readEventValue(event, `data.carrier.${segment}.name`)).toBeUndefined();
+    expect(matches(`EXISTS data.${segment}`)).toBe(false);
+    expect(matches(`data.${segment} = data.${segment}`)).toBe(false);
+  });
+
+  describe('syntax errors', () => {
+    it.each([
+      ["type = 'open", 'Unterminated string literal'],
+      ['type == 1', "Unexpected token '='"],
+      ['type = ', 'Unexpected end of SQL filter'],
+      ['type ; 1', "Unexpected character ';'"],
+      ["(type = 'a'", "Expected ')'"],
+      ['type LIKE 5', 'LIKE needs a string pattern'],
+      ['type NOT = 1', 'Expected LIKE or IN after NOT'],
+      ["type IN 'a'", "Expected '('"],
+      ['EXISTS 1', 'EXISTS needs an attribute name'],
+      ["type = 'a' subject", "Unexpected token 'subject'"],
+    ])('rejects %s', (expression, message) => {
+      expect(() => compileSqlFilter(expression)).toThrow(message);
+    });
+
+    it('rejects expressions longer than 2000 characters', () => {
+      expect(() => compileSqlFilter(`type = '${'x'.repeat(2000)}'`)).toThrow('SQL filter exceeds 2000 characters');
+    });
+  });
+});
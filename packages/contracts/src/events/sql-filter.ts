@@ -0,0 +1,359 @@
+// SQL-like filter expressions over CloudEvent attributes and data
+import { CloudEvent } from '../types';
+
+/**
+ * A subset of CloudEvents SQL (CESQL) for subscription filters:
+ *
+ *   type LIKE 'com.tms.shipment.%' AND data.status = 'DELIVERED'
+ *   NOT EXISTS subject OR source IN ('tms.kernel', 'tms.plugins')
+ *
+ * Supported: string, number and boolean literals, attribute names and
+ * `data.` paths, = != <> < <= > >=, [NOT] LIKE with % and _, [NOT] IN (...),
+ * EXISTS, AND, OR, XOR, NOT and parentheses. Keywords are case-insensitive.
+ * A comparison involving a missing attribute is false.
+ */
+
+export type EventPredicate = (event: CloudEvent) => boolean;
+
+type Token =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'word'; value: string }
+  | { type: 'symbol'; value: string };
+
+type Node =
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'attribute'; name: string }
+  | { kind: 'exists'; name: string }
+  | { kind: 'not'; argument: Node }
+  | { kind: 'logical'; operator: 'AND' | 'OR' | 'XOR'; left: Node; right: Node }
+  | { kind: 'compare'; operator: string; left: Node; right: Node }
+  | { kind: 'like'; negated: boolean; value: Node; pattern: RegExp }
+  | { kind: 'in'; negated: boolean; value: Node; list: Node[] };
+
+const SYMBOLS = ['<>', '!=', '<=', '>=', '=', '<', '>', '(', ')', ','];
+const FORBIDDEN_PATH_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+const MAX_EXPRESSION_LENGTH = 2000;
+
+/**
+ * Parse an expression into a predicate, throwing on syntax errors
+ */
+export function compileSqlFilter(expression: string): EventPredicate {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`SQL filter exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const node = new Parser(tokenize(expression)).parse();
+  return (event) => evaluate(node, event) === true;
+}
+
+/**
+ * Read an attribute, or a `data.` path into the event payload
+ */
+export function readEventValue(event: CloudEvent, name: string): unknown {
+  const [head, ...path] = name.split('.');
+  let value: any = Object.prototype.hasOwnProperty.call(event, head)
+    ? (event as any)[head]
+    : undefined;
+
+  for (const segment of path) {
+    if (FORBIDDEN_PATH_SEGMENTS.has(segment) || value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = Object.prototype.hasOwnProperty.call(value, segment) ? value[segment] : undefined;
+  }
+
+  return value;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= input.length) throw new Error('Unterminated string literal in SQL filter');
+        // A doubled quote is an escaped quote
+        if (input[i] === char) {
+          if (input[i + 1] === char) {
+            value += char;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += input[i++];
+      }
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(input.slice(i))!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*/.exec(input.slice(i))!;
+      tokens.push({ type: 'word', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(s => input.startsWith(s, i));
+    if (!symbol) {
+      throw new Error(`Unexpected character '${char}' in SQL filter at position ${i}`);
+    }
+    tokens.push({ type: 'symbol', value: symbol });
+    i += symbol.length;
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected token '${this.tokens[this.position].value}' in SQL filter`);
+    }
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseXor();
+    while (this.matchKeyword('OR')) {
+      left = { kind: 'logical', operator: 'OR', left, right: this.parseXor() };
+    }
+    return left;
+  }
+
+  private parseXor(): Node {
+    let left = this.parseAnd();
+    while (this.matchKeyword('XOR')) {
+      left = { kind: 'logical', operator: 'XOR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    while (this.matchKeyword('AND')) {
+      left = { kind: 'logical', operator: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Node {
+    if (this.matchKeyword('NOT')) {
+      return { kind: 'not', argument: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parsePrimary();
+
+    const token = this.peek();
+    if (token?.type === 'symbol' && ['=', '!=', '<>', '<', '<=', '>', '>='].includes(token.value)) {
+      this.position++;
+      return { kind: 'compare', operator: token.value, left, right: this.parsePrimary() };
+    }
+
+    const negated = this.matchKeyword('NOT');
+    if (this.matchKeyword('LIKE')) {
+      const pattern = this.next();
+      if (pattern?.type !== 'string') {
+        throw new Error('LIKE needs a string pattern in SQL filter');
+      }
+      return { kind: 'like', negated, value: left, pattern: likeToRegExp(pattern.value) };
+    }
+    if (this.matchKeyword('IN')) {
+      this.expectSymbol('(');
+      const list: Node[] = [];
+      do {
+        list.push(this.parsePrimary());
+      } while (this.matchSymbol(','));
+      this.expectSymbol(')');
+      return { kind: 'in', negated, value: left, list };
+    }
+    if (negated) {
+      throw new Error('Expected LIKE or IN after NOT in SQL filter');
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    if (!token) {
+      throw new Error('Unexpected end of SQL filter');
+    }
+
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return { kind: 'literal', value: token.value };
+
+      case 'symbol':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectSymbol(')');
+          return node;
+        }
+        throw new Error(`Unexpected token '${token.value}' in SQL filter`);
+
+      case 'word': {
+        const word = token.value.toUpperCase();
+        if (word === 'TRUE') return { kind: 'literal', value: true };
+        if (word === 'FALSE') return { kind: 'literal', value: false };
+        if (word === 'EXISTS') {
+          const name = this.next();
+          if (name?.type !== 'word') {
+            throw new Error('EXISTS needs an attribute name in SQL filter');
+          }
+          return { kind: 'exists', name: name.value };
+        }
+        return { kind: 'attribute', name: token.value };
+      }
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'word' && token.value.toUpperCase() === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'symbol' && token.value === symbol) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.matchSymbol(symbol)) {
+      throw new Error(`Expected '${symbol}' in SQL filter`);
+    }
+  }
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function evaluate(node: Node, event: CloudEvent): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'attribute':
+      return readEventValue(event, node.name);
+
+    case 'exists':
+      return readEventValue(event, node.name) !== undefined;
+
+    case 'not':
+      return evaluate(node.argument, event) !== true;
+
+    case 'logical': {
+      const left = evaluate(node.left, event) === true;
+      if (node.operator === 'AND') return left && evaluate(node.right, event) === true;
+      if (node.operator === 'OR') return left || evaluate(node.right, event) === true;
+      return left !== (evaluate(node.right, event) === true);
+    }
+
+    case 'compare':
+      return compare(node.operator, evaluate(node.left, event), evaluate(node.right, event));
+
+    case 'like': {
+      const value = evaluate(node.value, event);
+      if (value === undefined || value === null) return false;
+      return node.pattern.test(String(value)) !== node.negated;
+    }
+
+    case 'in': {
+      const value = evaluate(node.value, event);
+      if (value === undefined || value === null) return false;
+      const found = node.list.some(item => compare('=', value, evaluate(item, event)));
+      return found !== node.negated;
+    }
+  }
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  if (left === undefined || left === null || right === undefined || right === null) {
+    return false;
+  }
+
+  // Numbers compare numerically, everything else as strings
+  let a: string | number | boolean = left as any;
+  let b: string | number | boolean = right as any;
+  if (typeof a === 'number' || typeof b === 'number') {
+    a = Number(a);
+    b = Number(b);
+    if (Number.isNaN(a) || Number.isNaN(b)) return false;
+  } else if (typeof a !== 'boolean' || typeof b !== 'boolean') {
+    a = String(a);
+    b = String(b);
+  }
+
+  switch (operator) {
+    case '=': return a === b;
+    case '!=':
+    case '<>': return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return false;
+  }
+}
@@ -163,6 +163,11 @@ export interface CloudEvent<T = any> {
   subject?: string;
   time: string;
   data?: T;
+
+  // Tracing extension attributes
+  traceparent?: string; // W3C Trace Context of the producer
+  correlationid?: string; // Shared by everything caused by one request
+  causationid?: string; // Id of the event or request that caused this one
 }
 
 // Cascade tender request/response types
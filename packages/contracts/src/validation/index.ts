@@ -1,5 +1,5 @@
 // Validation utilities using both Zod and AJV
-import Ajv from 'ajv';
+import Ajv, { ValidateFunction } from 'ajv';
 import addFormats from 'ajv-formats';
 import { z } from 'zod';
 
@@ -62,6 +62,42 @@ export function validateWithAjv(
   return { valid };
 }
 
+// Fills in defaults and accepts `secret` as an annotation, e.g. for plugin
+// configuration; validated data is changed in place
+const defaultsAjv = new Ajv({ allErrors: true, useDefaults: true, strict: false });
+addFormats(defaultsAjv);
+defaultsAjv.addKeyword({ keyword: 'secret', schemaType: 'boolean' });
+
+const compiledWithDefaults = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Validate data against a JSON Schema, filling in the `default` of missing
+ * properties. Throws if the JSON Schema is invalid.
+ */
+export function validateWithDefaults(
+  schema: object,
+  data: unknown
+): ValidationResult {
+  let validate = compiledWithDefaults.get(schema);
+  if (!validate) {
+    validate = defaultsAjv.compile(schema);
+    compiledWithDefaults.set(schema, validate);
+  }
+
+  if (!validate(data)) {
+    return {
+      valid: false,
+      errors: (validate.errors || []).map(err => ({
+        // Dotted path, empty for the data itself
+        field: err.instancePath.split('/').slice(1).join('.'),
+        message: err.message || 'Validation failed'
+      }))
+    };
+  }
+
+  return { valid: true };
+}
+
 // Custom validation error
 export class ValidationError extends Error {
   constructor(
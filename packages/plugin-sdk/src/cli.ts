@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  PLUGIN_PACKAGE_EXTENSION,
+  collectPluginFiles,
+  createPluginPackage,
+  generateSigningKeyPair
+} from './packaging';
+
+const USAGE = `Usage:
+  tms-plugin keygen <name>
+      Write <name>.key (private, keep it secret) and <name>.pub
+  tms-plugin pack [pluginDir] [--key <file.key>] [--key-id <id>] [--out <file>]
+      Package a built plugin as ${PLUGIN_PACKAGE_EXTENSION}, signed with the key`;
+
+async function keygen(name: string): Promise<void> {
+  const { keyId, publicKey, privateKey } = generateSigningKeyPair();
+  await fs.writeFile(`${name}.key`, privateKey, { mode: 0o600, flag: 'wx' });
+  await fs.writeFile(`${name}.pub`, publicKey, { flag: 'wx' });
+
+  console.log(`Key ${keyId} written to ${name}.key and ${name}.pub`);
+  console.log('Add it to the kernel trust store as:');
+  console.log(JSON.stringify({ keyId, name, publicKey }, null, 2));
+}
+
+async function pack(args: string[]): Promise<void> {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      options[args[i].slice(2)] = args[++i];
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const pluginDir = path.resolve(positional[0] || '.');
+  const files = await collectPluginFiles(pluginDir);
+  const manifest = JSON.parse(files.get('plugin.json')!.toString('utf8'));
+
+  const signingKey = options.key
+    ? { privateKey: await fs.readFile(options.key, 'utf8'), keyId: options['key-id'] }
+    : undefined;
+  const out = options.out || `${manifest.id}-${manifest.version}${PLUGIN_PACKAGE_EXTENSION}`;
+
+  await fs.writeFile(out, createPluginPackage(files, signingKey));
+  console.log(`${out}: ${files.size} files${signingKey ? ', signed' : ', unsigned'}`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'keygen':
+      if (!args[0]) throw new Error(USAGE);
+      return keygen(args[0]);
+    case 'pack':
+      return pack(args);
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+import { validateWithDefaults } from '@tms/contracts';
+import { ConfigProperty, PluginConfigSchema } from './types';
+
+// Replaces secret values in configuration that is read back
+export const REDACTED_SECRET = '********';
+
+export interface ConfigFieldError {
+  // Dotted path, e.g. `reminderEmail.smtpHost`
+  field: string;
+  message: string;
+}
+
+export class PluginConfigError extends Error {
+  constructor(public readonly errors: ConfigFieldError[]) {
+    super(`Invalid configuration: ${errors.map(e => e.field ? `${e.field} ${e.message}` : e.message).join('; ')}`);
+    this.name = 'PluginConfigError';
+  }
+}
+
+type SecretPath = (string | number)[];
+
+/**
+ * Validate a plugin configuration against the manifest's JSON Schema and
+ * fill in defaults. The given configuration is not changed.
+ */
+export function resolveConfig(
+  schema: PluginConfigSchema,
+  config: Record<string, any> = {}
+): Record<string, any> {
+  const resolved = JSON.parse(JSON.stringify(config));
+  const result = validateWithDefaults(schema, resolved);
+  if (!result.valid) {
+    throw new PluginConfigError(result.errors || []);
+  }
+  return resolved;
+}
+
+/**
+ * Replace the secret values of a configuration, e.g. to encrypt them.
+ * Returns a copy; values that are not set are left alone.
+ */
+export function mapSecrets(
+  schema: PluginConfigSchema,
+  config: Record<string, any>,
+  fn: (value: any, path: SecretPath) => any
+): Record<string, any> {
+  const visit = (property: ConfigProperty, value: any, path: SecretPath): any => {
+    if (value === undefined || value === null) return value;
+    if (property.secret) return fn(value, path);
+
+    if (property.properties && isObject(value)) {
+      return visitProperties(property.properties, value, path);
+    }
+    if (property.items && Array.isArray(value)) {
+      return value.map((item, index) => visit(property.items!, item, [...path, index]));
+    }
+    return value;
+  };
+
+  const visitProperties = (
+    properties: Record<string, ConfigProperty>,
+    value: Record<string, any>,
+    path: SecretPath
+  ): Record<string, any> => {
+    const copy = { ...value };
+    for (const [key, property] of Object.entries(properties)) {
+      if (key in copy) {
+        copy[key] = visit(property, copy[key], [...path, key]);
+      }
+    }
+    return copy;
+  };
+
+  return visitProperties(schema.properties || {}, config, []);
+}
+
+/**
+ * Configuration safe to return from the API, with secret values redacted
+ */
+export function redactSecrets(
+  schema: PluginConfigSchema,
+  config: Record<string, any>
+): Record<string, any> {
+  return mapSecrets(schema, config, () => REDACTED_SECRET);
+}
+
+/**
+ * Put back the current secret values where an updated configuration still
+ * holds them redacted, e.g. when a form sends back what it was given
+ */
+export function restoreSecrets(
+  schema: PluginConfigSchema,
+  config: Record<string, any>,
+  current: Record<string, any> = {}
+): Record<string, any> {
+  return mapSecrets(schema, config, (value, path) =>
+    value === REDACTED_SECRET
+      ? path.reduce<any>((parent, key) => parent?.[key], current)
+      : value
+  );
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
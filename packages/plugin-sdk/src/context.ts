@@ -1,12 +1,33 @@
-import { CloudEvent } from '@tms/contracts';
-import { EventEmitter } from 'eventemitter3';
+import {
+  CloudEvent,
+  EventDataSchema,
+  EventFilter,
+  createEventSchemaRegistry,
+  matchesEventFilters,
+  matchesTypePattern,
+  validateEventFilter,
+} from '@tms/contracts';
 import {
   PluginContext,
   EventBus,
   DataStore,
+  DataStoreSetOptions,
+  DataStoreListOptions,
+  DataStorePage,
   ConfigStore,
   Logger,
+  PluginPermissions,
+  EventSchemaOptions,
 } from './types';
+import {
+  PermissionViolation,
+  PluginPermissionError,
+  PluginPermissionKind,
+  canEmit,
+  canSubscribe,
+  canUseService,
+} from './permissions';
+import { ServiceToken, serviceName } from './services';
 
 /**
  * Default implementation of PluginContext
@@ -20,6 +41,8 @@ export class DefaultPluginContext implements PluginContext {
   public readonly logger: Logger;
   
   private services: Map<string, any> = new Map();
+  private permissions?: PluginPermissions;
+  private onViolation?: (violation: PermissionViolation) => void;
   
   constructor(
     pluginId: string,
@@ -30,6 +53,9 @@ export class DefaultPluginContext implements PluginContext {
       configStore?: ConfigStore;
       logger?: Logger;
       services?: Map<string, any>;
+      // Without permissions every service is available
+      permissions?: PluginPermissions;
+      onViolation?: (violation: PermissionViolation) => void;
     } = {}
   ) {
     this.pluginId = pluginId;
@@ -39,14 +65,21 @@ export class DefaultPluginContext implements PluginContext {
     this.configStore = options.configStore || new InMemoryConfigStore();
     this.logger = options.logger || new ConsoleLogger(pluginId);
     this.services = options.services || new Map();
+    this.permissions = options.permissions;
+    this.onViolation = options.onViolation;
   }
   
-  getService(name: string): any {
-    const service = this.services.get(name);
-    if (!service) {
+  getService(service: string | ServiceToken<any>): any {
+    const name = serviceName(service);
+    if (this.permissions && !canUseService(this.permissions, name)) {
+      deny(this.pluginId, 'service', name, `Plugin ${this.pluginId} is not permitted to use service '${name}'`, this.onViolation);
+    }
+    
+    const implementation = this.services.get(name);
+    if (!implementation) {
       throw new Error(`Service '${name}' not found`);
     }
-    return service;
+    return implementation;
   }
 }
 
@@ -54,34 +87,121 @@ export class DefaultPluginContext implements PluginContext {
  * Default EventBus implementation
  */
 export class DefaultEventBus implements EventBus {
-  private emitter = new EventEmitter();
+  private subscribers: Array<{
+    eventType: string;
+    handler: (event: CloudEvent) => Promise<void>;
+    filters?: EventFilter[];
+  }> = [];
+  private schemas = createEventSchemaRegistry();
 
   async emit(event: CloudEvent): Promise<void> {
-    this.emitter.emit(event.type, event);
-    this.emitter.emit('*', event); // Wildcard for all events
+    // Reject data that does not match the registered schema, as the kernel
+    // does in development
+    const result = this.schemas.validate(event.type, event.data);
+    if (!result.valid) {
+      const details = result.errors?.map(e => `${e.field}: ${e.message}`).join(', ');
+      throw new Error(`Event ${event.type} does not match its schema: ${details}`);
+    }
+    
+    // Types are matched like the kernel: `*` is one segment, `**` any number
+    for (const subscriber of [...this.subscribers]) {
+      if (
+        matchesTypePattern(subscriber.eventType, event.type) &&
+        matchesEventFilters(subscriber.filters, event)
+      ) {
+        subscriber.handler(event);
+      }
+    }
   }
   
-  on(eventType: string, handler: (event: CloudEvent) => Promise<void>): void {
-    this.emitter.on(eventType, handler);
+  on(eventType: string, handler: (event: CloudEvent) => Promise<void>, filters?: EventFilter[]): void {
+    filters?.forEach(validateEventFilter);
+    this.subscribers.push({ eventType, handler, filters });
   }
   
   off(eventType: string, handler: (event: CloudEvent) => Promise<void>): void {
-    this.emitter.off(eventType, handler);
+    this.subscribers = this.subscribers.filter(
+      subscriber => subscriber.eventType !== eventType || subscriber.handler !== handler,
+    );
+  }
+  
+  registerSchema(eventType: string, schema: EventDataSchema, options: EventSchemaOptions = {}): void {
+    this.schemas.register(eventType, schema, options);
   }
 }
 
+/**
+ * EventBus wrapper that only lets a plugin emit and subscribe to the event
+ * types its permissions allow
+ */
+export class PermissionedEventBus implements EventBus {
+  constructor(
+    private readonly pluginId: string,
+    private readonly eventBus: EventBus,
+    private readonly permissions: PluginPermissions,
+    private readonly onViolation?: (violation: PermissionViolation) => void
+  ) {}
+  
+  async emit(event: CloudEvent): Promise<void> {
+    if (!canEmit(this.permissions, event.type)) {
+      deny(this.pluginId, 'emit', event.type, `Plugin ${this.pluginId} is not permitted to emit ${event.type}`, this.onViolation);
+    }
+    return this.eventBus.emit(event);
+  }
+  
+  on(eventType: string, handler: (event: CloudEvent) => Promise<void>, filters?: EventFilter[]): void {
+    if (!canSubscribe(this.permissions, eventType)) {
+      deny(this.pluginId, 'subscribe', eventType, `Plugin ${this.pluginId} is not permitted to subscribe to ${eventType}`, this.onViolation);
+    }
+    this.eventBus.on(eventType, handler, filters);
+  }
+  
+  off(eventType: string, handler: (event: CloudEvent) => Promise<void>): void {
+    this.eventBus.off(eventType, handler);
+  }
+  
+  registerSchema(eventType: string, schema: EventDataSchema, options: EventSchemaOptions = {}): void {
+    // Schemas describe what the plugin emits, so they need the same permission
+    if (!canEmit(this.permissions, eventType)) {
+      deny(this.pluginId, 'emit', eventType, `Plugin ${this.pluginId} is not permitted to register a schema for ${eventType}`, this.onViolation);
+    }
+    this.eventBus.registerSchema(eventType, schema, options);
+  }
+}
+
+/**
+ * Report a permission violation and throw it
+ */
+function deny(
+  pluginId: string,
+  permission: PluginPermissionKind,
+  target: string,
+  message: string,
+  onViolation?: (violation: PermissionViolation) => void
+): never {
+  const violation: PermissionViolation = { pluginId, permission, target, message };
+  onViolation?.(violation);
+  throw new PluginPermissionError(violation);
+}
+
 /**
  * In-memory DataStore implementation
+ * Values are kept serialized so reads never share state with the caller,
+ * matching the behaviour of persistent stores
  */
 export class InMemoryDataStore implements DataStore {
-  private store: Map<string, any> = new Map();
+  private store: Map<string, { value: string; expiresAt?: number }> = new Map();
   
   async get(key: string): Promise<any> {
-    return this.store.get(key);
+    const entry = this.getEntry(key);
+    return entry ? JSON.parse(entry.value) : undefined;
   }
   
-  async set(key: string, value: any): Promise<void> {
-    this.store.set(key, value);
+  async set(key: string, value: any, options?: DataStoreSetOptions): Promise<void> {
+    this.store.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: options?.ttlMs !== undefined ? Date.now() + options.ttlMs : undefined,
+    });
   }
   
   async delete(key: string): Promise<void> {
@@ -89,10 +209,63 @@ export class InMemoryDataStore implements DataStore {
   }
   
   async list(prefix?: string): Promise<string[]> {
-    const keys = Array.from(this.store.keys());
+    const keys = Array.from(this.store.keys()).filter(key => this.getEntry(key));
     if (!prefix) return keys;
     return keys.filter(key => key.startsWith(prefix));
   }
+  
+  async listPage(prefix: string = '', options: DataStoreListOptions = {}): Promise<DataStorePage> {
+    const limit = options.limit ?? 100;
+    const keys = (await this.list(prefix))
+      .sort()
+      .filter(key => options.cursor === undefined || key > options.cursor);
+    
+    const page = keys.slice(0, limit);
+    return {
+      keys: page,
+      nextCursor: keys.length > limit ? page[page.length - 1] : undefined,
+    };
+  }
+  
+  async compareAndSet(
+    key: string,
+    expected: any,
+    value: any,
+    options?: DataStoreSetOptions,
+  ): Promise<boolean> {
+    const entry = this.getEntry(key);
+    const current = entry ? entry.value : undefined;
+    const wanted = expected === undefined ? undefined : JSON.stringify(expected);
+    
+    if (current !== wanted) return false;
+    
+    await this.set(key, value, options);
+    return true;
+  }
+  
+  async getMany(keys: string[]): Promise<Record<string, any>> {
+    const result: Record<string, any> = {};
+    for (const key of keys) {
+      const entry = this.getEntry(key);
+      if (entry) result[key] = JSON.parse(entry.value);
+    }
+    return result;
+  }
+  
+  async setMany(entries: Record<string, any>, options?: DataStoreSetOptions): Promise<void> {
+    for (const [key, value] of Object.entries(entries)) {
+      await this.set(key, value, options);
+    }
+  }
+  
+  private getEntry(key: string) {
+    const entry = this.store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
 }
 
 /**
@@ -151,31 +324,55 @@ export class ConsoleLogger implements Logger {
  * Factory to create plugin contexts
  */
 export class PluginContextFactory {
-  private eventBus: EventBus;
-  private services: Map<string, any>;
+  private eventBusFactory: (pluginId: string) => EventBus;
+  private servicesFactory: (pluginId: string, permissions?: PluginPermissions) => Map<string, any>;
   private loggerFactory: (pluginId: string) => Logger;
+  private dataStoreFactory: (pluginId: string) => DataStore;
+  private onViolation?: (violation: PermissionViolation) => void;
   
   constructor(options: {
     eventBus?: EventBus;
+    // Per-plugin event bus, e.g. to track schemas a plugin registers
+    eventBusFactory?: (pluginId: string) => EventBus;
     services?: Map<string, any>;
+    // Per-plugin services, e.g. proxies that enforce the plugin's permissions
+    servicesFactory?: (pluginId: string, permissions?: PluginPermissions) => Map<string, any>;
     loggerFactory?: (pluginId: string) => Logger;
+    dataStoreFactory?: (pluginId: string) => DataStore;
+    // Called before a permission violation is thrown to the plugin
+    onViolation?: (violation: PermissionViolation) => void;
   } = {}) {
-    this.eventBus = options.eventBus || new DefaultEventBus();
-    this.services = options.services || new Map();
+    const eventBus = options.eventBus || new DefaultEventBus();
+    const services = options.services || new Map();
+    this.eventBusFactory = options.eventBusFactory || (() => eventBus);
+    this.servicesFactory = options.servicesFactory || (() => services);
     this.loggerFactory = options.loggerFactory || ((id) => new ConsoleLogger(id));
+    this.dataStoreFactory = options.dataStoreFactory || (() => new InMemoryDataStore());
+    this.onViolation = options.onViolation;
   }
   
+  /**
+   * Create the context of a plugin. With permissions, the plugin only gets
+   * the services and event types they allow.
+   */
   createContext(
     pluginId: string,
     pluginVersion: string,
-    config?: Record<string, any>
+    config?: Record<string, any>,
+    permissions?: PluginPermissions
   ): PluginContext {
+    const eventBus = this.eventBusFactory(pluginId);
+    
     return new DefaultPluginContext(pluginId, pluginVersion, {
-      eventBus: this.eventBus,
-      dataStore: new InMemoryDataStore(), // Each plugin gets its own data store
+      eventBus: permissions
+        ? new PermissionedEventBus(pluginId, eventBus, permissions, this.onViolation)
+        : eventBus,
+      dataStore: this.dataStoreFactory(pluginId), // Each plugin gets its own data store
       configStore: new InMemoryConfigStore(config),
       logger: this.loggerFactory(pluginId),
-      services: this.services
+      services: this.servicesFactory(pluginId, permissions),
+      permissions,
+      onViolation: this.onViolation
     });
   }
 }
@@ -0,0 +1,188 @@
+import * as semver from 'semver';
+import { PluginManifest } from './types';
+import { isBuiltInHook } from './hooks';
+import { isKernelService } from './services';
+
+/**
+ * A dependency of a plugin and whether the installed plugins satisfy it
+ */
+export interface PluginDependencyStatus {
+  id: string;
+  range: string;
+  installedVersion: string | null;
+  satisfied: boolean;
+}
+
+export interface PluginDependencyOrder {
+  // Plugin ids, every plugin after the plugins it depends on
+  order: string[];
+  // Plugins on or behind a dependency cycle, which cannot be ordered
+  cyclic: string[];
+}
+
+/**
+ * Check a plugin's dependencies against the installed plugins
+ */
+export function checkDependencies(
+  manifest: PluginManifest,
+  installed: PluginManifest[]
+): PluginDependencyStatus[] {
+  const versions = new Map(installed.map(m => [m.id, m.version]));
+
+  return Object.entries(manifest.dependencies || {}).map(([id, range]) => {
+    const installedVersion = versions.get(id) ?? null;
+    return {
+      id,
+      range,
+      installedVersion,
+      satisfied: installedVersion !== null && satisfiesRange(installedVersion, range)
+    };
+  });
+}
+
+/**
+ * Whether a plugin version satisfies a dependency range, e.g. `^1.2.0`
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  return semver.satisfies(version, range, { includePrerelease: true });
+}
+
+/**
+ * Whether a string is a valid dependency range
+ */
+export function isValidRange(range: string): boolean {
+  return semver.validRange(range) !== null;
+}
+
+/**
+ * Order plugins so each comes after the plugins it depends on.
+ * Dependencies that are not installed are ignored here; they fail when the
+ * plugin is enabled.
+ */
+export function sortByDependencies(manifests: PluginManifest[]): PluginDependencyOrder {
+  const byId = new Map(manifests.map(m => [m.id, m]));
+  const state = new Map<string, 'visiting' | 'done' | 'cyclic'>();
+  const order: string[] = [];
+
+  const visit = (id: string): boolean => {
+    const current = state.get(id);
+    if (current === 'done') return true;
+    if (current) return false;
+
+    state.set(id, 'visiting');
+    let ok = true;
+    for (const dependency of Object.keys(byId.get(id)!.dependencies || {})) {
+      if (byId.has(dependency) && !visit(dependency)) ok = false;
+    }
+
+    state.set(id, ok ? 'done' : 'cyclic');
+    if (ok) order.push(id);
+    return ok;
+  };
+
+  // Visit in id order so the result does not depend on discovery order
+  for (const id of Array.from(byId.keys()).sort()) {
+    visit(id);
+  }
+
+  return {
+    order,
+    cyclic: Array.from(state.entries())
+      .filter(([, value]) => value === 'cyclic')
+      .map(([id]) => id)
+  };
+}
+
+/**
+ * A hook a plugin handles or executes that is neither built in, nor provided
+ * by the plugin itself or a plugin it depends on
+ */
+export interface UnresolvedHook {
+  hookId: string;
+  // Installed plugins providing the hook, to depend on
+  providers: string[];
+}
+
+/**
+ * Check that the custom hooks a plugin uses come from its dependencies
+ */
+export function findUnresolvedHooks(
+  manifest: PluginManifest,
+  installed: PluginManifest[]
+): UnresolvedHook[] {
+  const used = new Set([
+    ...(manifest.capabilities.hooks || []).map(h => h.hookId),
+    ...(manifest.permissions?.hooks || [])
+  ]);
+  const providersOf = (hookId: string) => installed
+    .filter(m => m.provides?.hooks?.some(h => h.id === hookId))
+    .map(m => m.id);
+
+  return Array.from(used)
+    .filter(hookId => !isBuiltInHook(hookId))
+    .filter(hookId => !manifest.provides?.hooks?.some(h => h.id === hookId))
+    .map(hookId => ({ hookId, providers: providersOf(hookId) }))
+    .filter(({ providers }) => !providers.some(id => manifest.dependencies?.[id] !== undefined));
+}
+
+/**
+ * A plugin service a plugin uses that no plugin it depends on provides in
+ * a matching interface version
+ */
+export interface UnresolvedService {
+  name: string;
+  range: string;
+  // Installed plugins providing the service in a matching version, to depend on
+  providers: string[];
+}
+
+/**
+ * Check that the plugin services a plugin uses come from its dependencies.
+ * Services without a version range in serviceDependencies match any version.
+ */
+export function findUnresolvedServices(
+  manifest: PluginManifest,
+  installed: PluginManifest[]
+): UnresolvedService[] {
+  const used = new Set([
+    ...(manifest.permissions?.services || []),
+    ...Object.keys(manifest.serviceDependencies || {})
+  ]);
+
+  return Array.from(used)
+    .filter(name => !isKernelService(name))
+    .filter(name => !manifest.provides?.services?.some(s => s.name === name))
+    .map(name => {
+      const range = manifest.serviceDependencies?.[name] ?? '*';
+      const providers = installed
+        .filter(m => m.provides?.services?.some(s => s.name === name && satisfiesRange(s.version, range)))
+        .map(m => m.id);
+      return { name, range, providers };
+    })
+    .filter(({ providers }) => !providers.some(id => manifest.dependencies?.[id] !== undefined));
+}
+
+/**
+ * Plugins depending on a plugin, directly or through other plugins,
+ * ordered so dependents come before the plugins they depend on
+ */
+export function findDependents(pluginId: string, manifests: PluginManifest[]): string[] {
+  const dependents: string[] = [];
+  const pending = [pluginId];
+
+  while (pending.length > 0) {
+    const id = pending.shift()!;
+    for (const manifest of manifests) {
+      if (manifest.dependencies?.[id] !== undefined && !dependents.includes(manifest.id) && manifest.id !== pluginId) {
+        dependents.push(manifest.id);
+        pending.push(manifest.id);
+      }
+    }
+  }
+
+  const { order } = sortByDependencies(manifests.filter(m => dependents.includes(m.id)));
+  return [
+    ...order.reverse(),
+    ...dependents.filter(id => !order.includes(id))
+  ];
+}
@@ -0,0 +1,188 @@
+import { HookConfig, HookFailurePolicy, HookMode } from './hooks';
+import { HookContext, HookResult } from './types';
+
+/**
+ * Outcome of calling one handler; failures are thrown errors, timeouts and
+ * calls skipped by an open circuit, not handlers returning `error`
+ */
+export type HookHandlerOutcome =
+  | { ok: true; result: HookResult }
+  | { ok: false; error: string };
+
+export interface HookExecution<H> {
+  config: HookConfig;
+  // Whether a failed handler stops the hook
+  failsClosed: boolean;
+  // Call one handler; must not throw
+  invoke: (handler: H, context: HookContext) => Promise<HookHandlerOutcome>;
+}
+
+/**
+ * Failure policy of a hook without an explicit one: AGGREGATE hooks collect
+ * what they can, all others block on a failed handler
+ */
+export function defaultFailurePolicy(config: HookConfig): HookFailurePolicy {
+  return config.failurePolicy ??
+    (config.mode === HookMode.AGGREGATE ? HookFailurePolicy.FAIL_OPEN : HookFailurePolicy.FAIL_CLOSED);
+}
+
+/**
+ * Run the handlers of a hook, ordered by the caller, according to the hook's
+ * mode. The kernel's HookService and the TestKernel both execute hooks
+ * through this, so plugins see the same semantics in tests.
+ */
+export async function executeHookHandlers<H extends { pluginId: string }>(
+  handlers: H[],
+  context: Omit<HookContext, 'pluginId'>,
+  execution: HookExecution<H>
+): Promise<HookResult> {
+  const { config } = execution;
+  if (handlers.length === 0) {
+    return config.required
+      ? { continue: false, error: `Required hook ${config.id} has no handlers` }
+      : { continue: true, data: context.data };
+  }
+
+  switch (config.mode) {
+    case HookMode.SEQUENTIAL:
+      return executeSequential(handlers, context, execution);
+
+    case HookMode.PARALLEL:
+      return executeParallel(handlers, context, execution);
+
+    case HookMode.WATERFALL:
+      return executeWaterfall(handlers, context, execution);
+
+    case HookMode.AGGREGATE:
+      return executeAggregate(handlers, context, execution);
+
+    default:
+      return { continue: true, data: context.data };
+  }
+}
+
+async function executeSequential<H extends { pluginId: string }>(
+  handlers: H[],
+  context: Omit<HookContext, 'pluginId'>,
+  { config, failsClosed, invoke }: HookExecution<H>
+): Promise<HookResult> {
+  let result: HookResult = { continue: true, data: context.data };
+  let succeeded = 0;
+
+  for (const handler of handlers) {
+    const outcome = await invoke(handler, { ...context, pluginId: handler.pluginId });
+    if (!outcome.ok) {
+      if (failsClosed) {
+        return { continue: false, error: outcome.error };
+      }
+      continue;
+    }
+
+    succeeded++;
+    result = outcome.result;
+    if (!result.continue || result.error) {
+      break;
+    }
+  }
+
+  return checkRequired(config, succeeded) || result;
+}
+
+async function executeParallel<H extends { pluginId: string }>(
+  handlers: H[],
+  context: Omit<HookContext, 'pluginId'>,
+  { config, failsClosed, invoke }: HookExecution<H>
+): Promise<HookResult> {
+  const outcomes = await Promise.all(
+    handlers.map(handler => invoke(handler, { ...context, pluginId: handler.pluginId }))
+  );
+
+  const failure = outcomes.find(o => !o.ok);
+  if (failure && !failure.ok && failsClosed) {
+    return { continue: false, error: failure.error };
+  }
+
+  const results = outcomes.flatMap(o => (o.ok ? [o.result] : []));
+  const requiredFailure = checkRequired(config, results.length);
+  if (requiredFailure) {
+    return requiredFailure;
+  }
+
+  // Check if any handler returned an error
+  const errorResult = results.find(r => r.error);
+  if (errorResult) {
+    return errorResult;
+  }
+
+  // Check if any handler returned continue: false
+  const stopResult = results.find(r => !r.continue);
+  if (stopResult) {
+    return stopResult;
+  }
+
+  return { continue: true, data: context.data };
+}
+
+async function executeWaterfall<H extends { pluginId: string }>(
+  handlers: H[],
+  context: Omit<HookContext, 'pluginId'>,
+  { config, failsClosed, invoke }: HookExecution<H>
+): Promise<HookResult> {
+  let currentData = context.data;
+  let succeeded = 0;
+
+  for (const handler of handlers) {
+    const outcome = await invoke(handler, { ...context, pluginId: handler.pluginId, data: currentData });
+    if (!outcome.ok) {
+      if (failsClosed) {
+        return { continue: false, error: outcome.error };
+      }
+      continue;
+    }
+
+    succeeded++;
+    const { result } = outcome;
+    if (!result.continue || result.error) {
+      return result;
+    }
+
+    if (result.data !== undefined) {
+      currentData = result.data;
+    }
+  }
+
+  return checkRequired(config, succeeded) || { continue: true, data: currentData };
+}
+
+async function executeAggregate<H extends { pluginId: string }>(
+  handlers: H[],
+  context: Omit<HookContext, 'pluginId'>,
+  { config, failsClosed, invoke }: HookExecution<H>
+): Promise<HookResult> {
+  const results: any[] = [];
+  let succeeded = 0;
+
+  for (const handler of handlers) {
+    const outcome = await invoke(handler, { ...context, pluginId: handler.pluginId });
+    if (!outcome.ok) {
+      if (failsClosed) {
+        return { continue: false, error: outcome.error };
+      }
+      continue;
+    }
+
+    succeeded++;
+    if (outcome.result.data !== undefined) {
+      results.push(outcome.result.data);
+    }
+  }
+
+  return checkRequired(config, succeeded) || { continue: true, data: results };
+}
+
+function checkRequired(config: HookConfig, succeeded: number): HookResult | undefined {
+  if (config.required && succeeded === 0) {
+    return { continue: false, error: `Required hook ${config.id} had no successful handler` };
+  }
+  return undefined;
+}
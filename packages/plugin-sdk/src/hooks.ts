@@ -78,14 +78,26 @@ export enum HookMode {
   AGGREGATE = 'AGGREGATE'
 }
 
+/**
+ * What happens when a handler throws, times out or is skipped by its circuit breaker
+ */
+export enum HookFailurePolicy {
+  // Ignore the failed handler and carry on with the others
+  FAIL_OPEN = 'FAIL_OPEN',
+  
+  // Stop and report the failure, blocking the operation
+  FAIL_CLOSED = 'FAIL_CLOSED'
+}
+
 /**
  * Hook configuration
  */
 export interface HookConfig {
-  id: HookType;
+  id: string; // A built-in HookType or a hook declared by a plugin
   mode: HookMode;
-  timeout?: number; // Max execution time in ms
+  timeout?: number; // Max execution time per handler in ms
   required?: boolean; // If true, at least one handler must succeed
+  failurePolicy?: HookFailurePolicy; // Defaults to FAIL_OPEN for AGGREGATE, FAIL_CLOSED otherwise
 }
 
 /**
@@ -146,3 +158,10 @@ export const HookConfigs: Record<HookType, HookConfig> = {
   [Hooks.PLUGIN_DISABLE]: { id: Hooks.PLUGIN_DISABLE, mode: HookMode.SEQUENTIAL },
   [Hooks.PLUGIN_UPGRADE]: { id: Hooks.PLUGIN_UPGRADE, mode: HookMode.SEQUENTIAL },
 };
+
+/**
+ * Whether a hook is one of the kernel's built-in hooks
+ */
+export function isBuiltInHook(hookId: string): hookId is HookType {
+  return Object.prototype.hasOwnProperty.call(HookConfigs, hookId);
+}
@@ -2,5 +2,10 @@
 export * from './types';
 export * from './plugin';
 export * from './hooks';
+export * from './hook-execution';
 export * from './registry';
+export * from './dependencies';
+export * from './permissions';
+export * from './services';
 export * from './context';
+export * from './config';
@@ -0,0 +1,208 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CHECKSUMS_FILE,
+  PluginPackageChecksums,
+  PluginPackageError,
+  SIGNATURE_FILE,
+  TrustedKey,
+  createPluginPackage,
+  extractPluginPackage,
+  generateSigningKeyPair,
+  readPluginPackage,
+  verifyPluginPackage,
+} from './packaging';
+
+const manifest = { id: 'mod-test', name: 'Test', version: '1.0.0', main: 'dist/index.js' };
+
+const pluginFiles = () =>
+  new Map<string, Buffer>([
+    ['plugin.json', Buffer.from(JSON.stringify(manifest))],
+    ['package.json', Buffer.from('{"name":"mod-test"}')],
+    ['dist/index.js', Buffer.from('module.exports = class {};')],
+  ]);
+
+const publisher = generateSigningKeyPair();
+const trustedKeys: TrustedKey[] = [{ keyId: publisher.keyId, publicKey: publisher.publicKey, name: 'Acme' }];
+
+/**
+ * A raw tar entry, for packages the SDK itself would never write
+ */
+function tarEntry(name: string, content = '', type = '0', linkName = ''): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, 'utf8');
+  header.write('0000644\0', 100, 'latin1');
+  header.write('0000000\0', 108, 'latin1');
+  header.write('0000000\0', 116, 'latin1');
+  header.write(Buffer.byteLength(content).toString(8).padStart(11, '0') + '\0', 124, 'latin1');
+  header.write('00000000000\0', 136, 'latin1');
+  header.write(type, 156, 'latin1');
+  header.write(linkName, 157, 100, 'utf8');
+  header.write('ustar\u000000', 257, 'latin1');
+
+  let sum = 0;
+  for (let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148, 'latin1');
+
+  const body = Buffer.alloc(Math.ceil(Buffer.byteLength(content) / 512) * 512);
+  body.write(content);
+  return Buffer.concat([header, body]);
+}
+
+const tarball = (...entries: Buffer[]) => zlib.gzipSync(Buffer.concat([...entries, Buffer.alloc(1024)]));
+
+describe('plugin packages', () => {
+  it('round-trips a signed package', () => {
+    const files = readPluginPackage(createPluginPackage(pluginFiles(), publisher));
+
+    expect(files.get('dist/index.js')?.toString()).toBe('module.exports = class {};');
+    expect(verifyPluginPackage(files, trustedKeys)).toEqual({
+      manifest,
+      signed: true,
+      trusted: true,
+      keyId: publisher.keyId,
+    });
+  });
+
+  it('reads raw tarballs written by other tools', () => {
+    const files = readPluginPackage(tarball(tarEntry('dist', '', '5'), tarEntry('dist/a.js', 'a')));
+    expect(Array.from(files.keys())).toEqual(['dist/a.js']);
+  });
+
+  it('reports unsigned packages and packages signed by unknown keys', () => {
+    const unsigned = readPluginPackage(createPluginPackage(pluginFiles()));
+    expect(verifyPluginPackage(unsigned, trustedKeys)).toMatchObject({ signed: false, trusted: false });
+
+    const stranger = generateSigningKeyPair();
+    const untrusted = readPluginPackage(createPluginPackage(pluginFiles(), stranger));
+    expect(verifyPluginPackage(untrusted, trustedKeys)).toMatchObject({
+      signed: true,
+      trusted: false,
+      keyId: stranger.keyId,
+    });
+  });
+
+  describe('tampering', () => {
+    it('rejects a file that does not match its checksum', () => {
+      const files = readPluginPackage(createPluginPackage(pluginFiles(), publisher));
+      files.set('dist/index.js', Buffer.from('require("child_process").exec("rm -rf /");'));
+
+      expect(() => verifyPluginPackage(files, trustedKeys)).toThrow('Checksum mismatch for dist/index.js');
+      // Also when the package is unsigned
+      const unsigned = readPluginPackage(createPluginPackage(pluginFiles()));
+      unsigned.set('plugin.json', Buffer.from(JSON.stringify({ ...manifest, permissions: { services: ['*'] } })));
+      expect(() => verifyPluginPackage(unsigned, [])).toThrow('Checksum mismatch for plugin.json');
+    });
+
+    it('rejects added and removed files', () => {
+      const added = readPluginPackage(createPluginPackage(pluginFiles(), publisher));
+      added.set('dist/extra.js', Buffer.from(''));
+      expect(() => verifyPluginPackage(added, trustedKeys)).toThrow(`File dist/extra.js is not listed in ${CHECKSUMS_FILE}`);
+
+      const removed = readPluginPackage(createPluginPackage(pluginFiles(), publisher));
+      removed.delete('dist/index.js');
+      expect(() => verifyPluginPackage(removed, trustedKeys)).toThrow(`File dist/index.js listed in ${CHECKSUMS_FILE} is missing`);
+    });
+
+    it('rejects checksums changed to match a tampered file', () => {
+      const files = readPluginPackage(createPluginPackage(pluginFiles(), publisher));
+      const tampered = Buffer.from('module.exports = class Evil {};');
+      const checksums: PluginPackageChecksums = JSON.parse(files.get(CHECKSUMS_FILE)!.toString());
+      checksums.files['dist/index.js'] = crypto.createHash('sha256').update(tampered).digest('hex');
+      files.set('dist/index.js', tampered);
+      files.set(CHECKSUMS_FILE, Buffer.from(JSON.stringify(checksums, null, 2)));
+
+      expect(() => verifyPluginPackage(files, trustedKeys)).toThrow(`Invalid signature by key ${publisher.keyId}`);
+    });
+
+    it('rejects a signature made with another key under a trusted key id', () => {
+      const impostor = generateSigningKeyPair();
+      const files = readPluginPackage(createPluginPackage(pluginFiles(), { ...impostor, keyId: publisher.keyId }));
+
+      expect(() => verifyPluginPackage(files, trustedKeys)).toThrow(PluginPackageError);
+      expect(() => verifyPluginPackage(files, trustedKeys)).toThrow(`Invalid signature by key ${publisher.keyId}`);
+    });
+
+    it('rejects a corrupted signature', () => {
+      const files = readPluginPackage(createPluginPackage(pluginFiles(), publisher));
+      const signature = JSON.parse(files.get(SIGNATURE_FILE)!.toString());
+      signature.signature = Buffer.alloc(64, 1).toString('base64');
+      files.set(SIGNATURE_FILE, Buffer.from(JSON.stringify(signature)));
+
+      expect(() => verifyPluginPackage(files, trustedKeys)).toThrow(`Invalid signature by key ${publisher.keyId}`);
+    });
+  });
+
+  describe('unsafe entries', () => {
+    it.each(['../evil.js', 'dist/../../evil.js', '/etc/cron.d/evil', 'C:/evil.js', 'dist\\..\\evil.js', './plugin.json', 'dist//a.js'])(
+      'rejects the path %s',
+      name => {
+        expect(() => readPluginPackage(tarball(tarEntry(name, 'x')))).toThrow('Unsafe path in package');
+      },
+    );
+
+    it('rejects symlinks', () => {
+      expect(() => readPluginPackage(tarball(tarEntry('dist/index.js', '', '2', '/etc/passwd')))).toThrow(
+        'Unsupported entry "dist/index.js": only regular files are allowed',
+      );
+    });
+
+    it('rejects hardlinks', () => {
+      expect(() => readPluginPackage(tarball(tarEntry('dist/index.js', '', '1', '../../etc/passwd')))).toThrow(
+        'Unsupported entry "dist/index.js": only regular files are allowed',
+      );
+    });
+
+    it('rejects duplicate entries', () => {
+      expect(() => readPluginPackage(tarball(tarEntry('plugin.json', '{}'), tarEntry('plugin.json', '{}')))).toThrow(
+        'Duplicate entry plugin.json',
+      );
+    });
+
+    it('rejects corrupt and oversized archives', () => {
+      expect(() => readPluginPackage(Buffer.from('not a package'))).toThrow('Package is not a gzipped tarball');
+
+      const header = tarEntry('plugin.json', '{}');
+      header[0] = 'q'.charCodeAt(0);
+      expect(() => readPluginPackage(tarball(header))).toThrow('Corrupt tar header');
+
+      const bomb = tarball(tarEntry('dist/big.js', 'x'.repeat(4096)));
+      expect(() => readPluginPackage(bomb, { maxUnpackedBytes: 1024 })).toThrow('Package unpacks to more than 1024 bytes');
+    });
+
+    it('refuses to create packages with unsafe paths', () => {
+      const files = pluginFiles();
+      files.set('../evil.js', Buffer.from(''));
+      expect(() => createPluginPackage(files)).toThrow('Unsafe path in package: "../evil.js"');
+    });
+  });
+
+  describe('extractPluginPackage', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tmsplugin-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('writes the files below the target directory', async () => {
+      await extractPluginPackage(readPluginPackage(createPluginPackage(pluginFiles())), path.join(dir, 'plugin'));
+
+      expect(await fs.readFile(path.join(dir, 'plugin', 'dist', 'index.js'), 'utf8')).toBe('module.exports = class {};');
+    });
+
+    it.each(['../evil.js', '/tmp/evil.js'])('refuses to write %s', async name => {
+      const files = new Map([[name, Buffer.from('x')]]);
+
+      await expect(extractPluginPackage(files, path.join(dir, 'plugin'))).rejects.toThrow('Unsafe path in package');
+      await expect(fs.readdir(dir)).resolves.toEqual(['plugin']);
+    });
+  });
+});
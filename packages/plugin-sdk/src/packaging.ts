@@ -0,0 +1,409 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { PluginManifest } from './types';
+
+/**
+ * The `.tmsplugin` package format: a gzipped tarball holding `plugin.json`,
+ * `package.json`, the built `dist` directory and `checksums.json`, the
+ * SHA-256 of every other file. `signature.json` holds an Ed25519 signature
+ * of `checksums.json`, so it covers all files of the package.
+ *
+ * Node only; import from `@tms/plugin-sdk/packaging`.
+ */
+export const PLUGIN_PACKAGE_EXTENSION = '.tmsplugin';
+
+export const CHECKSUMS_FILE = 'checksums.json';
+export const SIGNATURE_FILE = 'signature.json';
+
+export interface PluginPackageChecksums {
+  algorithm: 'sha256';
+  files: Record<string, string>;
+}
+
+export interface PluginPackageSignature {
+  algorithm: 'ed25519';
+  keyId: string;
+  signature: string;
+}
+
+/**
+ * Public key of a publisher whose packages are trusted
+ */
+export interface TrustedKey {
+  keyId: string;
+  publicKey: string;
+  name?: string;
+}
+
+export interface SigningKey {
+  privateKey: string;
+  keyId?: string;
+}
+
+export interface PluginPackageVerification {
+  manifest: PluginManifest;
+  signed: boolean;
+  // Signed with a key of the trust store
+  trusted: boolean;
+  keyId?: string;
+}
+
+export interface ReadPluginPackageOptions {
+  // Limit of the unpacked size, against decompression bombs
+  maxUnpackedBytes?: number;
+}
+
+export class PluginPackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PluginPackageError';
+  }
+}
+
+const DEFAULT_MAX_UNPACKED_BYTES = 100 * 1024 * 1024;
+const BLOCK_SIZE = 512;
+
+/**
+ * Files of a built plugin that go into its package
+ */
+export async function collectPluginFiles(pluginDir: string): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>();
+
+  files.set('plugin.json', await fs.readFile(path.join(pluginDir, 'plugin.json')));
+  try {
+    files.set('package.json', await fs.readFile(path.join(pluginDir, 'package.json')));
+  } catch {
+    // package.json is optional
+  }
+
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await fs.readdir(path.join(pluginDir, dir), { withFileTypes: true })) {
+      const file = `${dir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        await walk(file);
+      } else if (entry.isFile()) {
+        files.set(file, await fs.readFile(path.join(pluginDir, file)));
+      }
+    }
+  };
+  await walk('dist');
+
+  return files;
+}
+
+/**
+ * Build a package from plugin files, signed when a key is given
+ */
+export function createPluginPackage(files: Map<string, Buffer>, signingKey?: SigningKey): Buffer {
+  if (!files.has('plugin.json')) {
+    throw new PluginPackageError('A plugin package needs a plugin.json');
+  }
+
+  const entries = new Map(
+    Array.from(files).filter(([name]) => name !== CHECKSUMS_FILE && name !== SIGNATURE_FILE)
+  );
+  for (const name of entries.keys()) {
+    assertSafePath(name);
+  }
+
+  const checksums: PluginPackageChecksums = {
+    algorithm: 'sha256',
+    files: Object.fromEntries(Array.from(entries).map(([name, content]) => [name, sha256(content)]))
+  };
+  const checksumsJson = Buffer.from(JSON.stringify(checksums, null, 2));
+  entries.set(CHECKSUMS_FILE, checksumsJson);
+
+  if (signingKey) {
+    const privateKey = crypto.createPrivateKey(signingKey.privateKey);
+    const signature: PluginPackageSignature = {
+      algorithm: 'ed25519',
+      keyId: signingKey.keyId || keyFingerprint(crypto.createPublicKey(privateKey)),
+      signature: crypto.sign(null, checksumsJson, privateKey).toString('base64')
+    };
+    entries.set(SIGNATURE_FILE, Buffer.from(JSON.stringify(signature, null, 2)));
+  }
+
+  return zlib.gzipSync(writeTar(entries));
+}
+
+/**
+ * Unpack the files of a package. Only regular files with relative paths
+ * inside the package are accepted; links, absolute paths and `..` segments
+ * are rejected.
+ */
+export function readPluginPackage(archive: Buffer, options: ReadPluginPackageOptions = {}): Map<string, Buffer> {
+  const maxOutputLength = options.maxUnpackedBytes ?? DEFAULT_MAX_UNPACKED_BYTES;
+
+  let tar: Buffer;
+  try {
+    tar = zlib.gunzipSync(archive, { maxOutputLength });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new PluginPackageError(`Package unpacks to more than ${maxOutputLength} bytes`);
+    }
+    throw new PluginPackageError('Package is not a gzipped tarball');
+  }
+
+  return readTar(tar);
+}
+
+/**
+ * Check a package's files against its checksums and its signature against
+ * the trusted keys. Throws when the package was tampered with; whether an
+ * unsigned or untrusted package is acceptable is up to the caller.
+ */
+export function verifyPluginPackage(
+  files: Map<string, Buffer>,
+  trustedKeys: TrustedKey[]
+): PluginPackageVerification {
+  const checksumsJson = files.get(CHECKSUMS_FILE);
+  if (!checksumsJson) {
+    throw new PluginPackageError(`Package has no ${CHECKSUMS_FILE}`);
+  }
+  const checksums = parseJson<PluginPackageChecksums>(checksumsJson, CHECKSUMS_FILE);
+  if (checksums.algorithm !== 'sha256' || typeof checksums.files !== 'object' || checksums.files === null) {
+    throw new PluginPackageError(`Unsupported ${CHECKSUMS_FILE}`);
+  }
+
+  for (const [name, content] of files) {
+    if (name === CHECKSUMS_FILE || name === SIGNATURE_FILE) continue;
+
+    const expected = checksums.files[name];
+    if (!expected) {
+      throw new PluginPackageError(`File ${name} is not listed in ${CHECKSUMS_FILE}`);
+    }
+    if (!safeEqual(expected, sha256(content))) {
+      throw new PluginPackageError(`Checksum mismatch for ${name}`);
+    }
+  }
+  for (const name of Object.keys(checksums.files)) {
+    if (!files.has(name)) {
+      throw new PluginPackageError(`File ${name} listed in ${CHECKSUMS_FILE} is missing`);
+    }
+  }
+
+  const manifestJson = files.get('plugin.json');
+  if (!manifestJson) {
+    throw new PluginPackageError('Package has no plugin.json');
+  }
+  const manifest = parseJson<PluginManifest>(manifestJson, 'plugin.json');
+
+  const signatureJson = files.get(SIGNATURE_FILE);
+  if (!signatureJson) {
+    return { manifest, signed: false, trusted: false };
+  }
+
+  const signature = parseJson<PluginPackageSignature>(signatureJson, SIGNATURE_FILE);
+  if (signature.algorithm !== 'ed25519' || typeof signature.signature !== 'string') {
+    throw new PluginPackageError(`Unsupported ${SIGNATURE_FILE}`);
+  }
+
+  const key = trustedKeys.find(k => k.keyId === signature.keyId);
+  if (!key) {
+    // The signature cannot be checked without the key
+    return { manifest, signed: true, trusted: false, keyId: signature.keyId };
+  }
+
+  const valid = crypto.verify(
+    null,
+    checksumsJson,
+    crypto.createPublicKey(key.publicKey),
+    Buffer.from(signature.signature, 'base64')
+  );
+  if (!valid) {
+    throw new PluginPackageError(`Invalid signature by key ${signature.keyId}`);
+  }
+
+  return { manifest, signed: true, trusted: true, keyId: signature.keyId };
+}
+
+/**
+ * Write unpacked files below a directory, which must not exist yet
+ */
+export async function extractPluginPackage(files: Map<string, Buffer>, targetDir: string): Promise<void> {
+  const root = path.resolve(targetDir);
+  await fs.mkdir(root);
+
+  for (const [name, content] of files) {
+    assertSafePath(name);
+    const file = path.resolve(root, name);
+    // Checked again on the resolved path
+    if (!file.startsWith(root + path.sep)) {
+      throw new PluginPackageError(`Path ${name} leaves the package`);
+    }
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content, { flag: 'wx' });
+  }
+}
+
+/**
+ * New Ed25519 key pair for signing packages, PEM encoded
+ */
+export function generateSigningKeyPair(): { keyId: string; publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    keyId: keyFingerprint(publicKey),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+  };
+}
+
+/**
+ * Key ID of a public key: the start of the SHA-256 of its DER encoding
+ */
+export function keyFingerprint(publicKey: crypto.KeyObject | string): string {
+  const key = typeof publicKey === 'string' ? crypto.createPublicKey(publicKey) : publicKey;
+  return sha256(key.export({ type: 'spki', format: 'der' })).slice(0, 16);
+}
+
+function sha256(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function parseJson<T>(content: Buffer, name: string): T {
+  try {
+    return JSON.parse(content.toString('utf8'));
+  } catch {
+    throw new PluginPackageError(`Invalid JSON in ${name}`);
+  }
+}
+
+/**
+ * A package path must be relative, use forward slashes and stay inside
+ * the package
+ */
+function assertSafePath(name: string): void {
+  const segments = name.split('/');
+  if (
+    !name ||
+    name.startsWith('/') ||
+    /^[a-zA-Z]:/.test(name) ||
+    name.includes('\\') ||
+    name.includes('\0') ||
+    segments.some(s => s === '' || s === '.' || s === '..')
+  ) {
+    throw new PluginPackageError(`Unsafe path in package: ${JSON.stringify(name)}`);
+  }
+}
+
+// Minimal ustar reader and writer for regular files
+
+function writeTar(files: Map<string, Buffer>): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const [name, content] of files) {
+    const header = Buffer.alloc(BLOCK_SIZE);
+    const [prefix, base] = splitName(name);
+    header.write(base, 0, 100, 'utf8');
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, content.length, 124, 12);
+    writeOctal(header, 0, 136, 12);
+    header.fill(' ', 148, 156);
+    header.write('0', 156);
+    header.write('ustar\u000000', 257, 'latin1');
+    header.write(prefix, 345, 155, 'utf8');
+    writeOctal(header, headerChecksum(header), 148, 8);
+
+    blocks.push(header, content, Buffer.alloc(padding(content.length)));
+  }
+
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+function readTar(tar: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      return files;
+    }
+
+    if (readOctal(header, 148, 8) !== headerChecksum(header)) {
+      throw new PluginPackageError('Corrupt tar header');
+    }
+
+    const base = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const name = prefix ? `${prefix}/${base}` : base;
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    offset += BLOCK_SIZE;
+
+    if (type === '5') {
+      // Directories are implied by file paths
+      continue;
+    }
+    if (type !== '0' && type !== '\0') {
+      throw new PluginPackageError(`Unsupported entry ${JSON.stringify(name)}: only regular files are allowed`);
+    }
+
+    assertSafePath(name);
+    if (files.has(name)) {
+      throw new PluginPackageError(`Duplicate entry ${name}`);
+    }
+    if (offset + size > tar.length) {
+      throw new PluginPackageError(`Truncated entry ${name}`);
+    }
+
+    files.set(name, Buffer.from(tar.subarray(offset, offset + size)));
+    offset += size + padding(size);
+  }
+
+  throw new PluginPackageError('Truncated tarball');
+}
+
+function splitName(name: string): [string, string] {
+  if (Buffer.byteLength(name) <= 100) {
+    return ['', name];
+  }
+
+  const slash = name.lastIndexOf('/', name.length - 1);
+  const prefix = name.slice(0, slash);
+  const base = name.slice(slash + 1);
+  if (slash <= 0 || Buffer.byteLength(prefix) > 155 || Buffer.byteLength(base) > 100) {
+    throw new PluginPackageError(`Path too long for package: ${name}`);
+  }
+  return [prefix, base];
+}
+
+function headerChecksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'latin1');
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const value = readString(header, offset, length).trim();
+  if (!/^[0-7]*$/.test(value)) {
+    throw new PluginPackageError('Corrupt tar header');
+  }
+  return value ? parseInt(value, 8) : 0;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+function padding(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
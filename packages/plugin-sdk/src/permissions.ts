@@ -0,0 +1,156 @@
+import { PluginManifest, PluginPermissions } from './types';
+
+export type PluginPermissionKind = 'service' | 'emit' | 'subscribe' | 'hook' | 'field';
+
+/**
+ * An attempt by a plugin to do something its permissions do not allow
+ */
+export interface PermissionViolation {
+  pluginId: string;
+  permission: PluginPermissionKind;
+  target: string;
+  message: string;
+}
+
+export class PluginPermissionError extends Error {
+  constructor(public readonly violation: PermissionViolation) {
+    super(violation.message);
+    this.name = 'PluginPermissionError';
+  }
+}
+
+/**
+ * Permissions a plugin needs: those declared in its manifest plus the event
+ * subscriptions and hooks of its capabilities, the services it depends on
+ * and the hooks and event types it provides
+ */
+export function requestedPermissions(manifest: PluginManifest): Required<PluginPermissions> {
+  const declared = manifest.permissions || {};
+  const capabilities = manifest.capabilities || {};
+  const provides = manifest.provides || {};
+
+  return {
+    services: unique(declared.services, Object.keys(manifest.serviceDependencies || {})),
+    events: {
+      emit: unique(declared.events?.emit, (provides.events || []).map(e => e.type)),
+      subscribe: unique(declared.events?.subscribe, (capabilities.events || []).map(e => e.eventType))
+    },
+    hooks: unique(
+      declared.hooks,
+      (capabilities.hooks || []).map(h => h.hookId),
+      (provides.hooks || []).map(h => h.id)
+    ),
+    fields: Object.fromEntries(
+      Object.entries(declared.fields || {}).map(([hookId, fields]) => [hookId, unique(fields)])
+    )
+  };
+}
+
+/**
+ * Requested permissions not covered by the granted ones, or undefined when
+ * all are granted
+ */
+export function missingPermissions(
+  requested: PluginPermissions,
+  granted: PluginPermissions | undefined
+): PluginPermissions | undefined {
+  const missing: PluginPermissions = {};
+
+  const services = (requested.services || []).filter(s => !granted?.services?.includes(s));
+  if (services.length) missing.services = services;
+
+  const emit = (requested.events?.emit || []).filter(p => !coversPattern(granted?.events?.emit, p));
+  const subscribe = (requested.events?.subscribe || []).filter(p => !coversPattern(granted?.events?.subscribe, p));
+  if (emit.length || subscribe.length) {
+    missing.events = {
+      ...(emit.length && { emit }),
+      ...(subscribe.length && { subscribe })
+    };
+  }
+
+  const hooks = (requested.hooks || []).filter(h => !granted?.hooks?.includes(h));
+  if (hooks.length) missing.hooks = hooks;
+
+  const fields: Record<string, string[]> = {};
+  for (const [hookId, paths] of Object.entries(requested.fields || {})) {
+    const notGranted = paths.filter(path => !coversField(granted?.fields?.[hookId], path));
+    if (notGranted.length) fields[hookId] = notGranted;
+  }
+  if (Object.keys(fields).length) missing.fields = fields;
+
+  return Object.keys(missing).length ? missing : undefined;
+}
+
+export function canUseService(permissions: PluginPermissions, name: string): boolean {
+  return !!permissions.services?.includes(name);
+}
+
+export function canEmit(permissions: PluginPermissions, eventType: string): boolean {
+  return coversPattern(permissions.events?.emit, eventType);
+}
+
+/**
+ * Whether a plugin may subscribe with a type pattern; the pattern must not
+ * match more than a permitted pattern does
+ */
+export function canSubscribe(permissions: PluginPermissions, pattern: string): boolean {
+  return coversPattern(permissions.events?.subscribe, pattern);
+}
+
+export function canHandleHook(permissions: PluginPermissions, hookId: string): boolean {
+  return !!permissions.hooks?.includes(hookId);
+}
+
+/**
+ * Changed fields a plugin may not modify in a hook. Fields are dot paths,
+ * e.g. `price.amount` or `items.*.quantity`, and cover everything below them;
+ * changes are JSON Pointers as found in JSON Patch operations.
+ */
+export function forbiddenFieldChanges(
+  permissions: PluginPermissions,
+  hookId: string,
+  changedPointers: string[]
+): string[] {
+  const allowed = permissions.fields?.[hookId] || [];
+  return changedPointers
+    .map(pointer => pointer.split('/').slice(1).map(s => s.replace(/~1/g, '/').replace(/~0/g, '~')).join('.'))
+    .filter(path => !coversField(allowed, path));
+}
+
+/**
+ * Whether a type pattern is covered by one of the allowed patterns. `*`
+ * matches one segment and `**` any number, as in matchesTypePattern.
+ */
+function coversPattern(allowed: string[] | undefined, pattern: string): boolean {
+  return (allowed || []).some(a => coversSegments(a.split('.'), pattern.split('.')));
+}
+
+function coversSegments(allowed: string[], pattern: string[]): boolean {
+  if (allowed.length === 0) return pattern.length === 0;
+
+  const [head, ...rest] = allowed;
+  if (head === '**') {
+    for (let i = 0; i <= pattern.length; i++) {
+      if (coversSegments(rest, pattern.slice(i))) return true;
+    }
+    return false;
+  }
+
+  if (pattern.length === 0) return false;
+  const segment = pattern[0];
+  const matches = head === '*' ? segment !== '**' : head === segment;
+  return matches && coversSegments(rest, pattern.slice(1));
+}
+
+function coversField(allowed: string[] | undefined, path: string): boolean {
+  const segments = path.split('.');
+  return (allowed || []).some(field => {
+    const prefix = field.split('.');
+    return prefix.length <= segments.length &&
+      prefix.every((part, i) => part === '*' || part === segments[i]);
+  });
+}
+
+function unique(...lists: (string[] | undefined)[]): string[] {
+  return Array.from(new Set(lists.flatMap(list => list || [])));
+}
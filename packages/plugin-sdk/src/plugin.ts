@@ -1,4 +1,4 @@
-import { CloudEvent } from '@tms/contracts';
+import { CloudEvent, EventFilter } from '@tms/contracts';
 import {
   PluginApi,
   PluginContext,
@@ -7,6 +7,7 @@ import {
   PluginResponse,
   HookContext,
   HookResult,
+  WorkflowStep,
 } from './types';
 
 /**
@@ -65,6 +66,18 @@ export abstract class Plugin implements PluginApi {
     return { continue: true };
   }
   
+  /**
+   * Run a workflow action by calling the method of the same name. Only
+   * actions the manifest's workflow steps declare can be run.
+   */
+  async executeAction(actionId: string, context: any): Promise<any> {
+    const action = (this as any)[actionId];
+    if (!declaredActions(this.manifest).has(actionId) || typeof action !== 'function') {
+      throw new Error(`Unknown workflow action '${actionId}' in plugin ${this.manifest.id}`);
+    }
+    return action.call(this, context);
+  }
+  
   // Helper methods
   protected async emitEvent(type: string, data: any, subject?: string): Promise<void> {
     const event: CloudEvent = {
@@ -127,9 +140,10 @@ export function ApiHandler(path: string, method: string = 'GET') {
 }
 
 /**
- * Decorator to mark a method as an event handler
+ * Decorator to mark a method as an event handler; pass an exact attribute
+ * match or a list of CloudEvents subscription filters
  */
-export function EventHandler(eventType: string, filter?: Record<string, any>) {
+export function EventHandler(eventType: string, filter?: Record<string, any> | EventFilter[]) {
   return function (target: any, propertyKey: string, _descriptor: PropertyDescriptor) {
     // Store metadata for plugin loader
     if (!target.constructor._eventHandlers) {
@@ -137,7 +151,7 @@ export function EventHandler(eventType: string, filter?: Record<string, any>) {
     }
     target.constructor._eventHandlers.push({
       eventType,
-      filter,
+      ...(Array.isArray(filter) ? { filters: filter } : { filter }),
       handler: propertyKey
     });
   };
@@ -159,3 +173,24 @@ export function HookHandler(hookId: string, order: number = 0) {
     });
   };
 }
+
+/**
+ * Actions of the ACTION steps of a manifest's workflows, at any depth
+ */
+function declaredActions(manifest: PluginManifest): Set<string> {
+  const actions = new Set<string>();
+  const visit = (steps: WorkflowStep[] = []) => {
+    for (const step of steps) {
+      if (step.type === 'ACTION' && step.action) {
+        actions.add(step.action);
+      }
+      visit(step.steps);
+      step.branches?.forEach(branch => visit(branch.steps));
+    }
+  };
+
+  for (const workflow of manifest.capabilities?.workflows || []) {
+    visit(workflow.steps);
+  }
+  return actions;
+}
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
 import { PluginInstance, PluginManifest, PluginStatus } from './types';
+import { resolveConfig } from './config';
 
 /**
  * Plugin registry for managing plugin lifecycle
@@ -36,12 +37,10 @@ export class PluginRegistry extends EventEmitter {
     }
     
     try {
-      // Validate config against schema if provided
-      if (instance.manifest.configuration && config) {
-        this.validateConfig(instance.manifest.configuration, config);
-      }
-      
-      instance.config = config;
+      // Validate config against schema if provided, filling in defaults
+      instance.config = instance.manifest.configuration
+        ? resolveConfig(instance.manifest.configuration, config)
+        : config;
       instance.status = PluginStatus.ENABLED;
       instance.enabledAt = new Date();
       delete instance.error;
@@ -70,6 +69,19 @@ export class PluginRegistry extends EventEmitter {
     this.emit('plugin:disabled', instance);
   }
   
+  /**
+   * Mark an enabled plugin as failed, e.g. when it is quarantined
+   */
+  fail(pluginId: string, error: string): void {
+    const instance = this.getPlugin(pluginId);
+    
+    instance.status = PluginStatus.ERROR;
+    instance.error = error;
+    instance.disabledAt = new Date();
+    
+    this.emit('plugin:failed', instance);
+  }
+  
   /**
    * Unregister a plugin
    */
@@ -84,6 +96,20 @@ export class PluginRegistry extends EventEmitter {
     this.emit('plugin:unregistered', instance);
   }
   
+  /**
+   * Replace the manifest of a plugin that is not enabled, e.g. on upgrade
+   */
+  updateManifest(manifest: PluginManifest): void {
+    const instance = this.getPlugin(manifest.id);
+    
+    if (instance.status === PluginStatus.ENABLED) {
+      throw new Error(`Plugin ${manifest.id} must be disabled to update its manifest`);
+    }
+    
+    instance.manifest = manifest;
+    this.emit('plugin:updated', instance);
+  }
+  
   /**
    * Get plugin instance
    */
@@ -129,7 +155,7 @@ export class PluginRegistry extends EventEmitter {
   }
   
   /**
-   * Update plugin configuration
+   * Replace plugin configuration
    */
   async updateConfig(pluginId: string, config: Record<string, any>): Promise<void> {
     const instance = this.getPlugin(pluginId);
@@ -138,58 +164,9 @@ export class PluginRegistry extends EventEmitter {
       throw new Error(`Plugin ${pluginId} must be enabled to update config`);
     }
     
-    if (instance.manifest.configuration) {
-      this.validateConfig(instance.manifest.configuration, config);
-    }
-    
-    instance.config = { ...instance.config, ...config };
+    instance.config = instance.manifest.configuration
+      ? resolveConfig(instance.manifest.configuration, config)
+      : config;
     this.emit('plugin:config-updated', instance);
   }
-  
-  /**
-   * Validate configuration against schema
-   */
-  private validateConfig(schema: any, config: Record<string, any>): void {
-    // Simple validation - can be enhanced with ajv
-    const required = schema.required || [];
-    for (const field of required) {
-      if (!(field in config)) {
-        throw new Error(`Required field '${field}' is missing`);
-      }
-    }
-    
-    for (const [key, value] of Object.entries(config)) {
-      const prop = schema.properties[key];
-      if (!prop) continue;
-      
-      // Type validation
-      const valueType = Array.isArray(value) ? 'array' : typeof value;
-      if (prop.type && prop.type !== valueType) {
-        throw new Error(`Field '${key}' must be of type ${prop.type}`);
-      }
-      
-      // Enum validation
-      if (prop.enum && !prop.enum.includes(value)) {
-        throw new Error(`Field '${key}' must be one of: ${prop.enum.join(', ')}`);
-      }
-      
-      // Number range validation
-      if (prop.type === 'number') {
-        if (prop.minimum !== undefined && value < prop.minimum) {
-          throw new Error(`Field '${key}' must be >= ${prop.minimum}`);
-        }
-        if (prop.maximum !== undefined && value > prop.maximum) {
-          throw new Error(`Field '${key}' must be <= ${prop.maximum}`);
-        }
-      }
-      
-      // Pattern validation
-      if (prop.pattern && typeof value === 'string') {
-        const regex = new RegExp(prop.pattern);
-        if (!regex.test(value)) {
-          throw new Error(`Field '${key}' does not match pattern ${prop.pattern}`);
-        }
-      }
-    }
-  }
 }
@@ -0,0 +1,82 @@
+import { Order, Party, Settlement, Shipment, Tender } from '@tms/contracts';
+
+/**
+ * A service interface a plugin exports, for typed lookups with
+ * `context.getService(token)`. Share tokens from the providing plugin's
+ * package, e.g. `defineService<CarrierCompliance>('carrierCompliance', '1.0.0')`.
+ */
+export interface ServiceToken<T> {
+  readonly name: string;
+  readonly version: string;
+  // Only carries the interface type
+  readonly __type?: T;
+}
+
+export function defineService<T>(name: string, version: string): ServiceToken<T> {
+  return { name, version };
+}
+
+/**
+ * A service as other plugins see it; calls may cross threads, so every
+ * method is asynchronous
+ */
+export type ServiceClient<T> = {
+  [K in keyof T]: T[K] extends (...args: infer A) => infer R ? (...args: A) => Promise<Awaited<R>> : never;
+};
+
+// Read-only facades of the domain services
+export interface OrderServiceFacade {
+  findOne(id: string): Promise<Order>;
+  findAll(filters?: { status?: string; shipperId?: string; consigneeId?: string }): Promise<Order[]>;
+}
+
+export interface ShipmentServiceFacade {
+  findOne(id: string): Promise<Shipment>;
+  findAll(filters?: { status?: string; orderId?: string; carrierId?: string; driverId?: string }): Promise<Shipment[]>;
+}
+
+export interface TenderServiceFacade {
+  findOne(id: string): Promise<Tender>;
+  findAll(filters?: { status?: string; orderId?: string; shipmentId?: string; mode?: string; tier?: number }): Promise<Tender[]>;
+}
+
+export interface PartyServiceFacade {
+  findOne(id: string): Promise<Party>;
+  findByCode(code: string): Promise<Party>;
+  findAll(filters?: { type?: string; active?: boolean }): Promise<Party[]>;
+}
+
+export interface SettlementServiceFacade {
+  findOne(id: string): Promise<Settlement>;
+  findAll(filters?: { status?: string; shipmentId?: string; chainId?: string }): Promise<Settlement[]>;
+}
+
+export interface KernelServices {
+  orderService: OrderServiceFacade;
+  shipmentService: ShipmentServiceFacade;
+  tenderService: TenderServiceFacade;
+  partyService: PartyServiceFacade;
+  settlementService: SettlementServiceFacade;
+}
+
+// Services of the kernel itself; plugins cannot export services by these names
+export const KERNEL_SERVICE_NAMES: readonly string[] = [
+  'eventBus',
+  'hookService',
+  'orderService',
+  'shipmentService',
+  'tenderService',
+  'partyService',
+  'settlementService'
+];
+
+export function isKernelService(name: string): boolean {
+  return KERNEL_SERVICE_NAMES.includes(name);
+}
+
+/**
+ * Name of a service looked up by name or token
+ */
+export function serviceName(service: string | ServiceToken<any>): string {
+  return typeof service === 'string' ? service : service.name;
+}
@@ -0,0 +1,521 @@
+import {
+  CloudEvent,
+  EventDataSchema,
+  EventFilter,
+  createEventSchemaRegistry,
+  eventDataSchemaFromJson,
+  matchesEventFilters,
+  matchesTypePattern,
+  validateEventFilter
+} from '@tms/contracts';
+import {
+  EventBus,
+  EventSchemaOptions,
+  HookContext,
+  HookResult,
+  Logger,
+  PluginApi,
+  PluginManifest,
+  PluginPermissions,
+  PluginRequest,
+  PluginResponse
+} from './types';
+import { HookConfig, HookConfigs, isBuiltInHook } from './hooks';
+import { HookHandlerOutcome, defaultFailurePolicy, executeHookHandlers } from './hook-execution';
+import { DefaultPluginContext, InMemoryConfigStore, InMemoryDataStore, PermissionedEventBus } from './context';
+import { PermissionViolation, requestedPermissions } from './permissions';
+import { ServiceToken, serviceName } from './services';
+import { resolveConfig } from './config';
+
+/**
+ * Harness to unit-test a plugin without the kernel.
+ *
+ * The plugin is instantiated from its manifest with an in-memory context,
+ * limited to the permissions the manifest requests as in the kernel. Tests
+ * dispatch events, execute hooks and call API routes the way the kernel
+ * does, control the clock and assert on the events the plugin emitted.
+ * Emitted events are recorded, not delivered; dispatch them to go on.
+ *
+ * Import from `@tms/plugin-sdk/testing`.
+ */
+export interface TestKernelOptions {
+  config?: Record<string, any>;
+  // Kernel services available through getService; hookService executes
+  // hooks on the test kernel unless given
+  services?: Record<string, any>;
+  // Permissions the plugin gets; defaults to those its manifest requests,
+  // false disables permission checks
+  permissions?: PluginPermissions | false;
+  // Initial time of the clock
+  now?: Date | string | number;
+  // Hook configurations overriding the built-in and declared ones
+  hookConfigs?: Record<string, HookConfig>;
+  // Install and enable the plugin on create; defaults to true
+  enable?: boolean;
+}
+
+export interface TestLogEntry {
+  level: keyof Logger;
+  message: string;
+  meta?: any;
+}
+
+export interface TestRequest {
+  body?: any;
+  query?: Record<string, any>;
+  headers?: Record<string, string>;
+  user?: any;
+}
+
+// Date before any clock is installed
+const RealDate = Date;
+
+interface TestHookHandler {
+  pluginId: string;
+  order: number;
+  handler: (context: HookContext) => Promise<HookResult>;
+}
+
+interface TestRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: string;
+}
+
+/**
+ * Clock for plugin code using `Date` and `Date.now()`. While installed, the
+ * global Date reads the clock's time; timers are not affected.
+ */
+export class TestClock {
+  private current: number;
+
+  constructor(start: Date | string | number = RealDate.now()) {
+    this.current = new RealDate(start).getTime();
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  set(time: Date | string | number): void {
+    this.current = new RealDate(time).getTime();
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+
+  advanceDays(days: number): void {
+    this.advance(days * 24 * 60 * 60 * 1000);
+  }
+
+  install(): void {
+    const clock = this;
+    class FakeDate extends RealDate {
+      constructor(...args: any[]) {
+        super(...((args.length ? args : [clock.current]) as [number]));
+      }
+
+      static now(): number {
+        return clock.current;
+      }
+    }
+    globalThis.Date = FakeDate as DateConstructor;
+  }
+
+  uninstall(): void {
+    globalThis.Date = RealDate;
+  }
+}
+
+/**
+ * Event bus that records what the plugin emits and keeps its subscriptions
+ */
+class TestEventBus implements EventBus {
+  readonly emitted: CloudEvent[] = [];
+  readonly subscriptions: Array<{ eventType: string; handler: (event: CloudEvent) => Promise<void>; filters?: EventFilter[] }> = [];
+  private readonly schemas = createEventSchemaRegistry();
+
+  async emit(event: CloudEvent): Promise<void> {
+    const result = this.schemas.validate(event.type, event.data);
+    if (!result.valid) {
+      const details = result.errors?.map(e => `${e.field}: ${e.message}`).join(', ');
+      throw new Error(`Event ${event.type} does not match its schema: ${details}`);
+    }
+    this.emitted.push(event);
+  }
+
+  on(eventType: string, handler: (event: CloudEvent) => Promise<void>, filters?: EventFilter[]): void {
+    filters?.forEach(validateEventFilter);
+    this.subscriptions.push({ eventType, handler, filters });
+  }
+
+  off(eventType: string, handler: (event: CloudEvent) => Promise<void>): void {
+    const index = this.subscriptions.findIndex(s => s.eventType === eventType && s.handler === handler);
+    if (index >= 0) this.subscriptions.splice(index, 1);
+  }
+
+  registerSchema(eventType: string, schema: EventDataSchema, options: EventSchemaOptions = {}): void {
+    this.schemas.register(eventType, schema, options);
+  }
+}
+
+export class TestKernel<P extends PluginApi = PluginApi> {
+  readonly clock: TestClock;
+  readonly context: DefaultPluginContext;
+  readonly dataStore = new InMemoryDataStore();
+  readonly logs: TestLogEntry[] = [];
+  readonly violations: PermissionViolation[] = [];
+
+  private readonly eventBus = new TestEventBus();
+  private readonly hookHandlers: Array<TestHookHandler & { hookId: string }> = [];
+  private readonly routes: TestRoute[];
+  private nextEventId = 1;
+
+  private constructor(
+    readonly plugin: P,
+    readonly manifest: PluginManifest,
+    private readonly options: TestKernelOptions
+  ) {
+    this.clock = new TestClock(options.now);
+
+    const permissions = options.permissions === false
+      ? undefined
+      : options.permissions || requestedPermissions(manifest);
+    const onViolation = (violation: PermissionViolation) => this.violations.push(violation);
+    const log = (level: keyof Logger) => (message: string, meta?: any) => {
+      this.logs.push({ level, message, meta });
+    };
+
+    this.context = new DefaultPluginContext(manifest.id, manifest.version, {
+      eventBus: permissions
+        ? new PermissionedEventBus(manifest.id, this.eventBus, permissions, onViolation)
+        : this.eventBus,
+      dataStore: this.dataStore,
+      configStore: new InMemoryConfigStore(this.config),
+      logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') },
+      services: new Map(Object.entries({ hookService: this.hookService(), ...options.services })),
+      permissions,
+      onViolation
+    });
+
+    for (const event of manifest.provides?.events || []) {
+      this.eventBus.registerSchema(event.type, eventDataSchemaFromJson(event.schema), { version: event.version });
+    }
+    this.routes = this.collectRoutes();
+  }
+
+  /**
+   * Instantiate a plugin with a test context and, unless `enable` is false,
+   * install and enable it
+   */
+  static async create<P extends PluginApi>(
+    PluginClass: new () => P,
+    manifest: PluginManifest,
+    options: TestKernelOptions = {}
+  ): Promise<TestKernel<P>> {
+    const kernel = new TestKernel(new PluginClass(), manifest, options);
+    kernel.clock.install();
+
+    if ('initialize' in kernel.plugin) {
+      (kernel.plugin as any).initialize(kernel.context, manifest);
+    }
+
+    if (options.enable !== false) {
+      await kernel.plugin.install(kernel.config);
+      await kernel.plugin.enable();
+    }
+    return kernel;
+  }
+
+  /**
+   * Plugin configuration: the given one with the manifest defaults filled
+   * in, validated like the kernel does
+   */
+  get config(): Record<string, any> {
+    return this.manifest.configuration
+      ? resolveConfig(this.manifest.configuration, this.options.config)
+      : { ...this.options.config };
+  }
+
+  /**
+   * Events the plugin emitted, oldest first
+   */
+  get emitted(): CloudEvent[] {
+    return [...this.eventBus.emitted];
+  }
+
+  /**
+   * Deliver an event to the plugin as the kernel would: once per matching
+   * event capability and to the plugin's own subscriptions. Returns the
+   * number of handlers called.
+   */
+  async dispatch<T = any>(event: Partial<CloudEvent<T>> & { type: string }): Promise<number> {
+    const cloudEvent = this.toCloudEvent(event);
+    const handlers: Array<(event: CloudEvent) => Promise<void>> = [];
+
+    for (const eventCap of this.manifest.capabilities.events || []) {
+      const filters = [
+        ...(eventCap.filter ? [{ exact: eventCap.filter }] : []),
+        ...(eventCap.filters || [])
+      ];
+      if (!matchesTypePattern(eventCap.eventType, cloudEvent.type) || !matchesEventFilters(filters, cloudEvent)) {
+        continue;
+      }
+      const handler = this.pluginMethod(eventCap.handler, 'handleEvent');
+      if (handler) handlers.push(handler);
+    }
+
+    for (const subscription of this.eventBus.subscriptions) {
+      if (
+        matchesTypePattern(subscription.eventType, cloudEvent.type) &&
+        matchesEventFilters(subscription.filters, cloudEvent)
+      ) {
+        handlers.push(subscription.handler);
+      }
+    }
+
+    for (const handler of handlers) {
+      await handler(cloudEvent);
+    }
+    return handlers.length;
+  }
+
+  /**
+   * Add a handler of another plugin to a hook, e.g. to test ordering
+   */
+  registerHookHandler(
+    hookId: string,
+    handler: (context: HookContext) => Promise<HookResult>,
+    options: { pluginId?: string; order?: number } = {}
+  ): void {
+    this.hookHandlers.push({
+      hookId,
+      pluginId: options.pluginId || 'test',
+      order: options.order ?? 0,
+      handler
+    });
+  }
+
+  /**
+   * Execute a hook with the plugin's hook capabilities and any handlers
+   * registered for it, with the same mode semantics as the kernel. A handler
+   * that throws counts as failed, as in the kernel.
+   */
+  async executeHook(hookId: string, data: any, metadata?: Record<string, any>): Promise<HookResult> {
+    const config = this.options.hookConfigs?.[hookId] ||
+      (isBuiltInHook(hookId) ? HookConfigs[hookId] : this.manifest.provides?.hooks?.find(h => h.id === hookId));
+    if (!config) {
+      throw new Error(`Unknown hook ${hookId}; pass its configuration in hookConfigs`);
+    }
+
+    const handlers: TestHookHandler[] = [...this.hookHandlers.filter(h => h.hookId === hookId)];
+    for (const hookCap of this.manifest.capabilities.hooks || []) {
+      const handler = hookCap.hookId === hookId && this.pluginMethod(hookCap.handler, 'handleHook');
+      if (handler) {
+        handlers.push({ pluginId: this.manifest.id, order: hookCap.order || 0, handler });
+      }
+    }
+    handlers.sort((a, b) => a.order - b.order);
+
+    return executeHookHandlers(handlers, { hookId, data, metadata }, {
+      config,
+      failsClosed: defaultFailurePolicy(config) === 'FAIL_CLOSED',
+      invoke: async (handler, context): Promise<HookHandlerOutcome> => {
+        try {
+          return { ok: true, result: await handler.handler(context) };
+        } catch (error) {
+          return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+      }
+    });
+  }
+
+  /**
+   * Call an API route of the plugin, declared in the manifest or with
+   * `@ApiHandler`, with path params taken from the path
+   */
+  async request(method: string, path: string, request: TestRequest = {}): Promise<PluginResponse> {
+    const normalized = normalizePath(path);
+
+    for (const route of this.routes) {
+      if (route.method !== method.toUpperCase()) continue;
+
+      const match = route.pattern.exec(normalized);
+      if (!match) continue;
+
+      const params = Object.fromEntries(
+        route.paramNames.map((name, i) => [name, decodeURIComponent(match[i + 1])])
+      );
+      const handler = this.pluginMethod<(req: PluginRequest) => Promise<PluginResponse>>(route.handler, 'handleRequest');
+      if (!handler) {
+        throw new Error(`Plugin ${this.manifest.id} has no handler ${route.handler}`);
+      }
+      return handler({ method: method.toUpperCase(), path: normalized, params, ...request });
+    }
+
+    return { status: 404, body: { error: `No route for ${method.toUpperCase()} ${normalized}` } };
+  }
+
+  /**
+   * Run a workflow action of the plugin
+   */
+  async runAction(actionId: string, context: any = {}): Promise<any> {
+    if (this.plugin.executeAction) {
+      return this.plugin.executeAction(actionId, context);
+    }
+    const action = this.pluginMethod(actionId);
+    if (!action) {
+      throw new Error(`Plugin ${this.manifest.id} has no action ${actionId}`);
+    }
+    return action(context);
+  }
+
+  /**
+   * Call a method of a service the plugin provides, as another plugin would
+   */
+  async callService(service: string | ServiceToken<any>, method: string, ...args: any[]): Promise<any> {
+    const name = serviceName(service);
+    const definition = this.manifest.provides?.services?.find(s => s.name === name);
+    if (!definition) {
+      throw new Error(`Plugin ${this.manifest.id} does not provide service ${name}`);
+    }
+    const fn = definition.methods.includes(method) ? this.pluginMethod(method) : undefined;
+    if (!fn) {
+      throw new Error(`Service ${name} has no method ${method}`);
+    }
+    return fn(...args);
+  }
+
+  /**
+   * Assert that the plugin emitted an event of a type, optionally with data
+   * containing the given fields; returns the last such event
+   */
+  expectEmitted<T = any>(type: string, data?: Partial<T>): CloudEvent<T> {
+    const ofType = this.eventBus.emitted.filter(e => e.type === type);
+    const matching = data === undefined ? ofType : ofType.filter(e => containsFields(e.data, data));
+
+    if (matching.length === 0) {
+      const emitted = this.eventBus.emitted.map(e => e.type).join(', ') || 'none';
+      throw new Error(
+        `Expected plugin ${this.manifest.id} to emit ${type}` +
+        (data !== undefined ? ` with ${JSON.stringify(data)}` : '') +
+        `; emitted: ${emitted}` +
+        (ofType.length ? `; data of ${type}: ${ofType.map(e => JSON.stringify(e.data)).join(', ')}` : '')
+      );
+    }
+    return matching[matching.length - 1] as CloudEvent<T>;
+  }
+
+  expectNotEmitted(type: string): void {
+    const count = this.eventBus.emitted.filter(e => e.type === type).length;
+    if (count > 0) {
+      throw new Error(`Expected plugin ${this.manifest.id} not to emit ${type}, emitted ${count} time(s)`);
+    }
+  }
+
+  clearEmitted(): void {
+    this.eventBus.emitted.length = 0;
+  }
+
+  /**
+   * Disable and uninstall the plugin and restore the real clock
+   */
+  async stop(): Promise<void> {
+    try {
+      if (this.options.enable !== false) {
+        await this.plugin.disable();
+        await this.plugin.uninstall();
+      }
+    } finally {
+      this.clock.uninstall();
+    }
+  }
+
+  /**
+   * The kernel's hookService as the plugin sees it, backed by this kernel
+   */
+  private hookService() {
+    return {
+      registerHandler: (hookId: string, _pluginId: string, handler: (context: HookContext) => Promise<HookResult>, order?: number) =>
+        this.registerHookHandler(hookId, handler, { pluginId: this.manifest.id, order }),
+      executeHook: (hookId: string, data: any, metadata?: Record<string, any>) =>
+        this.executeHook(hookId, data, metadata),
+      unregisterPlugin: () => {
+        const own = this.hookHandlers.filter(h => h.pluginId === this.manifest.id);
+        own.forEach(h => this.hookHandlers.splice(this.hookHandlers.indexOf(h), 1));
+      }
+    };
+  }
+
+  private toCloudEvent<T>(event: Partial<CloudEvent<T>> & { type: string }): CloudEvent<T> {
+    return {
+      specversion: '1.0',
+      id: `test-${this.nextEventId++}`,
+      source: 'test-kernel',
+      time: new Date(this.clock.now()).toISOString(),
+      datacontenttype: 'application/json',
+      ...event
+    } as CloudEvent<T>;
+  }
+
+  /**
+   * A named plugin method, or the generic handler when the plugin has none
+   * of that name, as the kernel resolves handlers
+   */
+  private pluginMethod<T extends (...args: any[]) => Promise<any>>(name: string, fallback?: keyof PluginApi): T | undefined {
+    const plugin = this.plugin as any;
+    const method = typeof plugin[name] === 'function' ? plugin[name] : fallback && plugin[fallback];
+    return typeof method === 'function' ? method.bind(plugin) : undefined;
+  }
+
+  private collectRoutes(): TestRoute[] {
+    const declared = [
+      ...(this.manifest.capabilities.apis || []),
+      ...((this.plugin.constructor as any)._apiHandlers || []) as Array<{ path: string; method: string; handler: string }>
+    ];
+
+    const routes: TestRoute[] = [];
+    for (const api of declared) {
+      const method = api.method.toUpperCase();
+      const path = normalizePath(api.path);
+      if (routes.some(r => r.method === method && r.pattern.source === compilePath(path).pattern.source)) {
+        continue;
+      }
+      routes.push({ method, handler: api.handler, ...compilePath(path) });
+    }
+    return routes;
+  }
+}
+
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+
+  return { pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+function normalizePath(path: string): string {
+  const trimmed = path.split('?')[0].replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+function containsFields(actual: any, expected: any): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return actual === expected;
+  }
+  if (actual === null || typeof actual !== 'object') {
+    return false;
+  }
+  return Object.entries(expected).every(([key, value]) => containsFields(actual[key], value));
+}
@@ -1,4 +1,6 @@
-import { CloudEvent } from '@tms/contracts';
+import { CloudEvent, EventDataSchema, EventFilter } from '@tms/contracts';
+import { HookConfig } from './hooks';
+import { KernelServices, ServiceClient, ServiceToken } from './services';
 
 // Plugin manifest
 export interface PluginManifest {
@@ -10,8 +12,54 @@ export interface PluginManifest {
   license?: string;
   main: string; // Entry point
   dependencies?: Record<string, string>;
+  serviceDependencies?: Record<string, string>; // Service name to interface version range, for services of other plugins
   capabilities: PluginCapabilities;
+  permissions?: PluginPermissions;
+  provides?: PluginProvides;
   configuration?: PluginConfigSchema;
+  health?: PluginHealthOptions;
+}
+
+// Extension points a plugin adds for other plugins, registered when it is loaded
+export interface PluginProvides {
+  hooks?: HookDefinition[]; // Hook points the plugin executes through hookService
+  events?: EventTypeDefinition[]; // Event types the plugin emits
+  services?: ServiceDefinition[]; // Services other plugins get through getService
+}
+
+export interface HookDefinition extends HookConfig {
+  description?: string;
+}
+
+export interface EventTypeDefinition {
+  type: string;
+  schema: Record<string, any>; // JSON Schema of the event data
+  version?: number;
+  description?: string;
+}
+
+export interface ServiceDefinition {
+  name: string;
+  version: string; // Semantic version of the interface
+  methods: string[]; // Plugin methods of the same name implement them
+  description?: string;
+}
+
+// How the kernel runs the health check of a plugin implementing healthCheck
+export interface PluginHealthOptions {
+  intervalMs?: number; // Between checks; 0 turns periodic checks off
+  unhealthyThreshold?: number; // Failed checks in a row before the plugin is quarantined
+}
+
+// What a plugin may do beyond its own data; admins approve these on enable
+export interface PluginPermissions {
+  services?: string[]; // Kernel and plugin services available through getService
+  events?: {
+    emit?: string[]; // Event types or globs the plugin may emit
+    subscribe?: string[]; // Event types or globs the plugin may subscribe to
+  };
+  hooks?: string[]; // Hook IDs the plugin may handle or execute
+  fields?: Record<string, string[]>; // Hook ID to data fields the plugin may change in WATERFALL hooks
 }
 
 export interface PluginCapabilities {
@@ -30,14 +78,16 @@ export interface ApiCapability {
 }
 
 export interface EventCapability {
-  eventType: string;
+  eventType: string; // Event type or glob, e.g. com.tms.shipment.* or com.tms.**
   handler: string; // Handler function name
-  filter?: Record<string, any>; // Event filter criteria
+  filter?: Record<string, any>; // Exact attribute match, same as filters: [{ exact: filter }]
+  filters?: EventFilter[]; // CloudEvents subscription filters, all must match
 }
 
 export interface UiSlotCapability {
   slotId: string;
   component: string; // Component export name
+  bundle?: string; // ESM module exporting the component, relative to the plugin root; defaults to dist/ui.mjs
   props?: Record<string, any>;
   order?: number;
 }
@@ -55,20 +105,36 @@ export interface HookCapability {
   order?: number;
 }
 
-// Plugin configuration
+// Plugin configuration, a JSON Schema of an object
 export interface PluginConfigSchema {
+  type?: 'object';
   properties: Record<string, ConfigProperty>;
   required?: string[];
+  additionalProperties?: boolean;
 }
 
 export interface ConfigProperty {
-  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  title?: string;
   description?: string;
   default?: any;
   enum?: any[];
   minimum?: number;
   maximum?: number;
+  minLength?: number;
+  maxLength?: number;
   pattern?: string;
+  format?: string; // e.g. email, uri, hostname
+  // Encrypted at rest and redacted when the configuration is read
+  secret?: boolean;
+  // Objects
+  properties?: Record<string, ConfigProperty>;
+  required?: string[];
+  additionalProperties?: boolean;
+  // Arrays
+  items?: ConfigProperty;
+  minItems?: number;
+  maxItems?: number;
 }
 
 // Plugin lifecycle
@@ -123,6 +189,14 @@ export interface HookContext {
   hookId: string;
   data: any;
   metadata?: Record<string, any>;
+  trace?: HookTrace;
+}
+
+// Trace of the request or event that triggered a hook
+export interface HookTrace {
+  traceparent: string;
+  correlationId: string;
+  causationId: string;
 }
 
 export interface HookResult {
@@ -140,6 +214,9 @@ export interface PluginApi {
   uninstall(): Promise<void>;
   upgrade(fromVersion: string): Promise<void>;
   
+  // Health check, e.g. after an upgrade; a plugin without one is healthy when loaded
+  healthCheck?(): Promise<PluginHealthCheckResult>;
+  
   // Runtime methods
   handleRequest?(req: PluginRequest): Promise<PluginResponse>;
   handleEvent?(event: CloudEvent): Promise<void>;
@@ -152,6 +229,12 @@ export interface PluginApi {
   executeAction?(actionId: string, context: any): Promise<any>;
 }
 
+export interface PluginHealthCheckResult {
+  healthy: boolean;
+  message?: string;
+  details?: Record<string, any>;
+}
+
 // Request/Response types
 export interface PluginRequest {
   method: string;
@@ -177,7 +260,9 @@ export interface PluginContext {
   configStore: ConfigStore;
   logger: Logger;
   
-  // Domain services
+  // Kernel services, domain service facades and services of other plugins
+  getService<K extends keyof KernelServices>(name: K): KernelServices[K];
+  getService<T>(token: ServiceToken<T>): ServiceClient<T>;
   getService(name: string): any;
   
   // Plugin info
@@ -186,17 +271,56 @@ export interface PluginContext {
 }
 
 // Service interfaces
+export interface EventSchemaOptions {
+  version?: number;
+  // JSON Schema of the data, when the schema is validated elsewhere
+  jsonSchema?: Record<string, any>;
+}
+
 export interface EventBus {
   emit(event: CloudEvent): Promise<void>;
-  on(eventType: string, handler: (event: CloudEvent) => Promise<void>): void;
+  on(eventType: string, handler: (event: CloudEvent) => Promise<void>, filters?: EventFilter[]): void;
   off(eventType: string, handler: (event: CloudEvent) => Promise<void>): void;
+  
+  // Register the Zod schema of a custom event type's data (version 1 unless given)
+  registerSchema(eventType: string, schema: EventDataSchema, options?: EventSchemaOptions): void;
 }
 
 export interface DataStore {
   get(key: string): Promise<any>;
-  set(key: string, value: any): Promise<void>;
+  set(key: string, value: any, options?: DataStoreSetOptions): Promise<void>;
   delete(key: string): Promise<void>;
   list(prefix?: string): Promise<string[]>;
+  
+  // Keys in ascending order, one page at a time
+  listPage(prefix?: string, options?: DataStoreListOptions): Promise<DataStorePage>;
+  
+  // Atomically replace the value only if it still equals `expected`
+  // (undefined means the key must not exist); returns false on conflict
+  compareAndSet(
+    key: string,
+    expected: any,
+    value: any,
+    options?: DataStoreSetOptions,
+  ): Promise<boolean>;
+  
+  // Batch operations; missing keys are left out of the result
+  getMany(keys: string[]): Promise<Record<string, any>>;
+  setMany(entries: Record<string, any>, options?: DataStoreSetOptions): Promise<void>;
+}
+
+export interface DataStoreSetOptions {
+  ttlMs?: number; // Key expires after this many milliseconds
+}
+
+export interface DataStoreListOptions {
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+export interface DataStorePage {
+  keys: string[];
+  nextCursor?: string;
 }
 
 export interface ConfigStore {
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/packaging.ts', 'src/cli.ts', 'src/testing.ts'],
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PluginManifest } from '@tms/plugin-sdk';
+import { TestKernel } from '@tms/plugin-sdk/testing';
+import PalletReturnPlugin, { PALLET_CREATED_EVENT, PalletReturns } from './index';
+import manifestJson from '../plugin.json';
+
+const manifest = manifestJson as PluginManifest;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reminderEmail = {
+  from: 'pallets@example.com',
+  smtpHost: 'smtp.example.com',
+  password: 'smtp-password',
+};
+
+const newPallet = {
+  code: 'PAL-001',
+  shipmentId: 'shp-1',
+  type: 'EURO',
+  owner: 'Acme Logistics',
+};
+
+describe('PalletReturnPlugin', () => {
+  let kernel: TestKernel<PalletReturnPlugin>;
+  let shipmentService: { findOne: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    shipmentService = { findOne: vi.fn() };
+    kernel = await TestKernel.create(PalletReturnPlugin, manifest, {
+      now: '2024-03-01T09:00:00.000Z',
+      services: { shipmentService },
+    });
+  });
+
+  afterEach(async () => {
+    await kernel.stop();
+  });
+
+  describe('API', () => {
+    it('creates a pallet due after the configured number of days', async () => {
+      const res = await kernel.request('POST', '/pallets', { body: newPallet });
+
+      expect(res.status).toBe(201);
+      expect(res.body).toMatchObject({ ...newPallet, status: 'ISSUED' });
+      expect(new Date(res.body.dueDate).toISOString()).toBe('2024-03-31T09:00:00.000Z');
+    });
+
+    it('uses returnDueDays from the plugin configuration', async () => {
+      const custom = await TestKernel.create(PalletReturnPlugin, manifest, {
+        now: '2024-03-01T09:00:00.000Z',
+        config: { returnDueDays: 7 },
+      });
+
+      const res = await custom.request('POST', '/pallets', { body: newPallet });
+      await custom.stop();
+
+      expect(new Date(res.body.dueDate).toISOString()).toBe('2024-03-08T09:00:00.000Z');
+    });
+
+    it('returns a pallet by the id in the path', async () => {
+      const created = await kernel.request('POST', '/pallets', { body: newPallet });
+      kernel.clock.advanceDays(3);
+
+      const res = await kernel.request('POST', `/pallets/${created.body.id}/return`, {
+        body: { returnLocation: 'Depot Berlin', condition: 'GOOD' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        id: created.body.id,
+        status: 'RETURNED',
+        returnLocation: 'Depot Berlin',
+        condition: 'GOOD',
+      });
+      expect(new Date(res.body.returnedAt).toISOString()).toBe('2024-03-04T09:00:00.000Z');
+    });
+
+    it('rejects returning a pallet twice', async () => {
+      const created = await kernel.request('POST', '/pallets', { body: newPallet });
+      const path = `/pallets/${created.body.id}/return`;
+      const body = { returnLocation: 'Depot Berlin', condition: 'GOOD' };
+
+      await kernel.request('POST', path, { body });
+      const res = await kernel.request('POST', path, { body });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Pallet already returned');
+    });
+
+    it('rejects returning an unknown pallet', async () => {
+      const res = await kernel.request('POST', '/pallets/missing/return', { body: {} });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Pallet missing not found');
+    });
+
+    it('lists pallets filtered by status', async () => {
+      const first = await kernel.request('POST', '/pallets', { body: newPallet });
+      await kernel.request('POST', '/pallets', { body: { ...newPallet, code: 'PAL-002' } });
+      await kernel.request('POST', `/pallets/${first.body.id}/return`, {
+        body: { returnLocation: 'Depot Berlin', condition: 'DAMAGED' },
+      });
+
+      const issued = await kernel.request('GET', '/pallets', { query: { status: 'ISSUED' } });
+      const all = await kernel.request('GET', '/pallets');
+
+      expect(issued.body.pallets.map((p: any) => p.code)).toEqual(['PAL-002']);
+      expect(all.body.pallets).toHaveLength(2);
+    });
+
+    it('answers 404 for routes the plugin does not declare', async () => {
+      const res = await kernel.request('DELETE', '/pallets/1');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('events', () => {
+    it('creates pallets for a delivered shipment and emits pallet.created', async () => {
+      const handled = await kernel.dispatch({
+        type: 'com.tms.shipment.delivered',
+        subject: 'shp-7',
+        data: { shipmentId: 'shp-7', status: 'DELIVERED' },
+      });
+
+      expect(handled).toBe(1);
+      const event = kernel.expectEmitted(PALLET_CREATED_EVENT, { shipmentId: 'shp-7' });
+      expect(event.subject).toBe('shp-7');
+      expect(event.data).toEqual({ shipmentId: 'shp-7', timestamp: '2024-03-01T09:00:00.000Z' });
+
+      const res = await kernel.request('GET', '/pallets', { query: { shipmentId: 'shp-7' } });
+      expect(res.body.pallets).toHaveLength(2);
+    });
+
+    it('ignores other shipment events', async () => {
+      const handled = await kernel.dispatch({
+        type: 'com.tms.shipment.created',
+        data: { shipmentId: 'shp-7' },
+      });
+
+      expect(handled).toBe(0);
+      kernel.expectNotEmitted(PALLET_CREATED_EVENT);
+    });
+  });
+
+  describe('hooks', () => {
+    it('creates pallets after delivery of shipments that require a return', async () => {
+      shipmentService.findOne.mockResolvedValue({ id: 'shp-9', metadata: { requiresPalletReturn: true } });
+
+      const result = await kernel.executeHook('shipment.after.deliver', { shipmentId: 'shp-9' });
+
+      expect(result).toMatchObject({ continue: true });
+      expect(result.error).toBeUndefined();
+      expect(shipmentService.findOne).toHaveBeenCalledWith('shp-9');
+      const res = await kernel.request('GET', '/pallets', { query: { shipmentId: 'shp-9' } });
+      expect(res.body.pallets).toHaveLength(2);
+    });
+
+    it('does not block delivery when the shipment lookup fails', async () => {
+      shipmentService.findOne.mockRejectedValue(new Error('Shipment shp-9 not found'));
+
+      const result = await kernel.executeHook('shipment.after.deliver', { shipmentId: 'shp-9' });
+
+      expect(result).toEqual({ continue: true, error: 'Shipment shp-9 not found' });
+    });
+
+    it('runs next to handlers of other plugins', async () => {
+      shipmentService.findOne.mockResolvedValue({ id: 'shp-9', metadata: {} });
+      const other = vi.fn().mockResolvedValue({ continue: false });
+      kernel.registerHookHandler('shipment.after.deliver', other, { pluginId: 'mod-other', order: 20 });
+
+      const result = await kernel.executeHook('shipment.after.deliver', { shipmentId: 'shp-9' });
+
+      // PARALLEL hooks stop if any handler does
+      expect(result.continue).toBe(false);
+      expect(other).toHaveBeenCalledWith(expect.objectContaining({ pluginId: 'mod-other' }));
+      expect(shipmentService.findOne).toHaveBeenCalled();
+    });
+  });
+
+  describe('workflow actions', () => {
+    it('finds pallets that are overdue', async () => {
+      await kernel.request('POST', '/pallets', { body: newPallet });
+
+      expect(await kernel.runAction('checkOverduePallets')).toEqual({ overdueCount: 0 });
+
+      kernel.clock.advance(31 * DAY_MS);
+      expect(await kernel.runAction('checkOverduePallets')).toEqual({ overdueCount: 1 });
+    });
+
+    it('sends reminders for overdue pallets when configured', async () => {
+      const custom = await TestKernel.create(PalletReturnPlugin, manifest, {
+        config: { reminderEmail },
+      });
+      await custom.request('POST', '/pallets', { body: newPallet });
+      custom.clock.advanceDays(31);
+
+      await custom.runAction('checkOverduePallets');
+      const result = await custom.runAction('sendReminderEmails');
+      await custom.stop();
+
+      expect(result).toEqual({ sent: 1 });
+    });
+
+    it('only runs actions its workflows declare', async () => {
+      await expect(kernel.runAction('uninstall')).rejects.toThrow(/Unknown workflow action 'uninstall'/);
+      await expect(kernel.runAction('getOutstandingPallets')).rejects.toThrow(/Unknown workflow action/);
+    });
+  });
+
+  describe('configuration', () => {
+    it('fills in defaults of nested settings', async () => {
+      const custom = await TestKernel.create(PalletReturnPlugin, manifest, {
+        config: { reminderEmail },
+      });
+      await custom.stop();
+
+      expect(custom.config).toEqual({
+        returnDueDays: 30,
+        reminderEnabled: true,
+        reminderEmail: { ...reminderEmail, smtpPort: 587 },
+      });
+    });
+
+    it('rejects settings that do not match the schema', async () => {
+      await expect(
+        TestKernel.create(PalletReturnPlugin, manifest, {
+          config: { reminderEmail: { from: 'not-an-email' } },
+        }),
+      ).rejects.toThrow(/reminderEmail must have required property 'smtpHost'; reminderEmail.from must match format "email"/);
+    });
+  });
+
+  describe('services', () => {
+    it('exports the pallets of a shipment that are not returned yet', async () => {
+      const created = await kernel.request('POST', '/pallets', { body: newPallet });
+      await kernel.request('POST', '/pallets', { body: { ...newPallet, code: 'PAL-002' } });
+      await kernel.request('POST', `/pallets/${created.body.id}/return`, {
+        body: { returnLocation: 'Depot 1', condition: 'GOOD' },
+      });
+
+      const pallets = await kernel.callService(PalletReturns, 'getOutstandingPallets', 'shp-1');
+
+      expect(pallets.map((p: any) => p.code)).toEqual(['PAL-002']);
+    });
+  });
+
+  describe('permissions', () => {
+    it('cannot use services its manifest does not request', async () => {
+      const restricted = await TestKernel.create(PalletReturnPlugin, manifest, {
+        services: { shipmentService },
+        permissions: { services: [], events: { emit: [PALLET_CREATED_EVENT] } },
+      });
+
+      const result = await restricted.executeHook('shipment.after.deliver', { shipmentId: 'shp-9' });
+      await restricted.stop();
+
+      expect(result.error).toMatch(/not permitted to use service 'shipmentService'/);
+      expect(restricted.violations).toEqual([
+        expect.objectContaining({ permission: 'service', target: 'shipmentService' }),
+      ]);
+      expect(shipmentService.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,10 +7,23 @@ import {
   PluginResponse,
   HookContext,
   HookResult,
+  defineService,
 } from '@tms/plugin-sdk';
 import { CloudEvent, ShipmentEventData } from '@tms/contracts';
+import { z } from 'zod';
 import { PalletService } from './services/pallet.service';
 import { PalletRepository } from './repositories/pallet.repository';
+import { Pallet, PalletReturnsService, ReminderEmailConfig } from './types';
+
+export const PALLET_CREATED_EVENT = 'com.tms.plugin.pallet.created';
+
+// Data of PALLET_CREATED_EVENT
+export const PalletCreatedEventSchema = z.object({
+  shipmentId: z.string(),
+  timestamp: z.string().datetime(),
+});
+
+export const PalletReturns = defineService<PalletReturnsService>('palletReturns', '1.0.0');
 
 export default class PalletReturnPlugin extends Plugin {
   private palletService!: PalletService;
@@ -19,6 +32,8 @@ export default class PalletReturnPlugin extends Plugin {
   async install(config?: Record<string, any>): Promise<void> {
     await super.install(config);
     
+    this.context.eventBus.registerSchema(PALLET_CREATED_EVENT, PalletCreatedEventSchema);
+    
     // Initialize services
     this.palletRepository = new PalletRepository(this.context.dataStore);
     this.palletService = new PalletService(
@@ -121,7 +136,7 @@ export default class PalletReturnPlugin extends Plugin {
       
       // Emit custom event
       await this.emitEvent(
-        'com.tms.plugin.pallet.created',
+        PALLET_CREATED_EVENT,
         { shipmentId, timestamp: new Date().toISOString() },
         shipmentId
       );
@@ -154,6 +169,11 @@ export default class PalletReturnPlugin extends Plugin {
     }
   }
 
+  // Service methods (palletReturns)
+  async getOutstandingPallets(shipmentId: string): Promise<Pallet[]> {
+    return this.palletService.getPallets({ shipmentId, status: 'ISSUED' });
+  }
+
   // Workflow Actions
   async checkOverduePallets(): Promise<any> {
     this.log.info('Checking for overdue pallets');
@@ -181,8 +201,8 @@ export default class PalletReturnPlugin extends Plugin {
       return { sent: 0 };
     }
     
-    const fromEmail = this.getConfig('reminderEmail');
-    if (!fromEmail) {
+    const reminderEmail = this.getConfig<ReminderEmailConfig>('reminderEmail');
+    if (!reminderEmail) {
       this.log.warn('Reminder email not configured');
       return { sent: 0 };
     }
@@ -190,7 +210,7 @@ export default class PalletReturnPlugin extends Plugin {
     // In a real implementation, this would send actual emails
     let sent = 0;
     for (const pallet of overduePallets) {
-      this.log.info(`Would send reminder email for pallet ${pallet.id}`);
+      this.log.info(`Would send reminder email for pallet ${pallet.id} from ${reminderEmail.from} via ${reminderEmail.smtpHost}`);
       sent++;
     }
     
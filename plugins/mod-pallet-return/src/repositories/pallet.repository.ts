@@ -21,15 +21,21 @@ export class PalletRepository {
     shipmentId?: string;
     status?: PalletStatus;
   }): Promise<Pallet[]> {
-    const keys = await this.dataStore.list(this.prefix);
     const pallets: Pallet[] = [];
+    let cursor: string | undefined;
 
-    for (const key of keys) {
-      const pallet = await this.dataStore.get(key);
-      if (pallet && this.matchesFilters(pallet, filters)) {
-        pallets.push(pallet);
+    do {
+      const page = await this.dataStore.listPage(this.prefix, { cursor });
+      const values = await this.dataStore.getMany(page.keys);
+
+      for (const pallet of Object.values(values) as Pallet[]) {
+        if (this.matchesFilters(pallet, filters)) {
+          pallets.push(pallet);
+        }
       }
-    }
+
+      cursor = page.nextCursor;
+    } while (cursor);
 
     return pallets.sort((a, b) => 
       new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -47,42 +53,62 @@ export class PalletRepository {
   private async updateIndices(pallet: Pallet): Promise<void> {
     // Index by shipment
     if (pallet.shipmentId) {
-      const shipmentKey = `index:shipment:${pallet.shipmentId}`;
-      const shipmentPallets = await this.dataStore.get(shipmentKey) || [];
-      if (!shipmentPallets.includes(pallet.id)) {
-        shipmentPallets.push(pallet.id);
-        await this.dataStore.set(shipmentKey, shipmentPallets);
-      }
+      await this.updateIndex(`index:shipment:${pallet.shipmentId}`, ids =>
+        ids.includes(pallet.id) ? ids : [...ids, pallet.id]
+      );
     }
 
-    // Index by status
-    const statusKey = `index:status:${pallet.status}`;
-    const statusPallets = await this.dataStore.get(statusKey) || [];
-    if (!statusPallets.includes(pallet.id)) {
-      statusPallets.push(pallet.id);
-      await this.dataStore.set(statusKey, statusPallets);
+    // Index by status; a pallet is only ever listed under its current status
+    const statuses: PalletStatus[] = ['ISSUED', 'RETURNED', 'LOST'];
+    for (const status of statuses) {
+      await this.updateIndex(`index:status:${status}`, ids => {
+        const others = ids.filter(id => id !== pallet.id);
+        return status === pallet.status ? [...others, pallet.id] : others;
+      });
     }
   }
 
   private async removeFromIndices(pallet: Pallet): Promise<void> {
     // Remove from shipment index
     if (pallet.shipmentId) {
-      const shipmentKey = `index:shipment:${pallet.shipmentId}`;
-      const shipmentPallets = await this.dataStore.get(shipmentKey) || [];
-      const filtered = shipmentPallets.filter((id: string) => id !== pallet.id);
-      await this.dataStore.set(shipmentKey, filtered);
+      await this.updateIndex(`index:shipment:${pallet.shipmentId}`, ids =>
+        ids.filter(id => id !== pallet.id)
+      );
     }
 
     // Remove from status indices
     const statuses: PalletStatus[] = ['ISSUED', 'RETURNED', 'LOST'];
     for (const status of statuses) {
-      const statusKey = `index:status:${status}`;
-      const statusPallets = await this.dataStore.get(statusKey) || [];
-      const filtered = statusPallets.filter((id: string) => id !== pallet.id);
-      await this.dataStore.set(statusKey, filtered);
+      await this.updateIndex(`index:status:${status}`, ids =>
+        ids.filter(id => id !== pallet.id)
+      );
     }
   }
 
+  /**
+   * Read-modify-write an index with compare-and-set, retrying on concurrent updates
+   */
+  private async updateIndex(
+    key: string,
+    update: (ids: string[]) => string[],
+    maxRetries = 5
+  ): Promise<void> {
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      const current: string[] | undefined = await this.dataStore.get(key);
+      const next = update(current || []);
+
+      if (current && next.length === current.length && next.every((id, i) => id === current[i])) {
+        return;
+      }
+
+      if (await this.dataStore.compareAndSet(key, current, next)) {
+        return;
+      }
+    }
+
+    throw new Error(`Concurrent updates to ${key}, giving up after ${maxRetries} attempts`);
+  }
+
   private matchesFilters(
     pallet: Pallet,
     filters?: { shipmentId?: string; status?: PalletStatus }
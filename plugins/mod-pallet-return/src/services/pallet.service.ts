@@ -101,7 +101,8 @@ export class PalletService {
     const now = new Date();
     const allPallets = await this.repository.findAll({ status: 'ISSUED' });
     
-    return allPallets.filter(pallet => pallet.dueDate < now);
+    // Dates come back from the data store as ISO strings
+    return allPallets.filter(pallet => new Date(pallet.dueDate) < now);
   }
 
   private generateId(): string {
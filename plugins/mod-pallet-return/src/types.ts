@@ -27,3 +27,17 @@ export interface ReturnPalletDto {
   returnLocation: string;
   condition: 'GOOD' | 'DAMAGED' | 'REPAIRABLE';
 }
+
+// The palletReturns service other plugins get with getService(PalletReturns)
+export interface PalletReturnsService {
+  getOutstandingPallets(shipmentId: string): Promise<Pallet[]>;
+}
+
+// The reminderEmail configuration
+export interface ReminderEmailConfig {
+  from: string;
+  smtpHost: string;
+  smtpPort: number;
+  username?: string;
+  password?: string;
+}
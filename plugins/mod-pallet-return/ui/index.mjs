@@ -0,0 +1,71 @@
+// UI components of the pallet return plugin, loaded by the web app's
+// <PluginSlot>. Each export receives the host and returns a React component;
+// React comes from the host, so this module has no imports.
+
+const STATUS_COLORS = {
+  ISSUED: 'bg-yellow-100 text-yellow-800',
+  RETURNED: 'bg-green-100 text-green-800',
+  LOST: 'bg-red-100 text-red-800',
+};
+
+export function PalletReturnTab({ React, api }) {
+  const h = React.createElement;
+
+  return function PalletReturnTab({ shipmentId }) {
+    const [pallets, setPallets] = React.useState(null);
+    const [error, setError] = React.useState(null);
+
+    React.useEffect(() => {
+      let active = true;
+      api(`/pallets?shipmentId=${encodeURIComponent(shipmentId)}`)
+        .then(response => {
+          if (!response.ok) throw new Error(`Failed to load pallets: ${response.status}`);
+          return response.json();
+        })
+        .then(body => active && setPallets(body.pallets))
+        .catch(err => active && setError(err.message));
+      return () => {
+        active = false;
+      };
+    }, [shipmentId]);
+
+    if (error) {
+      return h('div', { className: 'text-sm text-red-700' }, error);
+    }
+    if (!pallets) {
+      return h('div', { className: 'text-sm text-gray-500' }, 'Loading pallets...');
+    }
+    if (pallets.length === 0) {
+      return h('div', { className: 'text-sm text-gray-500' }, 'No pallets issued for this shipment.');
+    }
+
+    return h(
+      'table',
+      { className: 'w-full text-sm' },
+      h(
+        'thead',
+        null,
+        h(
+          'tr',
+          { className: 'text-left text-gray-600' },
+          ['Code', 'Type', 'Owner', 'Status', 'Due'].map(label => h('th', { key: label, className: 'py-2' }, label))
+        )
+      ),
+      h(
+        'tbody',
+        null,
+        pallets.map(pallet =>
+          h(
+            'tr',
+            { key: pallet.id, className: 'border-t' },
+            h('td', { className: 'py-2 font-medium' }, pallet.code),
+            h('td', null, pallet.type),
+            h('td', null, pallet.owner),
+            h('td', null, h('span', { className: `px-2 py-0.5 rounded-full text-xs ${STATUS_COLORS[pallet.status] || ''}` }, pallet.status)),
+            h('td', null, new Date(pallet.dueDate).toLocaleDateString())
+          )
+        )
+      )
+    );
+  };
+}